@@ -5,22 +5,43 @@
 
 import type { GameState, GameStats } from '@/types/game.types';
 import type { TransformProgress } from '@/core/ImageTransformManager';
+import type { GameStateMachine } from '@/core/GameStateMachine';
+import type { AchievementDefinition } from '@/config/achievements.config';
+import { createDefaultPhasePipeline, type PhaseDefinition } from '@/config/phases.config';
+import { defaultGameConfig } from '@/config/api.config';
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+
+// UI 事件表
+export type GameUIEvents = {
+  reset: void;
+  pause: void;
+  resume: void;
+  settingsOpen: void;
+  fullscreen: void;
+};
 
 export interface GameUIOptions {
   container: HTMLElement;
-  onReset?: () => void;
-  onPause?: () => void;
-  onResume?: () => void;
-  onSettingsOpen?: () => void;
-  onFullscreen?: () => void;
+  stateMachine: GameStateMachine; // 引擎的状态机，暂停按钮和变形显示跟随它的状态
+  onReset?: () => void; // 等同于 on('reset')
+  onPause?: () => void; // 等同于 on('pause')
+  onResume?: () => void; // 等同于 on('resume')
+  onSettingsOpen?: () => void; // 等同于 on('settingsOpen')
+  onFullscreen?: () => void; // 等同于 on('fullscreen')
   showDebugInfo?: boolean;
   enableKeyboardShortcuts?: boolean;
+  phases?: Array<Pick<PhaseDefinition, 'id' | 'name'>>; // 阶段指示器显示的阶段，默认使用默认流程
 }
 
 export interface UIState {
   isVisible: boolean;
-  isPaused: boolean;
-  isTransforming: boolean;
+  isPaused: boolean; // 取自状态机
+  isTransforming: boolean; // 取自状态机
   showSettings: boolean;
   showDebugInfo: boolean;
 }
@@ -30,28 +51,32 @@ export interface UIState {
  */
 export class GameUI {
   private container: HTMLElement;
-  private options: Required<GameUIOptions>;
-  private state: UIState;
+  private options: Required<Pick<GameUIOptions, 'showDebugInfo' | 'enableKeyboardShortcuts'>>;
+  private events = new EventEmitter<GameUIEvents>('GameUI');
+  private machine: GameStateMachine;
+  private unsubscribeMachine: Unsubscribe | null = null;
+  private state: Omit<UIState, 'isPaused' | 'isTransforming'>;
   private elements: { [key: string]: HTMLElement } = {};
   private keyboardHandler: ((event: KeyboardEvent) => void) | null = null;
+  private phases: Array<Pick<PhaseDefinition, 'id' | 'name'>>;
 
   constructor(options: GameUIOptions) {
     this.container = options.container;
+    this.machine = options.stateMachine;
+    this.phases = options.phases || createDefaultPhasePipeline(defaultGameConfig).phases;
     this.options = {
-      onReset: () => {},
-      onPause: () => {},
-      onResume: () => {},
-      onSettingsOpen: () => {},
-      onFullscreen: () => {},
-      showDebugInfo: false,
-      enableKeyboardShortcuts: true,
-      ...options
+      showDebugInfo: options.showDebugInfo ?? false,
+      enableKeyboardShortcuts: options.enableKeyboardShortcuts ?? true
     };
 
+    if (options.onReset) this.events.on('reset', options.onReset);
+    if (options.onPause) this.events.on('pause', options.onPause);
+    if (options.onResume) this.events.on('resume', options.onResume);
+    if (options.onSettingsOpen) this.events.on('settingsOpen', options.onSettingsOpen);
+    if (options.onFullscreen) this.events.on('fullscreen', options.onFullscreen);
+
     this.state = {
       isVisible: true,
-      isPaused: false,
-      isTransforming: false,
       showSettings: false,
       showDebugInfo: this.options.showDebugInfo
     };
@@ -66,6 +91,10 @@ export class GameUI {
     this.createUI();
     this.bindEvents();
     this.setupKeyboardShortcuts();
+
+    // 暂停和变形的显示只跟随状态机，界面不保存自己的状态
+    this.unsubscribeMachine = this.machine.onTransition(() => this.renderStatus());
+    this.renderStatus();
   }
 
   /**
@@ -81,6 +110,10 @@ export class GameUI {
               <span class="stat-label">点击数</span>
               <span class="stat-value" id="click-count">0</span>
             </div>
+            <div class="stat-item">
+              <span class="stat-label">得分</span>
+              <span class="stat-value" id="score-value">0</span>
+            </div>
             <div class="stat-item">
               <span class="stat-label">连击</span>
               <span class="stat-value" id="combo-count">0</span>
@@ -131,10 +164,7 @@ export class GameUI {
           
           <div class="footer-center">
             <div class="phase-indicator" id="phase-indicator">
-              <div class="phase-step" data-phase="initial">初始</div>
-              <div class="phase-step" data-phase="phase1">轻度</div>
-              <div class="phase-step" data-phase="phase2">重度</div>
-              <div class="phase-step" data-phase="completed">完成</div>
+              ${this.renderPhaseSteps()}
             </div>
           </div>
           
@@ -198,6 +228,16 @@ export class GameUI {
           </div>
         </div>
 
+        <!-- 自动暂停后点击继续 -->
+        <div class="resume-overlay" id="resume-overlay" style="display: none;">
+          <div class="resume-overlay-content">
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M8 5v14l11-7z"/>
+            </svg>
+            <p>点击继续</p>
+          </div>
+        </div>
+
         <!-- 提示信息 -->
         <div class="toast-container" id="toast-container"></div>
       </div>
@@ -210,6 +250,7 @@ export class GameUI {
       footer: this.container.querySelector('#ui-footer')!,
       clickCount: this.container.querySelector('#click-count')!,
       comboCount: this.container.querySelector('#combo-count')!,
+      score: this.container.querySelector('#score-value')!,
       gamePhase: this.container.querySelector('#game-phase')!,
       pauseBtn: this.container.querySelector('#pause-btn')!,
       settingsBtn: this.container.querySelector('#settings-btn')!,
@@ -222,6 +263,7 @@ export class GameUI {
       fpsCounter: this.container.querySelector('#fps-counter')!,
       fpsValue: this.container.querySelector('#fps-value')!,
       settingsModal: this.container.querySelector('#settings-modal')!,
+      resumeOverlay: this.container.querySelector('#resume-overlay')!,
       toastContainer: this.container.querySelector('#toast-container')!
     };
   }
@@ -242,16 +284,22 @@ export class GameUI {
 
     // 全屏按钮
     this.elements.fullscreenBtn.addEventListener('click', () => {
-      this.options.onFullscreen();
+      this.events.emit('fullscreen');
     });
 
     // 重置按钮
     this.elements.resetBtn.addEventListener('click', () => {
       this.showConfirmDialog('确定要重新开始游戏吗？', () => {
-        this.options.onReset();
+        this.events.emit('reset');
       });
     });
 
+    // 点击继续浮层
+    this.elements.resumeOverlay.addEventListener('click', () => {
+      this.hideResumeOverlay();
+      this.events.emit('resume');
+    });
+
     // 设置面板事件
     this.bindSettingsEvents();
   }
@@ -339,12 +387,12 @@ export class GameUI {
           break;
         case 'KeyF':
           event.preventDefault();
-          this.options.onFullscreen();
+          this.events.emit('fullscreen');
           break;
         case 'KeyR':
           if (event.ctrlKey || event.metaKey) {
             event.preventDefault();
-            this.options.onReset();
+            this.events.emit('reset');
           }
           break;
         case 'Escape':
@@ -365,6 +413,11 @@ export class GameUI {
     // 更新点击数
     this.elements.clickCount.textContent = gameState.clickCount.toString();
 
+    // 更新得分
+    if (stats?.score !== undefined) {
+      this.elements.score.textContent = stats.score.toLocaleString();
+    }
+
     // 更新连击数
     if (stats?.currentCombo) {
       this.elements.comboCount.textContent = stats.currentCombo.toString();
@@ -372,22 +425,11 @@ export class GameUI {
     }
 
     // 更新游戏阶段
-    const phaseNames = {
-      initial: '初始',
-      phase1: '轻度变形',
-      phase2: '重度变形',
-      completed: '完成'
-    };
-    this.elements.gamePhase.textContent = phaseNames[gameState.currentPhase] || '未知';
+    const phase = this.phases.find(item => item.id === gameState.currentPhase);
+    this.elements.gamePhase.textContent = phase ? phase.name : '未知';
 
     // 更新阶段指示器
     this.updatePhaseIndicator(gameState.currentPhase);
-
-    // 更新变形状态
-    this.state.isTransforming = gameState.isTransforming;
-    if (gameState.isTransforming) {
-      this.elements.progressContainer.style.display = 'block';
-    }
   }
 
   /**
@@ -411,12 +453,29 @@ export class GameUI {
    * 检查阶段是否已完成
    */
   private isPhaseCompleted(phase: string, currentPhase: string): boolean {
-    const phaseOrder = ['initial', 'phase1', 'phase2', 'completed'];
+    const phaseOrder = this.phases.map(item => item.id);
     const phaseIndex = phaseOrder.indexOf(phase);
     const currentIndex = phaseOrder.indexOf(currentPhase);
     return phaseIndex < currentIndex;
   }
 
+  /**
+   * 生成阶段指示器的步骤
+   */
+  private renderPhaseSteps(): string {
+    return this.phases
+      .map(phase => `<div class="phase-step" data-phase="${phase.id}">${phase.name}</div>`)
+      .join('');
+  }
+
+  /**
+   * 设置阶段列表（阶段流程变化时调用）
+   */
+  setPhases(phases: Array<Pick<PhaseDefinition, 'id' | 'name'>>): void {
+    this.phases = phases.map(({ id, name }) => ({ id, name }));
+    this.elements.phaseIndicator.innerHTML = this.renderPhaseSteps();
+  }
+
   /**
    * 更新变形进度
    */
@@ -442,28 +501,58 @@ export class GameUI {
   }
 
   /**
-   * 切换暂停状态
+   * 切换暂停状态：按状态机的当前状态发出 pause 或 resume，由引擎转换状态后再更新按钮
    */
   private togglePause(): void {
-    this.state.isPaused = !this.state.isPaused;
-    
-    if (this.state.isPaused) {
-      this.options.onPause();
-      this.elements.pauseBtn.innerHTML = `
+    if (this.machine.isRunning()) {
+      this.events.emit('pause');
+    } else if (this.machine.is('paused')) {
+      this.events.emit('resume');
+    }
+  }
+
+  /**
+   * 按状态机的状态更新暂停按钮、变形进度和继续浮层
+   */
+  private renderStatus(): void {
+    const pauseBtn = this.elements.pauseBtn as HTMLButtonElement;
+    // 只有进行中或暂停时可以切换暂停
+    pauseBtn.disabled = !this.machine.isRunning() && !this.machine.is('paused');
+
+    if (this.machine.is('paused')) {
+      pauseBtn.innerHTML = `
         <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
           <path d="M8 5v14l11-7z"/>
         </svg>
       `;
-      this.elements.pauseBtn.title = '继续 (空格)';
+      pauseBtn.title = '继续 (空格)';
     } else {
-      this.options.onResume();
-      this.elements.pauseBtn.innerHTML = `
+      pauseBtn.innerHTML = `
         <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
           <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
         </svg>
       `;
-      this.elements.pauseBtn.title = '暂停 (空格)';
+      pauseBtn.title = '暂停 (空格)';
+      this.hideResumeOverlay();
     }
+
+    if (this.machine.is('transforming')) {
+      this.elements.progressContainer.style.display = 'block';
+    }
+  }
+
+  /**
+   * 显示点击继续浮层（游戏自动暂停后，玩家回到页面时点击继续）
+   */
+  showResumeOverlay(): void {
+    this.elements.resumeOverlay.style.display = 'flex';
+  }
+
+  /**
+   * 隐藏点击继续浮层
+   */
+  hideResumeOverlay(): void {
+    this.elements.resumeOverlay.style.display = 'none';
   }
 
   /**
@@ -473,7 +562,7 @@ export class GameUI {
     this.state.showSettings = true;
     this.elements.settingsModal.style.display = 'flex';
     this.elements.settingsModal.classList.add('fade-in');
-    this.options.onSettingsOpen();
+    this.events.emit('settingsOpen');
   }
 
   /**
@@ -569,6 +658,13 @@ export class GameUI {
     }, 3000);
   }
 
+  /**
+   * 显示成就解锁提示
+   */
+  showAchievementUnlocked(achievement: Pick<AchievementDefinition, 'name' | 'description' | 'icon'>): void {
+    this.showToast(`${achievement.icon} 解锁成就「${achievement.name}」：${achievement.description}`, 'success');
+  }
+
   /**
    * 显示/隐藏UI
    */
@@ -581,7 +677,29 @@ export class GameUI {
    * 获取当前状态
    */
   getState(): UIState {
-    return { ...this.state };
+    return {
+      ...this.state,
+      isPaused: this.machine.is('paused'),
+      isTransforming: this.machine.is('transforming')
+    };
+  }
+
+  /**
+   * 监听UI事件，返回取消订阅函数
+   */
+  on<K extends keyof GameUIEvents>(
+    event: K,
+    listener: EventListener<GameUIEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 取消监听UI事件
+   */
+  off<K extends keyof GameUIEvents>(event: K, listener: EventListener<GameUIEvents[K]>): void {
+    this.events.off(event, listener);
   }
 
   /**
@@ -593,6 +711,11 @@ export class GameUI {
       document.removeEventListener('keydown', this.keyboardHandler);
     }
 
+    // 取消所有订阅
+    this.unsubscribeMachine?.();
+    this.unsubscribeMachine = null;
+    this.events.destroy();
+
     // 清空容器
     this.container.innerHTML = '';
   }
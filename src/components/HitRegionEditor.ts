@@ -0,0 +1,390 @@
+/**
+ * 命中区域编辑器组件
+ * 上传图片后在图片上画矩形或多边形区域（脸、肚子等）并命名，设置得分倍数和命中时的弹幕、音效
+ * 矩形按住拖动画出；多边形逐点点击，双击或点回起点闭合
+ */
+
+import type { HitRegion, HitRegionPoint, HitRegionShape } from '@/core/HitRegions';
+
+export interface HitRegionEditorOptions {
+  container: HTMLElement;
+  onSave?: (regions: HitRegion[]) => void;
+  onCancel?: () => void;
+  maxWidth?: number; // 编辑画布的最大尺寸（像素）
+  maxHeight?: number;
+  sounds?: string[]; // 可选的命中音效（GameAudioSystem 中的音效名）
+}
+
+type DrawTool = 'rect' | 'polygon';
+
+// 点回多边形起点时闭合的距离（像素）
+const CLOSE_DISTANCE = 10;
+// 画出的矩形小于这个尺寸（像素）时忽略
+const MIN_RECT_SIZE = 6;
+
+const REGION_COLORS = ['#ff6b6b', '#4ecdc4', '#ffd93d', '#6c5ce7', '#00b894', '#fd79a8'];
+
+/**
+ * 命中区域编辑器类
+ */
+export class HitRegionEditor {
+  private container: HTMLElement;
+  private options: Required<HitRegionEditorOptions>;
+  private image: HTMLImageElement | null = null;
+  private regions: HitRegion[] = [];
+  private tool: DrawTool = 'rect';
+  private pendingShape: HitRegionShape | null = null;
+  private dragStart: HitRegionPoint | null = null;
+  private polygonPoints: HitRegionPoint[] = [];
+  private nextId = 1;
+
+  // UI元素
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private nameInput: HTMLInputElement | null = null;
+  private multiplierInput: HTMLInputElement | null = null;
+  private danmakuInput: HTMLInputElement | null = null;
+  private soundSelect: HTMLSelectElement | null = null;
+  private addButton: HTMLButtonElement | null = null;
+  private regionList: HTMLElement | null = null;
+
+  constructor(options: HitRegionEditorOptions) {
+    this.container = options.container;
+    this.options = {
+      onSave: () => {},
+      onCancel: () => {},
+      maxWidth: 480,
+      maxHeight: 360,
+      sounds: ['click_light', 'click_medium', 'click_heavy', 'punch_impact', 'combo_hit', 'critical_hit'],
+      ...options
+    };
+
+    this.createUI();
+    this.bindEvents();
+  }
+
+  /**
+   * 打开编辑器，编辑图片上已有的区域
+   */
+  open(image: HTMLImageElement, regions: HitRegion[] = []): void {
+    this.image = image;
+    this.regions = regions.map(region => ({ ...region }));
+    this.nextId = regions.length + 1;
+    this.resetDrawing();
+
+    const scale = Math.min(this.options.maxWidth / image.width, this.options.maxHeight / image.height, 1);
+    this.canvas!.width = Math.max(1, Math.round(image.width * scale));
+    this.canvas!.height = Math.max(1, Math.round(image.height * scale));
+
+    this.renderRegionList();
+    this.draw();
+  }
+
+  /**
+   * 获取编辑中的区域
+   */
+  getRegions(): HitRegion[] {
+    return [...this.regions];
+  }
+
+  /**
+   * 切换绘制工具
+   */
+  setTool(tool: DrawTool): void {
+    this.tool = tool;
+    this.resetDrawing();
+    this.container.querySelectorAll<HTMLButtonElement>('[data-tool]').forEach(button => {
+      button.classList.toggle('active', button.dataset.tool === tool);
+    });
+    this.draw();
+  }
+
+  /**
+   * 销毁组件
+   */
+  destroy(): void {
+    this.container.innerHTML = '';
+    this.canvas = null;
+    this.ctx = null;
+    this.image = null;
+  }
+
+  /**
+   * 创建UI结构
+   */
+  private createUI(): void {
+    this.container.innerHTML = `
+      <div class="hit-region-editor">
+        <div class="hit-region-tools">
+          <button class="action-btn active" data-tool="rect">矩形</button>
+          <button class="action-btn" data-tool="polygon">多边形</button>
+        </div>
+        <canvas class="hit-region-canvas"></canvas>
+        <p class="hit-region-hint">拖动画矩形；多边形逐点点击，双击或点回起点闭合</p>
+        <div class="hit-region-form">
+          <input type="text" class="hit-region-name" maxlength="12" placeholder="区域名称，如：脸" />
+          <label>倍数 <input type="number" class="hit-region-multiplier" min="0.5" max="5" step="0.5" value="2" /></label>
+          <input type="text" class="hit-region-danmaku" maxlength="100" placeholder="命中弹幕，用逗号分隔（可选）" />
+          <select class="hit-region-sound">
+            <option value="">默认音效</option>
+            ${this.options.sounds.map(sound => `<option value="${sound}">${sound}</option>`).join('')}
+          </select>
+          <button class="action-btn hit-region-add" disabled>添加区域</button>
+        </div>
+        <ul class="hit-region-list"></ul>
+        <div class="results-buttons">
+          <button class="action-btn hit-region-save">完成</button>
+          <button class="action-btn hit-region-cancel">跳过</button>
+        </div>
+      </div>
+    `;
+
+    this.canvas = this.container.querySelector('.hit-region-canvas');
+    this.ctx = this.canvas!.getContext('2d');
+    this.nameInput = this.container.querySelector('.hit-region-name');
+    this.multiplierInput = this.container.querySelector('.hit-region-multiplier');
+    this.danmakuInput = this.container.querySelector('.hit-region-danmaku');
+    this.soundSelect = this.container.querySelector('.hit-region-sound');
+    this.addButton = this.container.querySelector('.hit-region-add');
+    this.regionList = this.container.querySelector('.hit-region-list');
+  }
+
+  /**
+   * 绑定事件
+   */
+  private bindEvents(): void {
+    this.container.querySelectorAll<HTMLButtonElement>('[data-tool]').forEach(button => {
+      button.addEventListener('click', () => this.setTool(button.dataset.tool as DrawTool));
+    });
+
+    const canvas = this.canvas!;
+    canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    canvas.addEventListener('pointerup', (e) => this.handlePointerUp(e));
+    canvas.addEventListener('dblclick', () => this.closePolygon());
+
+    this.addButton!.addEventListener('click', () => this.addRegion());
+    this.regionList!.addEventListener('click', (e) => {
+      const id = (e.target as HTMLElement).dataset.removeRegion;
+      if (id) {
+        this.regions = this.regions.filter(region => region.id !== id);
+        this.renderRegionList();
+        this.draw();
+      }
+    });
+
+    this.container.querySelector('.hit-region-save')!.addEventListener('click', () => {
+      this.options.onSave(this.getRegions());
+    });
+    this.container.querySelector('.hit-region-cancel')!.addEventListener('click', () => {
+      this.options.onCancel();
+    });
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    const point = this.getCanvasPoint(event);
+    if (this.tool === 'rect') {
+      this.pendingShape = null;
+      this.dragStart = point;
+      return;
+    }
+
+    // 点回起点时闭合多边形
+    const first = this.polygonPoints[0];
+    if (first && this.polygonPoints.length >= 3 && this.getPixelDistance(first, point) <= CLOSE_DISTANCE) {
+      this.closePolygon();
+      return;
+    }
+
+    this.pendingShape = null;
+    this.polygonPoints.push(point);
+    this.draw();
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (this.tool !== 'rect' || !this.dragStart) return;
+
+    this.pendingShape = this.createRect(this.dragStart, this.getCanvasPoint(event));
+    this.draw();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (this.tool !== 'rect' || !this.dragStart) return;
+
+    const rect = this.createRect(this.dragStart, this.getCanvasPoint(event));
+    this.dragStart = null;
+    const tooSmall = rect.width * this.canvas!.width < MIN_RECT_SIZE || rect.height * this.canvas!.height < MIN_RECT_SIZE;
+    this.setPendingShape(tooSmall ? null : rect);
+  }
+
+  /**
+   * 闭合正在画的多边形（至少 3 个点）
+   */
+  private closePolygon(): void {
+    if (this.tool !== 'polygon') return;
+
+    // 双击会先触发两次 pointerdown，去掉重复的点
+    const points = this.polygonPoints.filter((point, index, all) =>
+      index === 0 || this.getPixelDistance(point, all[index - 1]) > 1
+    );
+    this.polygonPoints = [];
+    this.setPendingShape(points.length >= 3 ? { type: 'polygon', points } : null);
+  }
+
+  private setPendingShape(shape: HitRegionShape | null): void {
+    this.pendingShape = shape;
+    this.addButton!.disabled = !shape;
+    if (shape) {
+      this.nameInput!.focus();
+    }
+    this.draw();
+  }
+
+  /**
+   * 用表单内容和画好的形状添加区域
+   */
+  private addRegion(): void {
+    if (!this.pendingShape) return;
+
+    const multiplier = Number(this.multiplierInput!.value);
+    const danmaku = this.danmakuInput!.value.split(/[,，]/).map(text => text.trim()).filter(Boolean);
+    const sound = this.soundSelect!.value;
+    const reaction = {
+      ...(danmaku.length > 0 ? { danmaku } : {}),
+      ...(sound ? { sound } : {})
+    };
+
+    this.regions.push({
+      id: `region-${this.nextId++}`,
+      name: this.nameInput!.value.trim() || `区域 ${this.regions.length + 1}`,
+      shape: this.pendingShape,
+      multiplier: Number.isFinite(multiplier) && multiplier > 0 ? multiplier : 1,
+      ...(Object.keys(reaction).length > 0 ? { reaction } : {})
+    });
+
+    this.nameInput!.value = '';
+    this.danmakuInput!.value = '';
+    this.setPendingShape(null);
+    this.renderRegionList();
+  }
+
+  private resetDrawing(): void {
+    this.dragStart = null;
+    this.polygonPoints = [];
+    this.setPendingShape(null);
+  }
+
+  private renderRegionList(): void {
+    this.regionList!.innerHTML = this.regions.map((region, index) => `
+      <li>
+        <span class="hit-region-swatch" style="background: ${REGION_COLORS[index % REGION_COLORS.length]}"></span>
+        <span>${escapeHtml(region.name)} ×${region.multiplier}</span>
+        <button class="hit-region-remove" data-remove-region="${region.id}" title="删除">✕</button>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * 绘制图片、已添加的区域和正在画的形状
+   */
+  private draw(): void {
+    const ctx = this.ctx;
+    const canvas = this.canvas;
+    if (!ctx || !canvas) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (this.image) {
+      ctx.drawImage(this.image, 0, 0, canvas.width, canvas.height);
+    }
+
+    this.regions.forEach((region, index) => {
+      this.drawShape(region.shape, REGION_COLORS[index % REGION_COLORS.length], region.name);
+    });
+
+    if (this.pendingShape) {
+      this.drawShape(this.pendingShape, '#ffffff');
+    }
+
+    if (this.polygonPoints.length > 0) {
+      ctx.save();
+      ctx.strokeStyle = '#ffffff';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      this.polygonPoints.forEach((point, index) => {
+        const x = point.x * canvas.width;
+        const y = point.y * canvas.height;
+        if (index === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  private drawShape(shape: HitRegionShape, color: string, label?: string): void {
+    const ctx = this.ctx!;
+    const { width, height } = this.canvas!;
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    if (shape.type === 'rect') {
+      ctx.rect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+    } else {
+      shape.points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point.x * width, point.y * height);
+        } else {
+          ctx.lineTo(point.x * width, point.y * height);
+        }
+      });
+      ctx.closePath();
+    }
+    ctx.globalAlpha = 0.25;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.stroke();
+
+    if (label) {
+      const anchor = shape.type === 'rect' ? shape : shape.points[0];
+      ctx.font = '12px sans-serif';
+      ctx.fillText(label, anchor.x * width + 4, anchor.y * height + 14);
+    }
+    ctx.restore();
+  }
+
+  private createRect(a: HitRegionPoint, b: HitRegionPoint): HitRegionShape & { type: 'rect' } {
+    return {
+      type: 'rect',
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(a.x - b.x),
+      height: Math.abs(a.y - b.y)
+    };
+  }
+
+  /**
+   * 指针位置换算为图片上的归一化坐标
+   */
+  private getCanvasPoint(event: PointerEvent): HitRegionPoint {
+    const rect = this.canvas!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    return {
+      x: rect.width > 0 ? clamp((event.clientX - rect.left) / rect.width) : 0,
+      y: rect.height > 0 ? clamp((event.clientY - rect.top) / rect.height) : 0
+    };
+  }
+
+  private getPixelDistance(a: HitRegionPoint, b: HitRegionPoint): number {
+    return Math.hypot((a.x - b.x) * this.canvas!.width, (a.y - b.y) * this.canvas!.height);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,394 @@
+/**
+ * 图片编辑器组件
+ * 上传图片后、开始游戏前调整图片：拖动画出裁剪框、按比例预设裁剪、90 度旋转、翻转、
+ * 滚轮或双指缩放，以及手动标记脸部位置让裁剪框以它为中心
+ * 编辑结果为 ImageEdit，由 ImageManager.editImage 生成新图片
+ */
+
+import {
+  ASPECT_PRESETS,
+  centerCrop,
+  createCropFromDrag,
+  createImageEdit,
+  fitCropToAspect,
+  flipEdit,
+  getEditOrientation,
+  getOrientedSize,
+  panCrop,
+  rotateEdit,
+  zoomCrop,
+  type AspectPreset,
+  type EditPoint,
+  type ImageEdit
+} from '@/core/ImageEdit';
+import { getOrientationTransform } from '@/utils/ExifParser';
+
+export interface ImageEditorOptions {
+  container: HTMLElement;
+  onConfirm?: (edit: ImageEdit) => void;
+  onCancel?: () => void;
+  maxWidth?: number; // 编辑画布的最大尺寸（像素）
+  maxHeight?: number;
+}
+
+// 拖动的操作：平移裁剪框或画新的裁剪框
+type DragMode = 'pan' | 'draw';
+
+// 画出的裁剪框小于这个尺寸（像素）时视为点击
+const MIN_DRAG_SIZE = 8;
+// 滚轮每格的缩放倍数
+const WHEEL_ZOOM_STEP = 1.1;
+
+/**
+ * 图片编辑器类
+ */
+export class ImageEditor {
+  private container: HTMLElement;
+  private options: Required<ImageEditorOptions>;
+  private image: HTMLImageElement | null = null;
+  private edit: ImageEdit = createImageEdit();
+  private aspect: AspectPreset = 'free';
+  private markingFocus = false;
+  private pointers = new Map<number, EditPoint>(); // 按下的指针（双指缩放）
+  private drag: { mode: DragMode; start: EditPoint; last: EditPoint } | null = null;
+  private pinchDistance = 0;
+
+  // UI元素
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private focusButton: HTMLButtonElement | null = null;
+
+  constructor(options: ImageEditorOptions) {
+    this.container = options.container;
+    this.options = {
+      onConfirm: () => {},
+      onCancel: () => {},
+      maxWidth: 480,
+      maxHeight: 360,
+      ...options
+    };
+
+    this.createUI();
+    this.bindEvents();
+  }
+
+  /**
+   * 打开编辑器，从已有的编辑开始（默认不做调整）
+   */
+  open(image: HTMLImageElement, edit: ImageEdit = createImageEdit()): void {
+    this.image = image;
+    this.edit = { ...edit, crop: { ...edit.crop }, focus: edit.focus ? { ...edit.focus } : null };
+    this.pointers.clear();
+    this.drag = null;
+    this.setAspect('free');
+    this.setMarkingFocus(false);
+    this.resizeCanvas();
+  }
+
+  /**
+   * 获取当前的编辑
+   */
+  getEdit(): ImageEdit {
+    return { ...this.edit, crop: { ...this.edit.crop }, focus: this.edit.focus ? { ...this.edit.focus } : null };
+  }
+
+  /**
+   * 画面旋转 90 度
+   */
+  rotate(clockwise: boolean = true): void {
+    this.edit = rotateEdit(this.edit, clockwise);
+    this.resizeCanvas();
+  }
+
+  /**
+   * 画面水平或垂直翻转
+   */
+  flip(axis: 'horizontal' | 'vertical'): void {
+    this.edit = flipEdit(this.edit, axis);
+    this.draw();
+  }
+
+  /**
+   * 设置裁剪比例，当前裁剪框按新比例调整
+   */
+  setAspect(aspect: AspectPreset): void {
+    this.aspect = aspect;
+    this.edit.crop = fitCropToAspect(this.edit.crop, ASPECT_PRESETS[aspect], this.getImageAspect());
+    this.container.querySelectorAll<HTMLButtonElement>('[data-aspect]').forEach(button => {
+      button.classList.toggle('active', button.dataset.aspect === aspect);
+    });
+    this.draw();
+  }
+
+  /**
+   * 以 anchor（默认裁剪框中心）缩放画面，factor 大于 1 为放大
+   */
+  zoom(factor: number, anchor?: EditPoint): void {
+    this.edit.crop = zoomCrop(this.edit.crop, factor, anchor);
+    this.draw();
+  }
+
+  /**
+   * 标记脸部位置，裁剪框移到以它为中心
+   */
+  setFocus(point: EditPoint): void {
+    this.edit.focus = { ...point };
+    this.edit.crop = centerCrop(this.edit.crop, point);
+    this.draw();
+  }
+
+  /**
+   * 撤销所有调整
+   */
+  reset(): void {
+    this.edit = createImageEdit();
+    this.setAspect('free');
+    this.setMarkingFocus(false);
+    this.resizeCanvas();
+  }
+
+  /**
+   * 销毁组件
+   */
+  destroy(): void {
+    this.container.innerHTML = '';
+    this.canvas = null;
+    this.ctx = null;
+    this.image = null;
+  }
+
+  /**
+   * 创建UI结构
+   */
+  private createUI(): void {
+    const aspectButtons = (Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(aspect => `
+      <button class="action-btn${aspect === 'free' ? ' active' : ''}" data-aspect="${aspect}">${aspect === 'free' ? '自由' : aspect}</button>
+    `).join('');
+
+    this.container.innerHTML = `
+      <div class="image-editor">
+        <div class="image-editor-tools">
+          <button class="action-btn" data-action="rotate-left" title="向左旋转">⟲</button>
+          <button class="action-btn" data-action="rotate-right" title="向右旋转">⟳</button>
+          <button class="action-btn" data-action="flip-horizontal" title="水平翻转">⇋</button>
+          <button class="action-btn" data-action="flip-vertical" title="垂直翻转">⇅</button>
+          <button class="action-btn image-editor-focus" data-action="focus">标记脸部</button>
+        </div>
+        <div class="image-editor-tools">${aspectButtons}</div>
+        <canvas class="image-editor-canvas"></canvas>
+        <p class="image-editor-hint">拖动画出裁剪框，拖动框内移动；滚轮或双指缩放</p>
+        <div class="results-buttons">
+          <button class="action-btn image-editor-confirm">完成</button>
+          <button class="action-btn image-editor-reset">重置</button>
+          <button class="action-btn image-editor-cancel">跳过</button>
+        </div>
+      </div>
+    `;
+
+    this.canvas = this.container.querySelector('.image-editor-canvas');
+    this.ctx = this.canvas!.getContext('2d');
+    this.focusButton = this.container.querySelector('.image-editor-focus');
+  }
+
+  /**
+   * 绑定事件
+   */
+  private bindEvents(): void {
+    const actions: Record<string, () => void> = {
+      'rotate-left': () => this.rotate(false),
+      'rotate-right': () => this.rotate(true),
+      'flip-horizontal': () => this.flip('horizontal'),
+      'flip-vertical': () => this.flip('vertical'),
+      focus: () => this.setMarkingFocus(!this.markingFocus)
+    };
+    this.container.querySelectorAll<HTMLButtonElement>('[data-action]').forEach(button => {
+      button.addEventListener('click', () => actions[button.dataset.action!]?.());
+    });
+    this.container.querySelectorAll<HTMLButtonElement>('[data-aspect]').forEach(button => {
+      button.addEventListener('click', () => this.setAspect(button.dataset.aspect as AspectPreset));
+    });
+
+    const canvas = this.canvas!;
+    canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    canvas.addEventListener('pointerup', (e) => this.handlePointerUp(e));
+    canvas.addEventListener('pointercancel', (e) => this.handlePointerUp(e));
+    canvas.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      this.zoom(e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP, this.getCanvasPoint(e));
+    }, { passive: false });
+
+    this.container.querySelector('.image-editor-confirm')!.addEventListener('click', () => {
+      this.options.onConfirm(this.getEdit());
+    });
+    this.container.querySelector('.image-editor-reset')!.addEventListener('click', () => this.reset());
+    this.container.querySelector('.image-editor-cancel')!.addEventListener('click', () => {
+      this.options.onCancel();
+    });
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    const point = this.getCanvasPoint(event);
+    this.pointers.set(event.pointerId, point);
+    this.canvas!.setPointerCapture?.(event.pointerId);
+
+    // 第二个手指按下时改为双指缩放
+    if (this.pointers.size === 2) {
+      this.drag = null;
+      this.pinchDistance = this.getPinchDistance();
+      return;
+    }
+
+    if (this.markingFocus) {
+      this.setFocus(point);
+      this.setMarkingFocus(false);
+      return;
+    }
+
+    const { crop } = this.edit;
+    const inside = point.x >= crop.x && point.x <= crop.x + crop.width &&
+      point.y >= crop.y && point.y <= crop.y + crop.height;
+    this.drag = { mode: inside ? 'pan' : 'draw', start: point, last: point };
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.pointers.has(event.pointerId)) return;
+
+    const point = this.getCanvasPoint(event);
+    this.pointers.set(event.pointerId, point);
+
+    if (this.pointers.size === 2) {
+      const distance = this.getPinchDistance();
+      if (this.pinchDistance > 0 && distance > 0) {
+        this.zoom(distance / this.pinchDistance, this.getPinchCenter());
+      }
+      this.pinchDistance = distance;
+      return;
+    }
+
+    if (!this.drag) return;
+
+    if (this.drag.mode === 'pan') {
+      this.edit.crop = panCrop(this.edit.crop, point.x - this.drag.last.x, point.y - this.drag.last.y);
+    } else if (this.getDragPixels(this.drag.start, point) >= MIN_DRAG_SIZE) {
+      this.edit.crop = createCropFromDrag(this.drag.start, point, ASPECT_PRESETS[this.aspect], this.getImageAspect());
+    }
+    this.drag.last = point;
+    this.draw();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    if (this.pointers.size < 2) {
+      this.pinchDistance = 0;
+    }
+    if (this.pointers.size === 0) {
+      this.drag = null;
+    }
+  }
+
+  private setMarkingFocus(marking: boolean): void {
+    this.markingFocus = marking;
+    this.focusButton?.classList.toggle('active', marking);
+  }
+
+  /**
+   * 按旋转后的图片比例设置画布尺寸
+   */
+  private resizeCanvas(): void {
+    const canvas = this.canvas;
+    if (!canvas || !this.image) return;
+
+    const { width, height } = getOrientedSize(this.image.width, this.image.height, this.edit.rotation);
+    const scale = Math.min(this.options.maxWidth / width, this.options.maxHeight / height, 1);
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    this.draw();
+  }
+
+  /**
+   * 绘制旋转翻转后的图片、裁剪框外的遮罩和脸部标记
+   */
+  private draw(): void {
+    const ctx = this.ctx;
+    const canvas = this.canvas;
+    if (!ctx || !canvas) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (this.image) {
+      const { width, height, matrix } = getOrientationTransform(
+        getEditOrientation(this.edit),
+        this.image.width,
+        this.image.height
+      );
+      ctx.save();
+      ctx.scale(canvas.width / width, canvas.height / height);
+      ctx.transform(...matrix);
+      ctx.drawImage(this.image, 0, 0);
+      ctx.restore();
+    }
+
+    const { crop, focus } = this.edit;
+    const x = crop.x * canvas.width;
+    const y = crop.y * canvas.height;
+    const w = crop.width * canvas.width;
+    const h = crop.height * canvas.height;
+
+    // 裁剪框外变暗
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.rect(0, 0, canvas.width, canvas.height);
+    ctx.rect(x, y, w, h);
+    ctx.fill('evenodd');
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, w, h);
+
+    if (focus) {
+      ctx.strokeStyle = '#ff6b6b';
+      ctx.beginPath();
+      ctx.arc(focus.x * canvas.width, focus.y * canvas.height, 12, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 旋转后图片的宽高比
+   */
+  private getImageAspect(): number {
+    if (!this.image || this.image.height === 0) return 1;
+
+    const { width, height } = getOrientedSize(this.image.width, this.image.height, this.edit.rotation);
+    return width / height;
+  }
+
+  private getPinchDistance(): number {
+    const [a, b] = Array.from(this.pointers.values());
+    return this.getDragPixels(a, b);
+  }
+
+  private getPinchCenter(): EditPoint {
+    const [a, b] = Array.from(this.pointers.values());
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  }
+
+  private getDragPixels(a: EditPoint, b: EditPoint): number {
+    return Math.hypot((a.x - b.x) * this.canvas!.width, (a.y - b.y) * this.canvas!.height);
+  }
+
+  /**
+   * 指针位置换算为画面上的归一化坐标
+   */
+  private getCanvasPoint(event: MouseEvent): EditPoint {
+    const rect = this.canvas!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    return {
+      x: rect.width > 0 ? clamp((event.clientX - rect.left) / rect.width) : 0,
+      y: rect.height > 0 ? clamp((event.clientY - rect.top) / rect.height) : 0
+    };
+  }
+}
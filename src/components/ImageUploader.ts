@@ -5,15 +5,20 @@
 
 import { ImageManager } from '@/core/ImageManager';
 import { ErrorHandler } from '@/utils/ErrorHandler';
+import type { GameStateMachine, StateTransition } from '@/core/GameStateMachine';
+import type { Unsubscribe } from '@/utils/EventEmitter';
+import { browserPlatform, type GamePlatform } from '@/utils/Platform';
 
 export interface ImageUploaderOptions {
   container: HTMLElement;
+  stateMachine: GameStateMachine; // 引擎的状态机，状态不允许上传时禁用上传区域
   onImageUploaded?: (image: HTMLImageElement) => void;
   onError?: (error: Error) => void;
   onProgress?: (progress: number) => void;
   maxFileSize?: number;
   supportedFormats?: string[];
   showPreview?: boolean;
+  clock?: Pick<GamePlatform, 'setTimeout' | 'clearTimeout'>; // 进度动画使用的定时器，传入 GameClock 时随游戏暂停
 }
 
 export interface UploadState {
@@ -32,6 +37,8 @@ export class ImageUploader {
   private errorHandler: ErrorHandler;
   private options: Required<ImageUploaderOptions>;
   private state: UploadState;
+  private progressTimer: number | null = null;
+  private unsubscribeMachine: Unsubscribe | null = null;
   
   // UI元素
   private uploadArea: HTMLElement | null = null;
@@ -54,8 +61,9 @@ export class ImageUploader {
       onError: () => {},
       onProgress: () => {},
       maxFileSize: 5 * 1024 * 1024,
-      supportedFormats: ['image/jpeg', 'image/png', 'image/webp'],
+      supportedFormats: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic', 'image/heif'],
       showPreview: true,
+      clock: browserPlatform,
       ...options
     };
 
@@ -76,6 +84,9 @@ export class ImageUploader {
   private init(): void {
     this.createUI();
     this.bindEvents();
+
+    this.unsubscribeMachine = this.options.stateMachine.onTransition((transition) => this.handleStatusChange(transition));
+    this.renderUploadArea();
   }
 
   /**
@@ -144,7 +155,7 @@ export class ImageUploader {
 
     // 点击上传区域
     this.uploadArea.addEventListener('click', () => {
-      if (!this.state.isUploading) {
+      if (this.canUpload()) {
         this.fileInput?.click();
       }
     });
@@ -188,6 +199,8 @@ export class ImageUploader {
    * 处理文件上传
    */
   private async handleFileUpload(file: File): Promise<void> {
+    if (!this.canUpload()) return;
+
     try {
       this.setState({
         isUploading: true,
@@ -202,6 +215,7 @@ export class ImageUploader {
 
       // 上传图片
       const image = await this.imageManager.uploadImage(file);
+      this.stopProgress();
 
       this.setState({
         isUploading: false,
@@ -213,13 +227,14 @@ export class ImageUploader {
       this.options.onImageUploaded(image);
 
     } catch (error) {
+      this.stopProgress();
       this.setState({
         isUploading: false,
-        error: error instanceof Error ? error.message : '上传失败'
+        error: this.getErrorMessage(error)
       });
 
       this.showError(this.state.error!);
-      this.options.onError(error instanceof Error ? error : new Error('上传失败'));
+      this.options.onError(error instanceof Error ? error : new Error(this.state.error!));
     }
   }
 
@@ -256,18 +271,33 @@ export class ImageUploader {
    * 模拟上传进度
    */
   private simulateProgress(): void {
+    this.stopProgress();
+
     let progress = 0;
-    const interval = setInterval(() => {
+    const tick = () => {
       progress += Math.random() * 15;
       if (progress >= 90) {
         progress = 90;
-        clearInterval(interval);
+        this.progressTimer = null;
+      } else {
+        this.progressTimer = this.options.clock.setTimeout(tick, 100);
       }
       
       this.setState({ progress });
       this.updateProgressBar(progress);
       this.options.onProgress(progress);
-    }, 100);
+    };
+    this.progressTimer = this.options.clock.setTimeout(tick, 100);
+  }
+
+  /**
+   * 停止进度动画
+   */
+  private stopProgress(): void {
+    if (this.progressTimer !== null) {
+      this.options.clock.clearTimeout(this.progressTimer);
+      this.progressTimer = null;
+    }
   }
 
   /**
@@ -296,6 +326,19 @@ export class ImageUploader {
     this.previewContainer.style.display = 'block';
   }
 
+  /**
+   * 上传失败的提示（ImageManager 抛出的错误对象带有具体原因，如格式不支持）
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+      return (error as { message: string }).message;
+    }
+    return '上传失败';
+  }
+
   /**
    * 显示错误
    */
@@ -349,6 +392,7 @@ export class ImageUploader {
    * 重置上传器
    */
   private resetUploader(): void {
+    this.stopProgress();
     this.setState({
       isUploading: false,
       progress: 0,
@@ -374,6 +418,30 @@ export class ImageUploader {
     this.state = { ...this.state, ...newState };
   }
 
+  /**
+   * 状态机允许开始上传且没有上传进行中
+   */
+  private canUpload(): boolean {
+    return !this.state.isUploading && this.options.stateMachine.can('uploading');
+  }
+
+  /**
+   * 状态机的状态变化时更新上传区域，游戏重置回 idle 时清空预览
+   */
+  private handleStatusChange(transition: StateTransition): void {
+    this.renderUploadArea();
+    if (transition.to === 'idle' && transition.from !== 'uploading') {
+      this.resetUploader();
+    }
+  }
+
+  /**
+   * 游戏进行中不接受新的上传
+   */
+  private renderUploadArea(): void {
+    this.uploadArea?.classList.toggle('disabled', !this.options.stateMachine.can('uploading'));
+  }
+
   /**
    * 获取当前状态
    */
@@ -392,6 +460,10 @@ export class ImageUploader {
    * 销毁组件
    */
   destroy(): void {
+    this.stopProgress();
+    this.unsubscribeMachine?.();
+    this.unsubscribeMachine = null;
+
     // 清理事件监听器
     this.container.innerHTML = '';
     
@@ -3,12 +3,14 @@
  */
 
 import { GameUI } from '../GameUI';
+import { GameStateMachine } from '@/core/GameStateMachine';
 import type { GameState, GameStats } from '@/types/game.types';
 import type { TransformProgress } from '@/core/ImageTransformManager';
 
 describe('GameUI', () => {
   let container: HTMLElement;
   let gameUI: GameUI;
+  let stateMachine: GameStateMachine;
   let mockCallbacks: {
     onReset: jest.Mock;
     onPause: jest.Mock;
@@ -29,8 +31,10 @@ describe('GameUI', () => {
       onFullscreen: jest.fn()
     };
 
+    stateMachine = new GameStateMachine({ initial: 'playing' });
     gameUI = new GameUI({
       container,
+      stateMachine,
       ...mockCallbacks,
       showDebugInfo: true,
       enableKeyboardShortcuts: true
@@ -71,6 +75,7 @@ describe('GameUI', () => {
     it('应该在禁用调试信息时隐藏FPS计数器', () => {
       const uiWithoutDebug = new GameUI({
         container: document.createElement('div'),
+        stateMachine,
         showDebugInfo: false
       });
       
@@ -144,8 +149,7 @@ describe('GameUI', () => {
     });
 
     it('应该显示变形进度容器当正在变形时', () => {
-      const transformingState = { ...mockGameState, isTransforming: true };
-      gameUI.updateGameState(transformingState, mockStats);
+      stateMachine.transition('transforming');
       
       const progressContainer = container.querySelector('#progress-container') as HTMLElement;
       expect(progressContainer.style.display).toBe('block');
@@ -216,6 +220,7 @@ describe('GameUI', () => {
     it('应该在禁用调试信息时不更新FPS', () => {
       const uiWithoutDebug = new GameUI({
         container: document.createElement('div'),
+        stateMachine,
         showDebugInfo: false
       });
       
@@ -235,6 +240,9 @@ describe('GameUI', () => {
       pauseBtn.click();
       
       expect(mockCallbacks.onPause).toHaveBeenCalled();
+      // 按钮跟随状态机，引擎暂停后才显示继续
+      expect(pauseBtn.title).toContain('暂停');
+      stateMachine.transition('paused');
       expect(pauseBtn.title).toContain('继续');
     });
 
@@ -242,16 +250,28 @@ describe('GameUI', () => {
       const pauseBtn = container.querySelector('#pause-btn') as HTMLButtonElement;
       
       // 先暂停
-      pauseBtn.click();
-      jest.clearAllMocks();
+      stateMachine.transition('paused');
       
       // 再继续
       pauseBtn.click();
       
       expect(mockCallbacks.onResume).toHaveBeenCalled();
+      expect(mockCallbacks.onPause).not.toHaveBeenCalled();
+      stateMachine.transition('playing');
       expect(pauseBtn.title).toContain('暂停');
     });
 
+    it('应该在游戏未开始时禁用暂停按钮', () => {
+      const pauseBtn = container.querySelector('#pause-btn') as HTMLButtonElement;
+      
+      stateMachine.transition('idle');
+      pauseBtn.click();
+      
+      expect(pauseBtn.disabled).toBe(true);
+      expect(mockCallbacks.onPause).not.toHaveBeenCalled();
+      expect(mockCallbacks.onResume).not.toHaveBeenCalled();
+    });
+
     it('应该处理设置按钮点击', () => {
       const settingsBtn = container.querySelector('#settings-btn') as HTMLButtonElement;
       
@@ -493,6 +513,7 @@ describe('GameUI', () => {
     it('应该在禁用快捷键时不响应', () => {
       const uiWithoutShortcuts = new GameUI({
         container: document.createElement('div'),
+        stateMachine,
         enableKeyboardShortcuts: false
       });
       
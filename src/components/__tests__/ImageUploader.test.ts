@@ -3,6 +3,7 @@
  */
 
 import { ImageUploader } from '../ImageUploader';
+import { GameStateMachine } from '@/core/GameStateMachine';
 
 // Mock ImageManager
 jest.mock('@/core/ImageManager', () => ({
@@ -51,6 +52,7 @@ global.Image = MockImage as any;
 describe('ImageUploader', () => {
   let container: HTMLElement;
   let uploader: ImageUploader;
+  let stateMachine: GameStateMachine;
   let mockOnImageUploaded: jest.Mock;
   let mockOnError: jest.Mock;
   let mockOnProgress: jest.Mock;
@@ -66,8 +68,10 @@ describe('ImageUploader', () => {
     mockOnProgress = jest.fn();
 
     // 创建上传器实例
+    stateMachine = new GameStateMachine();
     uploader = new ImageUploader({
       container,
+      stateMachine,
       onImageUploaded: mockOnImageUploaded,
       onError: mockOnError,
       onProgress: mockOnProgress,
@@ -136,6 +140,21 @@ describe('ImageUploader', () => {
       
       expect(fileInput.click).not.toHaveBeenCalled();
     });
+
+    it('应该在游戏进行中时禁用上传区域', () => {
+      const uploadArea = container.querySelector('.upload-area') as HTMLElement;
+      const fileInput = container.querySelector('#file-input') as HTMLInputElement;
+      
+      fileInput.click = jest.fn();
+      
+      stateMachine.transition('uploading');
+      stateMachine.transition('ready');
+      stateMachine.transition('playing');
+      uploadArea.click();
+      
+      expect(uploadArea.classList.contains('disabled')).toBe(true);
+      expect(fileInput.click).not.toHaveBeenCalled();
+    });
   });
 
   describe('文件选择处理', () => {
@@ -384,6 +403,7 @@ describe('ImageUploader', () => {
     it('应该支持禁用预览功能', () => {
       const noPreviewUploader = new ImageUploader({
         container: document.createElement('div'),
+        stateMachine,
         showPreview: false
       });
       
@@ -396,6 +416,7 @@ describe('ImageUploader', () => {
     it('应该支持自定义文件大小限制', () => {
       const customUploader = new ImageUploader({
         container: document.createElement('div'),
+        stateMachine,
         maxFileSize: 2 * 1024 * 1024 // 2MB
       });
       
@@ -0,0 +1,57 @@
+/**
+ * 成就配置
+ * 成就以数据声明，解锁条件由条件类型和目标值描述，由 AchievementSystem 统一判定
+ */
+
+export type AchievementCondition =
+  | { type: 'transforms'; count: number } // 累计成功变形次数
+  | { type: 'combo'; combo: number } // 单次达到的连击数
+  | { type: 'lifetimeClicks'; clicks: number } // 累计点击次数
+  | { type: 'allPhasesWithin'; time: number } // 在限定游戏时间（毫秒）内进入最后一个阶段
+  | { type: 'shares'; count: number }; // 累计分享次数
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  condition: AchievementCondition;
+}
+
+export const defaultAchievements: AchievementDefinition[] = [
+  {
+    id: 'first_transform',
+    name: '初次变身',
+    description: '第一次完成图片变形',
+    icon: '🐣',
+    condition: { type: 'transforms', count: 1 }
+  },
+  {
+    id: 'combo_50',
+    name: '连击大师',
+    description: '达成 50 连击',
+    icon: '🔥',
+    condition: { type: 'combo', combo: 50 }
+  },
+  {
+    id: 'clicks_1000',
+    name: '千锤百炼',
+    description: '累计点击 1000 次',
+    icon: '💪',
+    condition: { type: 'lifetimeClicks', clicks: 1000 }
+  },
+  {
+    id: 'speed_run',
+    name: '速战速决',
+    description: '30 秒内完成所有阶段',
+    icon: '⚡',
+    condition: { type: 'allPhasesWithin', time: 30000 }
+  },
+  {
+    id: 'first_share',
+    name: '独乐乐不如众乐乐',
+    description: '分享一次战绩',
+    icon: '📣',
+    condition: { type: 'shares', count: 1 }
+  }
+];
@@ -2,10 +2,13 @@
  * API和游戏配置
  */
 
+import type { PhasePipelineConfig } from './phases.config';
+
 export interface GameConfig {
   // 点击阈值配置
   phase1Threshold: number;
   phase2Threshold: number;
+  phasePipeline?: PhasePipelineConfig; // 阶段流程，不设置时由上面两个阈值组成默认的三阶段流程
   
   // API配置
   apiEndpoint: string;
@@ -23,10 +26,17 @@ export interface GameConfig {
   // 性能配置
   targetFPS: number;
   maxParticles: number;
+  fixedTimeStep: number; // 模拟步长（毫秒）
+  maxCatchUpSteps: number; // 每帧最多追赶的模拟步数
+  maxFrameTime: number; // 单帧计入的最长时间（毫秒），防止标签页挂起后追帧
   
   // 弹幕配置
   maxDanmaku: number;
   danmakuSpeed: number;
+  
+  // 计时模式配置
+  timedModeDuration: number; // 计时模式时长（毫秒）
+  timedModeExpectedCPS: number; // 预期的平均点击速度，用于按时长缩放阶段阈值
 }
 
 export const defaultGameConfig: GameConfig = {
@@ -41,7 +51,7 @@ export const defaultGameConfig: GameConfig = {
   
   // 图片配置
   maxImageSize: 5 * 1024 * 1024, // 5MB
-  supportedFormats: ['image/jpeg', 'image/png', 'image/webp'],
+  supportedFormats: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic', 'image/heif'],
   
   // 音频配置
   enableAudio: true,
@@ -50,8 +60,67 @@ export const defaultGameConfig: GameConfig = {
   // 性能配置
   targetFPS: 60,
   maxParticles: 100,
+  fixedTimeStep: 1000 / 60,
+  maxCatchUpSteps: 5,
+  maxFrameTime: 250,
   
   // 弹幕配置
   maxDanmaku: 20,
-  danmakuSpeed: 2
-};
\ No newline at end of file
+  danmakuSpeed: 2,
+  
+  // 计时模式
+  timedModeDuration: 60000,
+  timedModeExpectedCPS: 5
+};
+
+export interface APIConfig {
+  jimengAI: {
+    endpoint: string;
+    apiKey: string;
+    defaultModel: string;
+    transformPrompts: Record<string, string>; // 按变形预设 id 索引
+    defaultParams: {
+      strength: Record<string, number>;
+      steps: number;
+      guidance_scale: number;
+      width: number;
+      height: number;
+    };
+    timeout: number;
+    retryCount: number;
+  };
+}
+
+/**
+ * 获取API配置
+ * API密钥从构建环境变量 VITE_JIMENG_API_KEY 读取，不写入源码
+ */
+export function getAPIConfig(): APIConfig {
+  const env = (import.meta as any).env || {};
+
+  return {
+    jimengAI: {
+      endpoint: env.VITE_JIMENG_API_ENDPOINT || 'https://api.jimengai.com/image2image',
+      apiKey: env.VITE_JIMENG_API_KEY || '',
+      defaultModel: env.VITE_JIMENG_MODEL || 'jimeng-image2image',
+      transformPrompts: {
+        light: 'cute cartoon style, slightly exaggerated expression, playful',
+        heavy: 'turn into an adorable fluffy pet, cartoon style, big eyes'
+      },
+      defaultParams: {
+        strength: { light: 0.4, heavy: 0.8 },
+        steps: 30,
+        guidance_scale: 7.5,
+        width: 512,
+        height: 512
+      },
+      timeout: defaultGameConfig.apiTimeout,
+      retryCount: defaultGameConfig.maxRetries
+    }
+  };
+}
+
+/**
+ * 上传区域的格式提示，页面初始化和上传区域复位时共用
+ */
+export const UPLOAD_HINT = `支持 JPG、PNG、WEBP、HEIC、AVIF 和 GIF 动图，最大 ${defaultGameConfig.maxImageSize / 1024 / 1024}MB`;
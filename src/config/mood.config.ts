@@ -0,0 +1,23 @@
+/**
+ * 心情打卡配置
+ * 心情评分使用 1-5 分量表，情绪标签可多选
+ */
+
+export interface MoodLevel {
+  value: number;
+  emoji: string;
+  label: string;
+}
+
+export const moodScale: MoodLevel[] = [
+  { value: 1, emoji: '😡', label: '很糟' },
+  { value: 2, emoji: '😟', label: '不太好' },
+  { value: 3, emoji: '😐', label: '一般' },
+  { value: 4, emoji: '🙂', label: '还不错' },
+  { value: 5, emoji: '😄', label: '很好' }
+];
+
+export const emotionTags: string[] = ['愤怒', '烦躁', '焦虑', '委屈', '疲惫', '难过', '平静', '轻松', '开心'];
+
+export const MOOD_MIN = moodScale[0].value;
+export const MOOD_MAX = moodScale[moodScale.length - 1].value;
@@ -0,0 +1,152 @@
+/**
+ * 阶段配置
+ * 游戏阶段以数据定义：每个阶段有进入阈值、变形预设、弹幕包、环境音和特效强度
+ */
+
+import type { GameConfig } from './api.config';
+
+/**
+ * 变形预设 id
+ */
+export type TransformType = string;
+
+export interface TransformPreset {
+  prompt?: string; // 不设置时使用 API 配置中同名预设的提示词
+  strength: number;
+  steps: number;
+  soundStyle: 'light' | 'heavy'; // 变形完成时的音效
+}
+
+export interface DanmakuPack {
+  messages: string[];
+  colors?: string[];
+}
+
+export interface PhaseDefinition {
+  id: string;
+  name: string;
+  threshold: number; // 进入该阶段所需的累计点击数
+  transformPreset?: TransformType; // 进入该阶段时执行的变形
+  danmakuPack?: string; // 不设置时使用弹幕系统的默认消息
+  ambientSound?: string; // 循环播放的环境音，不设置时不播放
+  effectIntensity?: number; // 特效强度倍数，默认 1
+}
+
+export interface PhasePipelineConfig {
+  phases: PhaseDefinition[]; // 第一个阶段为起始阶段（阈值 0），其余按阈值递增
+  transformPresets: Record<TransformType, TransformPreset>;
+  danmakuPacks: Record<string, DanmakuPack>;
+}
+
+export const defaultTransformPresets: Record<TransformType, TransformPreset> = {
+  light: { strength: 0.4, steps: 30, soundStyle: 'light' },
+  heavy: { strength: 0.8, steps: 40, soundStyle: 'heavy' }
+};
+
+/**
+ * 根据游戏配置创建默认的三阶段流程（初始 -> 轻度变形 -> 重度变形）
+ */
+export function createDefaultPhasePipeline(
+  config: Pick<GameConfig, 'phase1Threshold' | 'phase2Threshold'>
+): PhasePipelineConfig {
+  return {
+    phases: [
+      { id: 'initial', name: '初始', threshold: 0 },
+      { id: 'phase1', name: '轻度变形', threshold: config.phase1Threshold, transformPreset: 'light' },
+      { id: 'phase2', name: '重度变形', threshold: config.phase2Threshold, transformPreset: 'heavy' }
+    ],
+    transformPresets: { ...defaultTransformPresets },
+    danmakuPacks: {}
+  };
+}
+
+/**
+ * 五阶段闯关流程
+ */
+export const campaignPhasePipeline: PhasePipelineConfig = {
+  phases: [
+    { id: 'initial', name: '热身', threshold: 0, effectIntensity: 0.8 },
+    { id: 'annoyed', name: '不耐烦', threshold: 30, transformPreset: 'light', danmakuPack: 'pleading' },
+    { id: 'angry', name: '生气', threshold: 80, transformPreset: 'medium', danmakuPack: 'pleading', effectIntensity: 1.2 },
+    {
+      id: 'furious',
+      name: '暴怒',
+      threshold: 150,
+      transformPreset: 'heavy',
+      danmakuPack: 'desperate',
+      ambientSound: 'tension',
+      effectIntensity: 1.5
+    },
+    {
+      id: 'finale',
+      name: '终极',
+      threshold: 250,
+      transformPreset: 'ultimate',
+      danmakuPack: 'surrender',
+      ambientSound: 'tension',
+      effectIntensity: 2
+    }
+  ],
+  transformPresets: {
+    ...defaultTransformPresets,
+    medium: {
+      prompt: 'chibi cartoon style, exaggerated angry expression, comic',
+      strength: 0.6,
+      steps: 35,
+      soundStyle: 'light'
+    },
+    ultimate: {
+      prompt: 'tiny fluffy kitten wearing a sad face, cartoon style, big teary eyes',
+      strength: 0.9,
+      steps: 45,
+      soundStyle: 'heavy'
+    }
+  },
+  danmakuPacks: {
+    pleading: {
+      messages: ['别打了！', '有话好好说！', '我错了还不行吗？', '轻点轻点！']
+    },
+    desperate: {
+      messages: ['救命啊！', '我真的知道错了！', '再打就变形了！', '住手啊！'],
+      colors: ['#ff6b6b', '#ff4757', '#ffa502']
+    },
+    surrender: {
+      messages: ['我投降！', '你赢了！', '喵……', '再也不敢了！'],
+      colors: ['#ff9ff3', '#feca57', '#54a0ff']
+    }
+  }
+};
+
+/**
+ * 获取并校验游戏配置中的阶段流程，未配置时使用默认流程
+ */
+export function resolvePhasePipeline(config: GameConfig): PhasePipelineConfig {
+  const pipeline = config.phasePipeline || createDefaultPhasePipeline(config);
+  const { phases, transformPresets, danmakuPacks } = pipeline;
+
+  if (phases.length === 0 || phases[0].threshold !== 0) {
+    throw new Error('Phase pipeline must start with a phase at threshold 0');
+  }
+
+  const ids = new Set<string>();
+  phases.forEach((phase, index) => {
+    if (ids.has(phase.id)) {
+      throw new Error(`Duplicate phase id: ${phase.id}`);
+    }
+    ids.add(phase.id);
+
+    if (index > 0 && phase.threshold <= phases[index - 1].threshold) {
+      throw new Error(`Phase thresholds must increase: ${phase.id}`);
+    }
+
+    if (phase.transformPreset && !transformPresets[phase.transformPreset]) {
+      throw new Error(`Unknown transform preset "${phase.transformPreset}" in phase ${phase.id}`);
+    }
+
+    if (phase.danmakuPack && !danmakuPacks[phase.danmakuPack]) {
+      throw new Error(`Unknown danmaku pack "${phase.danmakuPack}" in phase ${phase.id}`);
+    }
+  });
+
+  return pipeline;
+}
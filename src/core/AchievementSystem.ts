@@ -0,0 +1,229 @@
+/**
+ * 成就系统
+ * 接收游戏事件、更新累计计数，按声明的条件解锁成就并持久化
+ */
+
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+import {
+  defaultAchievements,
+  type AchievementCondition,
+  type AchievementDefinition
+} from '@/config/achievements.config';
+import { AchievementStore, type AchievementProgress } from '@/services/AchievementStore';
+
+/**
+ * 成就系统关心的游戏事件
+ */
+export type AchievementEvent =
+  | { type: 'click'; combo: number }
+  | { type: 'transform'; success: boolean }
+  | { type: 'phaseChange'; phaseIndex: number; phaseCount: number; gameTime: number }
+  | { type: 'share' };
+
+export interface AchievementUnlock {
+  achievement: AchievementDefinition;
+  unlockedAt: number;
+}
+
+export interface AchievementStatus extends AchievementDefinition {
+  unlocked: boolean;
+  unlockedAt: number | null;
+  progress: number; // 0-1
+}
+
+export interface AchievementSystemOptions {
+  definitions?: AchievementDefinition[];
+  store?: AchievementStore | null; // 进度存储，null 表示不保存
+  now?: () => number; // 记录解锁时间的时钟
+}
+
+// 成就事件表
+export type AchievementEvents = {
+  unlock: AchievementUnlock;
+};
+
+/**
+ * 成就系统类
+ */
+export class AchievementSystem {
+  private definitions: AchievementDefinition[];
+  private store: AchievementStore | null;
+  private now: () => number;
+  private progress: AchievementProgress;
+  private sessionUnlocks: AchievementUnlock[] = [];
+  private events = new EventEmitter<AchievementEvents>('AchievementSystem');
+
+  constructor(options: AchievementSystemOptions = {}) {
+    this.definitions = options.definitions || defaultAchievements;
+    this.store = options.store !== undefined ? options.store : new AchievementStore();
+    this.now = options.now || Date.now;
+    this.progress = this.store ? this.store.load() : { unlocked: {}, counters: {} };
+  }
+
+  /**
+   * 处理一个游戏事件，返回因此解锁的成就
+   */
+  handle(event: AchievementEvent): AchievementUnlock[] {
+    this.updateCounters(event);
+
+    const unlocks: AchievementUnlock[] = [];
+    this.definitions.forEach(achievement => {
+      if (this.progress.unlocked[achievement.id] === undefined && this.isSatisfied(achievement.condition, event)) {
+        const unlock = { achievement, unlockedAt: this.now() };
+        this.progress.unlocked[achievement.id] = unlock.unlockedAt;
+        unlocks.push(unlock);
+      }
+    });
+
+    this.store?.save(this.progress);
+
+    unlocks.forEach(unlock => {
+      this.sessionUnlocks.push(unlock);
+      this.events.emit('unlock', unlock);
+    });
+
+    return unlocks;
+  }
+
+  /**
+   * 更新累计计数
+   */
+  private updateCounters(event: AchievementEvent): void {
+    const counters = this.progress.counters;
+
+    switch (event.type) {
+      case 'click':
+        counters.clicks = (counters.clicks || 0) + 1;
+        counters.bestCombo = Math.max(counters.bestCombo || 0, event.combo);
+        break;
+      case 'transform':
+        if (event.success) {
+          counters.transforms = (counters.transforms || 0) + 1;
+        }
+        break;
+      case 'share':
+        counters.shares = (counters.shares || 0) + 1;
+        break;
+    }
+  }
+
+  /**
+   * 判断解锁条件是否满足
+   */
+  private isSatisfied(condition: AchievementCondition, event: AchievementEvent): boolean {
+    switch (condition.type) {
+      case 'allPhasesWithin':
+        return event.type === 'phaseChange' &&
+          event.phaseIndex === event.phaseCount - 1 &&
+          event.gameTime <= condition.time;
+      default:
+        return this.getProgress(condition) >= 1;
+    }
+  }
+
+  /**
+   * 计算条件的完成进度 (0-1)，只对累计类条件有意义
+   */
+  private getProgress(condition: AchievementCondition): number {
+    const counters = this.progress.counters;
+
+    switch (condition.type) {
+      case 'transforms':
+        return Math.min((counters.transforms || 0) / condition.count, 1);
+      case 'combo':
+        return Math.min((counters.bestCombo || 0) / condition.combo, 1);
+      case 'lifetimeClicks':
+        return Math.min((counters.clicks || 0) / condition.clicks, 1);
+      case 'shares':
+        return Math.min((counters.shares || 0) / condition.count, 1);
+      case 'allPhasesWithin':
+        return 0;
+    }
+  }
+
+  /**
+   * 获取全部成就及其状态
+   */
+  getAchievements(): AchievementStatus[] {
+    return this.definitions.map(achievement => {
+      const unlockedAt = this.progress.unlocked[achievement.id] ?? null;
+      return {
+        ...achievement,
+        unlocked: unlockedAt !== null,
+        unlockedAt,
+        progress: unlockedAt !== null ? 1 : this.getProgress(achievement.condition)
+      };
+    });
+  }
+
+  /**
+   * 获取已解锁的成就
+   */
+  getUnlocked(): AchievementStatus[] {
+    return this.getAchievements().filter(achievement => achievement.unlocked);
+  }
+
+  /**
+   * 获取本局解锁的成就
+   */
+  getSessionUnlocks(): AchievementUnlock[] {
+    return [...this.sessionUnlocks];
+  }
+
+  /**
+   * 开始新的一局（不影响已解锁的成就）
+   */
+  resetSession(): void {
+    this.sessionUnlocks = [];
+  }
+
+  /**
+   * 清除全部成就进度
+   */
+  clear(): void {
+    this.progress = { unlocked: {}, counters: {} };
+    this.sessionUnlocks = [];
+    this.store?.clear();
+  }
+
+  /**
+   * 监听成就事件，返回取消订阅函数
+   */
+  on<K extends keyof AchievementEvents>(
+    event: K,
+    listener: EventListener<AchievementEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 监听一次成就事件
+   */
+  once<K extends keyof AchievementEvents>(
+    event: K,
+    listener: EventListener<AchievementEvents[K]>,
+    options?: Omit<ListenerOptions, 'once'>
+  ): Unsubscribe {
+    return this.events.once(event, listener, options);
+  }
+
+  /**
+   * 取消监听成就事件
+   */
+  off<K extends keyof AchievementEvents>(event: K, listener: EventListener<AchievementEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * 销毁成就系统
+   */
+  destroy(): void {
+    this.events.destroy();
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * 自适应节奏
+ * 在开局的几秒内测量玩家的点击速度（来自 InteractionManager.getClickStats），
+ * 据此缩放阶段阈值、弹幕概率和特效强度，让点得慢和点得快的玩家都能在目标时长内看到所有变形
+ */
+
+import type { PhaseDefinition } from '@/config/phases.config';
+
+export interface AdaptivePacingOptions {
+  targetSessionLength?: number; // 期望到达最后阶段的时长（毫秒）
+  calibrationDuration?: number; // 从第一次点击开始测量点击速度的时长（毫秒）
+  minScale?: number; // 阈值缩放的下限
+  maxScale?: number; // 阈值缩放的上限
+}
+
+/**
+ * 测量点击速度需要的点击统计（InteractionManager.getClickStats 的子集）
+ */
+export interface PacingClickStats {
+  totalClicks: number;
+}
+
+/**
+ * 测量后得到的节奏
+ */
+export interface PacingProfile {
+  clicksPerSecond: number;
+  thresholdScale: number; // 阶段阈值倍数
+  danmakuRate: number; // 弹幕概率倍数，点得快时降低，使每个阶段的弹幕数量大致不变
+  effectIntensity: number; // 特效强度倍数，点得慢时加强每次点击的反馈
+}
+
+const DANMAKU_RATE_RANGE = [0.5, 2] as const;
+const EFFECT_INTENSITY_RANGE = [0.75, 1.5] as const;
+
+function clamp(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * 按点击速度计算节奏：以该速度点击时，刚好在目标时长内到达最后阶段
+ */
+export function calculatePacing(
+  clicksPerSecond: number,
+  finalThreshold: number,
+  options: Required<Pick<AdaptivePacingOptions, 'targetSessionLength' | 'minScale' | 'maxScale'>>
+): PacingProfile {
+  const expectedClicks = clicksPerSecond * (options.targetSessionLength / 1000);
+  const thresholdScale = finalThreshold > 0
+    ? clamp(expectedClicks / finalThreshold, [options.minScale, options.maxScale])
+    : 1;
+
+  return {
+    clicksPerSecond,
+    thresholdScale,
+    danmakuRate: clamp(1 / thresholdScale, DANMAKU_RATE_RANGE),
+    effectIntensity: clamp(1 / Math.sqrt(thresholdScale), EFFECT_INTENSITY_RANGE)
+  };
+}
+
+/**
+ * 按倍数缩放阶段阈值，返回新的阈值列表
+ * 已到达的阶段保持原阈值；未到达的阶段阈值保持递增且高于当前点击数，调整节奏不会让阶段立即跳变
+ */
+export function scalePhaseThresholds(phases: PhaseDefinition[], scale: number, clickCount: number): number[] {
+  let previous = 0;
+  return phases.map((phase, index) => {
+    if (index === 0 || phase.threshold <= clickCount) {
+      previous = phase.threshold;
+      return phase.threshold;
+    }
+
+    const threshold = Math.max(previous + 1, clickCount + 1, Math.round(phase.threshold * scale));
+    previous = threshold;
+    return threshold;
+  });
+}
+
+/**
+ * 自适应节奏类
+ * 每帧以游戏时间调用 update，测量完成时返回一次节奏，之后不再变化，直到 reset
+ */
+export class AdaptivePacing {
+  private options: Required<AdaptivePacingOptions>;
+  private baseClicks: number | null = null; // 开始测量前的累计点击数
+  private elapsed = 0; // 第一次点击后经过的游戏时间
+  private started = false;
+  private profile: PacingProfile | null = null;
+
+  constructor(options: AdaptivePacingOptions = {}) {
+    this.options = {
+      targetSessionLength: 60000,
+      calibrationDuration: 5000,
+      minScale: 0.3,
+      maxScale: 3,
+      ...options
+    };
+
+    if (this.options.calibrationDuration <= 0 || this.options.targetSessionLength <= 0) {
+      throw new Error('AdaptivePacing requires positive durations');
+    }
+  }
+
+  /**
+   * 推进测量，测量完成的那一帧返回节奏，其余时候返回 null
+   */
+  update(deltaTime: number, stats: PacingClickStats, finalThreshold: number): PacingProfile | null {
+    if (this.profile) return null;
+
+    if (this.baseClicks === null) {
+      this.baseClicks = stats.totalClicks;
+    }
+
+    // 从第一次点击开始计时，开局发呆不算作点得慢
+    const clicks = stats.totalClicks - this.baseClicks;
+    if (!this.started) {
+      if (clicks === 0) return null;
+      this.started = true;
+      return null;
+    }
+
+    this.elapsed += deltaTime;
+    if (this.elapsed < this.options.calibrationDuration) {
+      return null;
+    }
+
+    this.profile = calculatePacing(clicks / (this.elapsed / 1000), finalThreshold, this.options);
+    return this.profile;
+  }
+
+  /**
+   * 获取测量得到的节奏，尚未测量完成时返回 null
+   */
+  getProfile(): PacingProfile | null {
+    return this.profile ? { ...this.profile } : null;
+  }
+
+  isCalibrated(): boolean {
+    return this.profile !== null;
+  }
+
+  /**
+   * 开始新的一局，重新测量
+   */
+  reset(): void {
+    this.baseClicks = null;
+    this.elapsed = 0;
+    this.started = false;
+    this.profile = null;
+  }
+}
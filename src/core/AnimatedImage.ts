@@ -0,0 +1,64 @@
+/**
+ * 动图
+ * 把解码后的 GIF 按播放时间画到 Canvas 上，作为目标时代替静态的第一帧绘制
+ */
+
+import { GifCompositor, type GifImage } from '@/utils/GifDecoder';
+
+/**
+ * 动图类
+ */
+export class AnimatedImage {
+  private compositor: GifCompositor;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private imageData: ImageData;
+  private renderedFrame = -1;
+
+  constructor(gif: GifImage) {
+    this.compositor = new GifCompositor(gif);
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = gif.width;
+    this.canvas.height = gif.height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D context for animated image');
+    }
+    this.ctx = ctx;
+    this.imageData = ctx.createImageData(gif.width, gif.height);
+  }
+
+  /**
+   * 帧数
+   */
+  getFrameCount(): number {
+    return this.compositor.frameCount;
+  }
+
+  /**
+   * 一轮播放的总时长（毫秒）
+   */
+  getDuration(): number {
+    return this.compositor.getDuration();
+  }
+
+  /**
+   * 播放到 time（毫秒，通常为游戏时间，暂停时动图随之停住）时的画面
+   */
+  getFrameAt(time: number): HTMLCanvasElement {
+    return this.renderFrame(this.compositor.getFrameIndexAt(time));
+  }
+
+  /**
+   * 指定帧的画面；返回的 Canvas 在绘制其他帧时会被覆盖
+   */
+  renderFrame(index: number): HTMLCanvasElement {
+    if (index !== this.renderedFrame) {
+      this.imageData.data.set(this.compositor.renderFrame(index));
+      this.ctx.putImageData(this.imageData, 0, 0);
+      this.renderedFrame = index;
+    }
+    return this.canvas;
+  }
+}
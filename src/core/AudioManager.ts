@@ -428,6 +428,38 @@ export class AudioManager {
     return localStorage.getItem('audio_muted') === 'true';
   }
 
+  /**
+   * 挂起音频上下文（页面切到后台时调用），正在播放的音效一并停住
+   */
+  async suspend(): Promise<void> {
+    if (!this.audioContext || this.audioContext.state !== 'running') {
+      return;
+    }
+
+    try {
+      await this.audioContext.suspend();
+      console.log('Audio context suspended');
+    } catch (error) {
+      console.error('Failed to suspend audio context:', error);
+    }
+  }
+
+  /**
+   * 恢复被挂起的音频上下文
+   */
+  async resume(): Promise<void> {
+    if (!this.audioContext || this.audioContext.state !== 'suspended') {
+      return;
+    }
+
+    try {
+      await this.audioContext.resume();
+      console.log('Audio context resumed');
+    } catch (error) {
+      console.error('Failed to resume audio context:', error);
+    }
+  }
+
   /**
    * 启用/禁用音频
    */
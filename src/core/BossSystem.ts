@@ -0,0 +1,212 @@
+/**
+ * Boss 血量系统
+ * Boss 模式中上传的目标有一条血条，每次命中按连击档位、点击力度和暴击造成伤害
+ * 血量跌破阈值时发出 threshold（用于触发变形），归零时发出 knockout
+ */
+
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+
+export interface BossSystemOptions {
+  maxHealth?: number;
+  baseDamage?: number; // 普通点击的基础伤害
+  maxForce?: number; // 力度加成的上限（力度 1 为普通点击）
+  criticalMultiplier?: number;
+  thresholds?: number[]; // 触发阶段切换的血量比例，从高到低
+}
+
+/**
+ * 一次命中的伤害来源
+ */
+export interface BossDamageInput {
+  comboMultiplier: number; // 连击档位倍数（来自计分系统）
+  force: number;
+  isCritical: boolean;
+  bonus?: number; // 命中区域等额外倍数
+}
+
+export interface BossHit {
+  damage: number;
+  health: number; // 命中后的血量
+  maxHealth: number;
+  isCritical: boolean;
+  isKnockout: boolean;
+}
+
+export interface BossStats {
+  health: number;
+  maxHealth: number;
+  hits: number;
+  totalDamage: number;
+  bestHit: number;
+}
+
+// Boss 事件表
+export type BossEvents = {
+  damage: BossHit;
+  threshold: { index: number; ratio: number; health: number }; // index 从 1 开始，对应进入的阶段序号
+  knockout: BossStats;
+};
+
+/**
+ * 计算一次命中的伤害
+ */
+export function calculateBossDamage(
+  input: BossDamageInput,
+  options: Required<Pick<BossSystemOptions, 'baseDamage' | 'maxForce' | 'criticalMultiplier'>>
+): number {
+  const forceBonus = Math.min(Math.max(input.force, 1), options.maxForce);
+  const critical = input.isCritical ? options.criticalMultiplier : 1;
+  return Math.max(1, Math.round(options.baseDamage * input.comboMultiplier * forceBonus * (input.bonus ?? 1) * critical));
+}
+
+/**
+ * Boss 血量系统类
+ */
+export class BossSystem {
+  private options: Required<BossSystemOptions>;
+  private events = new EventEmitter<BossEvents>('BossSystem');
+  private health: number;
+  private hits = 0;
+  private totalDamage = 0;
+  private bestHit = 0;
+  private passedThresholds = 0;
+
+  constructor(options: BossSystemOptions = {}) {
+    this.options = {
+      maxHealth: 1000,
+      baseDamage: 10,
+      maxForce: 2,
+      criticalMultiplier: 2.5,
+      thresholds: [2 / 3, 1 / 3],
+      ...options
+    };
+
+    if (this.options.maxHealth <= 0) {
+      throw new Error('BossSystem requires a positive maxHealth');
+    }
+
+    this.health = this.options.maxHealth;
+  }
+
+  /**
+   * 记录一次命中，返回本次伤害；已被击倒时不再造成伤害
+   * 跨过多个阈值时依次发出 threshold，血量归零时发出 knockout
+   */
+  registerHit(input: BossDamageInput): BossHit {
+    if (this.isKnockedOut()) {
+      return this.createHit(0, input.isCritical);
+    }
+
+    const damage = Math.min(calculateBossDamage(input, this.options), this.health);
+    this.health -= damage;
+    this.hits++;
+    this.totalDamage += damage;
+    this.bestHit = Math.max(this.bestHit, damage);
+
+    const hit = this.createHit(damage, input.isCritical);
+    this.events.emit('damage', hit);
+
+    const { thresholds } = this.options;
+    while (this.passedThresholds < thresholds.length && this.getHealthRatio() <= thresholds[this.passedThresholds]) {
+      const ratio = thresholds[this.passedThresholds++];
+      this.events.emit('threshold', { index: this.passedThresholds, ratio, health: this.health });
+    }
+
+    if (hit.isKnockout) {
+      this.events.emit('knockout', this.getStats());
+    }
+
+    return hit;
+  }
+
+  /**
+   * 设置阈值（阶段列表变化时），已跨过的阈值按当前血量重新计算
+   */
+  setThresholds(thresholds: number[]): void {
+    this.options.thresholds = [...thresholds];
+    this.passedThresholds = thresholds.filter(ratio => this.getHealthRatio() <= ratio).length;
+  }
+
+  getHealth(): number {
+    return this.health;
+  }
+
+  getMaxHealth(): number {
+    return this.options.maxHealth;
+  }
+
+  /**
+   * 剩余血量比例 (0-1)
+   */
+  getHealthRatio(): number {
+    return this.health / this.options.maxHealth;
+  }
+
+  isKnockedOut(): boolean {
+    return this.health <= 0;
+  }
+
+  /**
+   * 获取本局统计
+   */
+  getStats(): BossStats {
+    return {
+      health: this.health,
+      maxHealth: this.options.maxHealth,
+      hits: this.hits,
+      totalDamage: this.totalDamage,
+      bestHit: this.bestHit
+    };
+  }
+
+  /**
+   * 开始新的一局，血量回满
+   */
+  reset(): void {
+    this.health = this.options.maxHealth;
+    this.hits = 0;
+    this.totalDamage = 0;
+    this.bestHit = 0;
+    this.passedThresholds = 0;
+  }
+
+  /**
+   * 监听 Boss 事件，返回取消订阅函数
+   */
+  on<K extends keyof BossEvents>(
+    event: K,
+    listener: EventListener<BossEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 取消监听 Boss 事件
+   */
+  off<K extends keyof BossEvents>(event: K, listener: EventListener<BossEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * 销毁 Boss 系统
+   */
+  destroy(): void {
+    this.events.destroy();
+  }
+
+  private createHit(damage: number, isCritical: boolean): BossHit {
+    return {
+      damage,
+      health: this.health,
+      maxHealth: this.options.maxHealth,
+      isCritical,
+      isKnockout: damage > 0 && this.health === 0
+    };
+  }
+}
@@ -324,12 +324,20 @@ export class CanvasRenderer {
       fit?: 'contain' | 'cover' | 'fill' | 'none';
       opacity?: number;
       filter?: string;
+      bounds?: { x: number; y: number; width: number; height: number }; // 在该区域内按 fit 排布并裁剪，默认整个画布
     } = {}
   ): void {
     if (!image) return;
 
     this.ctx.save();
 
+    if (options.bounds) {
+      const { x, y, width, height } = options.bounds;
+      this.ctx.beginPath();
+      this.ctx.rect(x, y, width, height);
+      this.ctx.clip();
+    }
+
     // 设置透明度
     if (options.opacity !== undefined) {
       this.ctx.globalAlpha = options.opacity;
@@ -349,6 +357,16 @@ export class CanvasRenderer {
     this.ctx.restore();
   }
 
+  /**
+   * 图片按 fit 排布后的绘制区域（视口坐标），与 renderImage 使用相同的计算
+   */
+  getImageRect(
+    image: HTMLImageElement | HTMLCanvasElement,
+    options: { fit?: 'contain' | 'cover' | 'fill' | 'none'; bounds?: { x: number; y: number; width: number; height: number } } = {}
+  ): { x: number; y: number; width: number; height: number } {
+    return this.calculateImageBounds(image, options);
+  }
+
   /**
    * 计算图片渲染边界
    */
@@ -358,8 +376,13 @@ export class CanvasRenderer {
   ): { x: number; y: number; width: number; height: number } {
     const imageWidth = image.width;
     const imageHeight = image.height;
-    const canvasWidth = this.viewport.width;
-    const canvasHeight = this.viewport.height;
+    // 排布区域，默认整个画布
+    const {
+      x: areaX = 0,
+      y: areaY = 0,
+      width: canvasWidth = this.viewport.width,
+      height: canvasHeight = this.viewport.height
+    } = options.bounds || {};
 
     let { x = 0, y = 0, width = imageWidth, height = imageHeight, fit = 'contain' } = options;
 
@@ -368,21 +391,21 @@ export class CanvasRenderer {
       const scale = Math.min(canvasWidth / imageWidth, canvasHeight / imageHeight);
       width = imageWidth * scale;
       height = imageHeight * scale;
-      x = (canvasWidth - width) / 2;
-      y = (canvasHeight - height) / 2;
+      x = areaX + (canvasWidth - width) / 2;
+      y = areaY + (canvasHeight - height) / 2;
     } else if (fit === 'cover') {
       // 保持宽高比，填满容器
       const scale = Math.max(canvasWidth / imageWidth, canvasHeight / imageHeight);
       width = imageWidth * scale;
       height = imageHeight * scale;
-      x = (canvasWidth - width) / 2;
-      y = (canvasHeight - height) / 2;
+      x = areaX + (canvasWidth - width) / 2;
+      y = areaY + (canvasHeight - height) / 2;
     } else if (fit === 'fill') {
       // 拉伸填满容器
       width = canvasWidth;
       height = canvasHeight;
-      x = 0;
-      y = 0;
+      x = areaX;
+      y = areaY;
     }
 
     return { x, y, width, height };
@@ -447,13 +470,95 @@ export class CanvasRenderer {
     this.ctx.restore();
   }
 
+  /**
+   * 渲染倒计时：顶部进度条和剩余秒数，最后10秒变红放大
+   */
+  renderCountdown(
+    remaining: number,
+    total: number,
+    options: { subtitle?: string; warningTime?: number } = {}
+  ): void {
+    const { width } = this.viewport;
+    const warningTime = options.warningTime ?? 10000;
+    const isWarning = remaining <= warningTime;
+    const ratio = total > 0 ? Math.max(0, Math.min(1, remaining / total)) : 0;
+    const color = isWarning ? '#e53e3e' : '#667eea';
+
+    this.ctx.save();
+
+    // 进度条
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.15)';
+    this.ctx.fillRect(0, 0, width, 6);
+    this.ctx.fillStyle = color;
+    this.ctx.fillRect(0, 0, width * ratio, 6);
+
+    this.ctx.restore();
+
+    // 剩余秒数（向上取整，归零前不会显示 0）
+    const seconds = Math.ceil(remaining / 1000);
+    const fontSize = isWarning ? 40 : 32;
+    const textStyle = {
+      align: 'center' as CanvasTextAlign,
+      baseline: 'top' as CanvasTextBaseline,
+      stroke: { color: 'rgba(255, 255, 255, 0.9)', width: 4 }
+    };
+
+    this.renderText(`${seconds}s`, width / 2, 14, {
+      ...textStyle,
+      font: `bold ${fontSize}px sans-serif`,
+      color
+    });
+
+    if (options.subtitle) {
+      this.renderText(options.subtitle, width / 2, 18 + fontSize, {
+        ...textStyle,
+        font: '16px sans-serif',
+        color: '#2d3748'
+      });
+    }
+  }
+
+  /**
+   * 渲染血条：顶部居中，血量低于 30% 时变红
+   */
+  renderHealthBar(
+    health: number,
+    maxHealth: number,
+    options: { label?: string; dangerRatio?: number } = {}
+  ): void {
+    const { width } = this.viewport;
+    const ratio = maxHealth > 0 ? Math.max(0, Math.min(1, health / maxHealth)) : 0;
+    const color = ratio <= (options.dangerRatio ?? 0.3) ? '#e53e3e' : '#38a169';
+    const barWidth = width * 0.8;
+    const x = (width - barWidth) / 2;
+    const y = 14;
+
+    this.ctx.save();
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    this.ctx.fillRect(x, y, barWidth, 14);
+    this.ctx.fillStyle = color;
+    this.ctx.fillRect(x, y, barWidth * ratio, 14);
+
+    this.ctx.restore();
+
+    this.renderText(`${options.label ? `${options.label} ` : ''}${Math.ceil(health)} / ${maxHealth}`, width / 2, y + 20, {
+      align: 'center',
+      baseline: 'top',
+      font: 'bold 16px sans-serif',
+      color: '#2d3748',
+      stroke: { color: 'rgba(255, 255, 255, 0.9)', width: 4 }
+    });
+  }
+
   /**
    * 坐标转换：屏幕坐标到Canvas坐标
    */
   screenToCanvas(screenX: number, screenY: number): { x: number; y: number } {
     const rect = this.canvas.getBoundingClientRect();
-    const scaleX = this.viewport.width / rect.width;
-    const scaleY = this.viewport.height / rect.height;
+    // 画布未布局（隐藏）时按 1:1 处理，避免得到 NaN
+    const scaleX = rect.width > 0 ? this.viewport.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? this.viewport.height / rect.height : 1;
 
     return {
       x: (screenX - rect.left) * scaleX,
@@ -80,6 +80,11 @@ export class EasingFunctions {
  */
 export class DanmakuAnimations {
   private animatedMessages = new Map<string, AnimatedDanmaku>();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
 
   /**
    * 添加动画到弹幕
@@ -88,7 +93,7 @@ export class DanmakuAnimations {
     const animatedMessage: AnimatedDanmaku = {
       ...message,
       animation,
-      animationStartTime: Date.now(),
+      animationStartTime: this.now(),
       originalY: message.y,
       originalFontSize: message.fontSize,
       originalColor: message.color
@@ -102,7 +107,7 @@ export class DanmakuAnimations {
    * 更新所有动画
    */
   updateAnimations(deltaTime: number): void {
-    const now = Date.now();
+    const now = this.now();
 
     this.animatedMessages.forEach((message, id) => {
       if (!message.animation || !message.animationStartTime) return;
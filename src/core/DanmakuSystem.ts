@@ -12,6 +12,8 @@ import {
   type DanmakuStyle,
   type AnimatedDanmaku
 } from './DanmakuAnimations';
+import type { RandomSource } from '@/utils/SeededRandom';
+import type { DanmakuPack } from '@/config/phases.config';
 
 export interface DanmakuSystemOptions {
   canvasWidth: number;
@@ -24,6 +26,8 @@ export interface DanmakuSystemOptions {
   messages?: string[];
   enableCollisionDetection?: boolean;
   fadeOutDuration?: number;
+  random?: RandomSource; // 随机数来源，回放时注入固定种子的生成器
+  now?: () => number; // 时钟（毫秒），回放时使用游戏时间
 }
 
 export interface DanmakuSpawnOptions {
@@ -51,9 +55,11 @@ export class DanmakuSystem {
   private messages: DanmakuMessage[] = [];
   private lanes: DanmakuLane[] = [];
   private options: Required<DanmakuSystemOptions>;
+  private previousX = new Map<string, number>(); // 上一步的横坐标，用于渲染插值
   private messageIdCounter = 0;
   private lastSpawnTime = 0;
   private animationManager: DanmakuAnimations;
+  private messagePacks = new Map<string, DanmakuPack>(); // 注册的消息包，混入随机消息池
 
   constructor(options: DanmakuSystemOptions) {
     this.options = {
@@ -84,10 +90,12 @@ export class DanmakuSystem {
       ],
       enableCollisionDetection: true,
       fadeOutDuration: 500,
+      random: Math.random,
+      now: Date.now,
       ...options
     };
 
-    this.animationManager = new DanmakuAnimations();
+    this.animationManager = new DanmakuAnimations(() => this.options.now());
     this.initializeLanes();
   }
 
@@ -103,7 +111,7 @@ export class DanmakuSystem {
       this.lanes.push({
         y: startY + i * this.options.lineHeight,
         occupied: false,
-        lastMessageTime: 0,
+        lastMessageTime: -Infinity,
         minInterval: 2000 // 2秒最小间隔
       });
     }
@@ -116,7 +124,10 @@ export class DanmakuSystem {
     // 检查消息数量限制
     if (this.messages.length >= this.options.maxMessages) {
       // 移除最老的消息
-      this.messages.shift();
+      const oldest = this.messages.shift();
+      if (oldest) {
+        this.previousX.delete(oldest.id);
+      }
     }
 
     // 获取可用轨道
@@ -138,7 +149,7 @@ export class DanmakuSystem {
       color: options.color || this.getRandomColor(),
       fontSize: options.fontSize || this.options.defaultFontSize,
       opacity: options.opacity || 1,
-      createdAt: Date.now()
+      createdAt: this.options.now()
     };
 
     // 处理动画配置
@@ -162,10 +173,10 @@ export class DanmakuSystem {
 
     // 标记轨道为占用
     lane.occupied = true;
-    lane.lastMessageTime = Date.now();
+    lane.lastMessageTime = this.options.now();
 
     this.messages.push(message);
-    this.lastSpawnTime = Date.now();
+    this.lastSpawnTime = this.options.now();
 
     return message;
   }
@@ -180,8 +191,8 @@ export class DanmakuSystem {
       const message = this.addMessage({
         ...options,
         // 为每条消息添加一些随机性
-        speed: (options.speed || this.options.defaultSpeed) * (0.8 + Math.random() * 0.4),
-        fontSize: (options.fontSize || this.options.defaultFontSize) * (0.9 + Math.random() * 0.2)
+        speed: (options.speed || this.options.defaultSpeed) * (0.8 + this.options.random() * 0.4),
+        fontSize: (options.fontSize || this.options.defaultFontSize) * (0.9 + this.options.random() * 0.2)
       });
       
       if (message) {
@@ -196,7 +207,7 @@ export class DanmakuSystem {
    * 更新弹幕系统
    */
   update(deltaTime: number): void {
-    const now = Date.now();
+    const now = this.options.now();
     const dt = deltaTime / 16.67; // 标准化到60fps
 
     // 更新动画系统
@@ -217,6 +228,7 @@ export class DanmakuSystem {
       }
 
       // 移动弹幕
+      this.previousX.set(message.id, message.x);
       message.x -= message.speed * dt;
 
       // 处理淡出效果
@@ -232,6 +244,7 @@ export class DanmakuSystem {
       
       // 如果消息不可见，释放对应的轨道并清理动画
       if (!isVisible) {
+        this.previousX.delete(message.id);
         this.releaseLane(message.y);
         this.animationManager.removeAnimation(message.id);
       }
@@ -244,9 +257,9 @@ export class DanmakuSystem {
   }
 
   /**
-   * 渲染弹幕系统
+   * 渲染弹幕系统（alpha 为渲染插值系数）
    */
-  render(ctx: CanvasRenderingContext2D): void {
+  render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
     ctx.save();
 
     this.messages.forEach(message => {
@@ -271,13 +284,17 @@ export class DanmakuSystem {
         ctx.textAlign = 'left';
         ctx.textBaseline = 'middle';
         
+        // 在上一步和当前步的位置之间插值
+        const previousX = this.previousX.get(message.id) ?? message.x;
+        const x = previousX + (message.x - previousX) * alpha;
+        
         // 添加文字描边效果
         ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
         ctx.lineWidth = 2;
-        ctx.strokeText(message.text, message.x, message.y);
+        ctx.strokeText(message.text, x, message.y);
         
         // 填充文字
-        ctx.fillText(message.text, message.x, message.y);
+        ctx.fillText(message.text, x, message.y);
         
         ctx.restore();
       }
@@ -290,7 +307,12 @@ export class DanmakuSystem {
    * 获取可用轨道
    */
   private getAvailableLane(): DanmakuLane | null {
-    const now = Date.now();
+    const now = this.options.now();
+
+    // 画布尚未布局时没有轨道
+    if (this.lanes.length === 0) {
+      return null;
+    }
     
     // 首先尝试找到完全空闲的轨道
     for (const lane of this.lanes) {
@@ -345,16 +367,53 @@ export class DanmakuSystem {
    * 获取随机消息
    */
   private getRandomMessage(): string {
-    const messages = this.options.messages;
-    return messages[Math.floor(Math.random() * messages.length)];
+    const messages = this.getMessagePool('messages');
+    return messages[Math.floor(this.options.random() * messages.length)];
   }
 
   /**
    * 获取随机颜色
    */
   private getRandomColor(): string {
-    const colors = this.options.colors;
-    return colors[Math.floor(Math.random() * colors.length)];
+    const colors = this.getMessagePool('colors');
+    return colors[Math.floor(this.options.random() * colors.length)];
+  }
+
+  /**
+   * 当前选项加上所有已注册消息包的消息或颜色
+   */
+  private getMessagePool(key: 'messages' | 'colors'): string[] {
+    if (this.messagePacks.size === 0) {
+      return this.options[key];
+    }
+
+    const pool = [...this.options[key]];
+    this.messagePacks.forEach(pack => pool.push(...(pack[key] || [])));
+    return pool;
+  }
+
+  /**
+   * 注册消息包：包中的消息和颜色会混入随机池，阶段也可以按 id 引用
+   */
+  registerMessagePack(id: string, pack: DanmakuPack): void {
+    if (this.messagePacks.has(id)) {
+      throw new Error(`Danmaku pack already registered: ${id}`);
+    }
+    this.messagePacks.set(id, { messages: [...pack.messages], colors: pack.colors && [...pack.colors] });
+  }
+
+  /**
+   * 注销消息包
+   */
+  unregisterMessagePack(id: string): boolean {
+    return this.messagePacks.delete(id);
+  }
+
+  /**
+   * 获取已注册的消息包
+   */
+  getMessagePack(id: string): DanmakuPack | undefined {
+    return this.messagePacks.get(id);
   }
 
   /**
@@ -388,6 +447,7 @@ export class DanmakuSystem {
     if (index !== -1) {
       const message = this.messages[index];
       this.releaseLane(message.y);
+      this.previousX.delete(message.id);
       this.messages.splice(index, 1);
       return true;
     }
@@ -412,10 +472,11 @@ export class DanmakuSystem {
    */
   clear(): void {
     this.messages = [];
+    this.previousX.clear();
     this.animationManager.clear();
     this.lanes.forEach(lane => {
       lane.occupied = false;
-      lane.lastMessageTime = 0;
+      lane.lastMessageTime = -Infinity;
     });
   }
 
@@ -465,7 +526,7 @@ export class DanmakuSystem {
     averageSpeed: number;
     oldestMessageAge: number;
   } {
-    const now = Date.now();
+    const now = this.options.now();
     const activeMessages = this.messages.filter(m => m.opacity > 0).length;
     const occupiedLanes = this.lanes.filter(l => l.occupied).length;
     const availableLanes = this.lanes.length - occupiedLanes;
@@ -533,5 +594,6 @@ export class DanmakuSystem {
   destroy(): void {
     this.clear();
     this.lanes = [];
+    this.messagePacks.clear();
   }
 }
\ No newline at end of file
@@ -4,21 +4,32 @@
  */
 
 import type { Effect, Particle } from '@/types/game.types';
+import type { RandomSource } from '@/utils/SeededRandom';
 
 export interface EffectSystemOptions {
   maxEffects?: number;
   maxParticles?: number;
   enableParticles?: boolean;
   enableShake?: boolean;
+  random?: RandomSource; // 随机数来源，回放时注入固定种子的生成器
 }
 
 export interface ClickEffectOptions {
   duration?: number;
   size?: number;
   color?: string;
-  style?: 'pulse' | 'ripple' | 'explosion' | 'punch';
+  style?: BuiltinClickEffectStyle | (string & {}); // 内置样式或通过 registerEffect 注册的样式
 }
 
+export type BuiltinClickEffectStyle = 'pulse' | 'ripple' | 'explosion' | 'punch';
+
+/**
+ * 自定义点击特效的工厂函数
+ */
+export type EffectFactory = (x: number, y: number, options: ClickEffectOptions) => BaseEffect;
+
+const BUILTIN_CLICK_STYLES: string[] = ['pulse', 'ripple', 'explosion', 'punch'];
+
 export interface ParticleEffectOptions {
   count?: number;
   speed?: number;
@@ -35,9 +46,9 @@ export interface ShakeEffectOptions {
 }
 
 /**
- * 基础特效类
+ * 基础特效类，自定义特效继承此类
  */
-abstract class BaseEffect implements Effect {
+export abstract class BaseEffect implements Effect {
   id: string;
   type: Effect['type'];
   x: number;
@@ -64,7 +75,7 @@ abstract class BaseEffect implements Effect {
     this.color = options.color;
   }
 
-  abstract render(ctx: CanvasRenderingContext2D): void;
+  abstract render(ctx: CanvasRenderingContext2D, alpha?: number): void;
 
   update(deltaTime: number): boolean {
     this.elapsed += deltaTime;
@@ -154,36 +165,50 @@ class RippleEffect extends BaseEffect {
   }
 }
 
+/**
+ * 记录上一步位置的粒子，用于渲染插值
+ */
+type InterpolatedParticle = Particle & { prevX: number; prevY: number };
+
 /**
  * 爆炸特效
  */
 class ExplosionEffect extends BaseEffect {
-  private particles: Particle[];
+  private particles: InterpolatedParticle[];
+  private random: RandomSource;
 
-  constructor(x: number, y: number, options: ParticleEffectOptions = {}) {
+  constructor(
+    x: number,
+    y: number,
+    options: ParticleEffectOptions = {},
+    random: RandomSource = Math.random
+  ) {
     super('explosion', x, y, options.count ? options.count * 50 : 1000, options);
+    this.random = random;
     this.particles = this.createParticles(options);
   }
 
-  private createParticles(options: ParticleEffectOptions): Particle[] {
+  private createParticles(options: ParticleEffectOptions): InterpolatedParticle[] {
     const count = options.count || 20;
     const colors = options.colors || ['#ff6b6b', '#ffa500', '#ffff00', '#ff4757'];
-    const particles: Particle[] = [];
+    const particles: InterpolatedParticle[] = [];
 
     for (let i = 0; i < count; i++) {
-      const angle = (Math.PI * 2 * i) / count + (Math.random() - 0.5) * 0.5;
-      const speed = (options.speed || 3) * (0.5 + Math.random() * 0.5);
-      const size = (options.size || 4) * (0.5 + Math.random() * 0.5);
+      const angle = (Math.PI * 2 * i) / count + (this.random() - 0.5) * 0.5;
+      const speed = (options.speed || 3) * (0.5 + this.random() * 0.5);
+      const size = (options.size || 4) * (0.5 + this.random() * 0.5);
 
       particles.push({
         x: this.x,
         y: this.y,
+        prevX: this.x,
+        prevY: this.y,
         vx: Math.cos(angle) * speed,
         vy: Math.sin(angle) * speed,
         life: 1,
         maxLife: 1,
         size,
-        color: colors[Math.floor(Math.random() * colors.length)],
+        color: colors[Math.floor(this.random() * colors.length)],
         gravity: options.gravity || 0.1
       });
     }
@@ -195,6 +220,8 @@ class ExplosionEffect extends BaseEffect {
     const dt = deltaTime / 16.67; // 标准化到60fps
 
     this.particles.forEach(particle => {
+      particle.prevX = particle.x;
+      particle.prevY = particle.y;
       particle.x += particle.vx * dt;
       particle.y += particle.vy * dt;
       particle.vy += (particle.gravity || 0) * dt;
@@ -206,15 +233,19 @@ class ExplosionEffect extends BaseEffect {
     return super.update(deltaTime) && this.particles.length > 0;
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
+  render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
     ctx.save();
 
     this.particles.forEach(particle => {
       const opacity = particle.life / particle.maxLife;
+      // 在上一步和当前步的位置之间插值
+      const x = particle.prevX + (particle.x - particle.prevX) * alpha;
+      const y = particle.prevY + (particle.y - particle.prevY) * alpha;
+
       ctx.globalAlpha = opacity;
       ctx.fillStyle = particle.color;
       ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.size * opacity, 0, Math.PI * 2);
+      ctx.arc(x, y, particle.size * opacity, 0, Math.PI * 2);
       ctx.fill();
     });
 
@@ -261,9 +292,12 @@ class PunchEffect extends BaseEffect {
 class ShakeEffect extends BaseEffect {
   private frequency: number;
   private originalIntensity: number;
+  private random: RandomSource;
+  private offset = { x: 0, y: 0 };
 
-  constructor(options: ShakeEffectOptions = {}) {
+  constructor(options: ShakeEffectOptions = {}, random: RandomSource = Math.random) {
     super('shake', 0, 0, options.duration || 500, { intensity: options.intensity || 10 });
+    this.random = random;
     this.frequency = options.frequency || 30;
     this.originalIntensity = this.intensity!;
   }
@@ -272,25 +306,25 @@ class ShakeEffect extends BaseEffect {
     const progress = this.getProgress();
     // 震动强度随时间衰减
     this.intensity = this.originalIntensity * (1 - this.easeOut(progress));
+
+    // 偏移在模拟步中生成，渲染多少次都不影响随机序列
+    this.offset = this.intensity > 0
+      ? {
+          x: (this.random() - 0.5) * this.intensity * 2,
+          y: (this.random() - 0.5) * this.intensity * 2
+        }
+      : { x: 0, y: 0 };
+
     return super.update(deltaTime);
   }
 
   render(ctx: CanvasRenderingContext2D): void {
     // 震动特效通过修改Canvas变换矩阵实现
-    if (this.intensity! > 0) {
-      const offsetX = (Math.random() - 0.5) * this.intensity! * 2;
-      const offsetY = (Math.random() - 0.5) * this.intensity! * 2;
-      ctx.translate(offsetX, offsetY);
-    }
+    ctx.translate(this.offset.x, this.offset.y);
   }
 
   getShakeOffset(): { x: number; y: number } {
-    if (this.intensity! <= 0) return { x: 0, y: 0 };
-    
-    return {
-      x: (Math.random() - 0.5) * this.intensity! * 2,
-      y: (Math.random() - 0.5) * this.intensity! * 2
-    };
+    return { ...this.offset };
   }
 }
 
@@ -301,6 +335,7 @@ export class EffectSystem {
   private effects: Effect[] = [];
   private options: Required<EffectSystemOptions>;
   private shakeEffect: ShakeEffect | null = null;
+  private customEffects = new Map<string, EffectFactory>();
 
   constructor(options: EffectSystemOptions = {}) {
     this.options = {
@@ -308,6 +343,7 @@ export class EffectSystem {
       maxParticles: 200,
       enableParticles: true,
       enableShake: true,
+      random: Math.random,
       ...options
     };
   }
@@ -327,18 +363,37 @@ export class EffectSystem {
         effect = new RippleEffect(x, y, options);
         break;
       case 'explosion':
-        effect = new ExplosionEffect(x, y, options as ParticleEffectOptions);
+        effect = new ExplosionEffect(x, y, options as ParticleEffectOptions, this.options.random);
         break;
       case 'punch':
         effect = new PunchEffect(x, y, options);
         break;
-      default:
-        effect = new PulseEffect(x, y, options);
+      default: {
+        const factory = this.customEffects.get(style);
+        effect = factory ? factory(x, y, options) : new PulseEffect(x, y, options);
+      }
     }
 
     this.addEffect(effect);
   }
 
+  /**
+   * 注册自定义点击特效样式，之后可以通过 addClickEffect 的 style 使用
+   */
+  registerEffect(style: string, factory: EffectFactory): void {
+    if (BUILTIN_CLICK_STYLES.includes(style) || this.customEffects.has(style)) {
+      throw new Error(`Effect style already registered: ${style}`);
+    }
+    this.customEffects.set(style, factory);
+  }
+
+  /**
+   * 注销自定义点击特效样式
+   */
+  unregisterEffect(style: string): boolean {
+    return this.customEffects.delete(style);
+  }
+
   /**
    * 添加震动特效
    */
@@ -355,7 +410,7 @@ export class EffectSystem {
       return;
     }
 
-    this.shakeEffect = new ShakeEffect(options);
+    this.shakeEffect = new ShakeEffect(options, this.options.random);
   }
 
   /**
@@ -364,10 +419,20 @@ export class EffectSystem {
   addParticleExplosion(x: number, y: number, options: ParticleEffectOptions = {}): void {
     if (!this.options.enableParticles) return;
 
-    const effect = new ExplosionEffect(x, y, options);
+    const effect = new ExplosionEffect(x, y, options, this.options.random);
     this.addEffect(effect);
   }
 
+  /**
+   * 添加超大爆炸（Boss 被击倒时）：多层粒子爆炸叠加强烈震动
+   */
+  addMegaExplosion(x: number, y: number): void {
+    this.addParticleExplosion(x, y, { count: 80, speed: 14, size: 8, colors: ['#ffd700', '#ff6b6b', '#ffffff'] });
+    this.addParticleExplosion(x, y, { count: 50, speed: 8, size: 12, colors: ['#ff4500', '#ff8c00'] });
+    this.addParticleExplosion(x, y, { count: 30, speed: 4, size: 16, colors: ['#ffffff'] });
+    this.addShakeEffect({ intensity: 40 });
+  }
+
   /**
    * 添加自定义特效
    */
@@ -396,9 +461,9 @@ export class EffectSystem {
   }
 
   /**
-   * 渲染所有特效
+   * 渲染所有特效（alpha 为渲染插值系数）
    */
-  render(ctx: CanvasRenderingContext2D): void {
+  render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
     ctx.save();
 
     // 应用震动效果
@@ -410,7 +475,7 @@ export class EffectSystem {
     // 渲染所有特效
     this.effects.forEach(effect => {
       ctx.save();
-      effect.render(ctx);
+      effect.render(ctx, alpha);
       ctx.restore();
     });
 
@@ -483,5 +548,6 @@ export class EffectSystem {
    */
   destroy(): void {
     this.clear();
+    this.customEffects.clear();
   }
 }
\ No newline at end of file
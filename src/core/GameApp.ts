@@ -0,0 +1,1571 @@
+/**
+ * 游戏应用
+ * 组合根：创建并连接游戏引擎与各个子系统，统一管理生命周期
+ */
+
+import { GameEngine, type AutoPauseReason, type GameMode, type GameModeOptions } from './GameEngine';
+import { CanvasRenderer, type CanvasRendererOptions } from './CanvasRenderer';
+import { InteractionManager, type ClickEvent } from './InteractionManager';
+import { EffectSystem } from './EffectSystem';
+import { DanmakuSystem } from './DanmakuSystem';
+import { AudioManager } from './AudioManager';
+import { GameAudioSystem } from './GameAudioSystem';
+import { ImageManager } from './ImageManager';
+import { ReplayPlayer } from './ReplayPlayer';
+import { ScoreSystem } from './ScoreSystem';
+import { BossSystem, type BossStats, type BossSystemOptions } from './BossSystem';
+import { PluginManager, type GamePlugin } from './PluginManager';
+import type { GameStatus, StateTransition } from './GameStateMachine';
+import { TargetManager, type GameTarget } from './TargetManager';
+import { findHitRegion, toImagePoint, type HitRegion } from './HitRegions';
+import { AdaptivePacing, scalePhaseThresholds, type AdaptivePacingOptions, type PacingProfile } from './AdaptivePacing';
+import {
+  AchievementSystem,
+  type AchievementEvent,
+  type AchievementStatus,
+  type AchievementUnlock
+} from './AchievementSystem';
+import type { ReplayLog } from './ReplayRecorder';
+import {
+  ImageTransformManager,
+  type TransformProgress,
+  type TransformResult
+} from './ImageTransformManager';
+import {
+  SessionStore,
+  type SessionSnapshot,
+  type SnapshotStore,
+  type SerializedTransformRecord
+} from '@/services/SessionStore';
+import {
+  PersonalBestStore,
+  type PersonalBestField,
+  type PersonalBestRecord,
+  type PersonalBestSubmission
+} from '@/services/PersonalBestStore';
+import type { AchievementStore } from '@/services/AchievementStore';
+import { APIService } from '@/services/APIService';
+import { ImageCache } from '@/services/ImageCache';
+import {
+  SessionHistoryStore,
+  type MoodRating,
+  type SessionRecord
+} from '@/services/SessionHistoryStore';
+import { defaultGameConfig, type GameConfig } from '@/config/api.config';
+import type { PhaseDefinition, TransformType } from '@/config/phases.config';
+import { SeededRandom } from '@/utils/SeededRandom';
+import { GameClock } from '@/utils/GameClock';
+import type { ErrorHandler } from '@/utils/ErrorHandler';
+import { PerformanceMonitor } from '@/utils/PerformanceMonitor';
+import type { GameState } from '@/types';
+
+export type GameStats = ReturnType<GameEngine['getStats']> & {
+  score: number;
+  criticalHits: number;
+  multiplier: number; // 当前连击档位倍数
+  targetCount: number;
+  activeTargetId: string | null;
+  boss: BossStats | null; // 仅 boss 模式
+  pacing: PacingProfile | null; // 自适应节奏，测量完成前为 null
+};
+
+// Boss 被击倒后的慢动作时长（游戏时间，毫秒）和特效、弹幕的时间缩放
+const KNOCKOUT_DURATION = 2000;
+const KNOCKOUT_TIME_SCALE = 0.25;
+const VICTORY_MESSAGES = ['K.O.!', '完胜！', '一拳超人！', '爽！！！', '胜利！', '打爆了！'];
+
+/**
+ * 计时模式一局的结果
+ */
+export interface TimedResult {
+  score: number;
+  duration: number; // 毫秒
+  averageCPS: number;
+  peakCPS: number;
+  phase: GameState['currentPhase'];
+  transformedCount: number;
+  personalBest: PersonalBestRecord;
+  previousBest: PersonalBestRecord | null;
+  isNewBest: boolean;
+}
+
+/**
+ * 一局记入历史战绩的结果
+ */
+export interface SessionRecordResult {
+  record: SessionRecord;
+  newRecords: PersonalBestField[]; // 本局刷新的个人最佳项（该模式第一局不算）
+  previousBest: PersonalBestRecord | null;
+}
+
+export interface GameAppOptions {
+  container: HTMLElement;
+  config?: GameConfig;
+  rendererOptions?: Partial<Omit<CanvasRendererOptions, 'container'>>;
+  danmakuChance?: number; // 每次点击生成弹幕的概率
+  maxTargets?: number; // 同时放置的目标数上限
+  boss?: BossSystemOptions; // boss 模式的血量和伤害参数，不设置阈值时按阶段数平分血量
+  adaptivePacing?: AdaptivePacingOptions | false; // 经典模式按开局点击速度调整节奏，false 表示关闭
+  clock?: GameClock; // 子系统共用的游戏时钟，测试中可传入确定性时钟
+  autoPause?: boolean; // 页面隐藏或失去焦点时自动暂停，默认开启
+  seed?: number; // 固定随机种子，不设置时每局随机生成
+  recordReplays?: boolean; // 是否录制每局的回放日志
+  mode?: GameMode; // 初始游戏模式
+  modeOptions?: GameModeOptions;
+  personalBestStore?: PersonalBestStore | null; // 个人最佳记录存储，null 表示不保存
+  achievementStore?: AchievementStore | null; // 成就进度存储，null 表示不保存
+  historyStore?: SessionHistoryStore | null; // 历史战绩存储，null 表示不保存
+  sessionStore?: SnapshotStore | null; // 会话快照存储，null 表示不保存会话
+  imageCache?: ImageCache | null; // 上传和变形结果的持久缓存，null 表示不缓存
+  getUISettings?: () => Record<string, unknown>; // 随会话保存的界面设置
+  onStatsChange?: (stats: GameStats) => void;
+  onComboChange?: (combo: number) => void;
+  onPhaseChange?: (oldPhase: GameState['currentPhase'], newPhase: GameState['currentPhase']) => void;
+  onTransformStart?: (transformType: TransformType) => void;
+  onTransformProgress?: (progress: TransformProgress) => void;
+  onTransformComplete?: (result: TransformResult) => void;
+  onTimeUp?: (result: TimedResult) => void;
+  onKnockout?: (stats: BossStats) => void; // boss 模式击倒目标（慢动作结束、本局完成时）
+  onStatusChange?: (transition: StateTransition) => void; // 引擎状态机转换，界面状态以此为准
+  onAutoPause?: (reason: AutoPauseReason) => void; // 自动暂停后调用，界面应提示玩家点击继续
+  onAchievementUnlocked?: (unlock: AchievementUnlock) => void;
+  onSessionRecorded?: (result: SessionRecordResult) => void; // 一局结束并记入历史战绩
+  plugins?: GamePlugin[]; // 创建时按顺序安装的插件
+  errorHandler?: ErrorHandler; // 报告插件错误，默认使用全局实例
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * 游戏应用类
+ */
+export class GameApp {
+  private options: Required<Omit<GameAppOptions, 'rendererOptions' | 'sessionStore' | 'imageCache' | 'seed' | 'personalBestStore' | 'achievementStore' | 'historyStore' | 'errorHandler' | 'boss' | 'adaptivePacing' | 'clock'>> &
+    Pick<GameAppOptions, 'rendererOptions' | 'sessionStore' | 'imageCache' | 'seed' | 'personalBestStore' | 'achievementStore' | 'historyStore' | 'errorHandler' | 'boss' | 'adaptivePacing' | 'clock'>;
+  private config: GameConfig;
+  private engine: GameEngine;
+  private renderer: CanvasRenderer;
+  private interaction: InteractionManager;
+  private effects: EffectSystem;
+  private danmaku: DanmakuSystem;
+  private audio: GameAudioSystem;
+  private transformManager: ImageTransformManager;
+  private score: ScoreSystem;
+  private boss: BossSystem;
+  private achievements: AchievementSystem;
+  private imageManager: ImageManager;
+  private imageCache: ImageCache | null;
+  private performanceMonitor: PerformanceMonitor;
+  private sessionStore: SnapshotStore | null;
+  private personalBests: PersonalBestStore | null;
+  private history: SessionHistoryStore | null;
+  private plugins: PluginManager;
+  private replayPlayer: ReplayPlayer | null = null;
+
+  // 各子系统使用独立的随机序列，互不影响
+  private random = {
+    app: new SeededRandom(),
+    effects: new SeededRandom(),
+    danmaku: new SeededRandom(),
+    audio: new SeededRandom(),
+    score: new SeededRandom()
+  };
+
+  private comboCount = 0;
+  private maxCombo = 0; // 本局最高连击（来自引擎事件）
+  private sessionRecorded = false;
+  private bestSubmission: PersonalBestSubmission | null = null; // 本局提交个人最佳的结果，每局只提交一次
+  private moodBefore: MoodRating | null = null; // 本局开始前的心情打卡
+  private targets: TargetManager;
+  private attemptedTransforms = new Map<string, Set<TransformType>>(); // 目标 id -> 已尝试的变形
+  private knockoutRemaining = 0; // 击倒慢动作剩余时间
+  private clock: GameClock; // 暂停时停止，击倒慢动作时缩放
+  private effectsEnabled = true;
+  private effectIntensity = 1; // 当前阶段的特效强度倍数
+  private pacing: AdaptivePacing | null;
+  private pacingProfile: PacingProfile | null = null; // 本局测量得到的节奏，测量完成前为 null
+  private heldProgress: TransformProgress | null = null; // 暂停期间收到的最新变形进度，继续时再显示
+  private baseDanmaku: { messages: string[]; colors: string[] }; // 阶段未指定弹幕包时使用
+  private isDestroyed = false;
+  private resizeHandler: () => void;
+
+  constructor(options: GameAppOptions) {
+    this.config = options.config || defaultGameConfig;
+    this.options = {
+      config: this.config,
+      danmakuChance: 0.3,
+      maxTargets: 4,
+      recordReplays: true,
+      autoPause: true,
+      mode: 'classic',
+      modeOptions: {},
+      getUISettings: () => ({}),
+      onStatsChange: () => {},
+      onComboChange: () => {},
+      onPhaseChange: () => {},
+      onTransformStart: () => {},
+      onTransformProgress: () => {},
+      onTransformComplete: () => {},
+      onTimeUp: () => {},
+      onKnockout: () => {},
+      onStatusChange: () => {},
+      onAutoPause: () => {},
+      onAchievementUnlocked: () => {},
+      onSessionRecorded: () => {},
+      onError: () => {},
+      plugins: [],
+      ...options
+    };
+
+    this.clock = options.clock ?? new GameClock();
+    this.engine = new GameEngine(this.config);
+    this.performanceMonitor = new PerformanceMonitor({ targetFPS: this.config.targetFPS });
+    this.engine.setPerformanceMonitor(this.performanceMonitor);
+
+    this.renderer = new CanvasRenderer({
+      maintainAspectRatio: false,
+      minWidth: 0,
+      minHeight: 0,
+      ...options.rendererOptions,
+      container: options.container
+    });
+    this.renderer.getCanvas().id = 'gameCanvas';
+
+    const viewport = this.renderer.getViewport();
+
+    this.effects = new EffectSystem({
+      maxParticles: this.config.maxParticles,
+      random: this.random.effects.asSource()
+    });
+
+    this.danmaku = new DanmakuSystem({
+      canvasWidth: viewport.width,
+      canvasHeight: viewport.height,
+      maxMessages: this.config.maxDanmaku,
+      defaultSpeed: this.config.danmakuSpeed,
+      random: this.random.danmaku.asSource(),
+      now: () => this.engine.getGameTime()
+    });
+    const { messages = [], colors = [] } = this.danmaku.getOptions();
+    this.baseDanmaku = { messages, colors };
+
+    this.audio = new GameAudioSystem({
+      audioManager: new AudioManager({
+        masterVolume: this.config.defaultVolume,
+        enableAudio: this.config.enableAudio
+      }),
+      random: this.random.audio.asSource(),
+      clock: this.clock
+    });
+
+    this.score = new ScoreSystem({
+      random: this.random.score.asSource()
+    });
+
+    this.boss = new BossSystem(options.boss);
+    this.bindBossEvents();
+
+    this.pacing = options.adaptivePacing === false ? null : new AdaptivePacing(options.adaptivePacing);
+
+    this.achievements = new AchievementSystem({ store: options.achievementStore });
+    this.achievements.on('unlock', (unlock) => {
+      this.audio.playUISound('success');
+      this.options.onAchievementUnlocked(unlock);
+    });
+
+    // 上传的处理结果和变形结果共用一个按内容哈希的缓存，重新上传同一张照片时直接复用之前的变形
+    this.imageCache = options.imageCache !== undefined
+      ? options.imageCache
+      : (typeof indexedDB !== 'undefined' ? new ImageCache() : null);
+    this.imageManager = new ImageManager(this.config.maxImageSize, this.config.supportedFormats, {
+      cache: this.imageCache
+    });
+
+    const pipeline = this.engine.getPhasePipeline();
+    this.transformManager = new ImageTransformManager({
+      apiService: new APIService({ imageCache: this.imageCache }),
+      imageManager: this.imageManager,
+      phases: this.engine.getPhases(),
+      transformPresets: pipeline.transformPresets,
+      maxTransformAttempts: this.config.maxRetries
+    });
+
+    this.targets = new TargetManager({
+      phases: this.engine.getPhases(),
+      maxTargets: options.maxTargets
+    });
+    this.targets.layout(viewport.width, viewport.height);
+    this.bindTargetEvents();
+    this.engine.setHitRegionResolver((x, y) => this.resolveHitRegion(x, y));
+    this.engine.setCompletionResolver(() => this.isEveryTargetFinished());
+
+    this.interaction = new InteractionManager({
+      canvas: this.renderer.getCanvas(),
+      clock: this.clock
+    });
+    this.interaction.on('click', (event) => this.handleInput(event));
+    this.interaction.on('combo', (combo) => this.handleComboChange(combo));
+
+    this.resizeHandler = () => {
+      const { width, height } = this.renderer.getViewport();
+      this.danmaku.updateOptions({ canvasWidth: width, canvasHeight: height });
+      this.targets.layout(width, height);
+    };
+    options.container.addEventListener('canvasResize', this.resizeHandler);
+
+    this.personalBests = options.personalBestStore !== undefined
+      ? options.personalBestStore
+      : new PersonalBestStore();
+    this.history = options.historyStore !== undefined
+      ? options.historyStore
+      : new SessionHistoryStore();
+
+    this.plugins = new PluginManager({
+      engine: this.engine,
+      effects: this.effects,
+      danmaku: this.danmaku,
+      audio: this.audio,
+      transformManager: this.transformManager
+    }, { errorHandler: options.errorHandler });
+
+    this.bindEngineEvents();
+    this.engine.init();
+    this.engine.setMode(this.options.mode, this.options.modeOptions);
+
+    // 默认使用IndexedDB存储，不支持的环境不保存会话
+    this.sessionStore = options.sessionStore !== undefined
+      ? options.sessionStore
+      : (typeof indexedDB !== 'undefined' ? new SessionStore() : null);
+    if (this.options.autoPause) {
+      this.engine.enableAutoPause();
+    }
+
+    if (this.sessionStore) {
+      this.engine.enableSessionPersistence({
+        store: this.sessionStore,
+        imageCodec: this.imageManager,
+        collectExtras: () => this.collectSessionExtras()
+      });
+    }
+
+    this.options.plugins.forEach(plugin => this.installPlugin(plugin));
+  }
+
+  /**
+   * 收集引擎之外需要随会话保存的数据
+   */
+  private collectSessionExtras(): Pick<SessionSnapshot, 'transformHistory' | 'settings' | 'score' | 'hitRegions'> {
+    const { defaultSpeed, maxMessages, defaultFontSize } = this.danmaku.getOptions();
+
+    // 会话只保存当前目标
+    const activeTarget = this.targets.getActiveTarget();
+
+    return {
+      transformHistory: (activeTarget ? activeTarget.transformHistory : []).map(result => ({
+        success: result.success,
+        transformType: result.transformType,
+        processingTime: result.processingTime,
+        errorMessage: result.error?.message
+      })),
+      settings: {
+        danmaku: { defaultSpeed, maxMessages, defaultFontSize },
+        ui: this.options.getUISettings()
+      },
+      score: this.score.getStats(),
+      hitRegions: activeTarget ? activeTarget.hitRegions : []
+    };
+  }
+
+  /**
+   * 将保存的变形记录还原为变形结果，成功记录依次对应已恢复的变形图片
+   */
+  private restoreTransformHistory(records: SerializedTransformRecord[]): void {
+    const { uploadedImage, transformedImages } = this.engine.getState();
+    let imageIndex = 0;
+
+    const history: TransformResult[] = records.map(record => ({
+      success: record.success,
+      transformType: record.transformType,
+      processingTime: record.processingTime,
+      originalImage: uploadedImage || undefined,
+      transformedImage: record.success ? transformedImages[imageIndex++] : undefined
+    }));
+
+    this.transformManager.restoreHistory(history);
+
+    const target = this.targets.getActiveTarget();
+    if (!target) return;
+
+    target.transformHistory = history;
+
+    // 已完成的变形不再重复请求
+    history
+      .filter(result => result.success)
+      .forEach(result => this.getAttemptedTransforms(target.id).add(result.transformType));
+  }
+
+  /**
+   * 目标已尝试的变形
+   */
+  private getAttemptedTransforms(targetId: string): Set<TransformType> {
+    if (!this.attemptedTransforms.has(targetId)) {
+      this.attemptedTransforms.set(targetId, new Set());
+    }
+    return this.attemptedTransforms.get(targetId)!;
+  }
+
+  /**
+   * 查找点击命中的目标图片上的区域（图片按 cover 排布在目标的点击框中，与 render 一致）
+   */
+  private resolveHitRegion(x: number, y: number): HitRegion | null {
+    const target = this.targets.hitTest(x, y);
+    if (!target || target.hitRegions.length === 0) {
+      return null;
+    }
+
+    const rect = this.renderer.getImageRect(this.targets.getCurrentImage(target), { fit: 'cover', bounds: target.bounds });
+    const point = toImagePoint(x, y, rect);
+    return point ? findHitRegion(target.hitRegions, point) : null;
+  }
+
+  /**
+   * 经典模式按目标判断本局是否完成：每个目标都到达最后阶段，且该阶段的变形已结束（成功或失败）
+   * 引擎的点击数和阶段是所有目标的合计，不能用来判断
+   */
+  private isEveryTargetFinished(): boolean {
+    const phases = this.engine.getPhases();
+    const finalPhase = phases[phases.length - 1];
+    const targets = this.targets.getTargets();
+    if (phases.length === 1 || targets.length === 0) {
+      return false;
+    }
+
+    return targets.every(target =>
+      target.currentPhase === finalPhase.id &&
+      (!finalPhase.transformPreset ||
+        target.transformHistory.some(result => result.transformType === finalPhase.transformPreset))
+    );
+  }
+
+  /**
+   * 目标事件：目标跨过阈值时检查变形，切换目标时引擎显示该目标的图片
+   * 移除尚未完成的目标后，剩下的目标可能都已完成
+   */
+  private bindTargetEvents(): void {
+    this.targets.on('phaseChange', () => this.checkTransform());
+    this.targets.on('targetRemoved', () => this.engine.checkCompletion());
+
+    this.targets.on('activeChange', ({ target }) => {
+      const { uploadedImage } = this.engine.getState();
+      if (target && uploadedImage && uploadedImage !== target.image) {
+        this.engine.switchImage(target.image, target.transformedImages);
+      }
+    });
+  }
+
+  /**
+   * 绑定引擎事件
+   */
+  private bindEngineEvents(): void {
+    this.engine.on('click', (data) => {
+      // 按坐标把点击分配给目标（回放时同样按日志中的坐标分配）
+      const target = this.targets.hitTest(data.x, data.y);
+      if (target) {
+        this.targets.recordHit(target.id, data.x, data.y);
+      }
+      this.handleEngineClick(data.x, data.y, data.clickCount, data.combo, data.force, data.region);
+      // 引擎在分配给目标之前检查过完成，命中后按目标的进度再检查一次
+      this.engine.checkCompletion();
+    });
+
+    this.engine.on('phaseChange', (data: {
+      oldPhase: GameState['currentPhase'];
+      newPhase: GameState['currentPhase'];
+    }) => {
+      this.options.onPhaseChange(data.oldPhase, data.newPhase);
+      this.applyPhaseSettings(this.engine.getCurrentPhase());
+      this.trackAchievement({
+        type: 'phaseChange',
+        phaseIndex: this.engine.getStats().phaseIndex,
+        phaseCount: this.engine.getPhases().length,
+        gameTime: this.engine.getGameTime()
+      });
+    });
+
+    this.engine.on('update', (data: { deltaTime: number }) => {
+      const deltaTime = data.deltaTime * this.clock.getTimeScale();
+      this.effects.update(deltaTime);
+      this.danmaku.update(deltaTime);
+      this.updateKnockout(data.deltaTime);
+      this.updatePacing(data.deltaTime);
+    });
+
+    this.engine.on('render', (data: { alpha: number }) => {
+      this.render(data.alpha);
+    });
+
+    this.engine.on('thresholdsChange', ({ phases }) => {
+      this.transformManager.setPhases(phases);
+      this.targets.setPhases(phases);
+    });
+
+    this.engine.on('modeChange', ({ phases }) => {
+      this.transformManager.setPhases(phases);
+      this.targets.setPhases(phases);
+      if (!this.options.boss?.thresholds) {
+        // 各阶段平分血量：三个阶段时在 2/3 和 1/3 血量处切换
+        this.boss.setThresholds(phases.slice(1).map((_, index) => 1 - (index + 1) / phases.length));
+      }
+    });
+
+    this.engine.on('timeUp', () => this.handleTimeUp());
+
+    // 经典模式完成最后的变形后本局结束
+    this.engine.on('complete', () => this.endSession());
+
+    this.engine.on('statusChange', (transition) => {
+      // 只有玩家暂停时停止时钟，结束后的提示等定时器照常进行
+      if (transition.to === 'paused') {
+        this.clock.pause();
+      } else {
+        this.clock.resume();
+      }
+      this.options.onStatusChange(transition);
+      this.notifyStats();
+    });
+
+    this.engine.on('imageTransformed', () => this.notifyStats());
+
+    this.engine.on('start', () => {
+      this.performanceMonitor.start();
+      void this.audio.resume();
+      if (this.heldProgress) {
+        const progress = this.heldProgress;
+        this.heldProgress = null;
+        this.options.onTransformProgress(progress);
+      }
+      this.applyPhaseSettings(this.engine.getCurrentPhase());
+      this.notifyStats();
+    });
+
+    this.engine.on('pause', () => {
+      this.performanceMonitor.stop();
+      this.audio.stopAmbientSound();
+      this.notifyStats();
+    });
+
+    // 页面切到后台：引擎已暂停（pause 事件停止了性能采样），再挂起音频
+    this.engine.on('autoPause', ({ reason }) => {
+      void this.audio.suspend();
+      this.options.onAutoPause(reason);
+    });
+
+    this.engine.on('reset', () => {
+      this.performanceMonitor.stop();
+      this.heldProgress = null;
+      this.applyPhaseSettings(this.engine.getCurrentPhase());
+      this.notifyStats();
+    });
+
+    this.engine.on('error', (error: unknown) => {
+      this.options.onError(error);
+    });
+  }
+
+  /**
+   * Boss 事件：血量跌破阈值时进入下一阶段并触发变形，血量归零时开始击倒演出
+   */
+  private bindBossEvents(): void {
+    this.boss.on('threshold', () => {
+      if (this.engine.advancePhase()) {
+        this.checkTransform();
+      }
+    });
+
+    this.boss.on('knockout', () => this.startKnockout());
+  }
+
+  /**
+   * 击倒演出：慢动作、超大爆炸、重变形音效和胜利弹幕，慢动作结束后本局完成
+   */
+  private startKnockout(): void {
+    this.knockoutRemaining = KNOCKOUT_DURATION;
+    this.clock.setTimeScale(KNOCKOUT_TIME_SCALE);
+
+    const viewport = this.renderer.getViewport();
+    const { x, y, width, height } = this.targets.getActiveTarget()?.bounds
+      ?? { x: 0, y: 0, width: viewport.width, height: viewport.height };
+    if (this.effectsEnabled) {
+      this.effects.addMegaExplosion(x + width / 2, y + height / 2);
+    }
+
+    this.audio.playTransformSound('heavy');
+
+    VICTORY_MESSAGES.forEach(text => {
+      this.danmaku.addMessage({ text, color: '#ffd700', fontSize: 28 });
+    });
+  }
+
+  /**
+   * 推进自适应节奏的测量（经典模式），测量完成时缩放未到达阶段的阈值
+   * 回放时不测量，调整后的阈值由回放日志送回引擎
+   */
+  private updatePacing(deltaTime: number): void {
+    if (!this.pacing || this.replayPlayer || this.engine.getMode() !== 'classic') return;
+
+    const phases = this.engine.getPhases();
+    const profile = this.pacing.update(deltaTime, this.interaction.getClickStats(), phases[phases.length - 1].threshold);
+    if (!profile) return;
+
+    this.pacingProfile = profile;
+    this.engine.setPhaseThresholds(scalePhaseThresholds(phases, profile.thresholdScale, this.engine.getState().clickCount));
+    this.notifyStats();
+  }
+
+  /**
+   * 推进击倒演出（按未缩放的游戏时间，回放时同样逐帧结束）
+   */
+  private updateKnockout(deltaTime: number): void {
+    if (this.knockoutRemaining <= 0) return;
+
+    this.knockoutRemaining -= deltaTime;
+    if (this.knockoutRemaining > 0) return;
+
+    this.knockoutRemaining = 0;
+    this.clock.setTimeScale(1);
+    this.engine.complete('knockout');
+    this.notifyStats();
+    this.options.onKnockout(this.boss.getStats());
+  }
+
+  /**
+   * 应用阶段的弹幕包、环境音和特效强度
+   */
+  private applyPhaseSettings(phase: PhaseDefinition): void {
+    const pack = phase.danmakuPack
+      ? this.engine.getPhasePipeline().danmakuPacks[phase.danmakuPack] || this.danmaku.getMessagePack(phase.danmakuPack)
+      : undefined;
+    this.danmaku.updateOptions({
+      messages: pack?.messages || this.baseDanmaku.messages,
+      colors: pack?.colors || this.baseDanmaku.colors
+    });
+
+    // 环境音只在游戏进行时播放
+    if (phase.ambientSound && this.engine.getState().isPlaying) {
+      this.audio.playAmbientSound(phase.ambientSound);
+    } else {
+      this.audio.stopAmbientSound(0.5);
+    }
+
+    this.effectIntensity = phase.effectIntensity ?? 1;
+  }
+
+  /**
+   * 处理画布输入，转换为渲染坐标后交给引擎
+   */
+  private handleInput(event: ClickEvent): void {
+    // 击倒演出期间不再接受点击
+    if (this.replayPlayer || this.boss.isKnockedOut()) return;
+
+    // 转换为渲染使用的视口坐标，没有命中任何目标的点击不计数
+    const { pixelRatio } = this.renderer.getViewport();
+    const { x, y } = event.clientX !== undefined && event.clientY !== undefined
+      ? this.renderer.screenToCanvas(event.clientX, event.clientY)
+      : { x: event.x / pixelRatio, y: event.y / pixelRatio };
+    if (!this.targets.hitTest(x, y)) return;
+
+    this.engine.handleClick(x, y, this.comboCount, event.force);
+  }
+
+  /**
+   * 处理连击变化
+   */
+  private handleComboChange(combo: number): void {
+    this.comboCount = combo;
+    this.options.onComboChange(combo);
+  }
+
+  /**
+   * 引擎确认点击后触发特效、弹幕和音效
+   * 只使用引擎事件中的数据，保证回放时结果一致
+   */
+  private handleEngineClick(
+    x: number,
+    y: number,
+    clickCount: number,
+    combo: number,
+    force: number,
+    region: HitRegion | null
+  ): void {
+    // 特效按命中目标自己的阶段
+    const phase = this.targets.hitTest(x, y)?.currentPhase ?? this.engine.getState().currentPhase;
+    const intensity = this.effectIntensity * (this.pacingProfile?.effectIntensity ?? 1);
+    const bonus = region ? region.multiplier : 1;
+    const hit = this.score.registerHit(combo, force, bonus);
+    if (this.engine.getMode() === 'boss') {
+      this.boss.registerHit({ comboMultiplier: hit.multiplier, force, isCritical: hit.isCritical, bonus });
+    }
+    this.maxCombo = Math.max(this.maxCombo, combo);
+    this.trackAchievement({ type: 'click', combo });
+
+    if (this.effectsEnabled) {
+      this.effects.addClickEffect(x, y, {
+        style: this.engine.getPhases()[0].id === phase ? 'pulse' : 'punch'
+      });
+
+      if (combo >= 10) {
+        this.effects.addParticleExplosion(x, y, { count: Math.round(12 * intensity) });
+      }
+
+      this.effects.addShakeEffect({ intensity: Math.min(4 + combo, 15) * intensity });
+
+      // 暴击：更大的爆炸
+      if (hit.isCritical) {
+        this.effects.addParticleExplosion(x, y, {
+          count: Math.round(40 * intensity),
+          speed: 8,
+          size: 6,
+          colors: ['#ffd700', '#ff6b6b', '#ffffff']
+        });
+      }
+    }
+
+    // 命中区域的弹幕总是发出，其他点击按概率发出
+    const regionMessages = region?.reaction?.danmaku?.filter(Boolean) || [];
+    if (regionMessages.length > 0) {
+      this.danmaku.addMessage({ text: regionMessages[Math.floor(this.random.app.next() * regionMessages.length)] });
+    } else if (this.random.app.next() < this.options.danmakuChance * (this.pacingProfile?.danmakuRate ?? 1)) {
+      this.danmaku.addMessage();
+    }
+
+    const soundContext = {
+      clickCount,
+      comboLevel: combo,
+      gamePhase: phase,
+      position: { x, y }
+    };
+    if (hit.isCritical) {
+      this.audio.playCriticalHitSound(soundContext);
+    } else if (region?.reaction?.sound) {
+      this.audio.playSoundEffect(region.reaction.sound, soundContext);
+    } else {
+      this.audio.playClickSound(soundContext);
+    }
+
+    this.notifyStats();
+  }
+
+  /**
+   * 计时模式时间用完：汇总成绩并更新个人最佳
+   */
+  private handleTimeUp(): void {
+    this.performanceMonitor.stop();
+    this.render();
+    this.notifyStats();
+
+    // 回放不产生新成绩
+    if (this.replayPlayer) return;
+
+    // 成绩取计分系统的得分，和历史战绩、分享卡片一致
+    const { score, clickCount, currentPhase, transformedCount, timeLimit } = this.getStats();
+    const seconds = timeLimit / 1000;
+    const averageCPS = seconds > 0 ? Math.round((clickCount / seconds) * 10) / 10 : 0;
+    const submission = this.submitPersonalBest(averageCPS);
+    this.endSession();
+
+    this.options.onTimeUp({
+      score,
+      duration: timeLimit,
+      averageCPS,
+      peakCPS: this.interaction.getClickStats().peakClicksPerSecond,
+      phase: currentPhase,
+      transformedCount,
+      personalBest: submission.best,
+      previousBest: submission.previous,
+      isNewBest: submission.isNewBest
+    });
+  }
+
+  /**
+   * 当前模式的键，用于区分不同模式（和不同时长）的成绩
+   */
+  private getModeKey(): string {
+    const mode = this.engine.getMode();
+    return mode === 'timed' ? `timed:${this.engine.getTimeLimit()}` : mode;
+  }
+
+  /**
+   * 提交本局成绩到个人最佳；计时结算和记入历史战绩共用同一次提交的结果
+   */
+  private submitPersonalBest(clicksPerSecond: number): PersonalBestSubmission {
+    if (!this.bestSubmission) {
+      const { score, clickCount } = this.getStats();
+      const record: PersonalBestRecord = {
+        score,
+        clicksPerSecond,
+        achievedAt: Date.now(),
+        clicks: clickCount,
+        maxCombo: this.maxCombo
+      };
+
+      this.bestSubmission = this.personalBests
+        ? this.personalBests.submit(this.getModeKey(), record)
+        : { best: record, previous: null, isNewBest: false, newRecords: [] };
+    }
+    return this.bestSubmission;
+  }
+
+  /**
+   * 结束本局并记入历史战绩，返回刷新的个人最佳
+   * 没有点击、已经记录过或正在回放时不记录
+   */
+  endSession(): SessionRecordResult | null {
+    const stats = this.getStats();
+    if (this.sessionRecorded || this.replayPlayer || !this.history || stats.clickCount === 0) {
+      return null;
+    }
+
+    this.sessionRecorded = true;
+    const seconds = this.engine.getGameTime() / 1000;
+    const submission = this.submitPersonalBest(seconds > 0 ? Math.round((stats.clickCount / seconds) * 10) / 10 : 0);
+    const record = this.history.add({
+      playedAt: Date.now(),
+      mode: this.getModeKey(),
+      clicks: stats.clickCount,
+      score: stats.score,
+      maxCombo: this.maxCombo,
+      duration: Math.round(this.engine.getGameTime()),
+      transformed: stats.transformedCount > 0,
+      ...(this.moodBefore ? { moodBefore: this.moodBefore } : {})
+    });
+
+    const result: SessionRecordResult = {
+      record,
+      newRecords: submission.newRecords,
+      previousBest: submission.previous
+    };
+    this.options.onSessionRecorded(result);
+    return result;
+  }
+
+  /**
+   * 记录本局开始前的心情，结束时随成绩一起保存
+   * 需要在 start() 之后调用，新的一局会清除
+   */
+  setMoodBefore(rating: MoodRating | null): void {
+    this.moodBefore = rating;
+  }
+
+  /**
+   * 为已记录的一局补充结束后的心情
+   */
+  setMoodAfter(recordId: string, rating: MoodRating): boolean {
+    return this.history ? this.history.setMood(recordId, 'after', rating) : false;
+  }
+
+  /**
+   * 获取历史战绩存储
+   */
+  getHistory(): SessionHistoryStore | null {
+    return this.history;
+  }
+
+  /**
+   * 把游戏事件交给成就系统，回放中的事件不计入成就
+   */
+  private trackAchievement(event: AchievementEvent): void {
+    if (this.replayPlayer) return;
+    this.achievements.handle(event);
+  }
+
+  /**
+   * 检查是否需要执行图片变形
+   */
+  private checkTransform(): void {
+    // 回放时变形结果来自日志
+    if (this.replayPlayer) return;
+
+    const state = this.engine.getState();
+    const active = this.targets.getActiveTarget();
+    const targets = this.targets.getTargets().sort((a, b) => Number(b === active) - Number(a === active));
+    // boss 模式的阶段由血量推进，按当前阶段的阈值判断应执行的变形
+    const bossProgress = this.engine.getMode() === 'boss' ? this.engine.getCurrentPhase().threshold : null;
+
+    for (const target of targets) {
+      const { shouldTransform, transformType } = this.transformManager.shouldTransform(
+        bossProgress ?? target.clickCount,
+        { ...state, uploadedImage: target.image },
+        target.transformHistory
+      );
+
+      // 变形服务一次只处理一个请求；每个目标的每种变形每局只自动尝试一次，失败后不重复请求
+      const attempted = this.getAttemptedTransforms(target.id);
+      if (shouldTransform && transformType && !attempted.has(transformType)) {
+        attempted.add(transformType);
+        void this.runTransform(target, transformType);
+        return;
+      }
+    }
+  }
+
+  /**
+   * 报告变形进度；暂停期间只保留最新进度，界面上的进度保持不动
+   */
+  private reportTransformProgress(progress: TransformProgress): void {
+    if (this.engine.getStatus() === 'paused') {
+      this.heldProgress = progress;
+      return;
+    }
+    this.options.onTransformProgress(progress);
+  }
+
+  /**
+   * 执行目标的图片变形（始终基于目标的原图）
+   */
+  private async runTransform(target: GameTarget, transformType: TransformType): Promise<void> {
+    this.engine.beginTransform(transformType);
+    this.options.onTransformStart(transformType);
+
+    try {
+      const result = await this.transformManager.transformImage(
+        target.image,
+        transformType,
+        (progress) => this.reportTransformProgress(progress)
+      );
+
+      if (this.isDestroyed) return;
+
+      // 变形期间目标可能已被移除，结果只对仍在的目标生效
+      this.targets.addTransformResult(target.id, result);
+
+      const success = result.success && !!result.transformedImage;
+      if (success) {
+        this.applyTransformedImage(target, result.transformedImage!, transformType);
+      }
+      // 最后的变形完成时本局结束，先显示变形结果再记录
+      this.engine.recordTransform(transformType, success);
+      this.trackAchievement({ type: 'transform', success });
+
+      this.options.onTransformComplete(result);
+    } catch (error) {
+      if (this.isDestroyed) return;
+      this.targets.addTransformResult(target.id, {
+        success: false,
+        originalImage: target.image,
+        transformType,
+        processingTime: 0
+      });
+      this.engine.recordTransform(transformType, false);
+      this.options.onError(error);
+    }
+
+    // 变形期间可能已跨过下一个阈值，其他目标也可能在等待
+    this.checkTransform();
+  }
+
+  /**
+   * 显示变形后的图片并在目标中央播放变形特效
+   * 引擎只显示当前目标的图片，其他目标的结果在切换到该目标时显示
+   */
+  private applyTransformedImage(target: GameTarget, image: HTMLImageElement, transformType: TransformType): void {
+    if (!this.targets.getTarget(target.id)) return;
+
+    if (target === this.targets.getActiveTarget()) {
+      this.engine.addTransformedImage(image);
+    }
+
+    const preset = this.transformManager.getTransformPresets()[transformType];
+    this.audio.playTransformSound(preset?.soundStyle || 'light');
+
+    const { x, y, width, height } = target.bounds;
+    this.effects.addParticleExplosion(x + width / 2, y + height / 2, { count: 30 });
+  }
+
+  /**
+   * 为新的一局设置随机种子
+   */
+  private seedRandom(seed: number): void {
+    this.random.app.setSeed(seed);
+    this.random.effects.setSeed(seed + 1);
+    this.random.danmaku.setSeed(seed + 2);
+    this.random.audio.setSeed(seed + 3);
+    this.random.score.setSeed(seed + 4);
+  }
+
+  /**
+   * 渲染一帧（alpha 为两个模拟步之间的插值系数）
+   */
+  private render(alpha: number = 1): void {
+    const ctx = this.renderer.getContext();
+    const image = this.engine.getCurrentImage();
+    const shake = this.effects.getShakeOffset();
+    const targets = this.targets.getTargets();
+
+    this.renderer.clear('#f7fafc');
+
+    if (targets.length > 1) {
+      ctx.save();
+      ctx.translate(shake.x, shake.y);
+      this.renderTargets(ctx, targets);
+      ctx.restore();
+    } else if (image) {
+      ctx.save();
+      ctx.translate(shake.x, shake.y);
+      this.renderer.renderImage(this.getDisplayFrame(image), { fit: 'cover' });
+      ctx.restore();
+    }
+
+    this.effects.render(ctx, alpha);
+    this.danmaku.render(ctx, alpha);
+
+    if (this.engine.getMode() === 'timed') {
+      const { clicksPerSecond } = this.interaction.getClickStats();
+      this.renderer.renderCountdown(this.engine.getTimeRemaining(), this.engine.getTimeLimit(), {
+        subtitle: `${clicksPerSecond.toFixed(1)} 次/秒`
+      });
+    } else if (this.engine.getMode() === 'boss') {
+      this.renderer.renderHealthBar(this.boss.getHealth(), this.boss.getMaxHealth(), {
+        label: this.boss.isKnockedOut() ? 'K.O.' : 'HP'
+      });
+    }
+  }
+
+  /**
+   * 图片实际绘制的画面：上传的动图按游戏时间播放（暂停时停住），变形结果和静态图片原样绘制
+   */
+  private getDisplayFrame(image: HTMLImageElement): HTMLImageElement | HTMLCanvasElement {
+    const animation = this.imageManager.getAnimation(image);
+    return animation ? animation.getFrameAt(this.clock.now()) : image;
+  }
+
+  /**
+   * 在各自的点击框中绘制多个目标，当前目标加描边
+   */
+  private renderTargets(ctx: CanvasRenderingContext2D, targets: GameTarget[]): void {
+    const active = this.targets.getActiveTarget();
+
+    targets.forEach(target => {
+      this.renderer.renderImage(this.getDisplayFrame(this.targets.getCurrentImage(target)), { fit: 'cover', bounds: target.bounds });
+    });
+
+    if (active) {
+      const { x, y, width, height } = active.bounds;
+      ctx.save();
+      ctx.strokeStyle = '#667eea';
+      ctx.lineWidth = 4;
+      ctx.strokeRect(x, y, width, height);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * 通知统计信息变化
+   */
+  private notifyStats(): void {
+    this.options.onStatsChange(this.getStats());
+  }
+
+  /**
+   * 使用上传的图片开始游戏
+   */
+  start(image: HTMLImageElement): void {
+    this.reset();
+    this.engine.setMode(this.options.mode, this.options.modeOptions);
+
+    const seed = this.options.seed ?? SeededRandom.createSeed();
+    this.seedRandom(seed);
+    if (this.options.recordReplays) {
+      this.engine.startRecording(seed);
+    }
+
+    this.targets.addTarget(image);
+    this.engine.setUploadedImage(image);
+    this.render();
+  }
+
+  /**
+   * 用当前图片重新开始一局
+   */
+  restart(): void {
+    const { uploadedImage } = this.engine.getState();
+    if (uploadedImage) {
+      this.start(uploadedImage);
+    }
+  }
+
+  /**
+   * 设置游戏模式，从下一局开始生效
+   */
+  setMode(mode: GameMode, options: GameModeOptions = {}): void {
+    this.options.mode = mode;
+    this.options.modeOptions = options;
+
+    if (!this.engine.getState().isPlaying) {
+      this.engine.setMode(mode, options);
+    }
+  }
+
+  /**
+   * 获取选择的游戏模式
+   */
+  getMode(): GameMode {
+    return this.options.mode;
+  }
+
+  /**
+   * 获取某个模式的个人最佳记录
+   */
+  getPersonalBest(mode: GameMode = this.options.mode, options: GameModeOptions = this.options.modeOptions): PersonalBestRecord | null {
+    if (!this.personalBests) {
+      return null;
+    }
+
+    const duration = options.duration ?? this.config.timedModeDuration ?? defaultGameConfig.timedModeDuration;
+    return this.personalBests.get(mode === 'timed' ? `timed:${duration}` : mode);
+  }
+
+  /**
+   * 获取个人最佳记录存储
+   */
+  getPersonalBestStore(): PersonalBestStore | null {
+    return this.personalBests;
+  }
+
+  /**
+   * 获取本局的回放日志
+   */
+  getReplayLog(): ReplayLog | null {
+    return this.engine.getReplayLog();
+  }
+
+  /**
+   * 回放一局游戏
+   * transformedImages 按顺序对应日志中成功的变形；回放期间忽略玩家输入
+   */
+  startReplay(
+    log: ReplayLog,
+    image: HTMLImageElement,
+    options: { transformedImages?: HTMLImageElement[]; onComplete?: () => void } = {}
+  ): ReplayPlayer {
+    this.resetSubsystems();
+    this.seedRandom(log.seed);
+    this.engine.setMode(log.mode ?? (log.timeLimit ? 'timed' : 'classic'), { duration: log.timeLimit });
+
+    const transformedImages = [...(options.transformedImages || [])];
+
+    this.replayPlayer = new ReplayPlayer({
+      engine: this.engine,
+      log,
+      onTransform: (transformType, success) => {
+        // 与 runTransform 相同经由引擎开始和结束变形，失败的结果也记入目标的历史，引擎状态与录制时一致
+        const transformedImage = success ? transformedImages.shift() : undefined;
+        const target = this.targets.getActiveTarget();
+        this.engine.beginTransform(transformType);
+
+        if (target) {
+          this.targets.addTransformResult(target.id, {
+            success,
+            originalImage: target.image,
+            transformedImage,
+            transformType,
+            processingTime: 0
+          });
+          if (transformedImage) {
+            this.applyTransformedImage(target, transformedImage, transformType);
+          }
+        }
+        this.engine.recordTransform(transformType, success);
+      },
+      onComplete: () => {
+        this.replayPlayer = null;
+        options.onComplete?.();
+      }
+    });
+
+    // 与录制时相同：先接管循环再开始，使第一帧来自日志
+    this.engine.setExternalLoop(true);
+    this.targets.addTarget(image);
+    this.engine.setUploadedImage(image);
+    this.render();
+
+    return this.replayPlayer;
+  }
+
+  /**
+   * 停止回放
+   */
+  stopReplay(): void {
+    if (this.replayPlayer) {
+      const player = this.replayPlayer;
+      this.replayPlayer = null;
+      player.stop();
+    }
+  }
+
+  /**
+   * 立即保存当前会话（如页面隐藏或进入往返缓存前）
+   */
+  saveSession(): Promise<void> {
+    return this.engine.saveSession();
+  }
+
+  /**
+   * 检查是否有可继续的会话
+   */
+  async hasSavedSession(): Promise<boolean> {
+    return (await this.engine.loadSavedSession()) !== null;
+  }
+
+  /**
+   * 继续上次保存的会话，返回恢复的快照；没有可用会话时返回 null
+   */
+  async resumeLastSession(): Promise<SessionSnapshot | null> {
+    const snapshot = await this.engine.loadSavedSession();
+    if (!snapshot || !snapshot.images.uploaded || this.isDestroyed) {
+      return null;
+    }
+
+    this.resetSubsystems();
+    // 只有经典模式会保存会话
+    this.engine.setMode('classic');
+
+    try {
+      await this.engine.restoreSnapshot(snapshot);
+    } catch (error) {
+      // 快照已损坏，丢弃后让玩家重新上传
+      await this.engine.clearSavedSession();
+      return null;
+    }
+
+    // 会话只保存了一个目标，按引擎恢复的进度重建
+    const { uploadedImage, transformedImages, clickCount, currentPhase } = this.engine.getState();
+    this.targets.addTarget(uploadedImage!, {
+      clickCount,
+      currentPhase,
+      transformedImages: [...transformedImages],
+      hitRegions: snapshot.hitRegions
+    });
+
+    this.restoreTransformHistory(snapshot.transformHistory);
+    this.score.restore(snapshot.score);
+    this.danmaku.updateOptions(snapshot.settings.danmaku);
+    this.render();
+    this.notifyStats();
+
+    // 保存时可能有变形尚未完成
+    this.checkTransform();
+
+    return snapshot;
+  }
+
+  /**
+   * 开始上传图片，游戏进行中时先结束本局
+   */
+  beginUpload(): void {
+    if (!this.engine.canTransition('uploading')) {
+      this.reset();
+    }
+    this.engine.beginUpload();
+  }
+
+  /**
+   * 图片上传失败或取消
+   */
+  cancelUpload(): void {
+    this.engine.cancelUpload();
+  }
+
+  /**
+   * 获取游戏状态机状态
+   */
+  getStatus(): GameStatus {
+    return this.engine.getStatus();
+  }
+
+  /**
+   * 暂停游戏
+   */
+  pause(): void {
+    this.engine.pause();
+  }
+
+  /**
+   * 继续游戏
+   */
+  resume(): void {
+    this.engine.start();
+  }
+
+  /**
+   * 重置游戏，同时丢弃已保存的会话；未记录的一局会先记入历史战绩
+   */
+  reset(): void {
+    this.endSession();
+    this.resetSubsystems();
+    void this.engine.clearSavedSession();
+  }
+
+  /**
+   * 重置引擎和各子系统
+   */
+  private resetSubsystems(): void {
+    this.stopReplay();
+    this.transformManager.cancelTransform();
+    this.transformManager.clearHistory();
+    this.interaction.resetStats();
+    this.effects.clear();
+    this.danmaku.clear();
+    this.score.reset();
+    this.boss.reset();
+    this.knockoutRemaining = 0;
+    this.clock.setTimeScale(1);
+    this.pacing?.reset();
+    this.pacingProfile = null;
+    this.achievements.resetSession();
+    this.comboCount = 0;
+    this.maxCombo = 0;
+    this.sessionRecorded = false;
+    this.bestSubmission = null;
+    this.moodBefore = null;
+    this.attemptedTransforms.clear();
+    this.targets.clear();
+    this.engine.reset();
+    this.renderer.clear();
+  }
+
+  /**
+   * 设置主音量 (0-1)
+   */
+  setVolume(volume: number): void {
+    this.audio.getAudioManager().setMasterVolume(volume);
+  }
+
+  /**
+   * 设置静音
+   */
+  setMuted(muted: boolean): void {
+    const audioManager = this.audio.getAudioManager();
+    if (muted) {
+      audioManager.mute();
+    } else {
+      audioManager.unmute();
+    }
+  }
+
+  /**
+   * 启用/禁用视觉特效
+   */
+  setEffectsEnabled(enabled: boolean): void {
+    this.effectsEnabled = enabled;
+    this.effects.setOptions({ enableParticles: enabled, enableShake: enabled });
+
+    if (!enabled) {
+      this.effects.clear();
+    }
+  }
+
+  /**
+   * 获取游戏统计信息
+   */
+  getStats(): GameStats {
+    const { score, criticalHits } = this.score.getStats();
+
+    return {
+      ...this.engine.getStats(),
+      score,
+      criticalHits,
+      multiplier: this.score.getCurrentTier().multiplier,
+      targetCount: this.targets.getTargetCount(),
+      activeTargetId: this.targets.getActiveTarget()?.id ?? null,
+      boss: this.engine.getMode() === 'boss' ? this.boss.getStats() : null,
+      pacing: this.pacingProfile ? { ...this.pacingProfile } : null
+    };
+  }
+
+  /**
+   * 在游戏中添加一个目标，还没有开始游戏时以这张图片开始
+   * 目标数量达到上限时抛出错误
+   */
+  addTarget(image: HTMLImageElement): GameTarget {
+    if (this.targets.getTargetCount() === 0) {
+      this.start(image);
+      return this.targets.getActiveTarget()!;
+    }
+
+    const target = this.targets.addTarget(image);
+    this.render();
+    this.notifyStats();
+    return target;
+  }
+
+  /**
+   * 移除目标，最后一个目标不能移除（请使用 reset）
+   */
+  removeTarget(id: string): boolean {
+    if (this.targets.getTargetCount() <= 1 || !this.targets.removeTarget(id)) {
+      return false;
+    }
+
+    this.attemptedTransforms.delete(id);
+    this.render();
+    this.notifyStats();
+    return true;
+  }
+
+  /**
+   * 切换当前目标，引擎显示该目标的图片
+   */
+  setActiveTarget(id: string): void {
+    this.targets.setActiveTarget(id);
+    this.render();
+    this.notifyStats();
+  }
+
+  /**
+   * 获取所有目标
+   */
+  getTargets(): GameTarget[] {
+    return this.targets.getTargets();
+  }
+
+  /**
+   * 设置目标图片上的命中区域，默认为当前目标；当前目标的区域随会话保存
+   */
+  setHitRegions(regions: HitRegion[], targetId?: string): void {
+    const target = targetId ? this.targets.getTarget(targetId) : this.targets.getActiveTarget();
+    if (!target) return;
+
+    this.targets.setHitRegions(target.id, regions);
+    void this.engine.saveSession();
+  }
+
+  /**
+   * 获取目标图片上的命中区域，默认为当前目标
+   */
+  getHitRegions(targetId?: string): HitRegion[] {
+    const target = targetId ? this.targets.getTarget(targetId) : this.targets.getActiveTarget();
+    return target ? target.hitRegions.map(region => ({ ...region })) : [];
+  }
+
+  /**
+   * 记录一次分享（用于分享类成就）
+   */
+  recordShare(): void {
+    this.achievements.handle({ type: 'share' });
+  }
+
+  /**
+   * 获取全部成就及其状态
+   */
+  getAchievements(): AchievementStatus[] {
+    return this.achievements.getAchievements();
+  }
+
+  /**
+   * 获取本局解锁的成就
+   */
+  getSessionAchievements(): AchievementUnlock[] {
+    return this.achievements.getSessionUnlocks();
+  }
+
+  /**
+   * 安装插件，插件安装出错时返回 false（错误已通过 ErrorHandler 报告）
+   */
+  installPlugin(plugin: GamePlugin): boolean {
+    return this.plugins.install(plugin);
+  }
+
+  /**
+   * 卸载插件并撤销它注册的内容
+   */
+  uninstallPlugin(name: string): boolean {
+    return this.plugins.uninstall(name);
+  }
+
+  /**
+   * 获取已安装插件的名称
+   */
+  getInstalledPlugins(): string[] {
+    return this.plugins.getInstalled();
+  }
+
+  /**
+   * 获取当前连击数
+   */
+  getCombo(): number {
+    return this.comboCount;
+  }
+
+  /**
+   * 获取游戏引擎
+   */
+  getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  /**
+   * 获取渲染器
+   */
+  getRenderer(): CanvasRenderer {
+    return this.renderer;
+  }
+
+  /**
+   * 获取图片管理器（上传的图片经它去掉元数据并摆正方向）
+   */
+  getImageManager(): ImageManager {
+    return this.imageManager;
+  }
+
+  /**
+   * 获取游戏时钟（界面上的定时器也应使用它，随游戏暂停）
+   */
+  getClock(): GameClock {
+    return this.clock;
+  }
+
+  /**
+   * 获取性能监控器
+   */
+  getPerformanceMonitor(): PerformanceMonitor {
+    return this.performanceMonitor;
+  }
+
+  /**
+   * 销毁应用，按依赖顺序释放子系统
+   */
+  destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+
+    // 销毁前保存最新进度，并等待写入完成后再关闭存储
+    const sessionFlushed = this.engine.saveSession();
+
+    // 插件注册的内容要在子系统释放前撤销
+    this.plugins.destroy();
+
+    // 先停止回放、游戏循环和输入，再释放被它们驱动的子系统
+    this.stopReplay();
+    this.engine.destroy();
+    this.interaction.destroy();
+    this.transformManager.destroy();
+    this.imageManager.destroy();
+    this.imageCache?.destroy();
+    this.targets.destroy();
+    this.score.destroy();
+    this.boss.destroy();
+    this.achievements.destroy();
+    this.audio.destroy();
+    this.danmaku.destroy();
+    this.effects.destroy();
+
+    this.performanceMonitor.destroy();
+
+    this.options.container.removeEventListener('canvasResize', this.resizeHandler);
+    this.renderer.destroy();
+
+    const store = this.sessionStore;
+    if (store instanceof SessionStore) {
+      void sessionFlushed.then(() => store.destroy());
+    }
+  }
+}
@@ -5,12 +5,16 @@
 
 import { AudioManager } from './AudioManager';
 import type { GameConfig } from '@/config/game.config';
+import type { RandomSource } from '@/utils/SeededRandom';
+import { browserPlatform, type GamePlatform } from '@/utils/Platform';
 
 export interface GameAudioOptions {
   audioManager?: AudioManager;
   gameConfig?: GameConfig;
   enableDynamicVolume?: boolean;
   enableSpatialAudio?: boolean;
+  random?: RandomSource; // 选择音效变体的随机数来源
+  clock?: Pick<GamePlatform, 'now'>; // 音效冷却计时使用的时钟
 }
 
 export interface SoundEffect {
@@ -39,6 +43,7 @@ export class GameAudioSystem {
   private lastPlayTimes = new Map<string, number>();
   private options: Required<GameAudioOptions>;
   private isInitialized = false;
+  private ambientSoundId: string | null = null;
 
   // 音效分类
   private readonly soundCategories = {
@@ -77,6 +82,8 @@ export class GameAudioSystem {
       gameConfig: undefined,
       enableDynamicVolume: true,
       enableSpatialAudio: false,
+      random: Math.random,
+      clock: browserPlatform,
       ...options
     };
 
@@ -89,7 +96,7 @@ export class GameAudioSystem {
   private async init(): Promise<void> {
     try {
       // 定义游戏音效
-      this.defineSoundEffects();
+      this.defineSoundEffects(this.getDefaultSoundEffects());
       
       // 预加载音效
       await this.preloadGameSounds();
@@ -103,9 +110,9 @@ export class GameAudioSystem {
   }
 
   /**
-   * 定义游戏音效
+   * 内置游戏音效
    */
-  private defineSoundEffects(): void {
+  private getDefaultSoundEffects(): SoundEffect[] {
     const soundEffects: SoundEffect[] = [
       // 点击音效
       {
@@ -222,25 +229,73 @@ export class GameAudioSystem {
       }
     ];
 
+    return soundEffects;
+  }
+
+  /**
+   * 定义游戏音效，初始化完成后定义的音效会立即加载
+   * 音效名已存在时抛出错误
+   */
+  defineSoundEffects(soundEffects: SoundEffect[]): void {
+    const duplicate = soundEffects.find(effect => this.soundEffects.has(effect.name));
+    if (duplicate) {
+      throw new Error(`Sound effect already defined: ${duplicate.name}`);
+    }
+
     soundEffects.forEach(effect => {
       this.soundEffects.set(effect.name, effect);
     });
+
+    if (this.isInitialized) {
+      void this.preloadGameSounds(soundEffects);
+    }
+  }
+
+  /**
+   * 移除音效定义并释放已加载的资源
+   */
+  removeSoundEffects(names: string[]): void {
+    names.forEach(name => {
+      const effect = this.soundEffects.get(name);
+      if (!effect) return;
+
+      this.getSoundFileNames(effect).forEach(soundName => this.audioManager.removeSound(soundName));
+      this.soundEffects.delete(name);
+      this.lastPlayTimes.delete(name);
+    });
+  }
+
+  /**
+   * 播放指定名称的音效（用于自定义音效）
+   */
+  playSoundEffect(name: string, context: AudioPlaybackContext = {}): string | null {
+    if (!this.isInitialized) return null;
+
+    return this.playGameSound(name, context);
+  }
+
+  /**
+   * 音效各个变体在 AudioManager 中的名称
+   */
+  private getSoundFileNames(effect: SoundEffect): string[] {
+    return effect.files.map((_, index) =>
+      effect.variations && effect.variations > 1 ? `${effect.name}_${index + 1}` : effect.name
+    );
   }
 
   /**
-   * 预加载游戏音效
+   * 预加载游戏音效（默认加载全部已定义的音效）
    */
-  private async preloadGameSounds(): Promise<void> {
+  private async preloadGameSounds(
+    soundEffects: SoundEffect[] = Array.from(this.soundEffects.values())
+  ): Promise<void> {
     const loadPromises: Promise<void>[] = [];
 
-    this.soundEffects.forEach((effect, name) => {
+    soundEffects.forEach(effect => {
+      const soundNames = this.getSoundFileNames(effect);
       effect.files.forEach((file, index) => {
-        const soundName = effect.variations && effect.variations > 1 
-          ? `${name}_${index + 1}`
-          : name;
-        
         loadPromises.push(
-          this.audioManager.loadSound(soundName, file, effect.volume)
+          this.audioManager.loadSound(soundNames[index], file, effect.volume)
         );
       });
     });
@@ -302,6 +357,18 @@ export class GameAudioSystem {
     });
   }
 
+  /**
+   * 播放暴击音效
+   */
+  playCriticalHitSound(context: AudioPlaybackContext = {}): string | null {
+    if (!this.isInitialized) return null;
+
+    return this.playGameSound('critical_hit', {
+      ...context,
+      intensity: 1
+    });
+  }
+
   /**
    * 播放变形音效
    */
@@ -335,15 +402,29 @@ export class GameAudioSystem {
   /**
    * 播放环境音效
    */
-  playAmbientSound(type: 'tension', loop: boolean = true): string | null {
+  playAmbientSound(type: string, loop: boolean = true): string | null {
     if (!this.isInitialized) return null;
 
     const soundName = `ambient_${type}`;
+
+    // 同一时间只保留一个环境音
+    this.stopAmbientSound();
     
-    return this.playGameSound(soundName, {}, {
+    this.ambientSoundId = this.playGameSound(soundName, {}, {
       loop,
       volume: 0.2
     });
+    return this.ambientSoundId;
+  }
+
+  /**
+   * 停止当前环境音
+   */
+  stopAmbientSound(fadeOut: number = 0): void {
+    if (!this.ambientSoundId) return;
+
+    this.audioManager.stopSound(this.ambientSoundId, fadeOut);
+    this.ambientSoundId = null;
   }
 
   /**
@@ -383,7 +464,7 @@ export class GameAudioSystem {
 
     // 记录播放时间
     if (soundId) {
-      this.lastPlayTimes.set(soundName, Date.now());
+      this.lastPlayTimes.set(soundName, this.options.clock.now());
     }
 
     return soundId;
@@ -398,7 +479,7 @@ export class GameAudioSystem {
     const lastPlayTime = this.lastPlayTimes.get(soundName);
     if (!lastPlayTime) return false;
 
-    return (Date.now() - lastPlayTime) < cooldown;
+    return (this.options.clock.now() - lastPlayTime) < cooldown;
   }
 
   /**
@@ -441,7 +522,7 @@ export class GameAudioSystem {
       return soundName;
     }
 
-    const variationIndex = Math.floor(Math.random() * effect.variations) + 1;
+    const variationIndex = Math.floor(this.options.random() * effect.variations) + 1;
     return `${soundName}_${variationIndex}`;
   }
 
@@ -539,6 +620,20 @@ export class GameAudioSystem {
     await this.preloadGameSounds();
   }
 
+  /**
+   * 挂起所有音效（游戏自动暂停时）
+   */
+  suspend(): Promise<void> {
+    return this.audioManager.suspend();
+  }
+
+  /**
+   * 恢复被挂起的音效
+   */
+  resume(): Promise<void> {
+    return this.audioManager.resume();
+  }
+
   /**
    * 获取AudioManager实例
    */
@@ -553,6 +648,7 @@ export class GameAudioSystem {
     this.audioManager.destroy();
     this.soundEffects.clear();
     this.lastPlayTimes.clear();
+    this.ambientSoundId = null;
     this.isInitialized = false;
   }
 }
\ No newline at end of file
@@ -1,17 +1,127 @@
 import { GameState, GameEvent, GameError, ErrorType } from '@/types'
 import { defaultGameConfig, GameConfig } from '@/config/api.config'
+import {
+  resolvePhasePipeline,
+  type PhaseDefinition,
+  type PhasePipelineConfig,
+  type TransformType
+} from '@/config/phases.config'
+import {
+  SESSION_SNAPSHOT_VERSION,
+  type SessionSnapshot,
+  type SessionStatus,
+  type SnapshotStore
+} from '@/services/SessionStore'
+import { ReplayRecorder, type ReplayLog } from './ReplayRecorder'
+import { GameStateMachine, RUNNING_STATUSES, type GameStatus, type StateTransition } from './GameStateMachine'
+import { createEmptyScoreStats } from './ScoreSystem'
+import type { HitRegion } from './HitRegions'
+import type { PerformanceMonitor } from '@/utils/PerformanceMonitor'
+import { browserPlatform, type FocusLossReason, type GamePlatform } from '@/utils/Platform'
+import {
+  EventEmitter,
+  type EventArgs,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe,
+  type WildcardListener
+} from '@/utils/EventEmitter'
+
+type GamePhase = GameState['currentPhase']
+
+// 游戏模式：classic 点击直到完成所有阶段，timed 在限定时间内尽可能多地点击，
+// boss 打空目标的血条（阶段由血量推进，见 advancePhase）
+export type GameMode = 'classic' | 'timed' | 'boss'
+
+export interface GameModeOptions {
+  duration?: number // 计时模式时长（毫秒），默认使用配置中的时长
+}
+
+// 游戏引擎事件表
+export type GameEngineEvents = {
+  init: { state: GameState }
+  start: { state: GameState }
+  pause: { state: GameState }
+  autoPause: { reason: AutoPauseReason; state: GameState }
+  statusChange: StateTransition
+  reset: { state: GameState }
+  modeChange: { mode: GameMode; timeLimit: number; phases: PhaseDefinition[] }
+  thresholdsChange: { phases: PhaseDefinition[] }
+  timeUp: { clickCount: number; duration: number; phase: GamePhase; state: GameState }
+  complete: { clickCount: number; phase: GamePhase; state: GameState }
+  click: { x: number; y: number; clickCount: number; phase: GamePhase; combo: number; force: number; region: HitRegion | null }
+  phaseChange: { oldPhase: GamePhase; newPhase: GamePhase; clickCount: number }
+  imageUploaded: { image: HTMLImageElement; state: GameState }
+  imageTransformed: { image: HTMLImageElement; transformCount: number; state: GameState }
+  update: { deltaTime: number; state: GameState }
+  render: { alpha: number; state: GameState }
+  sessionSaved: { clickCount: number; phase: GamePhase }
+  sessionRestored: { snapshot: SessionSnapshot; state: GameState }
+  error: GameError
+}
+
+// 会话持久化配置
+export interface SessionPersistenceOptions {
+  store: SnapshotStore
+  imageCodec: {
+    imageToBlob(image: HTMLImageElement): Promise<Blob>
+    blobToImage(blob: Blob): Promise<HTMLImageElement>
+  }
+  // 收集引擎之外的数据（变形历史、弹幕和UI设置）
+  collectExtras?: () => Partial<Pick<SessionSnapshot, 'transformHistory' | 'settings' | 'score' | 'hitRegions'>>
+}
+
+// 自动暂停的原因：页面被隐藏、页面被换出（pagehide）或窗口失去焦点
+export type AutoPauseReason = 'hidden' | FocusLossReason
+
+// 查找点击命中的区域（点击坐标到图片坐标的换算由外部完成）
+export type HitRegionResolver = (x: number, y: number) => HitRegion | null
+
+// 判断经典模式的一局是否完成（多目标时由外部按每个目标的进度判断）
+export type CompletionResolver = () => boolean
 
 export class GameEngine {
   private state: GameState
   private config: GameConfig
-  private eventListeners: Map<string, Function[]>
+  private events = new EventEmitter<GameEngineEvents>('GameEngine')
   private animationId: number | null = null
   private lastUpdateTime: number = 0
+  private gameTime: number = 0
+  private mode: GameMode = 'classic'
+  private timeLimit: number = 0
+  private timeRemaining: number = 0
+  private pipeline: PhasePipelineConfig
+  private phases: PhaseDefinition[] // 当前模式下生效的阶段（计时模式已缩放阈值）
+  private accumulator: number = 0
+  private performanceMonitor: PerformanceMonitor | null = null
+  private externalLoop = false
+  private recorder: ReplayRecorder | null = null
+  private persistence: SessionPersistenceOptions | null = null
+  private pendingSave: Promise<void> = Promise.resolve()
+  private platform: GamePlatform
+  private machine: GameStateMachine
+  private pendingTransforms = 0 // 进行中的变形请求数
+  private finishedTransforms = new Set<TransformType>()
+  private removeVisibilityListener: (() => void) | null = null
+  private hitRegionResolver: HitRegionResolver | null = null
+  private completionResolver: CompletionResolver | null = null
+  private removeAutoPauseListeners: (() => void) | null = null
+  private autoPaused = false
+  private visibilityHandler = () => {
+    if (this.platform.isHidden()) {
+      void this.saveSession()
+    }
+  }
 
-  constructor(config: GameConfig = defaultGameConfig) {
+  // platform 提供时钟、帧调度和页面可见性，无界面模拟时传入 VirtualClock
+  constructor(config: GameConfig = defaultGameConfig, platform: GamePlatform = browserPlatform) {
     this.config = config
-    this.eventListeners = new Map()
+    this.platform = platform
+    this.pipeline = resolvePhasePipeline(config)
+    this.phases = this.computePhases()
     this.state = this.createInitialState()
+    this.machine = new GameStateMachine({ now: () => this.platform.now() })
+    this.bindStateMachine()
     
     console.log('GameEngine initialized')
   }
@@ -21,17 +131,62 @@ export class GameEngine {
     return {
       isPlaying: false,
       clickCount: 0,
-      currentPhase: 'initial',
+      currentPhase: this.phases[0].id,
       uploadedImage: null,
       transformedImages: []
     }
   }
 
+  // 状态机驱动 isPlaying 和游戏循环：进入运行状态时开始循环，离开时停止
+  private bindStateMachine(): void {
+    // 计时模式时间用完后不能继续
+    this.machine.addGuard('playing', () => !this.isTimeUp())
+    this.machine.addGuard('transforming', () => !this.isTimeUp())
+    this.machine.addGuard('ready', () => this.state.uploadedImage !== null)
+
+    this.machine.onTransition((transition) => {
+      const wasRunning = RUNNING_STATUSES.includes(transition.from)
+      const running = RUNNING_STATUSES.includes(transition.to)
+      this.state.isPlaying = running
+
+      if (running && !wasRunning) {
+        this.lastUpdateTime = this.platform.now()
+        this.accumulator = 0
+        this.startGameLoop()
+      } else if (!running && wasRunning) {
+        this.stopGameLoop()
+      }
+
+      this.emit('statusChange', transition)
+      console.log(`Status changed from ${transition.from} to ${transition.to}`)
+    })
+  }
+
   // 获取当前状态
   public getState(): GameState {
     return { ...this.state }
   }
 
+  // 获取状态机状态
+  public getStatus(): GameStatus {
+    return this.machine.getStatus()
+  }
+
+  // 获取状态转换记录
+  public getStatusHistory(): StateTransition[] {
+    return this.machine.getHistory()
+  }
+
+  // 检查当前能否转换到 status
+  public canTransition(status: GameStatus): boolean {
+    return this.machine.can(status)
+  }
+
+  // 获取状态机（添加守卫和进入/离开动作）
+  public getStateMachine(): GameStateMachine {
+    return this.machine
+  }
+
   // 获取配置
   public getConfig(): GameConfig {
     return this.config
@@ -49,17 +204,26 @@ export class GameEngine {
     }
   }
 
-  // 开始游戏
+  // 开始游戏，暂停时继续（仍有变形进行中时回到 transforming）
   public start(): void {
-    if (this.state.isPlaying) {
+    if (this.machine.isRunning()) {
       console.warn('Game is already running')
       return
     }
 
+    if (this.isTimeUp() || this.machine.is('completed')) {
+      console.warn('Time is up, reset the game to play again')
+      return
+    }
+
+    // 开始游戏只有 ready -> playing 一条路径，没有上传图片时不能开始
+    if (this.machine.is('idle')) {
+      throw new Error('Cannot start game before an image is uploaded')
+    }
+
     try {
-      this.state.isPlaying = true
-      this.lastUpdateTime = performance.now()
-      this.startGameLoop()
+      this.machine.transition(this.machine.is('paused') && this.pendingTransforms > 0 ? 'transforming' : 'playing')
+      this.autoPaused = false
       this.emit('start', { state: this.state })
       console.log('Game started')
     } catch (error) {
@@ -69,14 +233,13 @@ export class GameEngine {
 
   // 暂停游戏
   public pause(): void {
-    if (!this.state.isPlaying) {
+    if (!this.machine.isRunning()) {
       console.warn('Game is not running')
       return
     }
 
     try {
-      this.state.isPlaying = false
-      this.stopGameLoop()
+      this.machine.transition('paused')
       this.emit('pause', { state: this.state })
       console.log('Game paused')
     } catch (error) {
@@ -88,7 +251,19 @@ export class GameEngine {
   public reset(): void {
     try {
       this.stopGameLoop()
+      this.restorePhaseThresholds()
       this.state = this.createInitialState()
+      this.gameTime = 0
+      this.accumulator = 0
+      this.timeRemaining = this.timeLimit
+      this.pendingTransforms = 0
+      this.finishedTransforms.clear()
+      this.autoPaused = false
+      if (!this.machine.is('idle')) {
+        this.machine.transition('idle', 'reset')
+      }
+      // 录制只覆盖一局游戏
+      this.recorder = null
       this.emit('reset', { state: this.state })
       console.log('Game reset')
     } catch (error) {
@@ -96,48 +271,58 @@ export class GameEngine {
     }
   }
 
-  // 处理点击事件
-  public handleClick(x: number, y: number): void {
-    if (!this.state.isPlaying || !this.state.uploadedImage) {
+  // 处理点击事件（combo 为 InteractionManager 给出的当前连击数，force 为点击力度）
+  public handleClick(x: number, y: number, combo: number = 0, force: number = 1): void {
+    if (!this.machine.isRunning() || !this.state.uploadedImage) {
       return
     }
 
     try {
+      this.recorder?.recordClick(x, y, combo, force)
+
       // 增加点击计数
       this.state.clickCount++
       
       // 检查阶段转换
       this.checkPhaseTransition()
+
+      // 回放时按相同坐标重新查找，不需要写入日志
+      const region = this.hitRegionResolver ? this.hitRegionResolver(x, y) : null
       
       // 发射点击事件
       this.emit('click', { 
         x, 
         y, 
         clickCount: this.state.clickCount,
-        phase: this.state.currentPhase
+        phase: this.state.currentPhase,
+        combo,
+        force,
+        region
       })
 
-      console.log(`Click at (${x}, ${y}), count: ${this.state.clickCount}, phase: ${this.state.currentPhase}`)
+      console.log(`Click at (${x}, ${y}), count: ${this.state.clickCount}, phase: ${this.state.currentPhase}${region ? `, region: ${region.name}` : ''}`)
     } catch (error) {
       this.handleError(ErrorType.RENDER_ERROR, 'Failed to handle click', error)
     }
   }
 
-  // 检查阶段转换
+  // 检查阶段转换，一次跨过多个阈值时依次进入每个阶段
   private checkPhaseTransition(): void {
-    const { clickCount } = this.state
-    const { phase1Threshold, phase2Threshold } = this.config
+    if (this.mode === 'boss') {
+      return
+    }
 
-    let newPhase = this.state.currentPhase
+    const { clickCount } = this.state
+    const targetIndex = this.getPhaseIndexForCount(clickCount)
+    let phaseIndex = this.getCurrentPhaseIndex()
 
-    if (clickCount >= phase2Threshold && this.state.currentPhase !== 'phase2') {
-      newPhase = 'phase2'
-    } else if (clickCount >= phase1Threshold && this.state.currentPhase === 'initial') {
-      newPhase = 'phase1'
+    if (phaseIndex >= targetIndex) {
+      return
     }
 
-    if (newPhase !== this.state.currentPhase) {
+    while (phaseIndex < targetIndex) {
       const oldPhase = this.state.currentPhase
+      const newPhase = this.phases[++phaseIndex].id
       this.state.currentPhase = newPhase
       this.emit('phaseChange', { 
         oldPhase, 
@@ -146,13 +331,121 @@ export class GameEngine {
       })
       console.log(`Phase changed from ${oldPhase} to ${newPhase}`)
     }
+
+    this.checkCompletion()
+    void this.saveSession()
+  }
+
+  // 设置命中区域查找函数，null 表示不区分区域
+  public setHitRegionResolver(resolver: HitRegionResolver | null): void {
+    this.hitRegionResolver = resolver
+  }
+
+  // 设置判断本局是否完成的函数，null 表示按引擎自己的点击数、阶段和变形判断
+  public setCompletionResolver(resolver: CompletionResolver | null): void {
+    this.completionResolver = resolver
+  }
+
+  // 调整当前模式的阶段阈值（自适应节奏测量完成时由外部调用），会录入回放
+  // 阈值数量必须与阶段数一致、从 0 开始并严格递增；新阈值不会立即切换阶段，下一次点击时生效
+  public setPhaseThresholds(thresholds: number[]): void {
+    const valid = thresholds.length === this.phases.length && thresholds[0] === 0 &&
+      thresholds.every((threshold, index) => index === 0 || threshold > thresholds[index - 1])
+    if (!valid) {
+      throw new Error(`Invalid phase thresholds: ${thresholds.join(', ')}`)
+    }
+
+    this.phases = this.phases.map((phase, index) => ({ ...phase, threshold: thresholds[index] }))
+    this.recorder?.recordThresholds(thresholds)
+
+    this.emit('thresholdsChange', { phases: this.getPhases() })
+    console.log('Phase thresholds changed', thresholds)
+  }
+
+  // 撤销 setPhaseThresholds 的调整，恢复当前模式的阶段阈值
+  private restorePhaseThresholds(): void {
+    const phases = this.computePhases()
+    if (phases.some((phase, index) => phase.threshold !== this.phases[index].threshold)) {
+      this.phases = phases
+      this.emit('thresholdsChange', { phases: this.getPhases() })
+    }
+  }
+
+  // 进入下一阶段（boss 模式中血量跌破阈值时由外部调用），已在最后阶段时返回 false
+  public advancePhase(): boolean {
+    const phaseIndex = this.getCurrentPhaseIndex()
+    if (phaseIndex + 1 >= this.phases.length) {
+      return false
+    }
+
+    const oldPhase = this.state.currentPhase
+    const newPhase = this.phases[phaseIndex + 1].id
+    this.state.currentPhase = newPhase
+    this.emit('phaseChange', { oldPhase, newPhase, clickCount: this.state.clickCount })
+    console.log(`Phase advanced from ${oldPhase} to ${newPhase}`)
+    return true
+  }
+
+  // 结束本局（boss 模式击倒目标后由外部调用），游戏未在运行时忽略
+  public complete(reason: string): void {
+    if (!this.machine.isRunning()) {
+      console.warn('Game is not running')
+      return
+    }
+
+    this.machine.transition('completed', reason)
+    this.emit('complete', { clickCount: this.state.clickCount, phase: this.state.currentPhase, state: this.state })
+    console.log(`Round completed (${reason}), count: ${this.state.clickCount}`)
+  }
+
+  // 获取点击数对应的阶段序号
+  private getPhaseIndexForCount(clickCount: number): number {
+    let index = 0
+    while (index + 1 < this.phases.length && clickCount >= this.phases[index + 1].threshold) {
+      index++
+    }
+    return index
+  }
+
+  private getCurrentPhaseIndex(): number {
+    return Math.max(0, this.phases.findIndex(phase => phase.id === this.state.currentPhase))
+  }
+
+  // 获取当前模式下的阶段列表
+  public getPhases(): PhaseDefinition[] {
+    return this.phases.map(phase => ({ ...phase }))
+  }
+
+  // 获取当前阶段的定义
+  public getCurrentPhase(): PhaseDefinition {
+    return { ...this.phases[this.getCurrentPhaseIndex()] }
+  }
+
+  // 获取阶段流程配置（变形预设、弹幕包）
+  public getPhasePipeline(): PhasePipelineConfig {
+    return this.pipeline
+  }
+
+  // 开始上传图片（idle、ready 或 completed 时）
+  public beginUpload(): void {
+    this.machine.transition('uploading')
+  }
+
+  // 上传失败或取消，回到上传前的状态
+  public cancelUpload(): void {
+    if (this.machine.is('uploading')) {
+      this.machine.transition(this.state.uploadedImage ? 'ready' : 'idle', 'upload cancelled')
+    }
   }
 
   // 设置上传的图片
   public setUploadedImage(image: HTMLImageElement): void {
     try {
       this.state.uploadedImage = image
-      this.state.isPlaying = true
+      if (this.machine.is('idle', 'uploading')) {
+        this.machine.transition('ready')
+      }
+      // start() 会进入 playing 并启动游戏循环
       this.start()
       this.emit('imageUploaded', { image, state: this.state })
       console.log('Image uploaded and set')
@@ -161,6 +454,19 @@ export class GameEngine {
     }
   }
 
+  // 切换当前显示的图片（多目标时切换当前目标），不改变点击数和阶段
+  public switchImage(image: HTMLImageElement, transformedImages: HTMLImageElement[] = []): void {
+    if (!this.state.uploadedImage) {
+      console.warn('No image uploaded yet')
+      return
+    }
+
+    this.state.uploadedImage = image
+    this.state.transformedImages = [...transformedImages]
+    this.emit('imageUploaded', { image, state: this.state })
+    void this.saveSession()
+  }
+
   // 添加变形后的图片
   public addTransformedImage(image: HTMLImageElement): void {
     try {
@@ -171,6 +477,8 @@ export class GameEngine {
         state: this.state 
       })
       console.log(`Transformed image added, total: ${this.state.transformedImages.length}`)
+      // 阶段变化时保存的快照还不包含变形结果
+      void this.saveSession()
     } catch (error) {
       this.handleError(ErrorType.API_ERROR, 'Failed to add transformed image', error)
     }
@@ -188,9 +496,404 @@ export class GameEngine {
     return uploadedImage
   }
 
+  // 设置游戏模式（游戏进行中不能切换），会重新计算阶段阈值
+  public setMode(mode: GameMode, options: GameModeOptions = {}): void {
+    if (this.machine.isRunning()) {
+      console.warn('Cannot change mode while the game is running')
+      return
+    }
+
+    this.mode = mode
+    this.timeLimit = mode === 'timed' ? (options.duration ?? this.getTimedSettings().duration) : 0
+    this.timeRemaining = this.timeLimit
+    this.phases = this.computePhases()
+
+    this.emit('modeChange', { mode, timeLimit: this.timeLimit, phases: this.getPhases() })
+    console.log(`Mode set to ${mode}`, this.phases.map(phase => phase.threshold))
+  }
+
+  public getMode(): GameMode {
+    return this.mode
+  }
+
+  // 计时模式总时长（毫秒），经典模式为 0
+  public getTimeLimit(): number {
+    return this.timeLimit
+  }
+
+  // 计时模式剩余时间（毫秒），经典模式为 0
+  public getTimeRemaining(): number {
+    return this.timeRemaining
+  }
+
+  // 计时模式时间是否已用完
+  public isTimeUp(): boolean {
+    return this.mode === 'timed' && this.timeRemaining <= 0
+  }
+
+  // 获取计时模式参数（旧配置缺少时使用默认值）
+  private getTimedSettings() {
+    const {
+      timedModeDuration: duration = defaultGameConfig.timedModeDuration,
+      timedModeExpectedCPS: expectedCPS = defaultGameConfig.timedModeExpectedCPS
+    } = this.config
+    return { duration, expectedCPS }
+  }
+
+  // 计算阶段阈值：计时模式按时长等比缩放，保证冲刺期间能完成所有变形
+  private computePhases(): PhaseDefinition[] {
+    const basePhases = this.pipeline.phases
+    const finalThreshold = basePhases[basePhases.length - 1].threshold
+
+    if (this.mode !== 'timed' || finalThreshold === 0) {
+      return basePhases.map(phase => ({ ...phase }))
+    }
+
+    // 以预期点击数的一半作为最后阶段的阈值，给变形请求留出时间
+    const expectedClicks = (this.timeLimit / 1000) * this.getTimedSettings().expectedCPS
+    const scale = Math.max(basePhases.length - 1, Math.round(expectedClicks / 2)) / finalThreshold
+
+    let previous = 0
+    return basePhases.map((phase, index) => {
+      const threshold = index === 0 ? 0 : Math.max(previous + 1, Math.round(phase.threshold * scale))
+      previous = threshold
+      return { ...phase, threshold }
+    })
+  }
+
+  // 时间用完：结束本局并发射结果
+  private endTimedRound(): void {
+    this.machine.transition('completed', 'time up')
+
+    this.emit('timeUp', {
+      clickCount: this.state.clickCount,
+      duration: this.timeLimit,
+      phase: this.state.currentPhase,
+      state: this.state
+    })
+    console.log(`Time is up, count: ${this.state.clickCount}`)
+  }
+
+  // 启用会话持久化
+  public enableSessionPersistence(options: SessionPersistenceOptions): void {
+    this.disableSessionPersistence()
+    this.persistence = options
+    this.removeVisibilityListener = this.platform.onVisibilityChange(this.visibilityHandler)
+  }
+
+  // 停用会话持久化
+  public disableSessionPersistence(): void {
+    if (this.persistence) {
+      this.removeVisibilityListener?.()
+      this.removeVisibilityListener = null
+      this.persistence = null
+    }
+  }
+
+  // 页面被隐藏、换出或失去焦点时自动暂停，需要玩家手动继续（start），
+  // 回来时不会把离开期间的时间当作一帧补算
+  public enableAutoPause(): void {
+    this.disableAutoPause()
+
+    const removeVisibility = this.platform.onVisibilityChange(() => {
+      if (this.platform.isHidden()) {
+        this.autoPause('hidden')
+      }
+    })
+    const removeFocusLoss = this.platform.onFocusLoss((reason) => this.autoPause(reason))
+    this.removeAutoPauseListeners = () => {
+      removeVisibility()
+      removeFocusLoss()
+    }
+  }
+
+  // 停用自动暂停
+  public disableAutoPause(): void {
+    this.removeAutoPauseListeners?.()
+    this.removeAutoPauseListeners = null
+  }
+
+  // 当前暂停是否由自动暂停引起（继续或重置后清除）
+  public isAutoPaused(): boolean {
+    return this.autoPaused && this.machine.is('paused')
+  }
+
+  // 回放由外部驱动，不受页面焦点影响
+  private autoPause(reason: AutoPauseReason): void {
+    if (!this.machine.isRunning() || this.externalLoop) {
+      return
+    }
+
+    this.machine.transition('paused', `auto pause: ${reason}`)
+    this.autoPaused = true
+    this.emit('pause', { state: this.state })
+    this.emit('autoPause', { reason, state: this.state })
+    console.log(`Game auto paused (${reason})`)
+  }
+
+  // 创建会话快照
+  public async createSnapshot(): Promise<SessionSnapshot> {
+    if (!this.persistence) {
+      throw new Error('Session persistence is not enabled')
+    }
+
+    const { imageCodec, collectExtras } = this.persistence
+    const { uploadedImage, transformedImages, clickCount, currentPhase } = this.state
+    const extras = collectExtras ? collectExtras() : {}
+
+    return {
+      version: SESSION_SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      state: { clickCount, currentPhase, status: this.getSessionStatus() },
+      images: {
+        uploaded: uploadedImage ? await imageCodec.imageToBlob(uploadedImage) : null,
+        transformed: await Promise.all(transformedImages.map(image => imageCodec.imageToBlob(image)))
+      },
+      transformHistory: extras.transformHistory || [],
+      settings: extras.settings || { danmaku: {}, ui: {} },
+      score: extras.score || createEmptyScoreStats(),
+      hitRegions: extras.hitRegions || []
+    }
+  }
+
+  // 快照中的状态：变形请求不会保存，变形中按进行中记录
+  private getSessionStatus(): SessionStatus {
+    if (this.machine.is('paused')) {
+      return 'paused'
+    }
+    return this.machine.isRunning() ? 'playing' : 'ready'
+  }
+
+  // 保存当前会话（没有图片时不保存；只有经典模式保存，计时模式一局很短，boss 模式的血量不在快照中）
+  // 已结束的一局不能继续，清除保存的会话
+  public saveSession(): Promise<void> {
+    if (!this.persistence || !this.state.uploadedImage || this.mode !== 'classic') {
+      return this.pendingSave
+    }
+
+    if (this.machine.is('completed')) {
+      return this.clearSavedSession()
+    }
+
+    const store = this.persistence.store
+
+    // 立即截取当前状态，写入时再按顺序排队，避免旧快照覆盖新快照
+    const snapshot = this.createSnapshot()
+    snapshot.catch(() => {})
+
+    this.pendingSave = this.pendingSave
+      .then(() => snapshot)
+      .then(data => store.save(data))
+      .then(() => {
+        this.emit('sessionSaved', { clickCount: this.state.clickCount, phase: this.state.currentPhase })
+      })
+      .catch(error => {
+        this.handleError(ErrorType.RESOURCE_ERROR, 'Failed to save session', error)
+      })
+
+    return this.pendingSave
+  }
+
+  // 从快照恢复会话
+  public async restoreSnapshot(snapshot: SessionSnapshot): Promise<void> {
+    if (!this.persistence) {
+      throw new Error('Session persistence is not enabled')
+    }
+
+    if (!snapshot.images.uploaded) {
+      throw new Error('Session snapshot has no uploaded image')
+    }
+
+    const { imageCodec } = this.persistence
+
+    try {
+      const uploadedImage = await imageCodec.blobToImage(snapshot.images.uploaded)
+      const transformedImages = await Promise.all(
+        snapshot.images.transformed.map(blob => imageCodec.blobToImage(blob))
+      )
+
+      this.stopGameLoop()
+      if (!this.machine.is('idle')) {
+        this.machine.transition('idle', 'restore')
+      }
+
+      // 阶段配置可能已变化，找不到保存的阶段时按点击数推算
+      const { clickCount, currentPhase } = snapshot.state
+      const hasPhase = this.phases.some(phase => phase.id === currentPhase)
+
+      this.state = {
+        ...this.createInitialState(),
+        clickCount,
+        currentPhase: hasPhase ? currentPhase : this.phases[this.getPhaseIndexForCount(clickCount)].id,
+        uploadedImage,
+        transformedImages
+      }
+      this.pendingTransforms = 0
+      this.finishedTransforms.clear()
+
+      // 回到保存时的状态：暂停的仍然暂停，尚未开始的停在准备状态，等玩家继续
+      this.machine.transition('ready', 'restore')
+      if (snapshot.state.status !== 'ready') {
+        this.start()
+      }
+      if (snapshot.state.status === 'paused') {
+        this.pause()
+      }
+      this.emit('sessionRestored', { snapshot, state: this.state })
+      console.log(`Session restored, count: ${this.state.clickCount}, phase: ${this.state.currentPhase}`)
+    } catch (error) {
+      this.handleError(ErrorType.RESOURCE_ERROR, 'Failed to restore session', error)
+      throw error
+    }
+  }
+
+  // 读取已保存的会话
+  public async loadSavedSession(): Promise<SessionSnapshot | null> {
+    if (!this.persistence) {
+      return null
+    }
+
+    try {
+      return await this.persistence.store.load()
+    } catch (error) {
+      console.warn('Failed to load saved session:', error)
+      return null
+    }
+  }
+
+  // 清除已保存的会话
+  public clearSavedSession(): Promise<void> {
+    if (!this.persistence) {
+      return this.pendingSave
+    }
+
+    const store = this.persistence.store
+
+    // 排在进行中的保存之后，避免清除后又被写回
+    this.pendingSave = this.pendingSave
+      .then(() => store.clear())
+      .catch(error => {
+        console.warn('Failed to clear saved session:', error)
+      })
+
+    return this.pendingSave
+  }
+
+  // 开始录制回放（seed 为本局各子系统使用的随机种子）
+  public startRecording(seed: number): void {
+    this.recorder = new ReplayRecorder({
+      seed,
+      phases: this.phases.map(({ id, threshold }) => ({ id, threshold })),
+      timeLimit: this.timeLimit,
+      mode: this.mode
+    })
+  }
+
+  // 停止录制并返回回放日志
+  public stopRecording(): ReplayLog | null {
+    const log = this.getReplayLog()
+    this.recorder = null
+    return log
+  }
+
+  // 获取当前录制的回放日志
+  public getReplayLog(): ReplayLog | null {
+    return this.recorder ? this.recorder.getLog() : null
+  }
+
+  // 是否正在录制
+  public isRecording(): boolean {
+    return this.recorder !== null
+  }
+
+  // 变形开始（变形由引擎外部执行），进行中进入 transforming
+  public beginTransform(transformType: TransformType): void {
+    this.pendingTransforms++
+    if (this.machine.is('playing')) {
+      this.machine.transition('transforming', transformType)
+    }
+  }
+
+  // 记录变形完成，所有变形结束后回到 playing
+  public recordTransform(transformType: TransformType, success: boolean): void {
+    this.recorder?.recordTransform(transformType, success)
+
+    if (this.pendingTransforms === 0) {
+      return
+    }
+
+    this.pendingTransforms--
+    this.finishedTransforms.add(transformType)
+    if (this.pendingTransforms === 0 && this.machine.is('transforming')) {
+      this.machine.transition('playing', transformType)
+    }
+    this.checkCompletion()
+  }
+
+  // 经典模式的进度全部完成且没有进行中的变形时结束本局
+  // 进度在引擎之外变化时（如多目标各自的命中）由外部调用重新检查
+  public checkCompletion(): void {
+    if (this.mode !== 'classic' || !this.machine.is('playing') || this.pendingTransforms > 0) {
+      return
+    }
+
+    const completed = this.completionResolver ? this.completionResolver() : this.isFinalPhaseFinished()
+    if (completed) {
+      this.machine.transition('completed', 'final phase')
+      this.emit('complete', { clickCount: this.state.clickCount, phase: this.state.currentPhase, state: this.state })
+      void this.clearSavedSession()
+    }
+  }
+
+  // 到达最后阶段且该阶段的变形已完成
+  private isFinalPhaseFinished(): boolean {
+    const finalPhase = this.phases[this.phases.length - 1]
+    if (this.state.currentPhase !== finalPhase.id || this.phases.length === 1) {
+      return false
+    }
+
+    return !finalPhase.transformPreset || this.finishedTransforms.has(finalPhase.transformPreset)
+  }
+
+  // 由外部驱动 update（回放时按日志逐帧推进）
+  public setExternalLoop(enabled: boolean): void {
+    if (this.externalLoop === enabled) {
+      return
+    }
+
+    this.externalLoop = enabled
+    if (enabled) {
+      this.stopGameLoop()
+    } else if (this.machine.isRunning()) {
+      this.lastUpdateTime = this.platform.now()
+      this.accumulator = 0
+      this.startGameLoop()
+    }
+  }
+
+  // 设置性能监控器，每个模拟步和渲染都会被计时
+  public setPerformanceMonitor(monitor: PerformanceMonitor | null): void {
+    this.performanceMonitor = monitor
+  }
+
+  // 获取游戏循环参数（旧配置缺少时使用默认值）
+  private getLoopSettings() {
+    const {
+      fixedTimeStep = defaultGameConfig.fixedTimeStep,
+      maxCatchUpSteps = defaultGameConfig.maxCatchUpSteps,
+      maxFrameTime = defaultGameConfig.maxFrameTime
+    } = this.config
+    return { fixedTimeStep, maxCatchUpSteps, maxFrameTime }
+  }
+
+  // 获取游戏时间（累计的帧间隔，毫秒）
+  public getGameTime(): number {
+    return this.gameTime
+  }
+
   // 游戏循环
   private startGameLoop(): void {
-    if (this.animationId !== null) {
+    if (this.animationId !== null || this.externalLoop) {
       return
     }
 
@@ -199,58 +902,100 @@ export class GameEngine {
         return
       }
 
-      const deltaTime = currentTime - this.lastUpdateTime
+      const { fixedTimeStep, maxCatchUpSteps, maxFrameTime } = this.getLoopSettings()
+
+      // 标签页挂起后的长帧只计入有限时间
+      const frameTime = Math.min(Math.max(currentTime - this.lastUpdateTime, 0), maxFrameTime)
       this.lastUpdateTime = currentTime
+      this.accumulator += frameTime
+
+      // 以固定步长推进模拟，保证不同刷新率下结果一致
+      let steps = 0
+      while (this.accumulator >= fixedTimeStep && steps < maxCatchUpSteps) {
+        this.performanceMonitor?.markUpdateStart()
+        this.update(fixedTimeStep)
+        this.performanceMonitor?.markUpdateEnd()
+
+        this.accumulator -= fixedTimeStep
+        steps++
+
+        // 更新回调可能暂停或销毁了游戏
+        if (!this.state.isPlaying || this.animationId === null) {
+          return
+        }
+      }
+
+      // 追赶步数用尽仍然落后时丢弃多余时间，避免死亡螺旋
+      if (this.accumulator >= fixedTimeStep) {
+        this.accumulator %= fixedTimeStep
+      }
 
-      this.update(deltaTime)
-      this.animationId = requestAnimationFrame(gameLoop)
+      this.render(this.accumulator / fixedTimeStep)
+      this.animationId = this.platform.requestFrame(gameLoop)
     }
 
-    this.animationId = requestAnimationFrame(gameLoop)
+    this.animationId = this.platform.requestFrame(gameLoop)
   }
 
   private stopGameLoop(): void {
     if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId)
+      this.platform.cancelFrame(this.animationId)
       this.animationId = null
     }
   }
 
   // 更新游戏状态
   public update(deltaTime: number): void {
+    this.recorder?.recordFrame(deltaTime)
+    this.gameTime += deltaTime
+
     // 发射更新事件，让其他系统处理具体的更新逻辑
     this.emit('update', { deltaTime, state: this.state })
-  }
 
-  // 事件系统
-  public on(event: string, callback: Function): void {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, [])
+    // 计时模式按游戏时间倒计时，回放时同样逐帧结束
+    if (this.mode === 'timed' && this.machine.isRunning() && this.timeRemaining > 0) {
+      this.timeRemaining = Math.max(0, this.timeRemaining - deltaTime)
+      if (this.timeRemaining === 0) {
+        this.endTimedRound()
+      }
     }
-    this.eventListeners.get(event)!.push(callback)
   }
 
-  public off(event: string, callback: Function): void {
-    const listeners = this.eventListeners.get(event)
-    if (listeners) {
-      const index = listeners.indexOf(callback)
-      if (index > -1) {
-        listeners.splice(index, 1)
-      }
-    }
+  // 渲染一帧，alpha 为当前时间在两个模拟步之间的插值系数 (0-1)
+  public render(alpha: number = 1): void {
+    this.performanceMonitor?.markRenderStart()
+    this.emit('render', { alpha, state: this.state })
+    this.performanceMonitor?.markRenderEnd()
   }
 
-  private emit(event: string, data?: any): void {
-    const listeners = this.eventListeners.get(event)
-    if (listeners) {
-      listeners.forEach(callback => {
-        try {
-          callback(data)
-        } catch (error) {
-          console.error(`Error in event listener for ${event}:`, error)
-        }
-      })
-    }
+  // 事件系统，返回取消订阅函数
+  public on<K extends keyof GameEngineEvents>(
+    event: K,
+    callback: EventListener<GameEngineEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, callback, options)
+  }
+
+  public once<K extends keyof GameEngineEvents>(
+    event: K,
+    callback: EventListener<GameEngineEvents[K]>,
+    options?: Omit<ListenerOptions, 'once'>
+  ): Unsubscribe {
+    return this.events.once(event, callback, options)
+  }
+
+  // 监听所有引擎事件（调试、录制等）
+  public onAny(callback: WildcardListener<GameEngineEvents>, options?: ListenerOptions): Unsubscribe {
+    return this.events.onAny(callback, options)
+  }
+
+  public off<K extends keyof GameEngineEvents>(event: K, callback: EventListener<GameEngineEvents[K]>): void {
+    this.events.off(event, callback)
+  }
+
+  private emit<K extends keyof GameEngineEvents>(event: K, ...args: EventArgs<GameEngineEvents[K]>): void {
+    this.events.emit(event, ...args)
   }
 
   // 错误处理
@@ -270,8 +1015,15 @@ export class GameEngine {
   public destroy(): void {
     try {
       this.stopGameLoop()
-      this.eventListeners.clear()
+      this.disableSessionPersistence()
+      this.disableAutoPause()
+      this.recorder = null
+      // 销毁后所有订阅自动失效
+      this.events.destroy()
       this.state = this.createInitialState()
+      if (!this.machine.is('idle')) {
+        this.machine.transition('idle', 'destroy')
+      }
       console.log('Game engine destroyed')
     } catch (error) {
       console.error('Error destroying game engine:', error)
@@ -280,14 +1032,30 @@ export class GameEngine {
 
   // 获取游戏统计信息
   public getStats() {
+    const { clickCount } = this.state
+    const phaseIndex = this.getCurrentPhaseIndex()
+    const currentThreshold = this.phases[phaseIndex].threshold
+    const nextPhase = this.phases[phaseIndex + 1]
+    const finalThreshold = this.phases[this.phases.length - 1].threshold
+
     return {
-      clickCount: this.state.clickCount,
+      clickCount,
       currentPhase: this.state.currentPhase,
+      status: this.machine.getStatus(),
       isPlaying: this.state.isPlaying,
       hasImage: !!this.state.uploadedImage,
       transformedCount: this.state.transformedImages.length,
-      phase1Progress: Math.min(this.state.clickCount / this.config.phase1Threshold, 1),
-      phase2Progress: Math.min(this.state.clickCount / this.config.phase2Threshold, 1)
+      phaseIndex,
+      phaseCount: this.phases.length,
+      nextPhaseThreshold: nextPhase ? nextPhase.threshold : null,
+      // 当前阶段到下一阶段的进度，最后阶段为 1
+      phaseProgress: nextPhase
+        ? Math.min((clickCount - currentThreshold) / (nextPhase.threshold - currentThreshold), 1)
+        : 1,
+      overallProgress: finalThreshold > 0 ? Math.min(clickCount / finalThreshold, 1) : 1,
+      mode: this.mode,
+      timeLimit: this.timeLimit,
+      timeRemaining: this.timeRemaining
     }
   }
 }
\ No newline at end of file
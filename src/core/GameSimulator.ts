@@ -0,0 +1,307 @@
+/**
+ * 无界面游戏模拟
+ * 用虚拟时钟驱动 GameEngine、DanmakuSystem、EffectSystem 和 ImageTransformManager，
+ * 按脚本输入点击，不依赖 DOM、画布和音频，可以在 Node 中批量运行以调整阈值和检查阶段切换
+ */
+
+import { GameEngine, type GameMode, type GameModeOptions } from './GameEngine';
+import { EffectSystem } from './EffectSystem';
+import { DanmakuSystem } from './DanmakuSystem';
+import { ImageTransformManager, type TransformBackend } from './ImageTransformManager';
+import type { GameStatus } from './GameStateMachine';
+import { defaultGameConfig, type GameConfig } from '@/config/api.config';
+import type { TransformType } from '@/config/phases.config';
+import { VirtualClock } from '@/utils/VirtualClock';
+import { SeededRandom, type RandomSource } from '@/utils/SeededRandom';
+import type { GamePlatform } from '@/utils/Platform';
+import type { GameState } from '@/types';
+
+/**
+ * 脚本中的一次点击，at 为距离开始的虚拟时间（毫秒）
+ */
+export interface ScriptedClick {
+  at: number;
+  x?: number;
+  y?: number;
+  force?: number;
+}
+
+export interface SimulationOptions {
+  config?: GameConfig;
+  mode?: GameMode;
+  modeOptions?: GameModeOptions;
+  seed?: number;
+  frameInterval?: number; // 虚拟帧间隔（毫秒）
+  viewport?: { width: number; height: number };
+  danmakuChance?: number; // 每次点击生成弹幕的概率
+  comboWindow?: number; // 两次点击间隔不超过该值时累计连击
+  transformLatency?: number; // 模拟变形服务的耗时（毫秒）
+  transformFailureRate?: number; // 模拟变形失败的概率
+}
+
+export interface SimulatedPhaseChange {
+  from: GameState['currentPhase'];
+  to: GameState['currentPhase'];
+  clickCount: number;
+  gameTime: number;
+}
+
+export interface SimulatedTransform {
+  transformType: TransformType;
+  success: boolean;
+  clickCount: number; // 开始变形时的点击数
+  gameTime: number; // 变形完成时的游戏时间
+}
+
+export interface SimulationResult {
+  seed: number;
+  clickCount: number;
+  gameTime: number;
+  finalPhase: GameState['currentPhase'];
+  finalStatus: GameStatus;
+  phaseChanges: SimulatedPhaseChange[];
+  transforms: SimulatedTransform[];
+  timeUp: boolean;
+  maxCombo: number;
+  danmakuSpawned: number;
+  effectsSpawned: number;
+}
+
+/**
+ * 生成匀速点击脚本，jitter 为每次间隔随机偏移的比例 (0-1)
+ */
+export function createClickStream(options: {
+  cps: number;
+  duration: number;
+  startAt?: number;
+  jitter?: number;
+  random?: RandomSource;
+}): ScriptedClick[] {
+  const { cps, duration, startAt = 0, jitter = 0, random = Math.random } = options;
+  const interval = 1000 / cps;
+  const clicks: ScriptedClick[] = [];
+
+  let at = startAt;
+  while (at < startAt + duration) {
+    clicks.push({ at });
+    at += interval * (1 + (random() * 2 - 1) * jitter);
+  }
+
+  return clicks;
+}
+
+/**
+ * 不依赖 DOM 的变形后端：等待一段虚拟时间后返回占位图片
+ */
+export function createHeadlessTransformBackend(options: {
+  platform: Pick<GamePlatform, 'setTimeout'>;
+  latency?: number;
+  failureRate?: number;
+  random?: RandomSource;
+}): TransformBackend {
+  const { platform, latency = 0, failureRate = 0, random = Math.random } = options;
+
+  return {
+    encodeImage: async () => 'headless-image',
+    requestTransform: (imageData, transformType) => new Promise((resolve, reject) => {
+      platform.setTimeout(() => {
+        if (random() < failureRate) {
+          reject(new Error(`Simulated transform failure: ${transformType}`));
+        } else {
+          resolve(`${imageData}:${transformType}`);
+        }
+      }, latency);
+    }),
+    decodeImage: async (imageData) => createPlaceholderImage(imageData)
+  };
+}
+
+/**
+ * 模拟用的占位图片，只有尺寸和地址
+ */
+function createPlaceholderImage(src: string): HTMLImageElement {
+  return { src, width: 512, height: 512, naturalWidth: 512, naturalHeight: 512 } as HTMLImageElement;
+}
+
+/**
+ * 让等待中的 Promise 回调执行（变形流程中的异步步骤）
+ */
+function flushAsync(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * 游戏模拟器类，每次 run 都使用全新的引擎和子系统
+ */
+export class GameSimulator {
+  private options: Required<Omit<SimulationOptions, 'seed'>> & Pick<SimulationOptions, 'seed'>;
+
+  constructor(options: SimulationOptions = {}) {
+    this.options = {
+      config: { ...defaultGameConfig, enableAudio: false },
+      mode: 'classic',
+      modeOptions: {},
+      frameInterval: 1000 / 60,
+      viewport: { width: 400, height: 400 },
+      danmakuChance: 0.3,
+      comboWindow: 1000,
+      transformLatency: 2000,
+      transformFailureRate: 0,
+      ...options
+    };
+  }
+
+  /**
+   * 按脚本模拟一局
+   * 经典模式模拟到最后一次点击后 settleTime 毫秒（等待变形完成）或最后的变形完成为止，计时模式模拟到时间用完为止
+   */
+  async run(clicks: ScriptedClick[], settleTime: number = this.options.transformLatency + 2000): Promise<SimulationResult> {
+    const { config, mode, modeOptions, frameInterval, viewport } = this.options;
+    const seed = this.options.seed ?? SeededRandom.createSeed();
+    const random = new SeededRandom(seed);
+    const clock = new VirtualClock({ frameInterval });
+
+    const engine = new GameEngine(config, clock);
+    const effects = new EffectSystem({ maxParticles: config.maxParticles, random: new SeededRandom(seed + 1).asSource() });
+    const danmaku = new DanmakuSystem({
+      canvasWidth: viewport.width,
+      canvasHeight: viewport.height,
+      maxMessages: config.maxDanmaku,
+      defaultSpeed: config.danmakuSpeed,
+      random: new SeededRandom(seed + 2).asSource(),
+      now: () => engine.getGameTime()
+    });
+    const transformManager = new ImageTransformManager({
+      phases: engine.getPhases(),
+      transformPresets: engine.getPhasePipeline().transformPresets,
+      maxTransformAttempts: 1,
+      platform: clock,
+      backend: createHeadlessTransformBackend({
+        platform: clock,
+        latency: this.options.transformLatency,
+        failureRate: this.options.transformFailureRate,
+        random: new SeededRandom(seed + 3).asSource()
+      })
+    });
+
+    const result: SimulationResult = {
+      seed,
+      clickCount: 0,
+      gameTime: 0,
+      finalPhase: engine.getState().currentPhase,
+      finalStatus: engine.getStatus(),
+      phaseChanges: [],
+      transforms: [],
+      timeUp: false,
+      maxCombo: 0,
+      danmakuSpawned: 0,
+      effectsSpawned: 0
+    };
+
+    const attempted = new Set<TransformType>();
+    let pendingTransforms = 0;
+
+    const checkTransform = () => {
+      const state = engine.getState();
+      const { shouldTransform, transformType } = transformManager.shouldTransform(state.clickCount, state);
+      if (!shouldTransform || !transformType || !state.uploadedImage || attempted.has(transformType)) {
+        return;
+      }
+
+      attempted.add(transformType);
+      pendingTransforms++;
+      engine.beginTransform(transformType);
+      const clickCount = state.clickCount;
+
+      transformManager.transformImage(state.uploadedImage, transformType)
+        .then(transform => {
+          if (transform.success && transform.transformedImage) {
+            engine.addTransformedImage(transform.transformedImage);
+          }
+          engine.recordTransform(transformType, transform.success);
+          result.transforms.push({ transformType, success: transform.success, clickCount, gameTime: engine.getGameTime() });
+        })
+        .catch(() => {
+          engine.recordTransform(transformType, false);
+          result.transforms.push({ transformType, success: false, clickCount, gameTime: engine.getGameTime() });
+        })
+        .finally(() => {
+          pendingTransforms--;
+          checkTransform();
+        });
+    };
+
+    engine.on('click', ({ x, y }) => {
+      effects.addClickEffect(x, y);
+      result.effectsSpawned++;
+      if (random.next() < this.options.danmakuChance && danmaku.addMessage()) {
+        result.danmakuSpawned++;
+      }
+    });
+    engine.on('phaseChange', ({ oldPhase, newPhase, clickCount }) => {
+      result.phaseChanges.push({ from: oldPhase, to: newPhase, clickCount, gameTime: engine.getGameTime() });
+      checkTransform();
+    });
+    engine.on('update', ({ deltaTime }) => {
+      effects.update(deltaTime);
+      danmaku.update(deltaTime);
+    });
+    engine.on('modeChange', ({ phases }) => {
+      transformManager.setPhases(phases);
+    });
+    engine.on('timeUp', () => {
+      result.timeUp = true;
+    });
+
+    engine.init();
+    engine.setMode(mode, modeOptions);
+    engine.setUploadedImage(createPlaceholderImage('headless-upload'));
+
+    const script = [...clicks].sort((a, b) => a.at - b.at);
+    const endTime = (mode === 'timed'
+      ? engine.getTimeLimit()
+      : (script.length > 0 ? script[script.length - 1].at : 0)) + settleTime;
+
+    let next = 0;
+    let combo = 0;
+    let lastClickAt = -Infinity;
+
+    try {
+      while (clock.now() < endTime && !engine.getStateMachine().is('completed')) {
+        // 把到期的点击交给引擎（点击在帧之间处理，与浏览器中的输入事件一致）
+        while (next < script.length && script[next].at <= clock.now()) {
+          const click = script[next++];
+          combo = click.at - lastClickAt <= this.options.comboWindow ? combo + 1 : 1;
+          lastClickAt = click.at;
+          result.maxCombo = Math.max(result.maxCombo, combo);
+          engine.handleClick(click.x ?? viewport.width / 2, click.y ?? viewport.height / 2, combo, click.force ?? 1);
+        }
+
+        clock.advance(frameInterval);
+
+        if (pendingTransforms > 0) {
+          await flushAsync();
+        }
+      }
+
+      // 等待进行中的变形结束
+      while (pendingTransforms > 0) {
+        clock.advance(frameInterval);
+        await flushAsync();
+      }
+    } finally {
+      const state = engine.getState();
+      result.clickCount = state.clickCount;
+      result.finalPhase = state.currentPhase;
+      result.gameTime = engine.getGameTime();
+      result.finalStatus = engine.getStatus();
+
+      transformManager.destroy();
+      danmaku.destroy();
+      effects.destroy();
+      engine.destroy();
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * 游戏状态机
+ * idle → uploading → ready → playing ↔ paused，进行中发起变形时进入 transforming，一局结束进入 completed
+ * 只允许转换表中的转换，非法转换和被守卫拒绝的转换会抛出错误；引擎、页面、GameUI 和 ImageUploader 都以这里的状态为准
+ */
+
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+
+export type GameStatus = 'idle' | 'uploading' | 'ready' | 'playing' | 'paused' | 'transforming' | 'completed';
+
+/**
+ * 转换表：状态 -> 可以转换到的状态
+ * 任何状态都可以重置回 idle；只能从 ready 开始游戏
+ */
+export const GAME_STATUS_TRANSITIONS: Readonly<Record<GameStatus, readonly GameStatus[]>> = {
+  idle: ['uploading', 'ready'],
+  uploading: ['ready', 'idle'],
+  ready: ['playing', 'uploading', 'idle'],
+  playing: ['paused', 'transforming', 'completed', 'idle'],
+  paused: ['playing', 'transforming', 'idle'],
+  transforming: ['playing', 'paused', 'completed', 'idle'],
+  completed: ['uploading', 'idle']
+};
+
+/**
+ * 游戏循环运行中的状态（接受点击）
+ */
+export const RUNNING_STATUSES: readonly GameStatus[] = ['playing', 'transforming'];
+
+export interface StateTransition {
+  from: GameStatus;
+  to: GameStatus;
+  at: number; // 转换时间（毫秒）
+  reason?: string;
+}
+
+/**
+ * 转换守卫，返回 false 时拒绝转换
+ */
+export type TransitionGuard = (transition: StateTransition) => boolean;
+
+/**
+ * 进入或离开状态时执行的动作
+ */
+export type StateAction = EventListener<StateTransition>;
+
+// 状态机事件表
+export type GameStateMachineEvents = {
+  exit: StateTransition;
+  enter: StateTransition;
+  transition: StateTransition;
+};
+
+export interface GameStateMachineOptions {
+  initial?: GameStatus;
+  now?: () => number; // 记录转换时间的时钟
+  historyLimit?: number; // 保留的转换记录条数
+}
+
+/**
+ * 检查转换表是否允许 from -> to（不检查守卫）
+ */
+export function isTransitionAllowed(from: GameStatus, to: GameStatus): boolean {
+  return GAME_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 游戏状态机类
+ */
+export class GameStateMachine {
+  private status: GameStatus;
+  private now: () => number;
+  private historyLimit: number;
+  private history: StateTransition[] = [];
+  private guards = new Map<GameStatus, Set<TransitionGuard>>();
+  private events = new EventEmitter<GameStateMachineEvents>('GameStateMachine');
+
+  constructor(options: GameStateMachineOptions = {}) {
+    this.status = options.initial ?? 'idle';
+    this.now = options.now ?? Date.now;
+    this.historyLimit = options.historyLimit ?? 50;
+  }
+
+  /**
+   * 获取当前状态
+   */
+  getStatus(): GameStatus {
+    return this.status;
+  }
+
+  /**
+   * 当前状态是否为 status 之一
+   */
+  is(...statuses: GameStatus[]): boolean {
+    return statuses.includes(this.status);
+  }
+
+  /**
+   * 游戏循环是否在运行
+   */
+  isRunning(): boolean {
+    return RUNNING_STATUSES.includes(this.status);
+  }
+
+  /**
+   * 检查能否转换到 to（转换表和守卫都通过）
+   */
+  can(to: GameStatus): boolean {
+    return isTransitionAllowed(this.status, to) && this.passesGuards({ from: this.status, to, at: this.now() });
+  }
+
+  /**
+   * 转换到 to，依次执行离开动作、进入动作并发出 transition
+   * 转换表不允许或守卫拒绝时抛出错误，状态保持不变
+   */
+  transition(to: GameStatus, reason?: string): StateTransition {
+    const from = this.status;
+    const transition: StateTransition = { from, to, at: this.now(), reason };
+
+    if (!isTransitionAllowed(from, to)) {
+      throw new Error(`Illegal game state transition: ${from} -> ${to}`);
+    }
+
+    if (!this.passesGuards(transition)) {
+      throw new Error(`Game state transition rejected by guard: ${from} -> ${to}`);
+    }
+
+    this.events.emit('exit', transition);
+    this.status = to;
+    this.history.push(transition);
+    if (this.history.length > this.historyLimit) {
+      this.history.shift();
+    }
+    this.events.emit('enter', transition);
+    this.events.emit('transition', transition);
+
+    return transition;
+  }
+
+  /**
+   * 为进入 to 的转换添加守卫，返回移除函数
+   */
+  addGuard(to: GameStatus, guard: TransitionGuard): Unsubscribe {
+    if (!this.guards.has(to)) {
+      this.guards.set(to, new Set());
+    }
+
+    this.guards.get(to)!.add(guard);
+    return () => {
+      this.guards.get(to)?.delete(guard);
+    };
+  }
+
+  /**
+   * 进入 status 时执行 action
+   */
+  onEnter(status: GameStatus, action: StateAction): Unsubscribe {
+    return this.events.on('enter', (transition) => {
+      if (transition.to === status) action(transition);
+    });
+  }
+
+  /**
+   * 离开 status 时执行 action
+   */
+  onExit(status: GameStatus, action: StateAction): Unsubscribe {
+    return this.events.on('exit', (transition) => {
+      if (transition.from === status) action(transition);
+    });
+  }
+
+  /**
+   * 监听所有转换
+   */
+  onTransition(listener: EventListener<StateTransition>, options?: ListenerOptions): Unsubscribe {
+    return this.events.on('transition', listener, options);
+  }
+
+  /**
+   * 获取转换记录（从旧到新）
+   */
+  getHistory(): StateTransition[] {
+    return this.history.map(transition => ({ ...transition }));
+  }
+
+  /**
+   * 上一个状态，没有转换记录时为 null
+   */
+  getPreviousStatus(): GameStatus | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1].from : null;
+  }
+
+  /**
+   * 清除转换记录
+   */
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  /**
+   * 销毁状态机，移除所有守卫和动作
+   */
+  destroy(): void {
+    this.guards.clear();
+    this.events.destroy();
+    this.history = [];
+  }
+
+  private passesGuards(transition: StateTransition): boolean {
+    const guards = this.guards.get(transition.to);
+    return !guards || Array.from(guards).every(guard => guard(transition));
+  }
+}
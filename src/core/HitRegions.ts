@@ -0,0 +1,124 @@
+/**
+ * 命中区域
+ * 玩家在上传的图片上画出的矩形或多边形区域（脸、肚子等），坐标按图片尺寸归一化 (0-1)，
+ * 与图片在画布上的排布无关；每个区域有得分倍数和自定义的弹幕、音效反应
+ */
+
+/**
+ * 图片上的点，x、y 为占图片宽高的比例
+ */
+export interface HitRegionPoint {
+  x: number;
+  y: number;
+}
+
+export type HitRegionShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: HitRegionPoint[] };
+
+/**
+ * 命中区域时的反应
+ */
+export interface HitRegionReaction {
+  danmaku?: string[]; // 命中时随机发出其中一条弹幕
+  sound?: string; // GameAudioSystem 中的音效名
+}
+
+export interface HitRegion {
+  id: string;
+  name: string;
+  shape: HitRegionShape;
+  multiplier: number; // 得分和伤害倍数
+  reaction?: HitRegionReaction;
+}
+
+/**
+ * 图片在画布上的绘制区域（视口坐标）
+ */
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 检查点是否在形状内（多边形使用射线法）
+ */
+export function containsPoint(shape: HitRegionShape, point: HitRegionPoint): boolean {
+  if (shape.type === 'rect') {
+    return point.x >= shape.x && point.x <= shape.x + shape.width &&
+      point.y >= shape.y && point.y <= shape.y + shape.height;
+  }
+
+  const { points } = shape;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 查找命中的区域，区域重叠时后画的区域在上层
+ */
+export function findHitRegion(regions: HitRegion[], point: HitRegionPoint): HitRegion | null {
+  for (let i = regions.length - 1; i >= 0; i--) {
+    if (containsPoint(regions[i].shape, point)) {
+      return regions[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * 把视口坐标换算为图片上的归一化坐标，点在图片之外时返回 null
+ */
+export function toImagePoint(x: number, y: number, rect: ImageRect): HitRegionPoint | null {
+  if (rect.width <= 0 || rect.height <= 0) {
+    return null;
+  }
+
+  const point = { x: (x - rect.x) / rect.width, y: (y - rect.y) / rect.height };
+  return point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1 ? point : null;
+}
+
+/**
+ * 复制命中区域
+ */
+export function cloneHitRegion(region: HitRegion): HitRegion {
+  const shape: HitRegionShape = region.shape.type === 'rect'
+    ? { ...region.shape }
+    : { type: 'polygon', points: region.shape.points.map(point => ({ ...point })) };
+
+  return {
+    ...region,
+    shape,
+    ...(region.reaction ? {
+      reaction: { ...region.reaction, ...(region.reaction.danmaku ? { danmaku: [...region.reaction.danmaku] } : {}) }
+    } : {})
+  };
+}
+
+/**
+ * 检查数据是否为有效的命中区域（读取保存的数据时使用）
+ */
+export function isValidHitRegion(value: any): value is HitRegion {
+  if (!value || typeof value.id !== 'string' || typeof value.name !== 'string' ||
+    typeof value.multiplier !== 'number' || !value.shape) {
+    return false;
+  }
+
+  const { shape } = value;
+  if (shape.type === 'rect') {
+    return ['x', 'y', 'width', 'height'].every(key => typeof shape[key] === 'number');
+  }
+
+  return shape.type === 'polygon' && Array.isArray(shape.points) && shape.points.length >= 3 &&
+    shape.points.every((point: any) => typeof point?.x === 'number' && typeof point?.y === 'number');
+}
@@ -0,0 +1,254 @@
+/**
+ * 图片编辑（裁剪、旋转、翻转、缩放）
+ * 开始游戏前对上传的图片做的调整。裁剪框和脸部标记按“旋转翻转后的图片”的尺寸归一化 (0-1)，
+ * 旋转和翻转都作用在当前画面上，对应的 EXIF 方向见 getEditOrientation
+ */
+
+import type { ExifOrientation } from '@/utils/ExifParser';
+
+export type EditRotation = 0 | 90 | 180 | 270;
+
+export interface EditPoint {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdit {
+  rotation: EditRotation; // 顺时针旋转角度
+  flipped: boolean; // 旋转之后是否水平翻转
+  crop: CropRect;
+  focus: EditPoint | null; // 手动标记的脸部位置，裁剪框以它为中心
+}
+
+/**
+ * 裁剪比例预设（宽/高），free 为自由比例
+ */
+export const ASPECT_PRESETS = {
+  free: null,
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+  '16:9': 16 / 9
+} as const;
+
+export type AspectPreset = keyof typeof ASPECT_PRESETS;
+
+// 裁剪框最小边长（占图片的比例），即最大放大倍数为 10 倍
+export const MIN_CROP_SIZE = 0.1;
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * 不做任何调整的编辑
+ */
+export function createImageEdit(): ImageEdit {
+  return { rotation: 0, flipped: false, crop: { ...FULL_CROP }, focus: null };
+}
+
+/**
+ * 编辑是否不改变图片
+ */
+export function isIdentityEdit(edit: ImageEdit): boolean {
+  const { crop } = edit;
+  return edit.rotation === 0 && !edit.flipped &&
+    crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+}
+
+/**
+ * 旋转和翻转对应的 EXIF 方向，用于 ImageManager.imageToCanvas
+ */
+export function getEditOrientation(edit: Pick<ImageEdit, 'rotation' | 'flipped'>): ExifOrientation {
+  const orientations: Record<EditRotation, [ExifOrientation, ExifOrientation]> = {
+    0: [1, 2],
+    90: [6, 5],
+    180: [3, 4],
+    270: [8, 7]
+  };
+  return orientations[edit.rotation][edit.flipped ? 1 : 0];
+}
+
+/**
+ * 旋转翻转后的图片尺寸
+ */
+export function getOrientedSize(width: number, height: number, rotation: EditRotation): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * 画面旋转 90 度（clockwise 为 false 时逆时针），裁剪框和脸部标记随画面一起转
+ */
+export function rotateEdit(edit: ImageEdit, clockwise: boolean = true): ImageEdit {
+  // 翻转后再旋转画面，相当于原图反方向旋转
+  const step = clockwise !== edit.flipped ? 90 : 270;
+  const rotatePoint = (point: EditPoint): EditPoint => clockwise
+    ? { x: 1 - point.y, y: point.x }
+    : { x: point.y, y: 1 - point.x };
+
+  const { crop } = edit;
+  const corner = rotatePoint(clockwise ? { x: crop.x, y: crop.y + crop.height } : { x: crop.x + crop.width, y: crop.y });
+
+  return {
+    rotation: ((edit.rotation + step) % 360) as EditRotation,
+    flipped: edit.flipped,
+    crop: { x: corner.x, y: corner.y, width: crop.height, height: crop.width },
+    focus: edit.focus ? rotatePoint(edit.focus) : null
+  };
+}
+
+/**
+ * 画面水平或垂直翻转
+ */
+export function flipEdit(edit: ImageEdit, axis: 'horizontal' | 'vertical'): ImageEdit {
+  const { crop, focus } = edit;
+
+  if (axis === 'horizontal') {
+    return {
+      ...edit,
+      flipped: !edit.flipped,
+      crop: { ...crop, x: 1 - crop.x - crop.width },
+      focus: focus ? { x: 1 - focus.x, y: focus.y } : null
+    };
+  }
+
+  // 垂直翻转 = 旋转 180 度再水平翻转
+  return {
+    rotation: ((edit.rotation + 180) % 360) as EditRotation,
+    flipped: !edit.flipped,
+    crop: { ...crop, y: 1 - crop.y - crop.height },
+    focus: focus ? { x: focus.x, y: 1 - focus.y } : null
+  };
+}
+
+/**
+ * 宽高比换算为归一化坐标下裁剪框的宽高比（imageAspect 为旋转后图片的宽/高）
+ */
+function toNormalizedAspect(aspect: number, imageAspect: number): number {
+  return aspect / imageAspect;
+}
+
+/**
+ * 把裁剪框限制在图片内，并保证不小于最小尺寸
+ */
+export function clampCrop(crop: CropRect): CropRect {
+  const width = Math.min(Math.max(crop.width, MIN_CROP_SIZE), 1);
+  const height = Math.min(Math.max(crop.height, MIN_CROP_SIZE), 1);
+  return {
+    x: Math.min(Math.max(crop.x, 0), 1 - width),
+    y: Math.min(Math.max(crop.y, 0), 1 - height),
+    width,
+    height
+  };
+}
+
+/**
+ * 以当前裁剪框的中心取符合比例的最大裁剪框（aspect 为 null 时不改变）
+ */
+export function fitCropToAspect(crop: CropRect, aspect: number | null, imageAspect: number): CropRect {
+  if (aspect === null) {
+    return clampCrop(crop);
+  }
+
+  const ratio = toNormalizedAspect(aspect, imageAspect);
+  // 在整张图内能放下的最大尺寸，再不超过当前裁剪框的面积
+  let width = Math.min(1, ratio);
+  let height = width / ratio;
+  const scale = Math.min(1, Math.sqrt((crop.width * crop.height) / (width * height)));
+  width *= scale;
+  height *= scale;
+
+  return centerCrop({ x: 0, y: 0, width, height }, {
+    x: crop.x + crop.width / 2,
+    y: crop.y + crop.height / 2
+  });
+}
+
+/**
+ * 以 anchor 为中心缩放裁剪框：factor 大于 1 为放大画面（裁剪框变小），保持裁剪框的宽高比
+ */
+export function zoomCrop(crop: CropRect, factor: number, anchor: EditPoint = {
+  x: crop.x + crop.width / 2,
+  y: crop.y + crop.height / 2
+}): CropRect {
+  if (!(factor > 0)) {
+    throw new Error(`Invalid zoom factor: ${factor}`);
+  }
+
+  // 受最小尺寸和图片范围限制时，宽高按同一比例缩放
+  const limit = Math.max(MIN_CROP_SIZE / crop.width, MIN_CROP_SIZE / crop.height);
+  const maxScale = Math.min(1 / crop.width, 1 / crop.height);
+  const scale = Math.min(Math.max(1 / factor, limit), maxScale);
+  const width = crop.width * scale;
+  const height = crop.height * scale;
+
+  // 缩放前后 anchor 在裁剪框中的相对位置不变
+  return clampCrop({
+    x: anchor.x - (anchor.x - crop.x) * scale,
+    y: anchor.y - (anchor.y - crop.y) * scale,
+    width,
+    height
+  });
+}
+
+/**
+ * 平移裁剪框（dx、dy 为归一化的位移）
+ */
+export function panCrop(crop: CropRect, dx: number, dy: number): CropRect {
+  return clampCrop({ ...crop, x: crop.x + dx, y: crop.y + dy });
+}
+
+/**
+ * 移动裁剪框，使 point（如脸部标记）尽量位于中心
+ */
+export function centerCrop(crop: CropRect, point: EditPoint): CropRect {
+  return clampCrop({
+    ...crop,
+    x: point.x - crop.width / 2,
+    y: point.y - crop.height / 2
+  });
+}
+
+/**
+ * 由拖动的两个角得到裁剪框；指定比例时以起点为固定角，按拖动方向取符合比例的框
+ */
+export function createCropFromDrag(start: EditPoint, end: EditPoint, aspect: number | null, imageAspect: number): CropRect {
+  let width = Math.abs(end.x - start.x);
+  let height = Math.abs(end.y - start.y);
+
+  if (aspect !== null) {
+    const ratio = toNormalizedAspect(aspect, imageAspect);
+    if (width / ratio > height) {
+      height = width / ratio;
+    } else {
+      width = height * ratio;
+    }
+    // 超出图片时按比例缩小
+    const maxWidth = end.x >= start.x ? 1 - start.x : start.x;
+    const maxHeight = end.y >= start.y ? 1 - start.y : start.y;
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    width *= scale;
+    height *= scale;
+  }
+
+  return clampCrop({
+    x: end.x >= start.x ? start.x : start.x - width,
+    y: end.y >= start.y ? start.y : start.y - height,
+    width,
+    height
+  });
+}
+
+/**
+ * 编辑的简短标识，同一张图片的不同编辑结果据此区分（如分别保存命中区域）
+ */
+export function getImageEditKey(edit: ImageEdit): string {
+  const { crop } = edit;
+  const round = (value: number) => Math.round(value * 1000);
+  return `r${edit.rotation}${edit.flipped ? 'f' : ''}-${round(crop.x)}-${round(crop.y)}-${round(crop.width)}-${round(crop.height)}`;
+}
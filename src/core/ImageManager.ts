@@ -4,7 +4,21 @@
  */
 
 import type { GameError } from '@/types/error.types';
+import { blobToDataUrl, dataUrlToBlob, type ImageCache } from '@/services/ImageCache';
+import { hashBuffer } from '@/utils/ContentHash';
 import { DeviceDetector } from '@/utils/DeviceDetector';
+import {
+  getOrientationTransform,
+  parseJpegMetadata,
+  stripJpegMetadata,
+  type ExifOrientation
+} from '@/utils/ExifParser';
+import { decodeGif } from '@/utils/GifDecoder';
+import { IMAGE_HEADER_SIZE, getImageMimeType, sniffImageFormat, type ImageFormat } from '@/utils/ImageFormat';
+import type { ImageOutputFormat, ImagePipelineOptions } from '@/utils/ImagePipeline';
+import { ImageProcessor } from '@/utils/ImageProcessor';
+import { AnimatedImage } from './AnimatedImage';
+import { getEditOrientation, getImageEditKey, isIdentityEdit, type ImageEdit } from './ImageEdit';
 
 export interface ImageValidationResult {
   isValid: boolean;
@@ -19,6 +33,22 @@ export interface ImageProcessOptions {
   format?: 'jpeg' | 'png' | 'webp';
 }
 
+export interface ImageManagerOptions {
+  processor?: ImageProcessor; // 后台图片处理，默认按需启动 Worker
+  cache?: ImageCache | null; // 持久缓存，上传的处理结果和提交变形的编码结果按内容哈希保存
+}
+
+export interface ImageUploadOptions {
+  gifFrame?: number; // GIF 作为静态图片使用的帧，默认第一帧
+  animateGif?: boolean; // 多帧 GIF 是否作为动图继续播放（见 getAnimation），默认 true
+}
+
+// 浏览器无法解码时的提示
+const UNSUPPORTED_FORMAT_MESSAGES: Partial<Record<ImageFormat, string>> = {
+  heic: '当前浏览器无法打开 HEIC 照片，请在相册中导出为 JPEG，或在相机设置中选择「兼容性最佳」后重新拍摄',
+  avif: '当前浏览器无法打开 AVIF 图片，请更新浏览器或转换为 JPEG/PNG 后上传'
+};
+
 /**
  * 图片管理器类
  */
@@ -27,68 +57,98 @@ export class ImageManager {
   private supportedFormats: string[];
   private imageCache: Map<string, HTMLImageElement> = new Map();
   private processingQueue: Map<string, Promise<HTMLImageElement>> = new Map();
+  private animations: WeakMap<HTMLImageElement, AnimatedImage> = new WeakMap();
+  private contentKeys: WeakMap<HTMLImageElement, string> = new WeakMap();
+  private processor: ImageProcessor;
+  private cache: ImageCache | null;
 
   constructor(
     maxFileSize: number = 5 * 1024 * 1024, // 5MB
-    supportedFormats: string[] = ['image/jpeg', 'image/png', 'image/webp']
+    supportedFormats: string[] = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic', 'image/heif'],
+    options: ImageManagerOptions = {}
   ) {
     this.maxFileSize = maxFileSize;
     this.supportedFormats = supportedFormats;
+    this.processor = options.processor || new ImageProcessor();
+    this.cache = options.cache || null;
   }
 
   /**
-   * 上传并处理图片
+   * 上传并处理图片（格式按文件内容识别，不依赖 file.type）
+   * 按文件内容的哈希缓存：内容相同的照片直接复用处理结果，文件名和大小相同的不同照片不会混用
+   * 读取整个文件和计算哈希之前，先按大小和开头字节识别出的格式验证，过大或不支持的文件不会被整个读入
    */
-  async uploadImage(file: File): Promise<HTMLImageElement> {
-    // 验证文件
-    const validation = this.validateImage(file);
-    if (!validation.isValid) {
-      throw this.createError('UPLOAD_ERROR', validation.error || '图片验证失败', {
-        fileName: file.name,
-        fileSize: file.size,
-        fileType: file.type,
-        reason: 'validation'
-      });
-    }
-
-    // 检查是否已在处理队列中
-    const fileKey = this.getFileKey(file);
-    if (this.processingQueue.has(fileKey)) {
-      return this.processingQueue.get(fileKey)!;
-    }
-
-    // 创建处理Promise
-    const processingPromise = this.processImageFile(file);
-    this.processingQueue.set(fileKey, processingPromise);
+  async uploadImage(file: File, options: ImageUploadOptions = {}): Promise<HTMLImageElement> {
+    let fileKey: string | null = null;
 
     try {
+      const header = await this.readFileAsArrayBuffer(file.slice(0, IMAGE_HEADER_SIZE));
+      const format = sniffImageFormat(header);
+      const mimeType = format ? getImageMimeType(format) : file.type;
+
+      const validation = this.validateImage(file, mimeType);
+      if (!validation.isValid) {
+        throw this.createError('UPLOAD_ERROR', validation.error || '图片验证失败', {
+          fileName: file.name,
+          fileSize: file.size,
+          fileType: mimeType,
+          reason: 'validation'
+        });
+      }
+
+      const buffer = await this.readFileAsArrayBuffer(file);
+      const contentHash = await hashBuffer(buffer);
+      fileKey = this.getUploadKey(contentHash, options);
+
+      const cachedImage = this.imageCache.get(fileKey);
+      if (cachedImage) {
+        return cachedImage;
+      }
+
+      // 检查是否已在处理队列中
+      const queued = this.processingQueue.get(fileKey);
+      if (queued) {
+        return await queued;
+      }
+
+      // 创建处理Promise
+      const processingPromise = this.loadImageFile(buffer, contentHash, format, mimeType, options);
+      this.processingQueue.set(fileKey, processingPromise);
+
       const image = await processingPromise;
       
       // 缓存处理后的图片
+      this.contentKeys.set(image, fileKey);
       this.imageCache.set(fileKey, image);
       
       return image;
     } catch (error) {
+      // 验证失败和格式不支持的错误原样抛出，提示更具体
+      if (this.isGameError(error)) {
+        throw error;
+      }
       throw this.createError('UPLOAD_ERROR', '图片处理失败', {
         fileName: file.name,
         originalError: error
       });
     } finally {
       // 清理处理队列
-      this.processingQueue.delete(fileKey);
+      if (fileKey) {
+        this.processingQueue.delete(fileKey);
+      }
     }
   }
 
   /**
-   * 验证图片文件
+   * 验证图片文件，detectedType 为按文件内容识别出的类型（识别不出时使用 file.type）
    */
-  validateImage(file: File): ImageValidationResult {
+  validateImage(file: File, detectedType: string = file.type): ImageValidationResult {
     // 检查文件类型
-    if (!this.supportedFormats.includes(file.type)) {
+    if (!this.supportedFormats.includes(detectedType)) {
       return {
         isValid: false,
         error: `不支持的文件格式。支持的格式: ${this.supportedFormats.join(', ')}`,
-        details: { fileType: file.type, supportedFormats: this.supportedFormats }
+        details: { fileType: detectedType, supportedFormats: this.supportedFormats }
       };
     }
 
@@ -171,9 +231,42 @@ export class ImageManager {
   }
 
   /**
-   * 将图片转换为Canvas
+   * 缩小并编码为Base64 DataURL（提交给变形接口）
    */
-  imageToCanvas(image: HTMLImageElement): HTMLCanvasElement {
+  async encodeImage(image: HTMLImageElement, options: ImageProcessOptions = {}): Promise<string> {
+    const {
+      maxWidth = image.width,
+      maxHeight = image.height,
+      format = 'jpeg',
+      quality = 0.8
+    } = options;
+
+    // 上传的图片按内容缓存编码结果：重新上传同一张照片时提交相同的数据，变形结果也能命中缓存
+    const contentKey = this.contentKeys.get(image);
+    const cacheKey = contentKey ? `encoded:${contentKey}:${maxWidth}x${maxHeight}:${format}:${quality}` : null;
+    const cached = cacheKey ? await this.readCache(cacheKey) : null;
+    if (cached) {
+      return blobToDataUrl(cached);
+    }
+
+    const dataUrl = await this.encodeImageData(image, { maxWidth, maxHeight, format, quality });
+    if (cacheKey) {
+      this.writeCache(cacheKey, dataUrl);
+    }
+    return dataUrl;
+  }
+
+  /**
+   * 获取上传图片的内容键（文件内容的哈希，调整后的图片附带调整的标识），其他图片返回 null
+   */
+  getContentKey(image: HTMLImageElement): string | null {
+    return this.contentKeys.get(image) || null;
+  }
+
+  /**
+   * 将图片转换为Canvas，按 EXIF 方向旋转或翻转（图片本身不能带有方向信息，否则浏览器会再转一次）
+   */
+  imageToCanvas(image: HTMLImageElement, orientation: ExifOrientation = 1): HTMLCanvasElement {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     
@@ -181,13 +274,106 @@ export class ImageManager {
       throw this.createError('RENDER_ERROR', 'Canvas上下文创建失败');
     }
 
-    canvas.width = image.width;
-    canvas.height = image.height;
+    const { width, height, matrix } = getOrientationTransform(orientation, image.width, image.height);
+    canvas.width = width;
+    canvas.height = height;
+    ctx.transform(...matrix);
     ctx.drawImage(image, 0, 0);
     
     return canvas;
   }
 
+  /**
+   * 按编辑结果（旋转、翻转后裁剪）生成Canvas，游戏和变形都使用它
+   */
+  applyImageEdit(image: HTMLImageElement, edit: ImageEdit): HTMLCanvasElement {
+    const oriented = this.imageToCanvas(image, getEditOrientation(edit));
+    const { crop } = edit;
+    const sx = Math.round(crop.x * oriented.width);
+    const sy = Math.round(crop.y * oriented.height);
+    const width = Math.max(1, Math.min(Math.round(crop.width * oriented.width), oriented.width - sx));
+    const height = Math.max(1, Math.min(Math.round(crop.height * oriented.height), oriented.height - sy));
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw this.createError('RENDER_ERROR', 'Canvas上下文创建失败');
+    }
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(oriented, sx, sy, width, height, 0, 0, width, height);
+
+    return canvas;
+  }
+
+  /**
+   * 按编辑结果生成新图片；编辑不改变图片时原样返回（动图保持播放）
+   */
+  async editImage(image: HTMLImageElement, edit: ImageEdit): Promise<HTMLImageElement> {
+    if (isIdentityEdit(edit)) {
+      return image;
+    }
+
+    // 可能带透明像素的图片（PNG、GIF 的帧）保持 PNG，照片使用 JPEG
+    const mimeType = image.src.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
+    const edited = await this.loadImageFromDataUrl(this.applyImageEdit(image, edit).toDataURL(mimeType, 0.92));
+
+    const contentKey = this.contentKeys.get(image);
+    if (contentKey) {
+      this.contentKeys.set(edited, `${contentKey}:${getImageEditKey(edit)}`);
+    }
+    return edited;
+  }
+
+  /**
+   * 将图片转换为Blob
+   */
+  imageToBlob(
+    image: HTMLImageElement | HTMLCanvasElement,
+    options: ImageProcessOptions = {}
+  ): Promise<Blob> {
+    const canvas = image instanceof HTMLCanvasElement ?
+      image : this.imageToCanvas(image);
+
+    const mimeType = `image/${options.format || 'png'}`;
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(this.createError('RENDER_ERROR', '图片编码失败'));
+        }
+      }, mimeType, options.quality);
+    });
+  }
+
+  /**
+   * 从Blob创建图片
+   */
+  blobToImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(blob);
+      const image = new Image();
+
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(this.createError('RENDER_ERROR', '图片解码失败'));
+      };
+
+      image.src = url;
+    });
+  }
+
   /**
    * 压缩图片
    */
@@ -255,43 +441,266 @@ export class ImageManager {
   }
 
   /**
-   * 处理图片文件
+   * 结束后台处理的 Worker
+   */
+  destroy(): void {
+    this.processor.destroy();
+    this.clearCache();
+  }
+
+  /**
+   * 获取多帧 GIF 上传后对应的动图，静态图片返回 null
+   */
+  getAnimation(image: HTMLImageElement): AnimatedImage | null {
+    return this.animations.get(image) || null;
+  }
+
+  /**
+   * 处理已通过验证的图片文件内容
+   */
+  private async loadImageFile(
+    buffer: ArrayBuffer,
+    contentHash: string,
+    format: ImageFormat | null,
+    mimeType: string,
+    options: ImageUploadOptions
+  ): Promise<HTMLImageElement> {
+    if (format === 'gif') {
+      return this.processGif(buffer, options);
+    }
+
+    // 处理过的照片（去掉元数据、摆正后）在刷新页面后也不必重新处理
+    const cacheKey = `upload:${contentHash}`;
+    const cached = await this.readCache(cacheKey);
+    if (cached) {
+      return this.loadImageFromBlob(cached);
+    }
+
+    const image = await this.processImageFile(buffer, format, mimeType);
+    this.writeCache(cacheKey, image.src);
+    return image;
+  }
+
+  /**
+   * 读取持久缓存，失败时按未缓存处理
+   */
+  private async readCache(key: string): Promise<Blob | null> {
+    if (!this.cache) return null;
+
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      console.warn('Failed to read image cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 在后台写入持久缓存
    */
-  private async processImageFile(file: File): Promise<HTMLImageElement> {
+  private writeCache(key: string, dataUrl: string): void {
+    const cache = this.cache;
+    if (!cache) return;
+
+    Promise.resolve()
+      .then(() => cache.put(key, dataUrlToBlob(dataUrl)))
+      .catch(error => {
+        console.warn('Failed to write image cache:', error);
+      });
+  }
+
+  /**
+   * 缩小并编码：在 Worker 中处理，不支持时在主线程用Canvas处理
+   */
+  private async encodeImageData(image: HTMLImageElement, options: Required<ImageProcessOptions>): Promise<string> {
+    if (ImageProcessor.isSupported()) {
+      try {
+        const bitmap = await createImageBitmap(image);
+        const result = await this.processor.process(bitmap, { ...options, base64: true });
+        return `data:${result.mimeType};base64,${result.base64}`;
+      } catch (error) {
+        console.warn('Background image encoding failed, falling back to canvas:', error);
+      }
+    }
+
+    const { maxWidth, maxHeight, format, quality } = options;
+    return this.imageToBase64(this.resizeImage(image, maxWidth, maxHeight), { format, quality });
+  }
+
+  /**
+   * 内存缓存的键：GIF 选用的帧和是否播放会改变结果
+   */
+  private getUploadKey(contentHash: string, options: ImageUploadOptions): string {
+    const { gifFrame = 0, animateGif = true } = options;
+    return gifFrame === 0 && animateGif ? contentHash : `${contentHash}:gif-${gifFrame}${animateGif ? '' : '-static'}`;
+  }
+
+  /**
+   * 处理图片文件：去掉元数据并按 EXIF 方向摆正，处理后的图片不再带有 EXIF/XMP 信息
+   */
+  private async processImageFile(buffer: ArrayBuffer, format: ImageFormat | null, mimeType: string): Promise<HTMLImageElement> {
+    const metadata = format === 'jpeg' ? parseJpegMetadata(buffer) : null;
+
+    // 其他格式的元数据无法逐段去掉，经Canvas重新编码（HEIC 照片转为 JPEG，AVIF 转为无损的 PNG）
+    if (!metadata) {
+      const processed = await this.processInBackground(buffer, { format: this.getOutputFormat(format), quality: 0.92 });
+      if (processed) {
+        return processed;
+      }
+
+      const image = await this.decodeImage(buffer, format, mimeType);
+      const outputType = format === 'heic' ? 'image/jpeg' : format === 'avif' ? 'image/png' : mimeType;
+      return this.loadImageFromDataUrl(this.imageToCanvas(image).toDataURL(outputType, 0.92));
+    }
+
+    // JPEG 无损去掉元数据段；需要摆正时才重新编码
+    const stripped = stripJpegMetadata(buffer);
+    if (metadata.orientation === 1) {
+      return this.loadImageFromBlob(new Blob([stripped], { type: 'image/jpeg' }));
+    }
+
+    const processed = await this.processInBackground(stripped, {
+      orientation: metadata.orientation,
+      format: 'jpeg',
+      quality: 0.92
+    });
+    if (processed) {
+      return processed;
+    }
+
+    const image = await this.loadImageFromBlob(new Blob([stripped], { type: 'image/jpeg' }));
+    return this.loadImageFromDataUrl(
+      this.imageToCanvas(image, metadata.orientation).toDataURL('image/jpeg', 0.92)
+    );
+  }
+
+  /**
+   * 在 Worker 中解码、摆正并重新编码；不支持或解码失败时返回 null，由调用方在主线程用Canvas处理
+   * （HEIC 等格式可能只有 Image 能解码，失败时由 decodeImage 给出提示）
+   */
+  private async processInBackground(data: ArrayBuffer, options: ImagePipelineOptions): Promise<HTMLImageElement | null> {
+    if (!ImageProcessor.isSupported()) {
+      return null;
+    }
+
+    try {
+      const result = await this.processor.process(data, options);
+      return await this.loadImageFromBlob(new Blob([result.buffer], { type: result.mimeType }));
+    } catch (error) {
+      console.warn('Background image processing failed, falling back to canvas:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 重新编码时使用的格式：照片使用 JPEG，可能带透明像素的格式使用 PNG
+   */
+  private getOutputFormat(format: ImageFormat | null): ImageOutputFormat {
+    if (format === 'jpeg' || format === 'heic') return 'jpeg';
+    if (format === 'webp') return 'webp';
+    return 'png';
+  }
+
+  /**
+   * 解码 GIF：选定的帧作为静态图片（变形和保存都使用它），多帧时另外记录动图
+   */
+  private async processGif(buffer: ArrayBuffer, options: ImageUploadOptions): Promise<HTMLImageElement> {
+    const animation = new AnimatedImage(decodeGif(buffer));
+    const frameCount = animation.getFrameCount();
+    const frame = Math.min(Math.max(Math.floor(options.gifFrame ?? 0), 0), frameCount - 1);
+
+    const image = await this.loadImageFromDataUrl(animation.renderFrame(frame).toDataURL('image/png'));
+    if (frameCount > 1 && options.animateGif !== false) {
+      this.animations.set(image, animation);
+    }
+    return image;
+  }
+
+  /**
+   * 由浏览器解码图片；HEIC、AVIF 在部分浏览器中不支持，给出明确的提示
+   */
+  private async decodeImage(buffer: ArrayBuffer, format: ImageFormat | null, mimeType: string): Promise<HTMLImageElement> {
+    try {
+      return await this.loadImageFromBlob(new Blob([buffer], { type: mimeType }));
+    } catch (error) {
+      const message = format ? UNSUPPORTED_FORMAT_MESSAGES[format] : undefined;
+      if (message) {
+        throw this.createError('UPLOAD_ERROR', message, { format, reason: 'unsupported-format', originalError: error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 读取文件内容（也可以只读取 file.slice() 得到的一段）
+   */
+  private readFileAsArrayBuffer(file: Blob): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      
-      reader.onload = (event) => {
-        const dataUrl = event.target?.result as string;
-        if (!dataUrl) {
+
+      reader.onload = () => {
+        if (reader.result instanceof ArrayBuffer) {
+          resolve(reader.result);
+        } else {
           reject(new Error('文件读取失败'));
-          return;
         }
+      };
+
+      reader.onerror = () => {
+        reject(new Error('文件读取失败'));
+      };
 
-        const image = new Image();
-        
-        image.onload = () => {
-          // 检查图片尺寸
-          if (image.width === 0 || image.height === 0) {
-            reject(new Error('无效的图片尺寸'));
-            return;
-          }
+      reader.readAsArrayBuffer(file);
+    });
+  }
 
-          resolve(image);
-        };
+  /**
+   * 以DataURL加载Blob中的图片（图片的src在之后仍然有效）
+   */
+  private loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
 
-        image.onerror = () => {
-          reject(new Error('图片加载失败'));
-        };
+      reader.onload = () => {
+        const dataUrl = reader.result as string;
+        if (!dataUrl) {
+          reject(new Error('文件读取失败'));
+          return;
+        }
 
-        image.src = dataUrl;
+        this.loadImageFromDataUrl(dataUrl).then(resolve, reject);
       };
 
       reader.onerror = () => {
         reject(new Error('文件读取失败'));
       };
 
-      reader.readAsDataURL(file);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * 从DataURL加载图片
+   */
+  private loadImageFromDataUrl(dataUrl: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+
+      image.onload = () => {
+        // 检查图片尺寸
+        if (image.width === 0 || image.height === 0) {
+          reject(new Error('无效的图片尺寸'));
+          return;
+        }
+
+        resolve(image);
+      };
+
+      image.onerror = () => {
+        reject(new Error('图片加载失败'));
+      };
+
+      image.src = dataUrl;
     });
   }
 
@@ -317,13 +726,6 @@ export class ImageManager {
     return { width, height };
   }
 
-  /**
-   * 获取文件唯一标识
-   */
-  private getFileKey(file: File): string {
-    return `${file.name}_${file.size}_${file.lastModified}`;
-  }
-
   /**
    * 获取Canvas数据大小（估算）
    */
@@ -353,6 +755,13 @@ export class ImageManager {
     });
   }
 
+  /**
+   * 是否为 createError 创建的错误
+   */
+  private isGameError(error: unknown): error is GameError {
+    return typeof error === 'object' && error !== null && 'type' in error && 'recoverable' in error;
+  }
+
   /**
    * 创建错误对象
    */
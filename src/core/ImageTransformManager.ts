@@ -5,13 +5,40 @@
 
 import { APIService } from '@/services/APIService';
 import { ImageManager } from './ImageManager';
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
 import type { GameState, GamePhase } from '@/types/game.types';
 import type { GameError } from '@/types/error.types';
+import { browserPlatform, type GamePlatform } from '@/utils/Platform';
+import {
+  createDefaultPhasePipeline,
+  type PhaseDefinition,
+  type TransformPreset,
+  type TransformType
+} from '@/config/phases.config';
+
+/**
+ * 变形后端：图片编码、调用变形服务和解码结果
+ * 默认使用 APIService 和 ImageManager，无界面模拟时可以替换为不依赖 DOM 的实现
+ */
+export interface TransformBackend {
+  encodeImage(image: HTMLImageElement): Promise<string>;
+  requestTransform(imageData: string, transformType: TransformType, preset: TransformPreset): Promise<string>;
+  decodeImage(imageData: string): Promise<HTMLImageElement>;
+}
 
 export interface TransformManagerOptions {
   apiService?: APIService;
   imageManager?: ImageManager;
-  phase1Threshold?: number;
+  backend?: TransformBackend;
+  platform?: Pick<GamePlatform, 'now' | 'setTimeout'>; // 计时和重试等待使用的时钟
+  phases?: PhaseDefinition[]; // 阶段列表，进入带变形预设的阶段时变形
+  transformPresets?: Record<TransformType, TransformPreset>;
+  phase1Threshold?: number; // 未提供 phases 时用于生成默认的三阶段流程
   phase2Threshold?: number;
   enableProgressiveTransform?: boolean;
   maxTransformAttempts?: number;
@@ -28,11 +55,18 @@ export interface TransformResult {
   success: boolean;
   transformedImage?: HTMLImageElement;
   originalImage?: HTMLImageElement;
-  transformType: 'light' | 'heavy';
+  transformType: TransformType;
   processingTime: number;
   error?: GameError;
 }
 
+// 变形事件表
+export type TransformEvents = {
+  transformStart: { transformType: TransformType };
+  transformProgress: TransformProgress;
+  transformComplete: TransformResult; // 成功和失败都会触发，通过 success 区分
+};
+
 export interface TransformState {
   isTransforming: boolean;
   currentPhase: TransformProgress['phase'];
@@ -50,16 +84,39 @@ export class ImageTransformManager {
   private imageManager: ImageManager;
   private options: Required<TransformManagerOptions>;
   private state: TransformState;
-  private progressCallbacks = new Set<(progress: TransformProgress) => void>();
+  private backend: TransformBackend;
+  private platform: Pick<GamePlatform, 'now' | 'setTimeout'>;
+  private events = new EventEmitter<TransformEvents>('ImageTransformManager');
   private abortController: AbortController | null = null;
 
   constructor(options: TransformManagerOptions = {}) {
     this.apiService = options.apiService || new APIService();
     this.imageManager = options.imageManager || new ImageManager();
+    this.platform = options.platform || browserPlatform;
+    this.backend = options.backend || {
+      encodeImage: (image) => this.prepareImageForTransform(image),
+      requestTransform: (imageData, transformType, preset) =>
+        this.apiService.transformImage(imageData, transformType, {
+          // 使用变形预设的参数
+          customPrompt: preset.prompt,
+          strength: preset.strength,
+          steps: preset.steps
+        }),
+      decodeImage: (imageData) => this.createImageFromBase64(imageData)
+    };
     
+    const defaultPipeline = createDefaultPhasePipeline({
+      phase1Threshold: options.phase1Threshold ?? 50,
+      phase2Threshold: options.phase2Threshold ?? 100
+    });
+
     this.options = {
       apiService: this.apiService,
       imageManager: this.imageManager,
+      backend: this.backend,
+      platform: this.platform,
+      phases: defaultPipeline.phases,
+      transformPresets: defaultPipeline.transformPresets,
       phase1Threshold: 50,
       phase2Threshold: 100,
       enableProgressiveTransform: true,
@@ -79,34 +136,39 @@ export class ImageTransformManager {
 
   /**
    * 检查是否需要变形
+   * history 默认为本管理器的变形记录，多目标时传入目标自己的记录
    */
-  shouldTransform(clickCount: number, gameState: GameState): { shouldTransform: boolean; transformType?: 'light' | 'heavy' } {
+  shouldTransform(
+    clickCount: number,
+    gameState: GameState,
+    history: TransformResult[] = this.state.transformHistory
+  ): { shouldTransform: boolean; transformType?: TransformType } {
     if (!gameState.uploadedImage || this.state.isTransforming) {
       return { shouldTransform: false };
     }
 
-    // 检查是否达到变形阈值
-    if (clickCount >= this.options.phase2Threshold) {
-      // 检查是否已经进行过重度变形
-      const hasHeavyTransform = this.state.transformHistory.some(
-        result => result.success && result.transformType === 'heavy'
-      );
-      
-      if (!hasHeavyTransform) {
-        return { shouldTransform: true, transformType: 'heavy' };
-      }
-    } else if (clickCount >= this.options.phase1Threshold) {
-      // 检查是否已经进行过轻度变形
-      const hasLightTransform = this.state.transformHistory.some(
-        result => result.success && result.transformType === 'light'
-      );
-      
-      if (!hasLightTransform) {
-        return { shouldTransform: true, transformType: 'light' };
-      }
+    // 只看已到达的最后一个带变形的阶段，跳过的低阶变形不再补做
+    const phase = this.getLatestTransformPhase(clickCount);
+    if (!phase) {
+      return { shouldTransform: false };
     }
 
-    return { shouldTransform: false };
+    const transformType = phase.transformPreset!;
+    const hasTransformed = history.some(
+      result => result.success && result.transformType === transformType
+    );
+
+    return hasTransformed ? { shouldTransform: false } : { shouldTransform: true, transformType };
+  }
+
+  /**
+   * 获取点击数已到达的最后一个带变形预设的阶段
+   */
+  private getLatestTransformPhase(clickCount: number): PhaseDefinition | null {
+    const reached = this.options.phases.filter(
+      phase => phase.transformPreset && clickCount >= phase.threshold
+    );
+    return reached.length > 0 ? reached[reached.length - 1] : null;
   }
 
   /**
@@ -114,15 +176,16 @@ export class ImageTransformManager {
    */
   async transformImage(
     sourceImage: HTMLImageElement,
-    transformType: 'light' | 'heavy',
+    transformType: TransformType,
     onProgress?: (progress: TransformProgress) => void
   ): Promise<TransformResult> {
     if (this.state.isTransforming) {
       throw this.createError('VALIDATION_ERROR', 'Transform already in progress');
     }
 
-    const startTime = Date.now();
+    const startTime = this.platform.now();
     this.abortController = new AbortController();
+    const unsubscribeProgress = onProgress ? this.events.on('transformProgress', onProgress) : null;
     
     try {
       this.setState({
@@ -132,13 +195,11 @@ export class ImageTransformManager {
         failedAttempts: 0
       });
 
-      if (onProgress) {
-        this.progressCallbacks.add(onProgress);
-      }
+      this.events.emit('transformStart', { transformType });
 
       // 阶段1: 准备图片
       this.updateProgress('preparing', 10, '准备图片数据...');
-      const imageBase64 = await this.prepareImageForTransform(sourceImage);
+      const imageBase64 = await this.backend.encodeImage(sourceImage);
       
       this.checkAborted();
 
@@ -160,7 +221,7 @@ export class ImageTransformManager {
       // 阶段4: 下载结果
       this.updateProgress('downloading', 80, '下载处理结果...');
       
-      const transformedImage = await this.createImageFromBase64(transformedBase64);
+      const transformedImage = await this.backend.decodeImage(transformedBase64);
       
       this.checkAborted();
 
@@ -172,11 +233,12 @@ export class ImageTransformManager {
         transformedImage,
         originalImage: sourceImage,
         transformType,
-        processingTime: Date.now() - startTime
+        processingTime: this.platform.now() - startTime
       };
 
       this.state.transformHistory.push(result);
-      this.state.lastTransformTime = Date.now();
+      this.state.lastTransformTime = this.platform.now();
+      this.events.emit('transformComplete', result);
 
       return result;
 
@@ -191,12 +253,13 @@ export class ImageTransformManager {
         success: false,
         originalImage: sourceImage,
         transformType,
-        processingTime: Date.now() - startTime,
+        processingTime: this.platform.now() - startTime,
         error: transformError
       };
 
       this.state.transformHistory.push(result);
       this.state.failedAttempts++;
+      this.events.emit('transformComplete', result);
 
       throw transformError;
 
@@ -206,9 +269,7 @@ export class ImageTransformManager {
         currentPhase: 'completed'
       });
 
-      if (onProgress) {
-        this.progressCallbacks.delete(onProgress);
-      }
+      unsubscribeProgress?.();
 
       this.abortController = null;
     }
@@ -218,12 +279,11 @@ export class ImageTransformManager {
    * 准备图片用于变形
    */
   private async prepareImageForTransform(image: HTMLImageElement): Promise<string> {
-    // 调整图片尺寸以优化API调用
+    // 调整图片尺寸以优化API调用，缩小和编码在 Worker 中进行
     const maxSize = 1024; // API推荐的最大尺寸
-    const canvas = this.imageManager.resizeImage(image, maxSize, maxSize);
-    
-    // 转换为Base64，使用适当的质量设置
-    return this.imageManager.imageToBase64(canvas, {
+    return this.imageManager.encodeImage(image, {
+      maxWidth: maxSize,
+      maxHeight: maxSize,
       format: 'jpeg',
       quality: 0.8
     });
@@ -232,7 +292,12 @@ export class ImageTransformManager {
   /**
    * 执行变形处理
    */
-  private async performTransform(imageBase64: string, transformType: 'light' | 'heavy'): Promise<string> {
+  private async performTransform(imageBase64: string, transformType: TransformType): Promise<string> {
+    const preset = this.options.transformPresets[transformType];
+    if (!preset) {
+      throw this.createError('VALIDATION_ERROR', `Unknown transform preset: ${transformType}`);
+    }
+
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= this.options.maxTransformAttempts; attempt++) {
@@ -240,13 +305,7 @@ export class ImageTransformManager {
         this.updateProgress('processing', 50 + (attempt - 1) * 10, 
           `AI处理中... (尝试 ${attempt}/${this.options.maxTransformAttempts})`);
 
-        const result = await this.apiService.transformImage(imageBase64, transformType, {
-          // 根据变形类型调整参数
-          strength: transformType === 'heavy' ? 0.8 : 0.4,
-          steps: transformType === 'heavy' ? 40 : 30
-        });
-
-        return result;
+        return await this.backend.requestTransform(imageBase64, transformType, preset);
 
       } catch (error) {
         lastError = error as Error;
@@ -319,13 +378,7 @@ export class ImageTransformManager {
       estimatedTimeRemaining: this.calculateEstimatedTime(progress)
     };
 
-    this.progressCallbacks.forEach(callback => {
-      try {
-        callback(progressData);
-      } catch (error) {
-        console.error('Progress callback error:', error);
-      }
-    });
+    this.events.emit('transformProgress', progressData);
   }
 
   /**
@@ -336,7 +389,8 @@ export class ImageTransformManager {
       return undefined;
     }
 
-    const elapsed = Date.now() - (this.state.lastTransformTime || Date.now());
+    const now = this.platform.now();
+    const elapsed = now - (this.state.lastTransformTime || now);
     const progressRate = currentProgress / elapsed;
     const remainingProgress = 100 - currentProgress;
     
@@ -387,7 +441,7 @@ export class ImageTransformManager {
    */
   getProgressiveTransformSuggestion(clickCount: number): {
     suggested: boolean;
-    transformType?: 'light' | 'heavy';
+    transformType?: TransformType;
     reason: string;
   } {
     if (!this.options.enableProgressiveTransform) {
@@ -395,14 +449,13 @@ export class ImageTransformManager {
     }
 
     const { shouldTransform, transformType } = this.shouldTransform(clickCount, {
-      uploadedImage: new Image(),
+      uploadedImage: {} as HTMLImageElement, // 只用于通过“已上传图片”的检查
       isPlaying: true
     } as GameState);
 
     if (shouldTransform && transformType) {
-      const reason = transformType === 'light' 
-        ? `达到 ${this.options.phase1Threshold} 次点击，建议进行轻度变形`
-        : `达到 ${this.options.phase2Threshold} 次点击，建议进行重度变形`;
+      const phase = this.getLatestTransformPhase(clickCount)!;
+      const reason = `达到 ${phase.threshold} 次点击，建议进行${phase.name}`;
       
       return { suggested: true, transformType, reason };
     }
@@ -464,6 +517,59 @@ export class ImageTransformManager {
     this.state.failedAttempts = 0;
   }
 
+  /**
+   * 设置阶段列表（游戏模式改变阶段阈值时同步）
+   */
+  setPhases(phases: PhaseDefinition[]): void {
+    this.options.phases = phases.map(phase => ({ ...phase }));
+  }
+
+  /**
+   * 设置变形预设
+   */
+  setTransformPresets(presets: Record<TransformType, TransformPreset>): void {
+    this.options.transformPresets = { ...presets };
+  }
+
+  /**
+   * 注册单个变形预设，id 已存在时抛出错误
+   */
+  registerTransformPreset(id: TransformType, preset: TransformPreset): void {
+    if (this.options.transformPresets[id]) {
+      throw this.createError('VALIDATION_ERROR', `Transform preset already registered: ${id}`);
+    }
+    this.options.transformPresets = { ...this.options.transformPresets, [id]: { ...preset } };
+  }
+
+  /**
+   * 注销变形预设
+   */
+  unregisterTransformPreset(id: TransformType): boolean {
+    if (!this.options.transformPresets[id]) {
+      return false;
+    }
+
+    const presets = { ...this.options.transformPresets };
+    delete presets[id];
+    this.options.transformPresets = presets;
+    return true;
+  }
+
+  /**
+   * 获取当前的变形预设
+   */
+  getTransformPresets(): Record<TransformType, TransformPreset> {
+    return { ...this.options.transformPresets };
+  }
+
+  /**
+   * 恢复变形历史（用于继续已保存的会话）
+   */
+  restoreHistory(history: TransformResult[]): void {
+    this.state.transformHistory = [...history];
+    this.state.failedAttempts = history.filter(result => !result.success).length;
+  }
+
   /**
    * 更新状态
    */
@@ -475,7 +581,7 @@ export class ImageTransformManager {
    * 睡眠函数
    */
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => this.platform.setTimeout(resolve, ms));
   }
 
   /**
@@ -498,13 +604,42 @@ export class ImageTransformManager {
     return { ...this.state };
   }
 
+  /**
+   * 监听变形事件，返回取消订阅函数
+   */
+  on<K extends keyof TransformEvents>(
+    event: K,
+    listener: EventListener<TransformEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 监听一次变形事件
+   */
+  once<K extends keyof TransformEvents>(
+    event: K,
+    listener: EventListener<TransformEvents[K]>,
+    options?: Omit<ListenerOptions, 'once'>
+  ): Unsubscribe {
+    return this.events.once(event, listener, options);
+  }
+
+  /**
+   * 取消监听变形事件
+   */
+  off<K extends keyof TransformEvents>(event: K, listener: EventListener<TransformEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * 销毁变形管理器
    */
   destroy(): void {
     this.cancelTransform();
     this.clearHistory();
-    this.progressCallbacks.clear();
+    this.events.destroy();
     this.apiService.destroy();
   }
 }
\ No newline at end of file
@@ -3,20 +3,38 @@
  * 处理用户的点击、触摸等交互事件
  */
 
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+import { browserPlatform, type GamePlatform } from '@/utils/Platform';
+
 // 点击事件接口
 export interface ClickEvent {
-  x: number;
+  x: number; // 画布像素坐标
   y: number;
+  clientX?: number; // 屏幕坐标，可用 CanvasRenderer.screenToCanvas 转换为视口坐标
+  clientY?: number;
   timestamp: number;
   force?: number;
 }
 
+// 交互事件表
+export type InteractionEvents = {
+  click: ClickEvent;
+  combo: number;
+};
+
 export interface InteractionOptions {
   canvas: HTMLCanvasElement;
-  onClickEvent?: (event: ClickEvent) => void;
-  onComboChange?: (combo: number) => void;
+  onClickEvent?: (event: ClickEvent) => void; // 等同于 on('click')
+  onComboChange?: (combo: number) => void; // 等同于 on('combo')
   enableVibration?: boolean;
   clickCooldown?: number; // 点击冷却时间（毫秒）
+  cpsWindow?: number; // 计算点击速度的滑动窗口（毫秒）
+  clock?: Pick<GamePlatform, 'now' | 'setTimeout' | 'clearTimeout'>; // 时间戳、连击和冷却计时使用的时钟，传入 GameClock 时随游戏暂停
 }
 
 export interface TouchInfo {
@@ -34,13 +52,16 @@ export class InteractionManager {
   private canvas: HTMLCanvasElement;
   private canvasRect!: DOMRect;
   private deviceInfo: any;
-  private options: Required<InteractionOptions>;
+  private options: Required<Omit<InteractionOptions, 'onClickEvent' | 'onComboChange'>>;
+  private events = new EventEmitter<InteractionEvents>('InteractionManager');
   
   // 点击状态
   private clickCount = 0;
   private lastClickTime = 0;
   private comboCount = 0;
   private comboTimer: number | null = null;
+  private recentClickTimes: number[] = [];
+  private peakClicksPerSecond = 0;
   private clickCooldownTimer: number | null = null;
   private isInCooldown = false;
   
@@ -69,13 +90,20 @@ export class InteractionManager {
     
     // 设置默认选项
     this.options = {
-      onClickEvent: () => {},
-      onComboChange: () => {},
       enableVibration: true,
       clickCooldown: 50, // 50ms冷却时间
+      cpsWindow: 2000,
+      clock: browserPlatform,
       ...options
     };
 
+    if (options.onClickEvent) {
+      this.events.on('click', options.onClickEvent);
+    }
+    if (options.onComboChange) {
+      this.events.on('combo', options.onComboChange);
+    }
+
     this.updateCanvasRect();
     this.init();
   }
@@ -167,7 +195,7 @@ export class InteractionManager {
         id: touch.identifier,
         x: touch.clientX,
         y: touch.clientY,
-        startTime: Date.now(),
+        startTime: this.options.clock.now(),
         force: (touch as any).force || 1
       };
       
@@ -230,17 +258,22 @@ export class InteractionManager {
    * 创建点击事件对象
    */
   private createClickEvent(clientX: number, clientY: number, force?: number): ClickEvent {
+    // 画布可能在隐藏状态下创建，或随布局移动，点击时重新读取位置
+    this.updateCanvasRect();
+
     const canvasX = clientX - this.canvasRect.left;
     const canvasY = clientY - this.canvasRect.top;
     
     // 考虑Canvas的缩放比例
-    const scaleX = this.canvas.width / this.canvasRect.width;
-    const scaleY = this.canvas.height / this.canvasRect.height;
+    const scaleX = this.canvasRect.width > 0 ? this.canvas.width / this.canvasRect.width : 1;
+    const scaleY = this.canvasRect.height > 0 ? this.canvas.height / this.canvasRect.height : 1;
     
     return {
       x: canvasX * scaleX,
       y: canvasY * scaleY,
-      timestamp: Date.now(),
+      clientX,
+      clientY,
+      timestamp: this.options.clock.now(),
       force: force || 1
     };
   }
@@ -255,6 +288,7 @@ export class InteractionManager {
     // 更新点击计数
     this.clickCount++;
     this.lastClickTime = clickEvent.timestamp;
+    this.trackClickRate(clickEvent.timestamp);
     
     // 处理连击
     this.handleCombo(clickEvent);
@@ -263,7 +297,28 @@ export class InteractionManager {
     this.triggerVibration();
     
     // 触发回调
-    this.options.onClickEvent(clickEvent);
+    this.events.emit('click', clickEvent);
+  }
+
+  /**
+   * 记录点击时间并更新峰值点击速度
+   */
+  private trackClickRate(timestamp: number): void {
+    this.recentClickTimes.push(timestamp);
+    this.peakClicksPerSecond = Math.max(this.peakClicksPerSecond, this.getClicksPerSecond(timestamp));
+  }
+
+  /**
+   * 计算滑动窗口内的点击速度（次/秒）
+   */
+  private getClicksPerSecond(now: number): number {
+    const windowStart = now - this.options.cpsWindow;
+    while (this.recentClickTimes.length > 0 && this.recentClickTimes[0] <= windowStart) {
+      this.recentClickTimes.shift();
+    }
+
+    const clicksPerSecond = this.recentClickTimes.length / (this.options.cpsWindow / 1000);
+    return Math.round(clicksPerSecond * 10) / 10;
   }
 
   /**
@@ -280,16 +335,16 @@ export class InteractionManager {
     }
     
     // 重置连击计时器
-    if (this.comboTimer) {
-      clearTimeout(this.comboTimer);
+    if (this.comboTimer !== null) {
+      this.options.clock.clearTimeout(this.comboTimer);
     }
     
-    this.comboTimer = window.setTimeout(() => {
+    this.comboTimer = this.options.clock.setTimeout(() => {
       this.comboCount = 0;
-      this.options.onComboChange(0);
+      this.events.emit('combo', 0);
     }, comboWindow);
     
-    this.options.onComboChange(this.comboCount);
+    this.events.emit('combo', this.comboCount);
   }
 
   /**
@@ -300,11 +355,11 @@ export class InteractionManager {
     
     this.isInCooldown = true;
     
-    if (this.clickCooldownTimer) {
-      clearTimeout(this.clickCooldownTimer);
+    if (this.clickCooldownTimer !== null) {
+      this.options.clock.clearTimeout(this.clickCooldownTimer);
     }
     
-    this.clickCooldownTimer = window.setTimeout(() => {
+    this.clickCooldownTimer = this.options.clock.setTimeout(() => {
       this.isInCooldown = false;
     }, this.options.clickCooldown);
   }
@@ -377,16 +432,14 @@ export class InteractionManager {
     currentCombo: number;
     lastClickTime: number;
     clicksPerSecond: number;
+    peakClicksPerSecond: number;
   } {
-    const now = Date.now();
-    const timeSinceStart = now - (this.lastClickTime - (this.clickCount - 1) * 100); // 估算
-    const clicksPerSecond = timeSinceStart > 0 ? (this.clickCount / (timeSinceStart / 1000)) : 0;
-    
     return {
       totalClicks: this.clickCount,
       currentCombo: this.comboCount,
       lastClickTime: this.lastClickTime,
-      clicksPerSecond: Math.round(clicksPerSecond * 10) / 10
+      clicksPerSecond: this.getClicksPerSecond(this.options.clock.now()),
+      peakClicksPerSecond: this.peakClicksPerSecond
     };
   }
 
@@ -397,9 +450,11 @@ export class InteractionManager {
     this.clickCount = 0;
     this.lastClickTime = 0;
     this.comboCount = 0;
+    this.recentClickTimes = [];
+    this.peakClicksPerSecond = 0;
     
-    if (this.comboTimer) {
-      clearTimeout(this.comboTimer);
+    if (this.comboTimer !== null) {
+      this.options.clock.clearTimeout(this.comboTimer);
       this.comboTimer = null;
     }
   }
@@ -432,6 +487,35 @@ export class InteractionManager {
     return Array.from(this.activeTouches.values());
   }
 
+  /**
+   * 监听交互事件，返回取消订阅函数
+   */
+  on<K extends keyof InteractionEvents>(
+    event: K,
+    listener: EventListener<InteractionEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 监听一次交互事件
+   */
+  once<K extends keyof InteractionEvents>(
+    event: K,
+    listener: EventListener<InteractionEvents[K]>,
+    options?: Omit<ListenerOptions, 'once'>
+  ): Unsubscribe {
+    return this.events.once(event, listener, options);
+  }
+
+  /**
+   * 取消监听交互事件
+   */
+  off<K extends keyof InteractionEvents>(event: K, listener: EventListener<InteractionEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * 销毁交互管理器
    */
@@ -451,15 +535,18 @@ export class InteractionManager {
     window.removeEventListener('resize', this.boundHandlers.resize);
     
     // 清理计时器
-    if (this.comboTimer) {
-      clearTimeout(this.comboTimer);
+    if (this.comboTimer !== null) {
+      this.options.clock.clearTimeout(this.comboTimer);
     }
     
-    if (this.clickCooldownTimer) {
-      clearTimeout(this.clickCooldownTimer);
+    if (this.clickCooldownTimer !== null) {
+      this.options.clock.clearTimeout(this.clickCooldownTimer);
     }
     
     // 清理状态
     this.activeTouches.clear();
+
+    // 取消所有订阅
+    this.events.destroy();
   }
 }
\ No newline at end of file
@@ -0,0 +1,237 @@
+/**
+ * 插件管理器
+ * 插件通过 install(app) 向特效、弹幕、音效和变形子系统注册扩展，并监听引擎事件
+ * 插件注册的内容在卸载时自动撤销；插件代码抛出的错误交给 ErrorHandler 报告，不会中断游戏循环
+ */
+
+import type { GameEngine, GameEngineEvents } from './GameEngine';
+import type { EffectSystem, EffectFactory, BaseEffect } from './EffectSystem';
+import type { DanmakuSystem } from './DanmakuSystem';
+import type { GameAudioSystem, SoundEffect, AudioPlaybackContext } from './GameAudioSystem';
+import type { ImageTransformManager } from './ImageTransformManager';
+import type { DanmakuPack, TransformPreset, TransformType } from '@/config/phases.config';
+import type { EventListener, Unsubscribe } from '@/utils/EventEmitter';
+import { errorHandler as defaultErrorHandler, type ErrorHandler } from '@/utils/ErrorHandler';
+import { ErrorType } from '@/types';
+
+/**
+ * 插件
+ */
+export interface GamePlugin {
+  name: string; // 唯一名称
+  version?: string;
+  install(app: PluginContext): void;
+  uninstall?(): void; // 注册的内容会自动撤销，这里只需释放插件自己的资源
+}
+
+/**
+ * 安装时传给插件的接口，注册的内容都记在该插件名下
+ */
+export interface PluginContext {
+  readonly pluginName: string;
+  registerEffect(style: string, factory: EffectFactory): void;
+  registerDanmakuPack(id: string, pack: DanmakuPack): void;
+  defineSoundEffects(soundEffects: SoundEffect[]): void;
+  playSound(name: string, context?: AudioPlaybackContext): string | null;
+  registerTransformPreset(id: TransformType, preset: TransformPreset): void;
+  on<K extends keyof GameEngineEvents>(event: K, listener: EventListener<GameEngineEvents[K]>): Unsubscribe;
+}
+
+/**
+ * 插件可以扩展的子系统
+ */
+export interface PluginHost {
+  engine: GameEngine;
+  effects: EffectSystem;
+  danmaku: DanmakuSystem;
+  audio: GameAudioSystem;
+  transformManager: ImageTransformManager;
+}
+
+export interface PluginManagerOptions {
+  errorHandler?: ErrorHandler;
+}
+
+export type PluginStage = 'install' | 'uninstall' | 'listener' | 'effect';
+
+interface InstalledPlugin {
+  plugin: GamePlugin;
+  cleanups: (() => void)[]; // 按注册顺序记录的撤销操作
+}
+
+/**
+ * 插件管理器类
+ */
+export class PluginManager {
+  private host: PluginHost;
+  private errorHandler: ErrorHandler;
+  private plugins = new Map<string, InstalledPlugin>();
+
+  constructor(host: PluginHost, options: PluginManagerOptions = {}) {
+    this.host = host;
+    this.errorHandler = options.errorHandler || defaultErrorHandler;
+  }
+
+  /**
+   * 安装插件，安装失败时撤销已注册的内容并返回 false
+   * 同名插件已安装时抛出错误
+   */
+  install(plugin: GamePlugin): boolean {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin already installed: ${plugin.name}`);
+    }
+
+    const installed: InstalledPlugin = { plugin, cleanups: [] };
+    this.plugins.set(plugin.name, installed);
+
+    try {
+      plugin.install(this.createContext(installed));
+      return true;
+    } catch (error) {
+      this.report(plugin.name, 'install', error);
+      this.revert(installed);
+      this.plugins.delete(plugin.name);
+      return false;
+    }
+  }
+
+  /**
+   * 卸载插件，插件未安装时返回 false
+   */
+  uninstall(name: string): boolean {
+    const installed = this.plugins.get(name);
+    if (!installed) {
+      return false;
+    }
+
+    this.plugins.delete(name);
+    this.guard(name, 'uninstall', () => installed.plugin.uninstall?.(), undefined);
+    this.revert(installed);
+    return true;
+  }
+
+  /**
+   * 检查插件是否已安装
+   */
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * 获取已安装插件的名称（按安装顺序）
+   */
+  getInstalled(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  /**
+   * 按安装的相反顺序卸载所有插件
+   */
+  destroy(): void {
+    this.getInstalled().reverse().forEach(name => this.uninstall(name));
+  }
+
+  /**
+   * 创建插件的注册接口，每次注册都记录对应的撤销操作
+   */
+  private createContext(installed: InstalledPlugin): PluginContext {
+    const { engine, effects, danmaku, audio, transformManager } = this.host;
+    const name = installed.plugin.name;
+    const track = (cleanup: () => void) => installed.cleanups.push(cleanup);
+
+    return {
+      pluginName: name,
+
+      registerEffect: (style, factory) => {
+        effects.registerEffect(style, (x, y, options) => this.isolateEffect(name, factory(x, y, options)));
+        track(() => effects.unregisterEffect(style));
+      },
+
+      registerDanmakuPack: (id, pack) => {
+        danmaku.registerMessagePack(id, pack);
+        track(() => danmaku.unregisterMessagePack(id));
+      },
+
+      defineSoundEffects: (soundEffects) => {
+        audio.defineSoundEffects(soundEffects);
+        track(() => audio.removeSoundEffects(soundEffects.map(effect => effect.name)));
+      },
+
+      playSound: (soundName, context) => audio.playSoundEffect(soundName, context),
+
+      registerTransformPreset: (id, preset) => {
+        transformManager.registerTransformPreset(id, preset);
+        track(() => transformManager.unregisterTransformPreset(id));
+      },
+
+      on: (event, listener) => {
+        const unsubscribe = engine.on(event, (payload) => {
+          this.guard(name, 'listener', () => listener(payload), undefined);
+        });
+        track(unsubscribe);
+        return unsubscribe;
+      }
+    };
+  }
+
+  /**
+   * 包装插件特效：更新或渲染出错时报告错误并移除该特效
+   */
+  private isolateEffect(name: string, effect: BaseEffect): BaseEffect {
+    const update = effect.update.bind(effect);
+    const render = effect.render.bind(effect);
+    let failed = false;
+
+    effect.update = (deltaTime: number) =>
+      !failed && this.guard(name, 'effect', () => update(deltaTime), false);
+    effect.render = (ctx: CanvasRenderingContext2D, alpha?: number) => {
+      if (failed) return;
+      failed = !this.guard(name, 'effect', () => {
+        render(ctx, alpha);
+        return true;
+      }, false);
+    };
+
+    return effect;
+  }
+
+  /**
+   * 撤销插件注册的内容（倒序执行）
+   */
+  private revert(installed: InstalledPlugin): void {
+    installed.cleanups.reverse().forEach(cleanup => {
+      try {
+        cleanup();
+      } catch (error) {
+        console.warn(`Failed to clean up plugin ${installed.plugin.name}:`, error);
+      }
+    });
+    installed.cleanups = [];
+  }
+
+  /**
+   * 执行插件代码，出错时报告并返回 fallback
+   */
+  private guard<T>(name: string, stage: PluginStage, fn: () => T, fallback: T): T {
+    try {
+      return fn();
+    } catch (error) {
+      this.report(name, stage, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * 通过 ErrorHandler 报告插件错误
+   */
+  private report(name: string, stage: PluginStage, error: unknown): void {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    void this.errorHandler.handleError(this.errorHandler.createError(
+      ErrorType.PLUGIN_ERROR,
+      `Plugin ${name} failed during ${stage}: ${cause.message}`,
+      { plugin: name, stage, error: cause },
+      true,
+      cause.stack
+    ));
+  }
+}
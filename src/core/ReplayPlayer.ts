@@ -0,0 +1,162 @@
+/**
+ * 回放播放器
+ * 把回放日志中的输入按原顺序送回 GameEngine，逐帧复现一局游戏
+ */
+
+import type { GameEngine } from './GameEngine';
+import { migrateReplayLog, type ReplayLog } from './ReplayRecorder';
+import type { TransformType } from '@/config/phases.config';
+
+export interface ReplayPlayerOptions {
+  engine: GameEngine;
+  log: ReplayLog;
+  onTransform?: (transformType: TransformType, success: boolean) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * 回放播放器类
+ */
+export class ReplayPlayer {
+  private options: Required<ReplayPlayerOptions>;
+  private cursor = 0;
+  private frameCount = 0;
+  private animationId: number | null = null;
+  private isFinished = false;
+
+  constructor(options: ReplayPlayerOptions) {
+    this.options = {
+      onTransform: () => {},
+      onComplete: () => {},
+      ...options,
+      log: migrateReplayLog(options.log)
+    };
+
+    this.countFrames();
+  }
+
+  /**
+   * 按录制时的帧节奏播放（每个动画帧回放一帧）
+   */
+  play(): void {
+    if (this.animationId !== null || this.isFinished) return;
+
+    this.options.engine.setExternalLoop(true);
+
+    const tick = () => {
+      this.animationId = null;
+      if (this.step()) {
+        this.animationId = requestAnimationFrame(tick);
+      }
+    };
+
+    this.animationId = requestAnimationFrame(tick);
+  }
+
+  /**
+   * 回放到下一帧（含该帧之前的所有输入），返回是否还有剩余事件
+   */
+  step(): boolean {
+    if (this.isFinished) return false;
+
+    const { engine, log } = this.options;
+    engine.setExternalLoop(true);
+
+    while (this.cursor < log.events.length) {
+      const event = log.events[this.cursor++];
+
+      switch (event[0]) {
+        case 'c':
+          engine.handleClick(event[2], event[3], event[4], event[5]);
+          break;
+        case 't':
+          this.options.onTransform(event[2], event[3] === 1);
+          break;
+        case 'p':
+          engine.setPhaseThresholds(event[2]);
+          break;
+        case 'f':
+          engine.update(event[2]);
+          engine.render();
+          this.frameCount--;
+          return this.hasRemaining() || this.finish();
+      }
+    }
+
+    return this.finish();
+  }
+
+  /**
+   * 立即回放全部事件（用于测试和问题复现）
+   */
+  runToEnd(): void {
+    while (this.step()) {
+      // 逐帧推进直到结束
+    }
+  }
+
+  /**
+   * 停止回放，把游戏循环交还给引擎
+   */
+  stop(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+
+    if (!this.isFinished) {
+      this.isFinished = true;
+      this.options.engine.setExternalLoop(false);
+    }
+  }
+
+  /**
+   * 获取回放进度 (0-1)
+   */
+  getProgress(): number {
+    const total = this.options.log.events.length;
+    return total > 0 ? this.cursor / total : 1;
+  }
+
+  /**
+   * 获取剩余帧数
+   */
+  getRemainingFrames(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * 检查回放是否结束
+   */
+  isComplete(): boolean {
+    return this.isFinished;
+  }
+
+  /**
+   * 统计日志中的帧数
+   */
+  private countFrames(): void {
+    this.frameCount = this.options.log.events.filter(event => event[0] === 'f').length;
+  }
+
+  private hasRemaining(): boolean {
+    return this.cursor < this.options.log.events.length;
+  }
+
+  /**
+   * 结束回放：暂停在最后一帧，交还游戏循环
+   */
+  private finish(): false {
+    if (!this.isFinished) {
+      const { engine } = this.options;
+      if (engine.getState().isPlaying) {
+        engine.pause();
+      }
+
+      this.stop();
+      this.options.onComplete();
+    }
+
+    return false;
+  }
+}
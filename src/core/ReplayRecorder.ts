@@ -0,0 +1,153 @@
+/**
+ * 回放录制器
+ * 按顺序记录一局游戏的全部输入（帧间隔、点击、变形完成），生成紧凑的回放日志
+ */
+
+import type { TransformType } from '@/config/phases.config';
+import type { GameMode } from './GameEngine';
+
+export const REPLAY_LOG_VERSION = 2;
+
+/**
+ * 回放事件，使用元组减小日志体积
+ * - f: 一帧更新 [类型, 时间, 帧间隔]
+ * - c: 一次点击 [类型, 时间, x, y, 连击数]
+ * - t: 变形完成 [类型, 时间, 变形类型, 是否成功(1/0)]
+ * - p: 阶段阈值调整 [类型, 时间, 阈值列表]
+ */
+export type ReplayEvent =
+  | [type: 'f', time: number, deltaTime: number]
+  | [type: 'c', time: number, x: number, y: number, combo: number, force?: number]
+  | [type: 't', time: number, transformType: TransformType, success: 0 | 1]
+  | [type: 'p', time: number, thresholds: number[]];
+
+/**
+ * 录制时生效的阶段阈值
+ */
+export interface ReplayPhase {
+  id: string;
+  threshold: number;
+}
+
+export interface ReplayLog {
+  version: number;
+  seed: number;
+  recordedAt: number;
+  phases: ReplayPhase[];
+  timeLimit?: number; // 计时模式时长（毫秒），经典模式为 0
+  mode?: GameMode; // 较早的日志没有记录模式，按 timeLimit 区分经典和计时模式
+  events: ReplayEvent[];
+}
+
+/**
+ * 将旧版本回放日志迁移到当前版本
+ * 版本 1 只记录了两个阶段阈值，转换为默认三阶段流程的阶段列表
+ */
+export function migrateReplayLog(log: any): ReplayLog {
+  if (log?.version === 1) {
+    const { phase1Threshold, phase2Threshold, ...rest } = log;
+    return {
+      ...rest,
+      version: REPLAY_LOG_VERSION,
+      phases: [
+        { id: 'initial', threshold: 0 },
+        { id: 'phase1', threshold: phase1Threshold },
+        { id: 'phase2', threshold: phase2Threshold }
+      ]
+    };
+  }
+
+  if (log?.version !== REPLAY_LOG_VERSION) {
+    throw new Error(`Unsupported replay log version: ${log?.version}`);
+  }
+
+  return log as ReplayLog;
+}
+
+export interface ReplayRecorderOptions {
+  seed: number;
+  phases: ReplayPhase[];
+  timeLimit?: number;
+  mode?: GameMode;
+  now?: () => number; // 记录事件时间戳的时钟
+}
+
+/**
+ * 回放录制器类
+ */
+export class ReplayRecorder {
+  private options: Required<ReplayRecorderOptions>;
+  private events: ReplayEvent[] = [];
+  private recordedAt = Date.now();
+  private startTime: number;
+
+  constructor(options: ReplayRecorderOptions) {
+    this.options = {
+      timeLimit: 0,
+      mode: 'classic',
+      now: () => performance.now(),
+      ...options
+    };
+
+    this.startTime = this.options.now();
+  }
+
+  /**
+   * 记录一帧更新
+   */
+  recordFrame(deltaTime: number): void {
+    this.events.push(['f', this.getTime(), deltaTime]);
+  }
+
+  /**
+   * 记录一次点击
+   */
+  recordClick(x: number, y: number, combo: number, force: number = 1): void {
+    const time = this.getTime();
+    // 普通点击（力度 1）省略力度字段
+    this.events.push(force === 1 ? ['c', time, x, y, combo] : ['c', time, x, y, combo, force]);
+  }
+
+  /**
+   * 记录一次变形完成
+   */
+  recordTransform(transformType: TransformType, success: boolean): void {
+    this.events.push(['t', this.getTime(), transformType, success ? 1 : 0]);
+  }
+
+  /**
+   * 记录一次阶段阈值调整（自适应节奏）
+   */
+  recordThresholds(thresholds: number[]): void {
+    this.events.push(['p', this.getTime(), [...thresholds]]);
+  }
+
+  /**
+   * 获取回放日志（副本）
+   */
+  getLog(): ReplayLog {
+    return {
+      version: REPLAY_LOG_VERSION,
+      seed: this.options.seed,
+      recordedAt: this.recordedAt,
+      phases: this.options.phases.map(phase => ({ ...phase })),
+      timeLimit: this.options.timeLimit,
+      mode: this.options.mode,
+      events: this.events.map(event => (event[0] === 'p' ? ['p', event[1], [...event[2]]] : [...event]) as ReplayEvent)
+    };
+  }
+
+  /**
+   * 获取已记录的事件数
+   */
+  getEventCount(): number {
+    return this.events.length;
+  }
+
+  /**
+   * 距录制开始的毫秒数
+   */
+  private getTime(): number {
+    return Math.round(this.options.now() - this.startTime);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * 计分系统
+ * 根据连击数和点击力度计算得分，按连击档位加成倍数，并随机触发暴击
+ */
+
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+import type { RandomSource } from '@/utils/SeededRandom';
+
+export interface ComboTier {
+  minCombo: number; // 达到该连击数后生效
+  multiplier: number;
+  label: string;
+}
+
+export interface ScoreSystemOptions {
+  basePoints?: number; // 每次点击的基础分
+  comboTiers?: ComboTier[]; // 按 minCombo 从小到大排列
+  criticalChance?: number; // 基础暴击概率
+  criticalChancePerTier?: number; // 每升一档增加的暴击概率
+  criticalMultiplier?: number;
+  maxForce?: number; // 力度加成的上限（力度 1 为普通点击）
+  random?: RandomSource; // 随机数来源，回放时注入固定种子的生成器
+}
+
+export interface ScoreHit {
+  points: number;
+  total: number;
+  multiplier: number; // 连击档位倍数
+  tier: ComboTier;
+  isCritical: boolean;
+}
+
+export interface ScoreStats {
+  score: number;
+  hits: number;
+  criticalHits: number;
+  bestHit: number;
+  maxMultiplier: number;
+}
+
+// 计分事件表
+export type ScoreEvents = {
+  score: ScoreHit;
+  critical: ScoreHit;
+  tierChange: { oldTier: ComboTier; newTier: ComboTier };
+};
+
+export const defaultComboTiers: ComboTier[] = [
+  { minCombo: 0, multiplier: 1, label: '' },
+  { minCombo: 5, multiplier: 1.5, label: '连击' },
+  { minCombo: 10, multiplier: 2, label: '狂暴' },
+  { minCombo: 20, multiplier: 3, label: '无双' },
+  { minCombo: 40, multiplier: 5, label: '超神' }
+];
+
+/**
+ * 创建一局开始时的计分统计
+ */
+export function createEmptyScoreStats(): ScoreStats {
+  return { score: 0, hits: 0, criticalHits: 0, bestHit: 0, maxMultiplier: 1 };
+}
+
+/**
+ * 计分系统类
+ */
+export class ScoreSystem {
+  private options: Required<ScoreSystemOptions>;
+  private events = new EventEmitter<ScoreEvents>('ScoreSystem');
+  private stats: ScoreStats = createEmptyScoreStats();
+  private currentTier: ComboTier;
+
+  constructor(options: ScoreSystemOptions = {}) {
+    this.options = {
+      basePoints: 10,
+      comboTiers: defaultComboTiers,
+      criticalChance: 0.05,
+      criticalChancePerTier: 0.02,
+      criticalMultiplier: 3,
+      maxForce: 2,
+      random: Math.random,
+      ...options
+    };
+
+    if (this.options.comboTiers.length === 0) {
+      throw new Error('ScoreSystem requires at least one combo tier');
+    }
+
+    this.currentTier = this.options.comboTiers[0];
+  }
+
+  /**
+   * 记录一次命中，返回本次得分
+   * force 为点击力度（鼠标为 1，触屏压力可能更大），bonus 为命中区域等额外倍数
+   */
+  registerHit(combo: number, force: number = 1, bonus: number = 1): ScoreHit {
+    const tierIndex = this.getTierIndex(combo);
+    const tier = this.options.comboTiers[tierIndex];
+    this.updateTier(tier);
+
+    const forceBonus = Math.min(Math.max(force, 1), this.options.maxForce);
+    const criticalChance = Math.min(
+      this.options.criticalChance + tierIndex * this.options.criticalChancePerTier,
+      1
+    );
+    const isCritical = this.options.random() < criticalChance;
+
+    const points = Math.round(
+      this.options.basePoints * tier.multiplier * forceBonus * bonus * (isCritical ? this.options.criticalMultiplier : 1)
+    );
+
+    this.stats.score += points;
+    this.stats.hits++;
+    this.stats.bestHit = Math.max(this.stats.bestHit, points);
+    this.stats.maxMultiplier = Math.max(this.stats.maxMultiplier, tier.multiplier);
+    if (isCritical) {
+      this.stats.criticalHits++;
+    }
+
+    const hit: ScoreHit = { points, total: this.stats.score, multiplier: tier.multiplier, tier, isCritical };
+    this.events.emit('score', hit);
+    if (isCritical) {
+      this.events.emit('critical', hit);
+    }
+
+    return hit;
+  }
+
+  /**
+   * 获取连击数对应的档位序号
+   */
+  private getTierIndex(combo: number): number {
+    const tiers = this.options.comboTiers;
+    let index = 0;
+    while (index + 1 < tiers.length && combo >= tiers[index + 1].minCombo) {
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * 切换连击档位
+   */
+  private updateTier(tier: ComboTier): void {
+    if (tier === this.currentTier) return;
+
+    const oldTier = this.currentTier;
+    this.currentTier = tier;
+    this.events.emit('tierChange', { oldTier, newTier: tier });
+  }
+
+  /**
+   * 获取当前总分
+   */
+  getScore(): number {
+    return this.stats.score;
+  }
+
+  /**
+   * 获取当前连击档位
+   */
+  getCurrentTier(): ComboTier {
+    return this.currentTier;
+  }
+
+  /**
+   * 获取计分统计
+   */
+  getStats(): ScoreStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 恢复保存的计分统计（继续会话时使用）
+   */
+  restore(stats: ScoreStats): void {
+    this.stats = { ...stats };
+  }
+
+  /**
+   * 开始新的一局
+   */
+  reset(): void {
+    this.stats = createEmptyScoreStats();
+    this.currentTier = this.options.comboTiers[0];
+  }
+
+  /**
+   * 监听计分事件，返回取消订阅函数
+   */
+  on<K extends keyof ScoreEvents>(
+    event: K,
+    listener: EventListener<ScoreEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  /**
+   * 监听一次计分事件
+   */
+  once<K extends keyof ScoreEvents>(
+    event: K,
+    listener: EventListener<ScoreEvents[K]>,
+    options?: Omit<ListenerOptions, 'once'>
+  ): Unsubscribe {
+    return this.events.once(event, listener, options);
+  }
+
+  /**
+   * 取消监听计分事件
+   */
+  off<K extends keyof ScoreEvents>(event: K, listener: EventListener<ScoreEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * 销毁计分系统
+   */
+  destroy(): void {
+    this.events.destroy();
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * 目标管理器
+ * 一局游戏可以同时放置多张图片作为目标，每个目标有自己的点击框、点击数、阶段和变形记录
+ * 点击按画布坐标（CanvasRenderer.screenToCanvas 转换后的视口坐标）分配给命中的目标
+ */
+
+import type { PhaseDefinition } from '@/config/phases.config';
+import type { TransformResult } from './ImageTransformManager';
+import { cloneHitRegion, type HitRegion } from './HitRegions';
+import {
+  EventEmitter,
+  type EventListener,
+  type ListenerOptions,
+  type Unsubscribe
+} from '@/utils/EventEmitter';
+
+export interface TargetBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 游戏目标
+ */
+export interface GameTarget {
+  id: string;
+  image: HTMLImageElement; // 上传的原图，变形都基于原图
+  transformedImages: HTMLImageElement[];
+  transformHistory: TransformResult[];
+  clickCount: number;
+  currentPhase: string;
+  bounds: TargetBounds; // 点击框（视口坐标），由 layout 计算
+  hitRegions: HitRegion[]; // 图片上的命中区域
+}
+
+// 目标管理器事件表
+export type TargetManagerEvents = {
+  targetAdded: { target: GameTarget };
+  targetRemoved: { target: GameTarget };
+  activeChange: { target: GameTarget | null; previous: GameTarget | null };
+  hit: { target: GameTarget; x: number; y: number };
+  phaseChange: { target: GameTarget; oldPhase: string; newPhase: string };
+};
+
+/**
+ * 添加目标时恢复的进度（继续保存的会话时使用）
+ */
+export type TargetProgress = Partial<Pick<GameTarget, 'clickCount' | 'currentPhase' | 'transformedImages' | 'transformHistory' | 'hitRegions'>>;
+
+export interface TargetManagerOptions {
+  phases: PhaseDefinition[];
+  maxTargets?: number;
+  gap?: number; // 目标之间的间距（像素）
+}
+
+/**
+ * 目标管理器类
+ */
+export class TargetManager {
+  private phases: PhaseDefinition[];
+  private maxTargets: number;
+  private gap: number;
+  private targets: GameTarget[] = [];
+  private activeId: string | null = null;
+  private nextId = 1;
+  private viewport = { width: 0, height: 0 };
+  private events = new EventEmitter<TargetManagerEvents>('TargetManager');
+
+  constructor(options: TargetManagerOptions) {
+    this.phases = options.phases;
+    this.maxTargets = options.maxTargets ?? 4;
+    this.gap = options.gap ?? 12;
+  }
+
+  /**
+   * 添加目标，第一个目标自动成为当前目标
+   * 目标数量达到上限时抛出错误
+   */
+  addTarget(image: HTMLImageElement, progress: TargetProgress = {}): GameTarget {
+    if (this.targets.length >= this.maxTargets) {
+      throw new Error(`Too many targets (max ${this.maxTargets})`);
+    }
+
+    const target: GameTarget = {
+      id: `target-${this.nextId++}`,
+      image,
+      transformedImages: [],
+      transformHistory: [],
+      clickCount: 0,
+      currentPhase: this.phases[0].id,
+      bounds: { x: 0, y: 0, width: 0, height: 0 },
+      hitRegions: [],
+      ...progress
+    };
+
+    this.targets.push(target);
+    this.layout();
+    this.events.emit('targetAdded', { target });
+
+    if (!this.activeId) {
+      this.setActiveTarget(target.id);
+    }
+
+    return target;
+  }
+
+  /**
+   * 移除目标，移除当前目标时切换到剩下的第一个目标
+   */
+  removeTarget(id: string): boolean {
+    const index = this.targets.findIndex(target => target.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    const [target] = this.targets.splice(index, 1);
+    this.layout();
+    this.events.emit('targetRemoved', { target });
+
+    if (this.activeId === id) {
+      this.activeId = null;
+      const next = this.targets[0] || null;
+      if (next) {
+        this.setActiveTarget(next.id);
+      } else {
+        this.events.emit('activeChange', { target: null, previous: target });
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 切换当前目标，目标不存在时抛出错误
+   */
+  setActiveTarget(id: string): void {
+    const target = this.getTarget(id);
+    if (!target) {
+      throw new Error(`Unknown target: ${id}`);
+    }
+
+    if (this.activeId === id) return;
+
+    const previous = this.getActiveTarget();
+    this.activeId = id;
+    this.events.emit('activeChange', { target, previous });
+  }
+
+  /**
+   * 获取当前目标
+   */
+  getActiveTarget(): GameTarget | null {
+    return this.activeId ? this.getTarget(this.activeId) : null;
+  }
+
+  getTarget(id: string): GameTarget | null {
+    return this.targets.find(target => target.id === id) || null;
+  }
+
+  /**
+   * 获取所有目标（按添加顺序）
+   */
+  getTargets(): GameTarget[] {
+    return [...this.targets];
+  }
+
+  getTargetCount(): number {
+    return this.targets.length;
+  }
+
+  /**
+   * 查找点击命中的目标
+   * 只有一个目标时它铺满画布，画布上的任何点击都命中
+   */
+  hitTest(x: number, y: number): GameTarget | null {
+    if (this.targets.length === 1) {
+      return this.targets[0];
+    }
+
+    return this.targets.find(({ bounds }) =>
+      x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height
+    ) || null;
+  }
+
+  /**
+   * 记录一次命中，点击数跨过阈值时依次发出 phaseChange
+   */
+  recordHit(id: string, x: number, y: number): GameTarget | null {
+    const target = this.getTarget(id);
+    if (!target) {
+      return null;
+    }
+
+    target.clickCount++;
+    this.events.emit('hit', { target, x, y });
+
+    let phaseIndex = this.getPhaseIndex(target.currentPhase);
+    const targetIndex = this.getPhaseIndexForCount(target.clickCount);
+    while (phaseIndex < targetIndex) {
+      const oldPhase = target.currentPhase;
+      target.currentPhase = this.phases[++phaseIndex].id;
+      this.events.emit('phaseChange', { target, oldPhase, newPhase: target.currentPhase });
+    }
+
+    return target;
+  }
+
+  /**
+   * 记录目标的变形结果，成功时保存变形后的图片
+   */
+  addTransformResult(id: string, result: TransformResult): void {
+    const target = this.getTarget(id);
+    if (!target) return;
+
+    target.transformHistory.push(result);
+    if (result.success && result.transformedImage) {
+      target.transformedImages.push(result.transformedImage);
+    }
+  }
+
+  /**
+   * 设置目标图片上的命中区域
+   */
+  setHitRegions(id: string, regions: HitRegion[]): void {
+    const target = this.getTarget(id);
+    if (target) {
+      target.hitRegions = regions.map(cloneHitRegion);
+    }
+  }
+
+  /**
+   * 目标当前显示的图片（最新的变形结果，没有时为原图）
+   */
+  getCurrentImage(target: GameTarget): HTMLImageElement {
+    const { transformedImages } = target;
+    return transformedImages.length > 0 ? transformedImages[transformedImages.length - 1] : target.image;
+  }
+
+  /**
+   * 更新阶段列表（模式切换时），按点击数重新计算各目标的阶段
+   */
+  setPhases(phases: PhaseDefinition[]): void {
+    this.phases = phases;
+    this.targets.forEach(target => {
+      target.currentPhase = this.phases[this.getPhaseIndexForCount(target.clickCount)].id;
+    });
+  }
+
+  /**
+   * 按视口尺寸排列目标：一个目标铺满画布，多个目标按网格平分
+   */
+  layout(width: number = this.viewport.width, height: number = this.viewport.height): void {
+    this.viewport = { width, height };
+
+    const count = this.targets.length;
+    if (count === 0) return;
+
+    if (count === 1) {
+      this.targets[0].bounds = { x: 0, y: 0, width, height };
+      return;
+    }
+
+    const columns = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / columns);
+    const cellWidth = Math.max(0, (width - this.gap * (columns + 1)) / columns);
+    const cellHeight = Math.max(0, (height - this.gap * (rows + 1)) / rows);
+
+    this.targets.forEach((target, index) => {
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      target.bounds = {
+        x: this.gap + column * (cellWidth + this.gap),
+        y: this.gap + row * (cellHeight + this.gap),
+        width: cellWidth,
+        height: cellHeight
+      };
+    });
+  }
+
+  /**
+   * 移除所有目标
+   */
+  clear(): void {
+    const previous = this.getActiveTarget();
+    this.targets = [];
+    this.activeId = null;
+    if (previous) {
+      this.events.emit('activeChange', { target: null, previous });
+    }
+  }
+
+  /**
+   * 监听事件，返回取消订阅函数
+   */
+  on<K extends keyof TargetManagerEvents>(
+    event: K,
+    listener: EventListener<TargetManagerEvents[K]>,
+    options?: ListenerOptions
+  ): Unsubscribe {
+    return this.events.on(event, listener, options);
+  }
+
+  off<K extends keyof TargetManagerEvents>(event: K, listener: EventListener<TargetManagerEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  destroy(): void {
+    this.targets = [];
+    this.activeId = null;
+    this.events.destroy();
+  }
+
+  private getPhaseIndex(phaseId: string): number {
+    return Math.max(0, this.phases.findIndex(phase => phase.id === phaseId));
+  }
+
+  private getPhaseIndexForCount(clickCount: number): number {
+    let index = 0;
+    while (index + 1 < this.phases.length && clickCount >= this.phases[index + 1].threshold) {
+      index++;
+    }
+    return index;
+  }
+}
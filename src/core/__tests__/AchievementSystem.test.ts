@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AchievementSystem } from '../AchievementSystem'
+import { AchievementStore } from '@/services/AchievementStore'
+import type { AchievementDefinition } from '@/config/achievements.config'
+
+const createStorage = (): Storage => {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+    clear: () => data.clear(),
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    get length() {
+      return data.size
+    }
+  }
+}
+
+const definitions: AchievementDefinition[] = [
+  { id: 'transform', name: '变身', description: '', icon: '🐣', condition: { type: 'transforms', count: 1 } },
+  { id: 'combo', name: '连击', description: '', icon: '🔥', condition: { type: 'combo', combo: 5 } },
+  { id: 'clicks', name: '点击', description: '', icon: '💪', condition: { type: 'lifetimeClicks', clicks: 3 } },
+  { id: 'fast', name: '速通', description: '', icon: '⚡', condition: { type: 'allPhasesWithin', time: 30000 } },
+  { id: 'share', name: '分享', description: '', icon: '📣', condition: { type: 'shares', count: 1 } }
+]
+
+const createSystem = (storage: Storage = createStorage()) =>
+  new AchievementSystem({ definitions, store: new AchievementStore(storage), now: () => 1000 })
+
+describe('AchievementSystem', () => {
+  it('满足条件时应该解锁并发射 unlock 事件', () => {
+    const system = createSystem()
+    const onUnlock = vi.fn()
+    system.on('unlock', onUnlock)
+
+    system.handle({ type: 'transform', success: false })
+    expect(onUnlock).not.toHaveBeenCalled()
+
+    const unlocks = system.handle({ type: 'transform', success: true })
+
+    expect(unlocks.map(unlock => unlock.achievement.id)).toEqual(['transform'])
+    expect(onUnlock).toHaveBeenCalledWith({ achievement: definitions[0], unlockedAt: 1000 })
+  })
+
+  it('已解锁的成就不应该重复解锁', () => {
+    const system = createSystem()
+
+    system.handle({ type: 'click', combo: 5 })
+    expect(system.handle({ type: 'click', combo: 6 }).map(unlock => unlock.achievement.id)).not.toContain('combo')
+    expect(system.getSessionUnlocks()).toHaveLength(1)
+  })
+
+  it('累计计数应该跨会话保存', () => {
+    const storage = createStorage()
+    createSystem(storage).handle({ type: 'click', combo: 0 })
+    createSystem(storage).handle({ type: 'click', combo: 0 })
+
+    const system = createSystem(storage)
+    expect(system.getAchievements().find(a => a.id === 'clicks')!.progress).toBeCloseTo(2 / 3)
+
+    system.handle({ type: 'click', combo: 0 })
+    expect(createSystem(storage).getUnlocked().map(a => a.id)).toEqual(['clicks'])
+  })
+
+  it('限时内进入最后阶段才解锁速通成就', () => {
+    const system = createSystem()
+
+    system.handle({ type: 'phaseChange', phaseIndex: 1, phaseCount: 3, gameTime: 10000 })
+    system.handle({ type: 'phaseChange', phaseIndex: 2, phaseCount: 3, gameTime: 31000 })
+    expect(system.getUnlocked()).toHaveLength(0)
+
+    system.handle({ type: 'phaseChange', phaseIndex: 2, phaseCount: 3, gameTime: 29000 })
+    expect(system.getUnlocked().map(a => a.id)).toEqual(['fast'])
+  })
+
+  it('新的一局应该清空本局解锁，但保留已解锁的成就', () => {
+    const system = createSystem()
+    system.handle({ type: 'share' })
+
+    system.resetSession()
+
+    expect(system.getSessionUnlocks()).toHaveLength(0)
+    expect(system.getUnlocked().map(a => a.id)).toEqual(['share'])
+  })
+
+  it('存储损坏时应该从空进度开始', () => {
+    const storage = createStorage()
+    storage.setItem('achievements', '{oops')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(createSystem(storage).getUnlocked()).toHaveLength(0)
+  })
+})
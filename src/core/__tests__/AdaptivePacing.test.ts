@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { AdaptivePacing, calculatePacing, scalePhaseThresholds } from '../AdaptivePacing'
+import type { PhaseDefinition } from '@/config/phases.config'
+
+const phases: PhaseDefinition[] = [
+  { id: 'initial', name: '初始', threshold: 0 },
+  { id: 'phase1', name: '阶段一', threshold: 50 },
+  { id: 'phase2', name: '阶段二', threshold: 100 }
+]
+
+const options = { targetSessionLength: 60000, minScale: 0.3, maxScale: 3 }
+
+describe('calculatePacing', () => {
+  it('点得快时提高阈值、降低弹幕概率和特效强度', () => {
+    const profile = calculatePacing(5, 100, options)
+
+    expect(profile.thresholdScale).toBe(3)
+    expect(profile.danmakuRate).toBe(0.5)
+    expect(profile.effectIntensity).toBe(0.75)
+  })
+
+  it('点得慢时降低阈值，缩放不超出上下限', () => {
+    const slow = calculatePacing(1, 100, options)
+    expect(slow.thresholdScale).toBeCloseTo(0.6)
+    expect(slow.danmakuRate).toBeCloseTo(1 / 0.6)
+
+    const idle = calculatePacing(0.1, 100, options)
+    expect(idle.thresholdScale).toBe(0.3)
+    expect(idle.danmakuRate).toBe(2)
+    expect(idle.effectIntensity).toBe(1.5)
+  })
+})
+
+describe('scalePhaseThresholds', () => {
+  it('应该按倍数缩放未到达的阶段', () => {
+    expect(scalePhaseThresholds(phases, 0.5, 10)).toEqual([0, 25, 50])
+    expect(scalePhaseThresholds(phases, 2, 10)).toEqual([0, 100, 200])
+  })
+
+  it('已到达的阶段保持原阈值，其余阶段高于当前点击数并保持递增', () => {
+    expect(scalePhaseThresholds(phases, 0.3, 60)).toEqual([0, 50, 61])
+    expect(scalePhaseThresholds(phases, 0.01, 0)).toEqual([0, 1, 2])
+  })
+})
+
+describe('AdaptivePacing', () => {
+  it('从第一次点击开始测量，测量完成时只返回一次节奏', () => {
+    const pacing = new AdaptivePacing({ calibrationDuration: 2000, targetSessionLength: 20000 })
+
+    // 开局发呆不计入测量时间
+    expect(pacing.update(5000, { totalClicks: 4 }, 100)).toBeNull()
+    expect(pacing.update(100, { totalClicks: 4 }, 100)).toBeNull()
+    expect(pacing.update(100, { totalClicks: 5 }, 100)).toBeNull()
+    expect(pacing.update(1000, { totalClicks: 8 }, 100)).toBeNull()
+
+    const profile = pacing.update(1000, { totalClicks: 12 }, 100)
+    expect(profile!.clicksPerSecond).toBe(4)
+    expect(profile!.thresholdScale).toBeCloseTo(0.8)
+    expect(pacing.isCalibrated()).toBe(true)
+    expect(pacing.update(1000, { totalClicks: 20 }, 100)).toBeNull()
+
+    pacing.reset()
+    expect(pacing.getProfile()).toBeNull()
+  })
+
+  it('时长无效时抛出错误', () => {
+    expect(() => new AdaptivePacing({ calibrationDuration: 0 })).toThrow('positive durations')
+  })
+})
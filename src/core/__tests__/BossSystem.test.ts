@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BossSystem, calculateBossDamage } from '../BossSystem'
+
+const normalHit = { comboMultiplier: 1, force: 1, isCritical: false }
+
+describe('BossSystem', () => {
+  it('伤害应该按连击倍数、力度和暴击计算', () => {
+    const options = { baseDamage: 10, maxForce: 2, criticalMultiplier: 2.5 }
+
+    expect(calculateBossDamage(normalHit, options)).toBe(10)
+    expect(calculateBossDamage({ ...normalHit, comboMultiplier: 3 }, options)).toBe(30)
+    expect(calculateBossDamage({ ...normalHit, force: 5 }, options)).toBe(20)
+    expect(calculateBossDamage({ ...normalHit, force: 0.2 }, options)).toBe(10)
+    expect(calculateBossDamage({ comboMultiplier: 2, force: 1.5, isCritical: true }, options)).toBe(75)
+  })
+
+  it('血量跌破阈值时应该依次发出 threshold', () => {
+    const boss = new BossSystem({ maxHealth: 100, baseDamage: 10, thresholds: [0.6, 0.3] })
+    const onThreshold = vi.fn()
+    boss.on('threshold', onThreshold)
+
+    boss.registerHit({ ...normalHit, comboMultiplier: 4 })
+    expect(boss.getHealth()).toBe(60)
+    expect(onThreshold).toHaveBeenCalledTimes(1)
+    expect(onThreshold).toHaveBeenLastCalledWith({ index: 1, ratio: 0.6, health: 60 })
+
+    // 一次跨过剩下的阈值
+    boss.registerHit({ ...normalHit, comboMultiplier: 4 })
+    expect(onThreshold).toHaveBeenCalledTimes(2)
+    expect(onThreshold).toHaveBeenLastCalledWith({ index: 2, ratio: 0.3, health: 20 })
+  })
+
+  it('血量归零时应该发出 knockout，之后的命中不再造成伤害', () => {
+    const boss = new BossSystem({ maxHealth: 25, baseDamage: 10 })
+    const onKnockout = vi.fn()
+    boss.on('knockout', onKnockout)
+
+    boss.registerHit(normalHit)
+    boss.registerHit(normalHit)
+    const finalHit = boss.registerHit(normalHit)
+
+    expect(finalHit).toEqual({ damage: 5, health: 0, maxHealth: 25, isCritical: false, isKnockout: true })
+    expect(boss.isKnockedOut()).toBe(true)
+    expect(onKnockout).toHaveBeenCalledWith({ health: 0, maxHealth: 25, hits: 3, totalDamage: 25, bestHit: 10 })
+
+    expect(boss.registerHit(normalHit).damage).toBe(0)
+    expect(onKnockout).toHaveBeenCalledTimes(1)
+  })
+
+  it('重置后血量回满并重新计算阈值', () => {
+    const boss = new BossSystem({ maxHealth: 100, baseDamage: 50, thresholds: [0.5] })
+    const onThreshold = vi.fn()
+    boss.on('threshold', onThreshold)
+
+    boss.registerHit(normalHit)
+    boss.reset()
+    expect(boss.getStats()).toEqual({ health: 100, maxHealth: 100, hits: 0, totalDamage: 0, bestHit: 0 })
+
+    boss.registerHit(normalHit)
+    expect(onThreshold).toHaveBeenCalledTimes(2)
+  })
+
+  it('maxHealth 必须为正数', () => {
+    expect(() => new BossSystem({ maxHealth: 0 })).toThrow('positive maxHealth')
+  })
+})
@@ -0,0 +1,949 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GameApp } from '../GameApp'
+import { GameEngine } from '../GameEngine'
+import { InteractionManager } from '../InteractionManager'
+import { EffectSystem } from '../EffectSystem'
+import { DanmakuSystem } from '../DanmakuSystem'
+import { GameAudioSystem } from '../GameAudioSystem'
+import { ImageTransformManager } from '../ImageTransformManager'
+import { CanvasRenderer } from '../CanvasRenderer'
+import { ImageManager } from '../ImageManager'
+import { ScoreSystem } from '../ScoreSystem'
+import { defaultGameConfig, type GameConfig } from '@/config/api.config'
+import { SESSION_SNAPSHOT_VERSION, type SessionSnapshot, type SnapshotStore } from '@/services/SessionStore'
+import { PersonalBestStore } from '@/services/PersonalBestStore'
+import { SessionHistoryStore } from '@/services/SessionHistoryStore'
+import { GameClock } from '@/utils/GameClock'
+
+// Mock Canvas 2D上下文
+const mockContext = {
+  clearRect: vi.fn(),
+  drawImage: vi.fn(),
+  fillRect: vi.fn(),
+  strokeRect: vi.fn(),
+  rect: vi.fn(),
+  clip: vi.fn(),
+  arc: vi.fn(),
+  fill: vi.fn(),
+  stroke: vi.fn(),
+  beginPath: vi.fn(),
+  fillText: vi.fn(),
+  strokeText: vi.fn(),
+  translate: vi.fn(),
+  scale: vi.fn(),
+  save: vi.fn(),
+  restore: vi.fn(),
+  imageSmoothingEnabled: true,
+  imageSmoothingQuality: 'high',
+  globalAlpha: 1,
+  fillStyle: '',
+  strokeStyle: '',
+  lineWidth: 1,
+  font: '',
+  textAlign: 'left',
+  textBaseline: 'top'
+}
+
+const testConfig: GameConfig = {
+  ...defaultGameConfig,
+  phase1Threshold: 3,
+  phase2Threshold: 6,
+  enableAudio: false
+}
+
+const clickCanvas = (app: GameApp) => {
+  app.getRenderer().getCanvas().dispatchEvent(
+    new MouseEvent('mousedown', { clientX: 10, clientY: 10 })
+  )
+}
+
+describe('GameApp', () => {
+  let container: HTMLElement
+  let app: GameApp
+
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(mockContext as any)
+    vi.spyOn(ImageTransformManager.prototype, 'transformImage').mockImplementation(
+      async (image, transformType) => ({
+        success: true,
+        transformedImage: new Image(),
+        originalImage: image,
+        transformType,
+        processingTime: 0
+      })
+    )
+
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    app = new GameApp({ container, config: testConfig })
+    // 关闭冷却，方便连续点击
+    ;(app as any).interaction.setClickCooldown(0)
+  })
+
+  afterEach(() => {
+    app.destroy()
+    container.remove()
+    vi.restoreAllMocks()
+  })
+
+  it('应该在容器中创建游戏画布', () => {
+    const canvas = container.querySelector('canvas')
+    expect(canvas).not.toBeNull()
+    expect(canvas!.id).toBe('gameCanvas')
+  })
+
+  it('上传图片后应该开始游戏', () => {
+    app.start(new Image())
+
+    const stats = app.getStats()
+    expect(stats.isPlaying).toBe(true)
+    expect(stats.hasImage).toBe(true)
+    expect(stats.clickCount).toBe(0)
+  })
+
+  it('画布输入应该经由InteractionManager进入GameEngine', () => {
+    const onStatsChange = vi.fn()
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, onStatsChange })
+
+    app.start(new Image())
+    clickCanvas(app)
+
+    expect(app.getStats().clickCount).toBe(1)
+    expect(onStatsChange).toHaveBeenLastCalledWith(expect.objectContaining({ clickCount: 1 }))
+  })
+
+  it('没有图片时点击不应计数', () => {
+    clickCanvas(app)
+    expect(app.getStats().clickCount).toBe(0)
+  })
+
+  it('应该按配置的阈值触发变形', async () => {
+    const onPhaseChange = vi.fn()
+    const onTransformComplete = vi.fn()
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, onPhaseChange, onTransformComplete })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    app.start(new Image())
+    for (let i = 0; i < testConfig.phase1Threshold; i++) {
+      clickCanvas(app)
+    }
+
+    expect(onPhaseChange).toHaveBeenCalledWith('initial', 'phase1')
+    expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(
+      expect.anything(),
+      'light',
+      expect.any(Function)
+    )
+
+    await vi.waitFor(() => expect(onTransformComplete).toHaveBeenCalled())
+    expect(app.getStats().transformedCount).toBe(1)
+  })
+
+  it('最后的变形完成后应该结束本局并记入历史战绩', async () => {
+    const onStatusChange = vi.fn()
+    const onSessionRecorded = vi.fn()
+    app.destroy()
+    app = new GameApp({
+      container,
+      config: testConfig,
+      historyStore: new SessionHistoryStore({ storage: null }),
+      onStatusChange,
+      onSessionRecorded
+    })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    app.beginUpload()
+    expect(app.getStatus()).toBe('uploading')
+    app.start(new Image())
+    for (let i = 0; i < testConfig.phase2Threshold; i++) {
+      clickCanvas(app)
+    }
+    expect(app.getStatus()).toBe('transforming')
+
+    await vi.waitFor(() => expect(app.getStatus()).toBe('completed'))
+    expect(onSessionRecorded).toHaveBeenCalledWith(expect.objectContaining({
+      record: expect.objectContaining({ clicks: testConfig.phase2Threshold, transformed: true })
+    }))
+    expect(onStatusChange).toHaveBeenLastCalledWith(expect.objectContaining({ from: 'playing', to: 'completed' }))
+
+    // 结束后不再计数，可以直接开始上传新图片
+    clickCanvas(app)
+    expect(app.getStats().clickCount).toBe(testConfig.phase2Threshold)
+    app.beginUpload()
+    expect(app.getStatus()).toBe('uploading')
+  })
+
+  it('应该按阶段配置切换变形预设、弹幕包和环境音', async () => {
+    const playAmbient = vi.spyOn(GameAudioSystem.prototype, 'playAmbientSound')
+    const playTransform = vi.spyOn(GameAudioSystem.prototype, 'playTransformSound')
+    const onTransformComplete = vi.fn()
+    app.destroy()
+    app = new GameApp({
+      container,
+      config: {
+        ...testConfig,
+        phasePipeline: {
+          phases: [
+            { id: 'calm', name: '平静', threshold: 0 },
+            {
+              id: 'rage',
+              name: '暴怒',
+              threshold: 2,
+              transformPreset: 'cartoon',
+              danmakuPack: 'angry',
+              ambientSound: 'tension',
+              effectIntensity: 2
+            }
+          ],
+          transformPresets: {
+            cartoon: { prompt: 'cartoon', strength: 0.5, steps: 20, soundStyle: 'heavy' }
+          },
+          danmakuPacks: { angry: { messages: ['住手！'] } }
+        }
+      },
+      onTransformComplete
+    })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    app.start(new Image())
+    clickCanvas(app)
+    clickCanvas(app)
+
+    expect(app.getStats().currentPhase).toBe('rage')
+    expect((app as any).danmaku.getOptions().messages).toEqual(['住手！'])
+    expect(playAmbient).toHaveBeenCalledWith('tension')
+    expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(
+      expect.anything(),
+      'cartoon',
+      expect.any(Function)
+    )
+
+    await vi.waitFor(() => expect(onTransformComplete).toHaveBeenCalled())
+    expect(playTransform).toHaveBeenCalledWith('heavy')
+
+    // 重置后恢复默认弹幕
+    app.reset()
+    expect((app as any).danmaku.getOptions().messages).not.toEqual(['住手！'])
+  })
+
+  it('点击应该计分，暴击时播放暴击音效和更大的爆炸', () => {
+    const playCritical = vi.spyOn(GameAudioSystem.prototype, 'playCriticalHitSound')
+    const explode = vi.spyOn(EffectSystem.prototype, 'addParticleExplosion')
+
+    app.start(new Image())
+    clickCanvas(app)
+    expect(app.getStats().score).toBeGreaterThan(0)
+    // 第一次点击也可能随机暴击，只检查下面指定为暴击的一次
+    playCritical.mockClear()
+    explode.mockClear()
+
+    const registerHit = vi.spyOn(ScoreSystem.prototype, 'registerHit')
+    registerHit.mockReturnValueOnce({
+      points: 30,
+      total: 40,
+      multiplier: 1,
+      tier: { minCombo: 0, multiplier: 1, label: '' },
+      isCritical: true
+    })
+    clickCanvas(app)
+
+    expect(playCritical).toHaveBeenCalledTimes(1)
+    expect(explode).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), expect.objectContaining({ count: 40 }))
+
+    app.reset()
+    expect(app.getStats().score).toBe(0)
+  })
+
+  it('暂停时游戏时钟停止，连击计时随之挂起', () => {
+    const onComboChange = vi.fn()
+    const clock = new GameClock({ deterministic: true })
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, clock, onComboChange })
+
+    app.start(new Image())
+    clickCanvas(app)
+    expect(onComboChange).toHaveBeenLastCalledWith(1)
+
+    app.pause()
+    expect(clock.isPaused()).toBe(true)
+    clock.advance(5000)
+    expect(onComboChange).toHaveBeenLastCalledWith(1)
+
+    app.resume()
+    expect(clock.isPaused()).toBe(false)
+    clock.advance(1000)
+    expect(onComboChange).toHaveBeenLastCalledWith(0)
+  })
+
+  it('失去焦点时自动暂停：挂起音频、停止性能采样、冻结变形进度', () => {
+    const suspend = vi.spyOn(GameAudioSystem.prototype, 'suspend').mockResolvedValue()
+    const resume = vi.spyOn(GameAudioSystem.prototype, 'resume').mockResolvedValue()
+    const onAutoPause = vi.fn()
+    const onTransformProgress = vi.fn()
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, onAutoPause, onTransformProgress })
+    const stopMonitor = vi.spyOn(app.getPerformanceMonitor(), 'stop')
+
+    app.start(new Image())
+    window.dispatchEvent(new Event('blur'))
+
+    expect(app.getStatus()).toBe('paused')
+    expect(onAutoPause).toHaveBeenCalledWith('blur')
+    expect(suspend).toHaveBeenCalled()
+    expect(stopMonitor).toHaveBeenCalled()
+
+    // 暂停期间的进度只保留最新一次，继续时再显示
+    ;(app as any).reportTransformProgress({ phase: 'processing', progress: 30, message: '30' })
+    ;(app as any).reportTransformProgress({ phase: 'processing', progress: 60, message: '60' })
+    expect(onTransformProgress).not.toHaveBeenCalled()
+
+    app.resume()
+    expect(resume).toHaveBeenCalled()
+    expect(onTransformProgress).toHaveBeenCalledTimes(1)
+    expect(onTransformProgress).toHaveBeenCalledWith(expect.objectContaining({ progress: 60 }))
+  })
+
+  it('上传的动图应该按游戏时间绘制当前帧', () => {
+    const clock = new GameClock({ deterministic: true })
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, clock })
+    const image = new Image()
+    const frame = document.createElement('canvas')
+    const getFrameAt = vi.fn(() => frame)
+    vi.spyOn(ImageManager.prototype, 'getAnimation').mockImplementation(
+      (target) => target === image ? { getFrameAt } as any : null
+    )
+    const renderImage = vi.spyOn(app.getRenderer(), 'renderImage')
+
+    app.start(image)
+    clock.advance(120)
+    ;(app as any).render()
+
+    expect(getFrameAt).toHaveBeenLastCalledWith(120)
+    expect(renderImage).toHaveBeenCalledWith(frame, expect.anything())
+  })
+
+  it('关闭自动暂停时失去焦点不影响游戏', () => {
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, autoPause: false })
+
+    app.start(new Image())
+    window.dispatchEvent(new Event('blur'))
+
+    expect(app.getStatus()).toBe('playing')
+  })
+
+  it('自适应节奏测量完成后应该按点击速度缩放阶段阈值', () => {
+    app.destroy()
+    app = new GameApp({
+      container,
+      config: testConfig,
+      adaptivePacing: { calibrationDuration: 1000, targetSessionLength: 2000 }
+    })
+    ;(app as any).interaction.setClickCooldown(0)
+    const engine = app.getEngine()
+    engine.setExternalLoop(true)
+
+    app.start(new Image())
+    engine.update(100)
+    clickCanvas(app)
+    for (let time = 0; time <= 1000; time += 100) {
+      engine.update(100)
+    }
+
+    // 一秒一次点击：两秒内约两次，阈值降到最低
+    expect(engine.getPhases().map(phase => phase.threshold)).toEqual([0, 2, 3])
+    expect(app.getStats().pacing).toEqual(expect.objectContaining({ danmakuRate: 2, effectIntensity: 1.5 }))
+
+    clickCanvas(app)
+    expect(app.getStats().currentPhase).toBe('phase1')
+    expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(expect.anything(), 'light', expect.any(Function))
+
+    app.reset()
+    expect(app.getStats().pacing).toBeNull()
+    expect(engine.getPhases().map(phase => phase.threshold)).toEqual([0, 3, 6])
+  })
+
+  it('点中命中区域时应该按区域倍数计分，并发出区域的弹幕和音效', () => {
+    vi.spyOn(CanvasRenderer.prototype, 'getImageRect').mockReturnValue({ x: 0, y: 0, width: 100, height: 100 })
+    const registerHit = vi.spyOn(ScoreSystem.prototype, 'registerHit')
+    const playSoundEffect = vi.spyOn(GameAudioSystem.prototype, 'playSoundEffect')
+    const addMessage = vi.spyOn(DanmakuSystem.prototype, 'addMessage')
+
+    app.start(new Image())
+    app.setHitRegions([
+      {
+        id: 'face',
+        name: '脸',
+        shape: { type: 'rect', x: 0, y: 0, width: 0.5, height: 0.5 },
+        multiplier: 3,
+        reaction: { danmaku: ['别打脸！'], sound: 'punch_impact' }
+      }
+    ])
+    registerHit.mockReturnValueOnce({
+      points: 30,
+      total: 30,
+      multiplier: 1,
+      tier: { minCombo: 0, multiplier: 1, label: '' },
+      isCritical: false
+    })
+    clickCanvas(app)
+
+    expect(registerHit).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), 3)
+    expect(addMessage).toHaveBeenCalledWith({ text: '别打脸！' })
+    expect(playSoundEffect).toHaveBeenCalledWith('punch_impact', expect.any(Object))
+    expect(app.getHitRegions()[0].name).toBe('脸')
+
+    // 区域之外的点击不加倍
+    app.getRenderer().getCanvas().dispatchEvent(new MouseEvent('mousedown', { clientX: 80, clientY: 80 }))
+    expect(registerHit).toHaveBeenLastCalledWith(expect.any(Number), expect.any(Number), 1)
+  })
+
+  it('解锁成就时应该播放提示音并通知', async () => {
+    const playUISound = vi.spyOn(GameAudioSystem.prototype, 'playUISound')
+    const onAchievementUnlocked = vi.fn()
+    const onTransformComplete = vi.fn()
+    app.destroy()
+    app = new GameApp({
+      container,
+      config: testConfig,
+      achievementStore: null,
+      onAchievementUnlocked,
+      onTransformComplete
+    })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    app.start(new Image())
+    for (let i = 0; i < testConfig.phase1Threshold; i++) {
+      clickCanvas(app)
+    }
+    await vi.waitFor(() => expect(onTransformComplete).toHaveBeenCalled())
+
+    expect(onAchievementUnlocked).toHaveBeenCalledWith(expect.objectContaining({
+      achievement: expect.objectContaining({ id: 'first_transform' })
+    }))
+    expect(playUISound).toHaveBeenCalledWith('success')
+    expect(app.getSessionAchievements().map(unlock => unlock.achievement.id)).toContain('first_transform')
+
+    app.recordShare()
+    expect(app.getAchievements().find(achievement => achievement.id === 'first_share')!.unlocked).toBe(true)
+
+    app.reset()
+    expect(app.getSessionAchievements()).toHaveLength(0)
+  })
+
+  it('一局结束时应该记入历史战绩并提示新纪录', () => {
+    const historyStore = new SessionHistoryStore({ storage: null })
+    const personalBestStore = new PersonalBestStore(null)
+    const onSessionRecorded = vi.fn()
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, historyStore, personalBestStore, onSessionRecorded })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    // 没有点击的一局不记录
+    app.start(new Image())
+    app.reset()
+    expect(onSessionRecorded).not.toHaveBeenCalled()
+
+    app.start(new Image())
+    clickCanvas(app)
+    app.reset()
+    expect(onSessionRecorded).toHaveBeenLastCalledWith(expect.objectContaining({
+      record: expect.objectContaining({ mode: 'classic', clicks: 1, maxCombo: 1 }),
+      newRecords: []
+    }))
+
+    app.start(new Image())
+    clickCanvas(app)
+    clickCanvas(app)
+    const result = app.endSession()
+    expect(result!.newRecords).toEqual(expect.arrayContaining(['clicks', 'maxCombo']))
+
+    // 同一局不会重复记录
+    app.reset()
+    expect(onSessionRecorded).toHaveBeenCalledTimes(2)
+    expect(app.getHistory()!.query({ mode: 'classic' })).toHaveLength(2)
+    expect(app.getPersonalBest('classic')).toMatchObject({ clicks: 2, maxCombo: 2 })
+  })
+
+  it('应该把开始前的心情和结束后的心情记入历史战绩', () => {
+    const historyStore = new SessionHistoryStore({ storage: null })
+    app.destroy()
+    app = new GameApp({ container, config: testConfig, historyStore })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    app.start(new Image())
+    app.setMoodBefore({ score: 1, tags: ['愤怒'], note: '' })
+    clickCanvas(app)
+    const result = app.endSession()!
+    expect(result.record.moodBefore).toEqual({ score: 1, tags: ['愤怒'], note: '' })
+
+    expect(app.setMoodAfter(result.record.id, { score: 4, tags: ['轻松'], note: '' })).toBe(true)
+    expect(historyStore.getMoodJournal()).toEqual([expect.objectContaining({ delta: 3 })])
+
+    // 新的一局不会沿用上一局的心情
+    app.start(new Image())
+    clickCanvas(app)
+    expect(app.endSession()!.record.moodBefore).toBeUndefined()
+  })
+
+  it('应该安装选项中的插件，插件出错不影响游戏，销毁时卸载', () => {
+    const uninstall = vi.fn()
+    const errorHandler = { createError: vi.fn(() => ({})), handleError: vi.fn(async () => {}) }
+    app.destroy()
+    app = new GameApp({
+      container,
+      config: testConfig,
+      errorHandler: errorHandler as any,
+      plugins: [{
+        name: 'counter',
+        install(plugin) {
+          plugin.on('click', () => {
+            throw new Error('plugin failed')
+          })
+        },
+        uninstall
+      }]
+    })
+    ;(app as any).interaction.setClickCooldown(0)
+
+    expect(app.getInstalledPlugins()).toEqual(['counter'])
+
+    app.start(new Image())
+    clickCanvas(app)
+    expect(app.getStats().clickCount).toBe(1)
+    expect(errorHandler.handleError).toHaveBeenCalledTimes(1)
+
+    app.destroy()
+    expect(uninstall).toHaveBeenCalled()
+  })
+
+  it('多个目标应该按点击坐标分别计数和变形，可以切换和移除', async () => {
+    const clickAt = (clientX: number) => {
+      app.getRenderer().getCanvas().dispatchEvent(new MouseEvent('mousedown', { clientX, clientY: 50 }))
+    }
+    const first = new Image()
+    const second = new Image()
+
+    app.start(first)
+    const secondTarget = app.addTarget(second)
+    const [firstTarget] = app.getTargets()
+    // 测试环境中画布尺寸为 0，手动排列为左右两格
+    ;(app as any).targets.layout(400, 400)
+
+    for (let i = 0; i < testConfig.phase1Threshold; i++) {
+      clickAt(300)
+    }
+    clickAt(200) // 两个目标之间的空隙
+
+    expect(secondTarget.clickCount).toBe(testConfig.phase1Threshold)
+    expect(secondTarget.currentPhase).toBe('phase1')
+    expect(firstTarget.clickCount).toBe(0)
+    expect(app.getStats()).toEqual(expect.objectContaining({
+      clickCount: testConfig.phase1Threshold,
+      targetCount: 2,
+      activeTargetId: firstTarget.id
+    }))
+    expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(second, 'light', expect.any(Function))
+
+    await vi.waitFor(() => expect(secondTarget.transformedImages).toHaveLength(1))
+    // 变形的不是当前目标，引擎仍显示当前目标的原图
+    expect(app.getEngine().getCurrentImage()).toBe(first)
+
+    app.setActiveTarget(secondTarget.id)
+    expect(app.getEngine().getCurrentImage()).toBe(secondTarget.transformedImages[0])
+    expect(mockContext.strokeRect).toHaveBeenCalled()
+
+    expect(app.removeTarget(secondTarget.id)).toBe(true)
+    expect(app.getEngine().getCurrentImage()).toBe(first)
+    expect(app.removeTarget(firstTarget.id)).toBe(false)
+    expect(app.getStats().targetCount).toBe(1)
+  })
+
+  it('多个目标时每个目标都完成最后的变形后才结束本局', async () => {
+    const clickAt = (clientX: number) => {
+      app.getRenderer().getCanvas().dispatchEvent(new MouseEvent('mousedown', { clientX, clientY: 50 }))
+    }
+    const heavyDone = (target: { transformHistory: Array<{ transformType: string }> }) =>
+      target.transformHistory.some(result => result.transformType === 'heavy')
+
+    app.start(new Image())
+    const secondTarget = app.addTarget(new Image())
+    const [firstTarget] = app.getTargets()
+    ;(app as any).targets.layout(400, 400)
+
+    for (let i = 0; i < testConfig.phase2Threshold; i++) {
+      clickAt(300)
+    }
+    await vi.waitFor(() => expect(heavyDone(secondTarget)).toBe(true))
+    // 合计点击数已到最后阶段，但第一个目标还没有完成
+    expect(app.getEngine().getState().currentPhase).toBe('phase2')
+    expect(app.getStatus()).toBe('playing')
+
+    for (let i = 0; i < testConfig.phase2Threshold; i++) {
+      clickAt(100)
+    }
+    await vi.waitFor(() => expect(app.getStatus()).toBe('completed'))
+    expect(heavyDone(firstTarget)).toBe(true)
+  })
+
+  it('移除未完成的目标后剩下的目标都已完成时结束本局', async () => {
+    const clickAt = (clientX: number) => {
+      app.getRenderer().getCanvas().dispatchEvent(new MouseEvent('mousedown', { clientX, clientY: 50 }))
+    }
+
+    app.start(new Image())
+    const secondTarget = app.addTarget(new Image())
+    ;(app as any).targets.layout(400, 400)
+
+    for (let i = 0; i < testConfig.phase2Threshold; i++) {
+      clickAt(100)
+    }
+    await vi.waitFor(() => expect(app.getTargets()[0].transformHistory).toHaveLength(2))
+    expect(app.getStatus()).toBe('playing')
+
+    app.removeTarget(secondTarget.id)
+    expect(app.getStatus()).toBe('completed')
+  })
+
+  it('重置应该清空游戏状态', () => {
+    app.start(new Image())
+    clickCanvas(app)
+
+    app.reset()
+
+    const stats = app.getStats()
+    expect(stats.clickCount).toBe(0)
+    expect(stats.hasImage).toBe(false)
+    expect(stats.isPlaying).toBe(false)
+  })
+
+  it('应该按顺序销毁所有子系统', () => {
+    const spies = [
+      vi.spyOn(GameEngine.prototype, 'destroy'),
+      vi.spyOn(InteractionManager.prototype, 'destroy'),
+      vi.spyOn(ImageTransformManager.prototype, 'destroy'),
+      vi.spyOn(GameAudioSystem.prototype, 'destroy'),
+      vi.spyOn(DanmakuSystem.prototype, 'destroy'),
+      vi.spyOn(EffectSystem.prototype, 'destroy'),
+      vi.spyOn(CanvasRenderer.prototype, 'destroy')
+    ]
+
+    app.destroy()
+
+    const order = spies.map(spy => spy.mock.invocationCallOrder[0])
+    expect(order.every(Boolean)).toBe(true)
+    expect([...order].sort((a, b) => a - b)).toEqual(order)
+    expect(container.querySelector('canvas')).toBeNull()
+  })
+
+  describe('会话恢复', () => {
+    const createSnapshot = (): SessionSnapshot => ({
+      version: SESSION_SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      state: { clickCount: 4, currentPhase: 'phase1', status: 'playing' },
+      images: { uploaded: new Blob(['a']), transformed: [new Blob(['b'])] },
+      transformHistory: [{ success: true, transformType: 'light', processingTime: 10 }],
+      settings: { danmaku: { defaultSpeed: 5 }, ui: { volume: 30 } },
+      score: { score: 120, hits: 4, criticalHits: 1, bestHit: 60, maxMultiplier: 1 },
+      hitRegions: []
+    })
+
+    const createStore = (snapshot: SessionSnapshot | null): SnapshotStore => ({
+      save: vi.fn().mockResolvedValue(undefined),
+      load: vi.fn().mockResolvedValue(snapshot),
+      clear: vi.fn().mockResolvedValue(undefined)
+    })
+
+    beforeEach(() => {
+      vi.spyOn(ImageManager.prototype, 'blobToImage').mockImplementation(async () => new Image())
+    })
+
+    it('应该恢复保存的会话且不重复已完成的变形', async () => {
+      const store = createStore(createSnapshot())
+      app.destroy()
+      app = new GameApp({ container, config: testConfig, sessionStore: store })
+
+      expect(await app.hasSavedSession()).toBe(true)
+      const snapshot = await app.resumeLastSession()
+
+      expect(snapshot?.settings.ui).toEqual({ volume: 30 })
+      expect(app.getStats()).toEqual(expect.objectContaining({
+        clickCount: 4,
+        currentPhase: 'phase1',
+        isPlaying: true,
+        transformedCount: 1,
+        score: 120,
+        criticalHits: 1
+      }))
+      expect((app as any).danmaku.getOptions().defaultSpeed).toBe(5)
+      expect(ImageTransformManager.prototype.transformImage).not.toHaveBeenCalled()
+    })
+
+    it('没有保存的会话时应该返回 null', async () => {
+      app.destroy()
+      app = new GameApp({ container, config: testConfig, sessionStore: createStore(null) })
+
+      expect(await app.hasSavedSession()).toBe(false)
+      expect(await app.resumeLastSession()).toBeNull()
+      expect(app.getStats().hasImage).toBe(false)
+    })
+
+    it('重置游戏应该清除保存的会话', async () => {
+      const store = createStore(createSnapshot())
+      app.destroy()
+      app = new GameApp({ container, config: testConfig, sessionStore: store })
+
+      app.reset()
+
+      await vi.waitFor(() => expect(store.clear).toHaveBeenCalled())
+    })
+  })
+
+  describe('回放', () => {
+    // 记录画面上的弹幕和特效，用于比较两次运行
+    const captureFrame = (target: GameApp) => ({
+      danmaku: (target as any).danmaku.getMessages().map((m: any) => [m.text, m.x, m.y, m.color]),
+      effects: (target as any).effects.getStats(),
+      shake: mockContext.translate.mock.calls.slice(-1)
+    })
+
+    // jsdom中容器没有尺寸，手动设置弹幕区域
+    const createReplayApp = (seed?: number) => {
+      const target = new GameApp({ container, config: testConfig, seed, danmakuChance: 0.5 })
+      ;(target as any).danmaku.updateOptions({ canvasWidth: 400, canvasHeight: 300 })
+      return target
+    }
+
+    it('相同种子的回放应该逐帧复现画面', () => {
+      app.destroy()
+      app = createReplayApp(2024)
+      app.getEngine().setExternalLoop(true)
+
+      app.start(new Image())
+      const liveFrames = []
+      for (let frame = 0; frame < 20; frame++) {
+        if (frame % 3 === 0) {
+          app.getEngine().handleClick(10 + frame, 20 + frame, frame)
+        }
+        app.getEngine().update(16)
+        app.getEngine().render()
+        liveFrames.push(captureFrame(app))
+      }
+      const log = app.getReplayLog()!
+      app.destroy()
+
+      app = createReplayApp()
+      const player = app.startReplay(log, new Image())
+      const replayFrames = []
+      while (player.step()) {
+        replayFrames.push(captureFrame(app))
+      }
+      replayFrames.push(captureFrame(app))
+
+      expect(log.seed).toBe(2024)
+      expect(liveFrames[19].danmaku.length).toBeGreaterThan(0)
+      expect(replayFrames).toEqual(liveFrames)
+      expect(app.getStats().clickCount).toBe(7)
+    })
+
+    it('回放结束时引擎的状态应该与录制时一致', async () => {
+      vi.mocked(ImageTransformManager.prototype.transformImage).mockImplementation(
+        async (image, transformType) => ({
+          success: transformType === 'heavy',
+          transformedImage: transformType === 'heavy' ? new Image() : undefined,
+          originalImage: image,
+          transformType,
+          processingTime: 0
+        })
+      )
+      const engine = () => app.getEngine()
+      const summarize = () => ({
+        status: app.getStatus(),
+        clickCount: engine().getState().clickCount,
+        currentPhase: engine().getState().currentPhase,
+        transformedCount: app.getStats().transformedCount,
+        history: app.getTargets()[0].transformHistory.map(({ transformType, success }) => [transformType, success])
+      })
+
+      app.destroy()
+      app = createReplayApp(7)
+      engine().setExternalLoop(true)
+      app.start(new Image())
+      for (let i = 0; i < testConfig.phase2Threshold; i++) {
+        engine().handleClick(10, 10, i)
+        engine().update(16)
+        // 等待变形完成，变形结果记入日志
+        await vi.waitFor(() => expect(app.getStatus()).not.toBe('transforming'))
+      }
+      expect(app.getStatus()).toBe('completed')
+      const live = summarize()
+      const log = app.getReplayLog()!
+      app.destroy()
+
+      app = createReplayApp()
+      app.startReplay(log, new Image(), { transformedImages: [new Image()] }).runToEnd()
+
+      expect(live.history).toEqual([['light', false], ['heavy', true]])
+      expect(summarize()).toEqual(live)
+    })
+
+    it('回放期间应该忽略玩家输入和自动变形', () => {
+      const log = {
+        version: 1,
+        seed: 1,
+        recordedAt: 0,
+        phase1Threshold: 3,
+        phase2Threshold: 6,
+        events: [
+          ['c', 0, 1, 1, 1], ['c', 0, 1, 1, 1], ['c', 0, 1, 1, 1], ['f', 0, 16],
+          ['t', 5, 'light', 1], ['f', 5, 16]
+        ]
+      } as any
+      const transformed = new Image()
+
+      const player = app.startReplay(log, new Image(), { transformedImages: [transformed] })
+      clickCanvas(app)
+      player.runToEnd()
+
+      expect(app.getStats().clickCount).toBe(3)
+      expect(app.getStats().transformedCount).toBe(1)
+      expect(ImageTransformManager.prototype.transformImage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Boss 模式', () => {
+    const onKnockout = vi.fn()
+
+    beforeEach(() => {
+      onKnockout.mockClear()
+      app.destroy()
+      app = new GameApp({
+        container,
+        config: testConfig,
+        mode: 'boss',
+        boss: { maxHealth: 30, baseDamage: 10 },
+        personalBestStore: new PersonalBestStore(null),
+        historyStore: new SessionHistoryStore({ storage: null }),
+        onKnockout
+      })
+      ;(app as any).interaction.setClickCooldown(0)
+      app.getEngine().setExternalLoop(true)
+    })
+
+    it('血量跌破阈值时应该进入下一阶段并触发变形', () => {
+      app.start(new Image())
+      clickCanvas(app)
+
+      const stats = app.getStats()
+      expect(stats.boss!.health).toBeLessThanOrEqual(20)
+      expect(stats.currentPhase).not.toBe('initial')
+      expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(
+        expect.anything(),
+        stats.currentPhase === 'phase1' ? 'light' : 'heavy',
+        expect.any(Function)
+      )
+    })
+
+    it('血量归零后应该播放击倒演出，慢动作结束后完成本局', () => {
+      const megaExplosion = vi.spyOn(EffectSystem.prototype, 'addMegaExplosion')
+      const transformSound = vi.spyOn(GameAudioSystem.prototype, 'playTransformSound')
+      const danmaku = vi.spyOn(DanmakuSystem.prototype, 'addMessage')
+
+      app.start(new Image())
+      for (let i = 0; i < 3 && app.getStats().boss!.health > 0; i++) {
+        clickCanvas(app)
+      }
+
+      expect(app.getStats().boss!.health).toBe(0)
+      expect(megaExplosion).toHaveBeenCalledTimes(1)
+      expect(app.getClock().getTimeScale()).toBe(0.25)
+      expect(transformSound).toHaveBeenCalledWith('heavy')
+      expect(danmaku).toHaveBeenCalledWith(expect.objectContaining({ text: 'K.O.!' }))
+
+      // 演出期间仍在进行，忽略新的点击
+      const clicks = app.getStats().clickCount
+      clickCanvas(app)
+      expect(app.getStats().clickCount).toBe(clicks)
+      expect(app.getStatus()).not.toBe('completed')
+
+      const engine = app.getEngine()
+      for (let time = 0; time < 2000; time += 100) {
+        engine.update(100)
+      }
+
+      expect(app.getStatus()).toBe('completed')
+      expect(onKnockout).toHaveBeenCalledWith(expect.objectContaining({ health: 0, maxHealth: 30 }))
+      expect(app.getHistory()!.query({ mode: 'boss' })).toHaveLength(1)
+    })
+  })
+
+  describe('计时模式', () => {
+    const onTimeUp = vi.fn()
+
+    beforeEach(() => {
+      onTimeUp.mockClear()
+      app.destroy()
+      app = new GameApp({
+        container,
+        config: testConfig,
+        mode: 'timed',
+        modeOptions: { duration: 1000 },
+        personalBestStore: new PersonalBestStore(null),
+        historyStore: new SessionHistoryStore({ storage: null }),
+        onTimeUp
+      })
+      ;(app as any).interaction.setClickCooldown(0)
+      app.getEngine().setExternalLoop(true)
+    })
+
+    it('应该按缩放后的阈值触发变形', () => {
+      app.start(new Image())
+      clickCanvas(app)
+      clickCanvas(app)
+
+      expect(app.getEngine().getPhases()[1].threshold).toBe(2)
+      expect(ImageTransformManager.prototype.transformImage).toHaveBeenCalledWith(
+        expect.anything(),
+        'light',
+        expect.any(Function)
+      )
+    })
+
+    it('时间用完时应该给出成绩并记录个人最佳', () => {
+      app.start(new Image())
+      clickCanvas(app)
+      clickCanvas(app)
+      app.getEngine().update(1000)
+
+      // 成绩为计分系统的得分，和历史战绩一致
+      const best = app.getStats().score
+      expect(best).toBeGreaterThan(2)
+      expect(onTimeUp).toHaveBeenCalledWith(expect.objectContaining({
+        score: best,
+        duration: 1000,
+        averageCPS: 2,
+        isNewBest: true
+      }))
+      expect(app.getPersonalBest()).toEqual(expect.objectContaining({ score: best }))
+      expect(app.getHistory()!.query({ mode: 'timed' })[0].score).toBe(best)
+
+      // 成绩更低时保留原记录
+      app.restart()
+      app.getEngine().update(1000)
+
+      expect(onTimeUp).toHaveBeenLastCalledWith(expect.objectContaining({
+        score: 0,
+        isNewBest: false,
+        personalBest: expect.objectContaining({ score: best })
+      }))
+    })
+  })
+
+  it('重复销毁应该是安全的', () => {
+    app.destroy()
+    expect(() => app.destroy()).not.toThrow()
+  })
+})
@@ -1,6 +1,42 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { GameEngine } from '../GameEngine'
+import { SESSION_SNAPSHOT_VERSION, type SessionSnapshot, type SnapshotStore } from '@/services/SessionStore'
 import { GameConfig } from '@/config/api.config'
+import { campaignPhasePipeline, type PhaseDefinition } from '@/config/phases.config'
+import { VirtualClock } from '@/utils/VirtualClock'
+
+// 内存中的快照存储
+const createMemoryStore = () => {
+  let saved: SessionSnapshot | null = null
+  const store: SnapshotStore & { getSaved: () => SessionSnapshot | null } = {
+    save: vi.fn(async (snapshot: SessionSnapshot) => { saved = snapshot }),
+    load: vi.fn(async () => saved),
+    clear: vi.fn(async () => { saved = null }),
+    getSaved: () => saved
+  }
+  return store
+}
+
+// 记录每个Blob对应图片src的编解码器（jsdom的Blob不支持读取内容）
+const blobSources = new WeakMap<Blob, string>()
+const imageCodec = {
+  imageToBlob: async (image: HTMLImageElement) => {
+    const blob = new Blob([image.src])
+    blobSources.set(blob, image.src)
+    return blob
+  },
+  blobToImage: async (blob: Blob) => {
+    const image = new Image()
+    image.src = blobSources.get(blob)!
+    return image
+  }
+}
+
+const createImage = (src: string) => {
+  const image = new Image()
+  image.src = src
+  return image
+}
 
 // Mock配置
 const mockConfig: GameConfig = {
@@ -56,14 +92,14 @@ describe('GameEngine', () => {
       const mockCallback = vi.fn()
       gameEngine.on('start', mockCallback)
       
-      gameEngine.start()
+      gameEngine.setUploadedImage(createImage('test.png'))
       
       expect(gameEngine.getState().isPlaying).toBe(true)
       expect(mockCallback).toHaveBeenCalled()
     })
 
     it('应该能够暂停游戏', () => {
-      gameEngine.start()
+      gameEngine.setUploadedImage(createImage('test.png'))
       const mockCallback = vi.fn()
       gameEngine.on('pause', mockCallback)
       
@@ -75,7 +111,7 @@ describe('GameEngine', () => {
 
     it('应该能够重置游戏', () => {
       // 先设置一些状态
-      gameEngine.start()
+      gameEngine.setUploadedImage(createImage('test.png'))
       gameEngine.handleClick(100, 100)
       
       const mockCallback = vi.fn()
@@ -109,13 +145,61 @@ describe('GameEngine', () => {
         x: 100,
         y: 200,
         clickCount: 1,
-        phase: 'initial'
+        phase: 'initial',
+        combo: 0,
+        force: 1,
+        region: null
       })
     })
 
+    it('点击事件应该携带连击数', () => {
+      const mockCallback = vi.fn()
+      gameEngine.on('click', mockCallback)
+      
+      gameEngine.handleClick(100, 200, 6)
+      
+      expect(mockCallback).toHaveBeenCalledWith(expect.objectContaining({ combo: 6 }))
+    })
+
+    it('点击事件应该携带点击力度并记录到回放日志', () => {
+      const mockCallback = vi.fn()
+      gameEngine.on('click', mockCallback)
+      gameEngine.startRecording(1)
+
+      gameEngine.handleClick(100, 200, 0, 1.5)
+      gameEngine.handleClick(100, 200, 0)
+
+      expect(mockCallback).toHaveBeenCalledWith(expect.objectContaining({ force: 1.5 }))
+      const clicks = gameEngine.getReplayLog()!.events.filter(event => event[0] === 'c')
+      expect(clicks[0]).toEqual(['c', expect.any(Number), 100, 200, 0, 1.5])
+      expect(clicks[1]).toHaveLength(5)
+    })
+
+    it('调整阶段阈值时应该记录到回放日志，重置后恢复', () => {
+      const onThresholdsChange = vi.fn()
+      gameEngine.on('thresholdsChange', onThresholdsChange)
+      gameEngine.startRecording(1)
+      const original = gameEngine.getPhases().map(phase => phase.threshold)
+
+      expect(() => gameEngine.setPhaseThresholds([0, 5])).toThrow('Invalid phase thresholds')
+      gameEngine.setPhaseThresholds([0, 2, 3])
+
+      expect(gameEngine.getPhases().map(phase => phase.threshold)).toEqual([0, 2, 3])
+      expect(gameEngine.getReplayLog()!.events).toContainEqual(['p', expect.any(Number), [0, 2, 3]])
+
+      gameEngine.handleClick(100, 200)
+      gameEngine.handleClick(100, 200)
+      expect(gameEngine.getState().currentPhase).toBe('phase1')
+
+      gameEngine.reset()
+      expect(gameEngine.getPhases().map(phase => phase.threshold)).toEqual(original)
+      expect(onThresholdsChange).toHaveBeenCalledTimes(2)
+    })
+
     it('应该在没有图片时忽略点击', () => {
       const newEngine = new GameEngine(mockConfig)
-      newEngine.start()
+      // 没有图片时不能开始游戏
+      expect(() => newEngine.start()).toThrow()
       
       const mockCallback = vi.fn()
       newEngine.on('click', mockCallback)
@@ -174,6 +258,40 @@ describe('GameEngine', () => {
       expect(gameEngine.getState().currentPhase).toBe('phase2')
       expect(mockCallback).toHaveBeenCalledTimes(2) // phase1 和 phase2 各一次
     })
+
+    it('应该按自定义阶段流程依次进入每个阶段', () => {
+      const engine = new GameEngine({ ...mockConfig, phasePipeline: campaignPhasePipeline })
+      const phases: string[] = []
+      engine.on('phaseChange', ({ newPhase }) => phases.push(newPhase))
+      engine.setUploadedImage(new Image())
+
+      for (let i = 0; i < 250; i++) {
+        engine.handleClick(100, 100)
+      }
+
+      expect(phases).toEqual(['annoyed', 'angry', 'furious', 'finale'])
+      expect(engine.getCurrentPhase().transformPreset).toBe('ultimate')
+      expect(engine.getStats().nextPhaseThreshold).toBeNull()
+      engine.destroy()
+    })
+
+    it('阶段配置不合法时应该报错', () => {
+      const invalid = (phases: PhaseDefinition[]) => () => new GameEngine({
+        ...mockConfig,
+        phasePipeline: { phases, transformPresets: {}, danmakuPacks: {} }
+      })
+
+      expect(invalid([{ id: 'a', name: 'A', threshold: 5 }])).toThrow('threshold 0')
+      expect(invalid([
+        { id: 'a', name: 'A', threshold: 0 },
+        { id: 'b', name: 'B', threshold: 10 },
+        { id: 'c', name: 'C', threshold: 10 }
+      ])).toThrow('increase')
+      expect(invalid([
+        { id: 'a', name: 'A', threshold: 0 },
+        { id: 'b', name: 'B', threshold: 10, transformPreset: 'missing' }
+      ])).toThrow('Unknown transform preset')
+    })
   })
 
   describe('图片管理', () => {
@@ -231,18 +349,61 @@ describe('GameEngine', () => {
     it('应该能够注册和触发事件监听器', () => {
       const mockCallback = vi.fn()
       
-      gameEngine.on('test', mockCallback)
-      gameEngine['emit']('test', { data: 'test' })
+      gameEngine.on('sessionSaved', mockCallback)
+      gameEngine['emit']('sessionSaved', { clickCount: 1, phase: 'initial' })
       
-      expect(mockCallback).toHaveBeenCalledWith({ data: 'test' })
+      expect(mockCallback).toHaveBeenCalledWith({ clickCount: 1, phase: 'initial' })
     })
 
     it('应该能够移除事件监听器', () => {
       const mockCallback = vi.fn()
       
-      gameEngine.on('test', mockCallback)
-      gameEngine.off('test', mockCallback)
-      gameEngine['emit']('test', { data: 'test' })
+      gameEngine.on('sessionSaved', mockCallback)
+      gameEngine.off('sessionSaved', mockCallback)
+      gameEngine['emit']('sessionSaved', { clickCount: 1, phase: 'initial' })
+      
+      expect(mockCallback).not.toHaveBeenCalled()
+    })
+
+    it('应该能够通过返回的函数取消订阅', () => {
+      const mockCallback = vi.fn()
+      
+      const unsubscribe = gameEngine.on('start', mockCallback)
+      unsubscribe()
+      gameEngine.setUploadedImage(createImage('test.png'))
+      
+      expect(mockCallback).not.toHaveBeenCalled()
+    })
+
+    it('once 监听器只应触发一次', () => {
+      const mockCallback = vi.fn()
+      gameEngine.setUploadedImage(new Image())
+      
+      gameEngine.once('click', mockCallback)
+      gameEngine.handleClick(1, 1)
+      gameEngine.handleClick(2, 2)
+      
+      expect(mockCallback).toHaveBeenCalledTimes(1)
+    })
+
+    it('通配监听器应该收到所有事件', () => {
+      const events: string[] = []
+      gameEngine.onAny(event => events.push(event))
+      
+      gameEngine.init()
+      gameEngine.setUploadedImage(createImage('test.png'))
+      gameEngine.pause()
+      
+      // 上传图片后经过 ready 进入 playing
+      expect(events).toEqual(['init', 'statusChange', 'statusChange', 'start', 'imageUploaded', 'statusChange', 'pause'])
+    })
+
+    it('销毁后应该自动取消所有订阅', () => {
+      const mockCallback = vi.fn()
+      gameEngine.on('reset', mockCallback)
+      
+      gameEngine.destroy()
+      gameEngine.reset()
       
       expect(mockCallback).not.toHaveBeenCalled()
     })
@@ -265,14 +426,16 @@ describe('GameEngine', () => {
       expect(stats.isPlaying).toBe(true)
       expect(stats.hasImage).toBe(true)
       expect(stats.transformedCount).toBe(0)
-      expect(stats.phase1Progress).toBe(0.5) // 5/10
-      expect(stats.phase2Progress).toBe(0.25) // 5/20
+      expect(stats.phaseIndex).toBe(0)
+      expect(stats.nextPhaseThreshold).toBe(mockConfig.phase1Threshold)
+      expect(stats.phaseProgress).toBe(0.5) // 5/10
+      expect(stats.overallProgress).toBe(0.25) // 5/20
     })
   })
 
   describe('销毁', () => {
     it('应该能够正确销毁游戏引擎', () => {
-      gameEngine.start()
+      gameEngine.setUploadedImage(createImage('test.png'))
       gameEngine.handleClick(100, 100)
       
       gameEngine.destroy()
@@ -282,4 +445,462 @@ describe('GameEngine', () => {
       expect(state.clickCount).toBe(0)
     })
   })
-})
\ No newline at end of file
+
+  describe('会话持久化', () => {
+    it('未启用持久化时不应保存', async () => {
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      await gameEngine.saveSession()
+
+      expect(await gameEngine.loadSavedSession()).toBeNull()
+    })
+
+    it('阶段变化时应该保存快照', async () => {
+      const store = createMemoryStore()
+      const onSaved = vi.fn()
+      gameEngine.enableSessionPersistence({
+        store,
+        imageCodec,
+        collectExtras: () => ({
+          settings: { danmaku: { defaultSpeed: 3 }, ui: { volume: 40 } }
+        })
+      })
+      gameEngine.on('sessionSaved', onSaved)
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      for (let i = 0; i < mockConfig.phase1Threshold; i++) {
+        gameEngine.handleClick(100, 100)
+      }
+      await vi.waitFor(() => expect(onSaved).toHaveBeenCalled())
+
+      const snapshot = store.getSaved()!
+      expect(snapshot.version).toBe(SESSION_SNAPSHOT_VERSION)
+      expect(snapshot.state).toEqual({ clickCount: 10, currentPhase: 'phase1', status: 'playing' })
+      expect(blobSources.get(snapshot.images.uploaded!)).toBe('data:image/png;base64,a')
+      expect(snapshot.settings.ui).toEqual({ volume: 40 })
+      expect(snapshot.transformHistory).toEqual([])
+    })
+
+    it('应该从快照恢复点击数、阶段和图片', async () => {
+      const store = createMemoryStore()
+      gameEngine.enableSessionPersistence({ store, imageCodec })
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      gameEngine.handleClick(100, 100)
+      gameEngine.addTransformedImage(createImage('data:image/png;base64,b'))
+      await gameEngine.saveSession()
+      gameEngine.destroy()
+
+      const restored = new GameEngine(mockConfig)
+      const onRestored = vi.fn()
+      restored.enableSessionPersistence({ store, imageCodec })
+      restored.on('sessionRestored', onRestored)
+
+      const snapshot = await restored.loadSavedSession()
+      await restored.restoreSnapshot(snapshot!)
+
+      const state = restored.getState()
+      expect(state.clickCount).toBe(1)
+      expect(state.isPlaying).toBe(true)
+      expect(state.uploadedImage!.src).toBe('data:image/png;base64,a')
+      expect(state.transformedImages.map(image => image.src)).toEqual(['data:image/png;base64,b'])
+      expect(onRestored).toHaveBeenCalled()
+      restored.destroy()
+    })
+
+    it('暂停时保存的会话恢复后仍然暂停', async () => {
+      const store = createMemoryStore()
+      gameEngine.enableSessionPersistence({ store, imageCodec })
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      gameEngine.handleClick(100, 100)
+      gameEngine.pause()
+      await gameEngine.saveSession()
+      expect(store.getSaved()!.state.status).toBe('paused')
+      gameEngine.destroy()
+
+      const restored = new GameEngine(mockConfig)
+      restored.enableSessionPersistence({ store, imageCodec })
+      await restored.restoreSnapshot((await restored.loadSavedSession())!)
+
+      expect(restored.getStatus()).toBe('paused')
+      expect(restored.getState().clickCount).toBe(1)
+      restored.start()
+      expect(restored.getStatus()).toBe('playing')
+      restored.destroy()
+    })
+
+    it('一局结束后不保留可继续的会话', async () => {
+      const store = createMemoryStore()
+      gameEngine.enableSessionPersistence({ store, imageCodec })
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      for (let i = 0; i < mockConfig.phase2Threshold; i++) {
+        gameEngine.handleClick(100, 100)
+      }
+      // 阶段变化时已保存过会话
+      await gameEngine.saveSession()
+      expect(store.getSaved()).not.toBeNull()
+
+      gameEngine.beginTransform('heavy')
+      gameEngine.recordTransform('heavy', true)
+      expect(gameEngine.getStatus()).toBe('completed')
+
+      await gameEngine.saveSession()
+      expect(store.getSaved()).toBeNull()
+      expect(await gameEngine.loadSavedSession()).toBeNull()
+    })
+
+    it('清除应该排在进行中的保存之后', async () => {
+      const store = createMemoryStore()
+      gameEngine.enableSessionPersistence({ store, imageCodec })
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      void gameEngine.saveSession()
+      await gameEngine.clearSavedSession()
+
+      expect(store.getSaved()).toBeNull()
+    })
+
+    it('保存失败时应该触发错误事件', async () => {
+      const store = createMemoryStore()
+      store.save = vi.fn().mockRejectedValue(new Error('quota exceeded'))
+      const onError = vi.fn()
+      gameEngine.enableSessionPersistence({ store, imageCodec })
+      gameEngine.on('error', onError)
+
+      gameEngine.setUploadedImage(createImage('data:image/png;base64,a'))
+      await gameEngine.saveSession()
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Failed to save session' }))
+    })
+  })
+
+  describe('自动暂停', () => {
+    let clock: VirtualClock
+
+    beforeEach(() => {
+      gameEngine.destroy()
+      clock = new VirtualClock({ frameInterval: 16 })
+      gameEngine = new GameEngine(mockConfig, clock)
+      gameEngine.enableAutoPause()
+    })
+
+    it('页面隐藏时应该暂停，回来后不补算离开的时间', () => {
+      const onAutoPause = vi.fn()
+      gameEngine.on('autoPause', onAutoPause)
+      gameEngine.setUploadedImage(createImage('test.png'))
+      clock.advance(160)
+      const gameTime = gameEngine.getGameTime()
+
+      clock.setHidden(true)
+      expect(gameEngine.getStatus()).toBe('paused')
+      expect(gameEngine.isAutoPaused()).toBe(true)
+      expect(onAutoPause).toHaveBeenCalledWith(expect.objectContaining({ reason: 'hidden' }))
+
+      clock.advance(60000)
+      clock.setHidden(false)
+      // 回来后仍保持暂停，需要玩家点击继续
+      expect(gameEngine.getStatus()).toBe('paused')
+      expect(gameEngine.getGameTime()).toBe(gameTime)
+
+      gameEngine.start()
+      clock.advance(32)
+      expect(gameEngine.isAutoPaused()).toBe(false)
+      expect(gameEngine.getGameTime() - gameTime).toBeLessThanOrEqual(32)
+    })
+
+    it('失去焦点或页面被换出时应该暂停', () => {
+      const onAutoPause = vi.fn()
+      gameEngine.on('autoPause', onAutoPause)
+      gameEngine.setUploadedImage(createImage('test.png'))
+
+      clock.loseFocus('blur')
+      expect(gameEngine.getStatus()).toBe('paused')
+
+      // 已暂停时不重复触发
+      clock.loseFocus('pagehide')
+      expect(onAutoPause).toHaveBeenCalledTimes(1)
+      expect(onAutoPause).toHaveBeenCalledWith(expect.objectContaining({ reason: 'blur' }))
+    })
+
+    it('外部驱动和停用后不应该自动暂停', () => {
+      gameEngine.setUploadedImage(createImage('test.png'))
+      gameEngine.setExternalLoop(true)
+      clock.loseFocus('blur')
+      expect(gameEngine.getStatus()).toBe('playing')
+
+      gameEngine.setExternalLoop(false)
+      gameEngine.disableAutoPause()
+      clock.setHidden(true)
+      expect(gameEngine.getStatus()).toBe('playing')
+    })
+  })
+
+  describe('固定步长循环', () => {
+    const step = 10
+    let frameCallback: FrameRequestCallback | null
+    let now: number
+
+    // 手动推进一个动画帧
+    const advanceFrame = (elapsed: number) => {
+      now += elapsed
+      const callback = frameCallback!
+      frameCallback = null
+      callback(now)
+    }
+
+    beforeEach(() => {
+      frameCallback = null
+      now = 0
+      vi.spyOn(performance, 'now').mockImplementation(() => now)
+      vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        frameCallback = callback
+        return 1
+      })
+      vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {
+        frameCallback = null
+      })
+
+      gameEngine = new GameEngine({
+        ...mockConfig,
+        fixedTimeStep: step,
+        maxCatchUpSteps: 5,
+        maxFrameTime: 250
+      } as GameConfig)
+    })
+
+    afterEach(() => {
+      gameEngine.destroy()
+      vi.restoreAllMocks()
+    })
+
+    it('应该以固定步长更新，与刷新率无关', () => {
+      const deltas: number[] = []
+      gameEngine.on('update', (data: { deltaTime: number }) => deltas.push(data.deltaTime))
+      gameEngine.setUploadedImage(createImage('test.png'))
+
+      // 120Hz 两帧 = 一个模拟步
+      advanceFrame(step / 2)
+      advanceFrame(step / 2)
+      // 30Hz 一帧 = 两个模拟步
+      advanceFrame(step * 2)
+
+      expect(deltas).toEqual([step, step, step])
+    })
+
+    it('应该把插值系数传给渲染', () => {
+      const alphas: number[] = []
+      gameEngine.on('render', (data: { alpha: number }) => alphas.push(data.alpha))
+      gameEngine.setUploadedImage(createImage('test.png'))
+
+      advanceFrame(step * 1.25)
+
+      expect(alphas).toHaveLength(1)
+      expect(alphas[0]).toBeCloseTo(0.25)
+    })
+
+    it('长时间卡顿后应该限制追赶步数', () => {
+      const onUpdate = vi.fn()
+      gameEngine.on('update', onUpdate)
+      gameEngine.setUploadedImage(createImage('test.png'))
+
+      // 标签页挂起 10 秒
+      advanceFrame(10000)
+      expect(onUpdate).toHaveBeenCalledTimes(5)
+
+      // 多余时间被丢弃，下一帧恢复正常
+      onUpdate.mockClear()
+      advanceFrame(step)
+      expect(onUpdate).toHaveBeenCalledTimes(1)
+    })
+
+    it('应该在每个模拟步前后标记性能计时', () => {
+      const monitor = {
+        markUpdateStart: vi.fn(),
+        markUpdateEnd: vi.fn(),
+        markRenderStart: vi.fn(),
+        markRenderEnd: vi.fn()
+      }
+      gameEngine.setPerformanceMonitor(monitor as any)
+      gameEngine.setUploadedImage(createImage('test.png'))
+
+      advanceFrame(step * 3)
+
+      expect(monitor.markUpdateStart).toHaveBeenCalledTimes(3)
+      expect(monitor.markUpdateEnd).toHaveBeenCalledTimes(3)
+      expect(monitor.markRenderStart).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('状态机', () => {
+    it('上传、开始、暂停和重置应该经过对应的状态', () => {
+      const statuses: string[] = []
+      gameEngine.on('statusChange', ({ to }) => statuses.push(to))
+
+      gameEngine.beginUpload()
+      gameEngine.setUploadedImage(new Image())
+      gameEngine.pause()
+      gameEngine.start()
+      gameEngine.reset()
+
+      expect(statuses).toEqual(['uploading', 'ready', 'playing', 'paused', 'playing', 'idle'])
+      expect(gameEngine.getStatus()).toBe('idle')
+      expect(gameEngine.getStats().status).toBe('idle')
+    })
+
+    it('没有上传图片时不能开始游戏', () => {
+      const onStart = vi.fn()
+      gameEngine.on('start', onStart)
+
+      expect(() => gameEngine.start()).toThrow('Cannot start game before an image is uploaded')
+      expect(gameEngine.getStatus()).toBe('idle')
+      expect(onStart).not.toHaveBeenCalled()
+    })
+
+    it('boss 模式的阶段由外部推进，击倒后由外部完成本局', () => {
+      const onComplete = vi.fn()
+      gameEngine.on('complete', onComplete)
+      gameEngine.setMode('boss')
+      gameEngine.setUploadedImage(new Image())
+
+      // 点击数超过阈值也不会切换阶段
+      for (let i = 0; i < 200; i++) {
+        gameEngine.handleClick(100, 100)
+      }
+      expect(gameEngine.getState().currentPhase).toBe('initial')
+
+      expect(gameEngine.advancePhase()).toBe(true)
+      expect(gameEngine.advancePhase()).toBe(true)
+      expect(gameEngine.advancePhase()).toBe(false)
+      expect(gameEngine.getState().currentPhase).toBe('phase2')
+
+      gameEngine.complete('knockout')
+      expect(gameEngine.getStatus()).toBe('completed')
+      expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ clickCount: 200, phase: 'phase2' }))
+      expect(gameEngine.getStatusHistory().pop()).toEqual(expect.objectContaining({ to: 'completed', reason: 'knockout' }))
+    })
+
+    it('取消上传应该回到上传前的状态', () => {
+      gameEngine.beginUpload()
+      gameEngine.cancelUpload()
+      expect(gameEngine.getStatus()).toBe('idle')
+
+      // 游戏进行中不能开始上传
+      gameEngine.setUploadedImage(new Image())
+      expect(() => gameEngine.beginUpload()).toThrow('Illegal game state transition: playing -> uploading')
+      expect(gameEngine.getStatus()).toBe('playing')
+    })
+
+    it('变形进行中应该继续接受点击，暂停后恢复到 transforming', () => {
+      gameEngine.setUploadedImage(new Image())
+      gameEngine.beginTransform('light')
+      expect(gameEngine.getStatus()).toBe('transforming')
+
+      gameEngine.handleClick(100, 100)
+      expect(gameEngine.getState().clickCount).toBe(1)
+
+      gameEngine.pause()
+      expect(gameEngine.getState().isPlaying).toBe(false)
+      gameEngine.start()
+      expect(gameEngine.getStatus()).toBe('transforming')
+
+      gameEngine.recordTransform('light', true)
+      expect(gameEngine.getStatus()).toBe('playing')
+    })
+
+    it('经典模式最后阶段的变形完成后应该结束本局', () => {
+      const onComplete = vi.fn()
+      gameEngine.on('complete', onComplete)
+      gameEngine.setUploadedImage(new Image())
+
+      for (let i = 0; i < mockConfig.phase2Threshold; i++) {
+        gameEngine.handleClick(100, 100)
+      }
+      gameEngine.beginTransform('heavy')
+      // 之前阶段的变形完成时还不能结束
+      gameEngine.beginTransform('light')
+      gameEngine.recordTransform('light', true)
+      expect(gameEngine.getStatus()).toBe('transforming')
+
+      gameEngine.recordTransform('heavy', false)
+
+      expect(gameEngine.getStatus()).toBe('completed')
+      expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ clickCount: mockConfig.phase2Threshold, phase: 'phase2' }))
+
+      gameEngine.handleClick(100, 100)
+      gameEngine.start()
+      expect(gameEngine.getState().clickCount).toBe(mockConfig.phase2Threshold)
+      expect(gameEngine.getState().isPlaying).toBe(false)
+      expect(gameEngine.getStatusHistory().map(({ to }) => to)).toEqual([
+        'ready', 'playing', 'transforming', 'playing', 'completed'
+      ])
+    })
+  })
+
+  describe('计时模式', () => {
+    beforeEach(() => {
+      gameEngine.setExternalLoop(true)
+      gameEngine.setMode('timed', { duration: 2000 })
+      gameEngine.setUploadedImage(new Image())
+    })
+
+    it('应该按时长缩放阶段阈值', () => {
+      // 2 秒 × 默认 5 次/秒 = 10 次预期点击，第二阶段在一半时触发
+      expect(gameEngine.getPhases().map(phase => phase.threshold)).toEqual([0, 3, 5])
+
+      for (let i = 0; i < 3; i++) {
+        gameEngine.handleClick(100, 100)
+      }
+      expect(gameEngine.getState().currentPhase).toBe('phase1')
+    })
+
+    it('时间用完时应该结束本局并发射 timeUp', () => {
+      const onTimeUp = vi.fn()
+      gameEngine.on('timeUp', onTimeUp)
+
+      gameEngine.handleClick(100, 100)
+      gameEngine.update(1500)
+      expect(gameEngine.getTimeRemaining()).toBe(500)
+      expect(onTimeUp).not.toHaveBeenCalled()
+
+      gameEngine.update(600)
+
+      expect(gameEngine.getTimeRemaining()).toBe(0)
+      expect(gameEngine.getState().isPlaying).toBe(false)
+      expect(onTimeUp).toHaveBeenCalledWith(expect.objectContaining({ clickCount: 1, duration: 2000 }))
+
+      // 时间用完后不再接受点击，也不能继续
+      gameEngine.handleClick(100, 100)
+      gameEngine.start()
+      expect(gameEngine.getState().clickCount).toBe(1)
+      expect(gameEngine.getState().isPlaying).toBe(false)
+    })
+
+    it('重置后应该恢复完整时长', () => {
+      gameEngine.update(2000)
+      gameEngine.reset()
+
+      expect(gameEngine.getMode()).toBe('timed')
+      expect(gameEngine.getTimeRemaining()).toBe(2000)
+    })
+
+    it('游戏进行中不能切换模式', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      gameEngine.setMode('classic')
+
+      expect(gameEngine.getMode()).toBe('timed')
+    })
+
+    it('切回经典模式应该恢复配置中的阈值', () => {
+      gameEngine.pause()
+      gameEngine.setMode('classic')
+
+      expect(gameEngine.getPhases().map(phase => phase.threshold)).toEqual([
+        0,
+        mockConfig.phase1Threshold,
+        mockConfig.phase2Threshold
+      ])
+      expect(gameEngine.getTimeLimit()).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { GameSimulator, createClickStream } from '../GameSimulator'
+import { defaultGameConfig, type GameConfig } from '@/config/api.config'
+import { SeededRandom } from '@/utils/SeededRandom'
+
+const testConfig: GameConfig = {
+  ...defaultGameConfig,
+  phase1Threshold: 10,
+  phase2Threshold: 20,
+  enableAudio: false
+}
+
+describe('GameSimulator', () => {
+  beforeEach(() => {
+    // 引擎每次点击都会打印日志，变形失败会打印错误
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('应该在没有 DOM 的环境中运行', () => {
+    expect(typeof document).toBe('undefined')
+    expect(typeof requestAnimationFrame).toBe('undefined')
+  })
+
+  it('应该按脚本点击推进阶段并完成变形', async () => {
+    const simulator = new GameSimulator({ config: testConfig, seed: 1, transformLatency: 500 })
+    const clicks = createClickStream({ cps: 5, duration: 8000 })
+    const result = await simulator.run(clicks)
+
+    expect(result.phaseChanges.map(change => change.clickCount)).toEqual([10, 20])
+    expect(result.phaseChanges[0].gameTime).toBeCloseTo(1800, -2)
+    expect(result.transforms).toHaveLength(2)
+    expect(result.transforms.every(transform => transform.success)).toBe(true)
+    expect(result.transforms[0].clickCount).toBe(10)
+    expect(result.finalPhase).toBe(result.phaseChanges[1].to)
+
+    // 最后的变形完成后本局结束，之后的点击不再计数
+    const completedAt = result.transforms[1].gameTime
+    expect(result.finalStatus).toBe('completed')
+    expect(completedAt).toBeLessThan(8000)
+    expect(result.clickCount).toBe(clicks.filter(click => click.at <= completedAt).length)
+    expect(result.maxCombo).toBe(result.clickCount)
+  })
+
+  it('相同种子和脚本的模拟结果应该一致', async () => {
+    const clicks = createClickStream({ cps: 4, duration: 6000, jitter: 0.3, random: new SeededRandom(7).asSource() })
+    const options = { config: testConfig, seed: 42, transformLatency: 300, transformFailureRate: 0.5 }
+
+    const first = await new GameSimulator(options).run(clicks)
+    const second = await new GameSimulator(options).run(clicks)
+
+    expect(second).toEqual(first)
+  })
+
+  it('点击间隔超过连击窗口时连击应该重新计数', async () => {
+    const simulator = new GameSimulator({ config: testConfig, seed: 1 })
+    const result = await simulator.run([{ at: 0 }, { at: 500 }, { at: 2000 }, { at: 2500 }, { at: 2900 }])
+
+    expect(result.clickCount).toBe(5)
+    expect(result.maxCombo).toBe(3)
+    expect(result.phaseChanges).toHaveLength(0)
+  })
+
+  it('计时模式应该在时间用完后结束，之后的点击不计数', async () => {
+    const simulator = new GameSimulator({
+      config: testConfig,
+      mode: 'timed',
+      modeOptions: { duration: 3000 },
+      seed: 1,
+      transformLatency: 100
+    })
+    const result = await simulator.run(createClickStream({ cps: 10, duration: 5000 }))
+
+    expect(result.timeUp).toBe(true)
+    expect(result.finalStatus).toBe('completed')
+    expect(result.gameTime).toBeCloseTo(3000, -2)
+    expect(result.clickCount).toBeGreaterThanOrEqual(29)
+    expect(result.clickCount).toBeLessThanOrEqual(31)
+  })
+
+  it('变形失败应该记录在结果中', async () => {
+    const simulator = new GameSimulator({ config: testConfig, seed: 1, transformLatency: 100, transformFailureRate: 1 })
+    const result = await simulator.run(createClickStream({ cps: 5, duration: 3000 }))
+
+    expect(result.transforms.length).toBeGreaterThan(0)
+    expect(result.transforms.every(transform => !transform.success)).toBe(true)
+  })
+})
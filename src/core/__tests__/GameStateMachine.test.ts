@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { GameStateMachine, isTransitionAllowed } from '../GameStateMachine'
+
+describe('GameStateMachine', () => {
+  it('应该按转换表完成一局的完整流程', () => {
+    let time = 0
+    const machine = new GameStateMachine({ now: () => time++ })
+
+    machine.transition('uploading')
+    machine.transition('ready')
+    machine.transition('playing')
+    machine.transition('paused')
+    machine.transition('playing')
+    machine.transition('transforming', 'light')
+    machine.transition('completed')
+
+    expect(machine.getStatus()).toBe('completed')
+    expect(machine.getHistory().map(({ from, to }) => `${from}>${to}`)).toEqual([
+      'idle>uploading',
+      'uploading>ready',
+      'ready>playing',
+      'playing>paused',
+      'paused>playing',
+      'playing>transforming',
+      'transforming>completed'
+    ])
+    expect(machine.getHistory()[5]).toEqual({ from: 'playing', to: 'transforming', at: 5, reason: 'light' })
+    expect(machine.getPreviousStatus()).toBe('transforming')
+  })
+
+  it('非法转换应该抛出错误并保持状态不变', () => {
+    const machine = new GameStateMachine()
+
+    expect(() => machine.transition('paused')).toThrow('Illegal game state transition: idle -> paused')
+    expect(() => machine.transition('completed')).toThrow()
+    expect(machine.getStatus()).toBe('idle')
+    expect(machine.getHistory()).toEqual([])
+    expect(isTransitionAllowed('completed', 'playing')).toBe(false)
+    expect(isTransitionAllowed('idle', 'playing')).toBe(false)
+  })
+
+  it('守卫拒绝时不应该转换', () => {
+    const machine = new GameStateMachine({ initial: 'ready' })
+    let allowed = false
+    const removeGuard = machine.addGuard('playing', ({ from }) => allowed && from === 'ready')
+
+    expect(machine.can('playing')).toBe(false)
+    expect(() => machine.transition('playing')).toThrow('rejected by guard')
+
+    allowed = true
+    expect(machine.can('playing')).toBe(true)
+
+    allowed = false
+    removeGuard()
+    expect(machine.transition('playing').to).toBe('playing')
+  })
+
+  it('应该按顺序执行离开动作、进入动作和转换监听', () => {
+    const machine = new GameStateMachine({ initial: 'ready' })
+    const calls: string[] = []
+
+    machine.onExit('ready', ({ to }) => calls.push(`exit ready -> ${to}`))
+    machine.onEnter('playing', ({ from }) => calls.push(`enter playing <- ${from}`))
+    machine.onEnter('paused', () => calls.push('enter paused'))
+    const unsubscribe = machine.onTransition(({ to }) => calls.push(`transition ${to}`))
+
+    machine.transition('playing')
+    unsubscribe()
+    machine.transition('idle')
+
+    expect(calls).toEqual(['exit ready -> playing', 'enter playing <- ready', 'transition playing'])
+  })
+
+  it('状态判断和记录上限', () => {
+    const machine = new GameStateMachine({ initial: 'playing', historyLimit: 2 })
+    expect(machine.isRunning()).toBe(true)
+    expect(machine.is('paused', 'playing')).toBe(true)
+
+    machine.transition('paused')
+    expect(machine.isRunning()).toBe(false)
+    machine.transition('transforming')
+    expect(machine.isRunning()).toBe(true)
+    machine.transition('idle')
+
+    expect(machine.getHistory().map(({ to }) => to)).toEqual(['transforming', 'idle'])
+  })
+
+  it('动作出错不应该中断转换', () => {
+    const machine = new GameStateMachine()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    machine.onEnter('ready', () => {
+      throw new Error('boom')
+    })
+
+    machine.transition('ready')
+    expect(machine.getStatus()).toBe('ready')
+    vi.restoreAllMocks()
+  })
+})
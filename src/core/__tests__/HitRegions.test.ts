@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  cloneHitRegion,
+  containsPoint,
+  findHitRegion,
+  isValidHitRegion,
+  toImagePoint,
+  type HitRegion
+} from '../HitRegions'
+
+const face: HitRegion = {
+  id: 'face',
+  name: '脸',
+  shape: { type: 'rect', x: 0.25, y: 0, width: 0.5, height: 0.4 },
+  multiplier: 2,
+  reaction: { danmaku: ['别打脸！'] }
+}
+
+const nose: HitRegion = {
+  id: 'nose',
+  name: '鼻子',
+  shape: { type: 'polygon', points: [{ x: 0.5, y: 0.1 }, { x: 0.6, y: 0.3 }, { x: 0.4, y: 0.3 }] },
+  multiplier: 3
+}
+
+describe('HitRegions', () => {
+  it('应该判断点是否在矩形和多边形内', () => {
+    expect(containsPoint(face.shape, { x: 0.5, y: 0.2 })).toBe(true)
+    expect(containsPoint(face.shape, { x: 0.1, y: 0.2 })).toBe(false)
+    expect(containsPoint(nose.shape, { x: 0.5, y: 0.25 })).toBe(true)
+    expect(containsPoint(nose.shape, { x: 0.42, y: 0.12 })).toBe(false)
+  })
+
+  it('区域重叠时应该命中后画的区域', () => {
+    expect(findHitRegion([face, nose], { x: 0.5, y: 0.25 })).toBe(nose)
+    expect(findHitRegion([face, nose], { x: 0.3, y: 0.05 })).toBe(face)
+    expect(findHitRegion([face, nose], { x: 0.5, y: 0.9 })).toBeNull()
+  })
+
+  it('应该把视口坐标换算为图片上的比例，图片之外返回 null', () => {
+    const rect = { x: 100, y: 50, width: 200, height: 100 }
+
+    expect(toImagePoint(150, 100, rect)).toEqual({ x: 0.25, y: 0.5 })
+    expect(toImagePoint(50, 100, rect)).toBeNull()
+    expect(toImagePoint(150, 100, { x: 0, y: 0, width: 0, height: 0 })).toBeNull()
+  })
+
+  it('复制的区域应该与原区域互不影响', () => {
+    const copy = cloneHitRegion(nose)
+    ;(copy.shape as any).points[0].x = 0
+
+    expect((nose.shape as any).points[0].x).toBe(0.5)
+    expect(cloneHitRegion(face).reaction!.danmaku).not.toBe(face.reaction!.danmaku)
+  })
+
+  it('应该识别无效的区域数据', () => {
+    expect(isValidHitRegion(face)).toBe(true)
+    expect(isValidHitRegion(nose)).toBe(true)
+    expect(isValidHitRegion({ ...face, multiplier: '2' })).toBe(false)
+    expect(isValidHitRegion({ ...nose, shape: { type: 'polygon', points: [{ x: 0, y: 0 }] } })).toBe(false)
+    expect(isValidHitRegion(null)).toBe(false)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MIN_CROP_SIZE,
+  centerCrop,
+  createCropFromDrag,
+  createImageEdit,
+  fitCropToAspect,
+  flipEdit,
+  getEditOrientation,
+  getImageEditKey,
+  isIdentityEdit,
+  panCrop,
+  rotateEdit,
+  zoomCrop
+} from '../ImageEdit'
+
+describe('ImageEdit', () => {
+  it('旋转和翻转应该对应正确的 EXIF 方向', () => {
+    const edit = createImageEdit()
+    expect(getEditOrientation(edit)).toBe(1)
+    expect(getEditOrientation(rotateEdit(edit))).toBe(6)
+    expect(getEditOrientation(rotateEdit(edit, false))).toBe(8)
+    expect(getEditOrientation(flipEdit(edit, 'horizontal'))).toBe(2)
+    expect(getEditOrientation(flipEdit(edit, 'vertical'))).toBe(4)
+    // 先水平翻转再顺时针旋转画面，等于沿副对角线翻转
+    expect(getEditOrientation(rotateEdit(flipEdit(edit, 'horizontal')))).toBe(7)
+  })
+
+  it('旋转时裁剪框和脸部标记随画面一起转', () => {
+    const edit = {
+      ...createImageEdit(),
+      crop: { x: 0, y: 0, width: 0.5, height: 0.25 },
+      focus: { x: 0.1, y: 0.2 }
+    }
+
+    const rotated = rotateEdit(edit)
+    // 左上角转到右上角，宽高互换
+    expect(rotated.crop).toEqual({ x: 0.75, y: 0, width: 0.25, height: 0.5 })
+    expect(rotated.focus).toEqual({ x: 0.8, y: 0.1 })
+
+    // 转一圈回到原样
+    const full = rotateEdit(rotateEdit(rotateEdit(rotated)))
+    expect(full.rotation).toBe(0)
+    expect(full.crop).toEqual(edit.crop)
+    expect(rotateEdit(rotated, false).crop).toEqual(edit.crop)
+  })
+
+  it('翻转时裁剪框跟随镜像', () => {
+    const edit = { ...createImageEdit(), crop: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 } }
+
+    expect(flipEdit(edit, 'horizontal').crop.x).toBeCloseTo(0.6)
+    expect(flipEdit(edit, 'vertical').crop.y).toBeCloseTo(0.4)
+    expect(isIdentityEdit(flipEdit(flipEdit(createImageEdit(), 'vertical'), 'vertical'))).toBe(true)
+  })
+
+  it('缩放应该保持锚点位置并受最小尺寸和图片范围限制', () => {
+    const full = createImageEdit().crop
+
+    expect(zoomCrop(full, 2)).toEqual({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 })
+    // 以左上角为锚点放大时左上角不动
+    expect(zoomCrop(full, 2, { x: 0, y: 0 })).toEqual({ x: 0, y: 0, width: 0.5, height: 0.5 })
+    expect(zoomCrop(full, 100).width).toBeCloseTo(MIN_CROP_SIZE)
+    expect(zoomCrop(full, 0.5)).toEqual(full)
+    expect(() => zoomCrop(full, 0)).toThrow('Invalid zoom factor')
+  })
+
+  it('平移和居中不超出图片', () => {
+    const crop = { x: 0, y: 0, width: 0.4, height: 0.4 }
+
+    expect(panCrop(crop, 0.8, -0.1)).toEqual({ x: 0.6, y: 0, width: 0.4, height: 0.4 })
+    const centered = centerCrop(crop, { x: 0.9, y: 0.5 })
+    expect(centered.x).toBeCloseTo(0.6)
+    expect(centered.y).toBeCloseTo(0.3)
+  })
+
+  it('比例预设按图片宽高比换算裁剪框', () => {
+    // 2:1 的图片上取 1:1，归一化宽度为高度的一半
+    expect(fitCropToAspect(createImageEdit().crop, 1, 2)).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 })
+    expect(fitCropToAspect(createImageEdit().crop, null, 2)).toEqual(createImageEdit().crop)
+  })
+
+  it('拖动应该从起点画出裁剪框', () => {
+    const start = { x: 0.5, y: 0.5 }
+
+    const free = createCropFromDrag(start, { x: 0.1, y: 0.4 }, null, 1)
+    expect(free.x).toBeCloseTo(0.1)
+    expect(free.y).toBeCloseTo(0.4)
+    expect(free.width).toBeCloseTo(0.4)
+    expect(free.height).toBeCloseTo(0.1)
+
+    // 固定比例时按较长的拖动方向取框
+    const square = createCropFromDrag(start, { x: 0.9, y: 0.6 }, 1, 1)
+    expect(square.width).toBeCloseTo(0.4)
+    expect(square.height).toBeCloseTo(0.4)
+
+    // 超出图片时按比例缩小
+    const clipped = createCropFromDrag(start, { x: 1, y: 0.55 }, 0.5, 1)
+    expect(clipped.width).toBeCloseTo(0.25)
+    expect(clipped.height).toBeCloseTo(0.5)
+  })
+
+  it('不同的调整应该得到不同的标识', () => {
+    const edit = createImageEdit()
+
+    expect(getImageEditKey(edit)).not.toBe(getImageEditKey(rotateEdit(edit)))
+    expect(getImageEditKey(edit)).not.toBe(getImageEditKey({ ...edit, crop: zoomCrop(edit.crop, 2) }))
+    expect(getImageEditKey(edit)).toBe(getImageEditKey(createImageEdit()))
+  })
+})
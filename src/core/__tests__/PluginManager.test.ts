@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PluginManager, type GamePlugin, type PluginHost } from '../PluginManager'
+import { BaseEffect, EffectSystem } from '../EffectSystem'
+import { DanmakuSystem } from '../DanmakuSystem'
+import { ImageTransformManager } from '../ImageTransformManager'
+import type { GameAudioSystem } from '../GameAudioSystem'
+import type { GameEngine, GameEngineEvents } from '../GameEngine'
+import { EventEmitter } from '@/utils/EventEmitter'
+import type { ErrorHandler } from '@/utils/ErrorHandler'
+import { ErrorType } from '@/types'
+
+class SparkEffect extends BaseEffect {
+  constructor(x: number, y: number, private fail = false) {
+    super('click', x, y, 100)
+  }
+
+  render(): void {
+    if (this.fail) throw new Error('render failed')
+  }
+}
+
+const preset = { strength: 0.5, steps: 20, soundStyle: 'light' as const }
+
+describe('PluginManager', () => {
+  let engineEvents: EventEmitter<GameEngineEvents>
+  let effects: EffectSystem
+  let danmaku: DanmakuSystem
+  let transformManager: ImageTransformManager
+  let audio: { defineSoundEffects: any; removeSoundEffects: any; playSoundEffect: any }
+  let errorHandler: { createError: any; handleError: any }
+  let manager: PluginManager
+
+  beforeEach(() => {
+    engineEvents = new EventEmitter<GameEngineEvents>('GameEngine')
+    effects = new EffectSystem()
+    danmaku = new DanmakuSystem({ canvasWidth: 400, canvasHeight: 300, messages: ['默认'], random: () => 0.99 })
+    transformManager = new ImageTransformManager()
+    audio = { defineSoundEffects: vi.fn(), removeSoundEffects: vi.fn(), playSoundEffect: vi.fn(() => 'sound-1') }
+    errorHandler = {
+      createError: vi.fn((type, message, details) => ({ type, message, details })),
+      handleError: vi.fn(async () => {})
+    }
+
+    const host: PluginHost = {
+      engine: { on: engineEvents.on.bind(engineEvents) } as unknown as GameEngine,
+      effects,
+      danmaku,
+      audio: audio as unknown as GameAudioSystem,
+      transformManager
+    }
+    manager = new PluginManager(host, { errorHandler: errorHandler as unknown as ErrorHandler })
+  })
+
+  it('插件应该能注册特效、弹幕包、音效、变形预设并监听引擎事件', () => {
+    const clicks: number[] = []
+    const plugin: GamePlugin = {
+      name: 'sparkles',
+      install(app) {
+        app.registerEffect('spark', (x, y) => new SparkEffect(x, y))
+        app.registerDanmakuPack('cheer', { messages: ['加油！'] })
+        app.defineSoundEffects([{ name: 'spark', category: 'click', files: ['/spark.mp3'], volume: 1 }])
+        app.registerTransformPreset('glitter', preset)
+        app.on('click', ({ clickCount }) => {
+          clicks.push(clickCount)
+          app.playSound('spark')
+        })
+      }
+    }
+
+    expect(manager.install(plugin)).toBe(true)
+    expect(manager.getInstalled()).toEqual(['sparkles'])
+
+    effects.addClickEffect(10, 10, { style: 'spark' })
+    expect(effects.getStats().totalEffects).toBe(1)
+    expect(danmaku.addMessage()!.text).toBe('加油！')
+    expect(audio.defineSoundEffects).toHaveBeenCalledWith([expect.objectContaining({ name: 'spark' })])
+    expect(transformManager.getTransformPresets().glitter).toEqual(preset)
+
+    engineEvents.emit('click', { x: 0, y: 0, clickCount: 1, phase: 'initial' as any, combo: 0, force: 1, region: null })
+    expect(clicks).toEqual([1])
+    expect(audio.playSoundEffect).toHaveBeenCalledWith('spark', undefined)
+  })
+
+  it('卸载时应该撤销插件注册的所有内容', () => {
+    const uninstall = vi.fn()
+    const listener = vi.fn()
+    manager.install({
+      name: 'sparkles',
+      install(app) {
+        app.registerEffect('spark', (x, y) => new SparkEffect(x, y))
+        app.registerDanmakuPack('cheer', { messages: ['加油！'] })
+        app.defineSoundEffects([{ name: 'spark', category: 'click', files: ['/spark.mp3'], volume: 1 }])
+        app.registerTransformPreset('glitter', preset)
+        app.on('click', listener)
+      },
+      uninstall
+    })
+
+    expect(manager.uninstall('sparkles')).toBe(true)
+    expect(manager.uninstall('sparkles')).toBe(false)
+
+    expect(uninstall).toHaveBeenCalled()
+    expect(danmaku.getMessagePack('cheer')).toBeUndefined()
+    expect(audio.removeSoundEffects).toHaveBeenCalledWith(['spark'])
+    expect(transformManager.getTransformPresets().glitter).toBeUndefined()
+    engineEvents.emit('click', { x: 0, y: 0, clickCount: 1, phase: 'initial' as any, combo: 0, force: 1, region: null })
+    expect(listener).not.toHaveBeenCalled()
+
+    // 特效样式已注销，回退为默认的脉冲特效
+    expect(() => effects.registerEffect('spark', (x, y) => new SparkEffect(x, y))).not.toThrow()
+  })
+
+  it('安装出错时应该报告错误并回滚已注册的内容', () => {
+    const installed = manager.install({
+      name: 'broken',
+      install(app) {
+        app.registerDanmakuPack('cheer', { messages: ['加油！'] })
+        throw new Error('boom')
+      }
+    })
+
+    expect(installed).toBe(false)
+    expect(manager.has('broken')).toBe(false)
+    expect(danmaku.getMessagePack('cheer')).toBeUndefined()
+    expect(errorHandler.createError).toHaveBeenCalledWith(
+      ErrorType.PLUGIN_ERROR,
+      expect.stringContaining('boom'),
+      expect.objectContaining({ plugin: 'broken', stage: 'install' }),
+      true,
+      expect.any(String)
+    )
+    expect(errorHandler.handleError).toHaveBeenCalledTimes(1)
+  })
+
+  it('与已有注册冲突的插件不能安装，同名插件不能重复安装', () => {
+    const plugin: GamePlugin = {
+      name: 'punchy',
+      install(app) {
+        app.registerEffect('punch', (x, y) => new SparkEffect(x, y))
+      }
+    }
+
+    expect(manager.install(plugin)).toBe(false)
+
+    const ok: GamePlugin = { name: 'noop', install() {} }
+    manager.install(ok)
+    expect(() => manager.install(ok)).toThrow('Plugin already installed: noop')
+  })
+
+  it('监听器和特效出错时应该报告错误而不中断其他逻辑', () => {
+    const otherListener = vi.fn()
+    engineEvents.on('click', otherListener)
+    manager.install({
+      name: 'flaky',
+      install(app) {
+        app.registerEffect('bad', (x, y) => new SparkEffect(x, y, true))
+        app.on('click', () => {
+          throw new Error('listener failed')
+        })
+      }
+    })
+
+    engineEvents.emit('click', { x: 0, y: 0, clickCount: 1, phase: 'initial' as any, combo: 0, force: 1, region: null })
+    expect(otherListener).toHaveBeenCalled()
+
+    effects.addClickEffect(10, 10, { style: 'bad' })
+    const ctx = { save: vi.fn(), restore: vi.fn(), translate: vi.fn() } as unknown as CanvasRenderingContext2D
+    expect(() => effects.render(ctx)).not.toThrow()
+
+    // 渲染出错的特效在下一次更新时被移除
+    effects.update(16)
+    expect(effects.getStats().totalEffects).toBe(0)
+
+    const stages = errorHandler.createError.mock.calls.map((call: any[]) => call[2].stage)
+    expect(stages).toEqual(['listener', 'effect'])
+  })
+
+  it('销毁时应该按相反顺序卸载所有插件', () => {
+    const order: string[] = []
+    manager.install({ name: 'a', install() {}, uninstall: () => order.push('a') })
+    manager.install({ name: 'b', install() {}, uninstall: () => order.push('b') })
+
+    manager.destroy()
+
+    expect(order).toEqual(['b', 'a'])
+    expect(manager.getInstalled()).toEqual([])
+  })
+})
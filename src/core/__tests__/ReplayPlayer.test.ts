@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GameEngine } from '../GameEngine'
+import { ReplayPlayer } from '../ReplayPlayer'
+import { defaultGameConfig, type GameConfig } from '@/config/api.config'
+
+const testConfig: GameConfig = {
+  ...defaultGameConfig,
+  phase1Threshold: 3,
+  phase2Threshold: 6
+}
+
+// 手动驱动帧，记录一局游戏
+const recordSession = () => {
+  const engine = new GameEngine(testConfig)
+  engine.setExternalLoop(true)
+  engine.startRecording(1234)
+  engine.setUploadedImage(new Image())
+
+  engine.update(16)
+  engine.handleClick(10, 20, 1)
+  engine.handleClick(30, 40, 2)
+  engine.update(17)
+  engine.handleClick(50, 60, 3)
+  engine.recordTransform('light', true)
+  engine.update(15)
+
+  const log = engine.stopRecording()!
+  engine.destroy()
+  return log
+}
+
+describe('ReplayPlayer', () => {
+  let engine: GameEngine
+
+  beforeEach(() => {
+    engine = new GameEngine(testConfig)
+    engine.setExternalLoop(true)
+    engine.setUploadedImage(new Image())
+  })
+
+  it('应该按顺序记录帧、点击和变形事件', () => {
+    const log = recordSession()
+
+    expect(log.seed).toBe(1234)
+    expect(log.events.map(event => event[0])).toEqual(['f', 'c', 'c', 'f', 'c', 't', 'f'])
+    expect(log.events[1].slice(2)).toEqual([10, 20, 1])
+    expect(log.events[5].slice(2)).toEqual(['light', 1])
+  })
+
+  it('应该逐帧复现点击和帧间隔', () => {
+    const log = recordSession()
+    const onClick = vi.fn()
+    const onUpdate = vi.fn()
+    engine.on('click', onClick)
+    engine.on('update', onUpdate)
+
+    const player = new ReplayPlayer({ engine, log })
+
+    expect(player.step()).toBe(true)
+    expect(onUpdate).toHaveBeenCalledTimes(1)
+    expect(onClick).not.toHaveBeenCalled()
+
+    expect(player.step()).toBe(true)
+    expect(onClick).toHaveBeenCalledTimes(2)
+    expect(onClick).toHaveBeenLastCalledWith(expect.objectContaining({ x: 30, y: 40, combo: 2 }))
+    expect(engine.getGameTime()).toBe(33)
+  })
+
+  it('回放结束后应该暂停并通知完成', () => {
+    const log = recordSession()
+    const onTransform = vi.fn()
+    const onComplete = vi.fn()
+
+    const player = new ReplayPlayer({ engine, log, onTransform, onComplete })
+    player.runToEnd()
+
+    const state = engine.getState()
+    expect(state.clickCount).toBe(3)
+    expect(state.currentPhase).toBe('phase1')
+    expect(state.isPlaying).toBe(false)
+    expect(engine.getGameTime()).toBe(48)
+    expect(onTransform).toHaveBeenCalledWith('light', true)
+    expect(onComplete).toHaveBeenCalledTimes(1)
+    expect(player.isComplete()).toBe(true)
+    expect(player.getProgress()).toBe(1)
+  })
+
+  it('不支持的日志版本应该报错', () => {
+    const log = { ...recordSession(), version: 99 }
+    expect(() => new ReplayPlayer({ engine, log })).toThrow()
+  })
+
+  it('重置游戏应该停止录制', () => {
+    engine.startRecording(1)
+    expect(engine.isRecording()).toBe(true)
+
+    engine.reset()
+
+    expect(engine.isRecording()).toBe(false)
+    expect(engine.getReplayLog()).toBeNull()
+  })
+})
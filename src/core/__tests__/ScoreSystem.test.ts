@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ScoreSystem, type ComboTier } from '../ScoreSystem'
+import { SeededRandom } from '@/utils/SeededRandom'
+
+const tiers: ComboTier[] = [
+  { minCombo: 0, multiplier: 1, label: '' },
+  { minCombo: 5, multiplier: 2, label: '连击' },
+  { minCombo: 10, multiplier: 4, label: '狂暴' }
+]
+
+// 永不暴击 / 必定暴击的随机数来源
+const never = () => 0.99
+const always = () => 0
+
+describe('ScoreSystem', () => {
+  it('应该按连击档位加成得分', () => {
+    const score = new ScoreSystem({ basePoints: 10, comboTiers: tiers, random: never })
+
+    expect(score.registerHit(0).points).toBe(10)
+    expect(score.registerHit(5).points).toBe(20)
+    expect(score.registerHit(12).points).toBe(40)
+    expect(score.getScore()).toBe(70)
+    expect(score.getStats()).toEqual(expect.objectContaining({ hits: 3, bestHit: 40, maxMultiplier: 4 }))
+  })
+
+  it('点击力度应该在上限内加成得分', () => {
+    const score = new ScoreSystem({ basePoints: 10, comboTiers: tiers, maxForce: 2, random: never })
+
+    expect(score.registerHit(0, 1.5).points).toBe(15)
+    expect(score.registerHit(0, 5).points).toBe(20)
+    expect(score.registerHit(0, 0.2).points).toBe(10)
+  })
+
+  it('暴击应该乘以暴击倍数并发射 critical 事件', () => {
+    const score = new ScoreSystem({ basePoints: 10, comboTiers: tiers, criticalMultiplier: 3, random: always })
+    const onCritical = vi.fn()
+    score.on('critical', onCritical)
+
+    const hit = score.registerHit(5)
+
+    expect(hit.isCritical).toBe(true)
+    expect(hit.points).toBe(60)
+    expect(score.getStats().criticalHits).toBe(1)
+    expect(onCritical).toHaveBeenCalledWith(hit)
+  })
+
+  it('档位越高暴击概率越大', () => {
+    // 随机数 0.08：基础概率 0.05 不暴击，第二档 0.05 + 0.04 暴击
+    const score = new ScoreSystem({
+      comboTiers: tiers,
+      criticalChance: 0.05,
+      criticalChancePerTier: 0.02,
+      random: () => 0.08
+    })
+
+    expect(score.registerHit(0).isCritical).toBe(false)
+    expect(score.registerHit(5).isCritical).toBe(false)
+    expect(score.registerHit(10).isCritical).toBe(true)
+  })
+
+  it('档位变化时应该发射 tierChange', () => {
+    const score = new ScoreSystem({ comboTiers: tiers, random: never })
+    const onTierChange = vi.fn()
+    score.on('tierChange', onTierChange)
+
+    score.registerHit(3)
+    score.registerHit(6)
+    score.registerHit(7)
+    score.registerHit(0)
+
+    expect(onTierChange).toHaveBeenCalledTimes(2)
+    expect(onTierChange).toHaveBeenNthCalledWith(1, { oldTier: tiers[0], newTier: tiers[1] })
+    expect(score.getCurrentTier()).toBe(tiers[0])
+  })
+
+  it('相同种子应该产生相同的得分序列', () => {
+    const play = () => {
+      const score = new ScoreSystem({ random: new SeededRandom(42).asSource() })
+      return Array.from({ length: 50 }, (_, i) => score.registerHit(i).points)
+    }
+
+    expect(play()).toEqual(play())
+  })
+
+  it('重置应该清空得分，恢复应该还原统计', () => {
+    const score = new ScoreSystem({ comboTiers: tiers, random: never })
+    score.registerHit(5)
+    const saved = score.getStats()
+
+    score.reset()
+    expect(score.getScore()).toBe(0)
+
+    score.restore(saved)
+    expect(score.getStats()).toEqual(saved)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TargetManager } from '../TargetManager'
+import type { PhaseDefinition } from '@/config/phases.config'
+
+const phases: PhaseDefinition[] = [
+  { id: 'initial', name: '初始', threshold: 0 },
+  { id: 'phase1', name: '阶段一', threshold: 2, transformPreset: 'light' },
+  { id: 'phase2', name: '阶段二', threshold: 4, transformPreset: 'heavy' }
+]
+
+const createImage = (src: string) => ({ src, width: 100, height: 100 } as HTMLImageElement)
+
+describe('TargetManager', () => {
+  it('第一个目标应该成为当前目标，超过上限时抛出错误', () => {
+    const manager = new TargetManager({ phases, maxTargets: 2 })
+    const onActiveChange = vi.fn()
+    manager.on('activeChange', onActiveChange)
+
+    const first = manager.addTarget(createImage('a'))
+    manager.addTarget(createImage('b'))
+
+    expect(manager.getActiveTarget()).toBe(first)
+    expect(onActiveChange).toHaveBeenCalledTimes(1)
+    expect(() => manager.addTarget(createImage('c'))).toThrow('Too many targets')
+    expect(() => manager.setActiveTarget('missing')).toThrow('Unknown target')
+  })
+
+  it('一个目标时铺满画布，多个目标按网格排列并按坐标命中', () => {
+    const manager = new TargetManager({ phases, gap: 10 })
+    const first = manager.addTarget(createImage('a'))
+    manager.layout(400, 200)
+
+    expect(first.bounds).toEqual({ x: 0, y: 0, width: 400, height: 200 })
+    expect(manager.hitTest(-5, -5)).toBe(first)
+
+    const second = manager.addTarget(createImage('b'))
+
+    expect(first.bounds).toEqual({ x: 10, y: 10, width: 185, height: 180 })
+    expect(second.bounds).toEqual({ x: 205, y: 10, width: 185, height: 180 })
+    expect(manager.hitTest(50, 50)).toBe(first)
+    expect(manager.hitTest(300, 50)).toBe(second)
+    expect(manager.hitTest(200, 50)).toBeNull()
+  })
+
+  it('每个目标应该独立计数并切换阶段', () => {
+    const manager = new TargetManager({ phases })
+    const first = manager.addTarget(createImage('a'))
+    const second = manager.addTarget(createImage('b'))
+    const onPhaseChange = vi.fn()
+    manager.on('phaseChange', onPhaseChange)
+
+    manager.recordHit(second.id, 0, 0)
+    manager.recordHit(second.id, 0, 0)
+
+    expect(second.clickCount).toBe(2)
+    expect(second.currentPhase).toBe('phase1')
+    expect(first.clickCount).toBe(0)
+    expect(first.currentPhase).toBe('initial')
+    expect(onPhaseChange).toHaveBeenCalledWith({ target: second, oldPhase: 'initial', newPhase: 'phase1' })
+  })
+
+  it('应该记录变形结果并显示最新的变形图片', () => {
+    const manager = new TargetManager({ phases })
+    const target = manager.addTarget(createImage('a'))
+    const transformed = createImage('a:light')
+
+    manager.addTransformResult(target.id, {
+      success: false,
+      originalImage: target.image,
+      transformType: 'light',
+      processingTime: 0
+    })
+    expect(manager.getCurrentImage(target)).toBe(target.image)
+
+    manager.addTransformResult(target.id, {
+      success: true,
+      originalImage: target.image,
+      transformedImage: transformed,
+      transformType: 'light',
+      processingTime: 0
+    })
+
+    expect(target.transformHistory).toHaveLength(2)
+    expect(manager.getCurrentImage(target)).toBe(transformed)
+  })
+
+  it('移除当前目标时应该切换到剩下的目标', () => {
+    const manager = new TargetManager({ phases })
+    const first = manager.addTarget(createImage('a'))
+    const second = manager.addTarget(createImage('b'))
+    const onActiveChange = vi.fn()
+    manager.on('activeChange', onActiveChange)
+
+    expect(manager.removeTarget(first.id)).toBe(true)
+    expect(manager.removeTarget(first.id)).toBe(false)
+    expect(manager.getActiveTarget()).toBe(second)
+    expect(onActiveChange).toHaveBeenCalledWith({ target: second, previous: null })
+
+    manager.clear()
+    expect(manager.getTargetCount()).toBe(0)
+    expect(onActiveChange).toHaveBeenLastCalledWith({ target: null, previous: second })
+  })
+
+  it('切换阶段列表时应该按点击数重新计算阶段', () => {
+    const manager = new TargetManager({ phases })
+    const target = manager.addTarget(createImage('a'), { clickCount: 3 })
+
+    manager.setPhases([
+      { id: 'initial', name: '初始', threshold: 0 },
+      { id: 'phase1', name: '阶段一', threshold: 6 }
+    ])
+
+    expect(target.currentPhase).toBe('initial')
+  })
+})
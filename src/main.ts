@@ -1,5 +1,22 @@
 import './styles/main.css'
-import { defaultGameConfig } from './config/api.config'
+import { defaultGameConfig, UPLOAD_HINT } from './config/api.config'
+import { GameApp, type GameStats, type SessionRecordResult, type TimedResult } from './core/GameApp'
+import type { AchievementUnlock } from './core/AchievementSystem'
+import {
+  summarizeMoodJournal,
+  type MoodCheckIn,
+  type MoodJournalEntry,
+  type MoodRating,
+  type SessionHistoryQuery
+} from './services/SessionHistoryStore'
+import type { PersonalBestField } from './services/PersonalBestStore'
+import { emotionTags, moodScale, MOOD_MAX, MOOD_MIN } from './config/mood.config'
+import type { GameMode } from './core/GameEngine'
+import type { HitRegion } from './core/HitRegions'
+import { HitRegionStore } from './services/HitRegionStore'
+import { HitRegionEditor } from './components/HitRegionEditor'
+import { ImageEditor } from './components/ImageEditor'
+import { isIdentityEdit, type ImageEdit } from './core/ImageEdit'
 
 // 应用初始化
 console.log('发泄情绪小游戏启动中...')
@@ -7,24 +24,37 @@ console.log('发泄情绪小游戏启动中...')
 // 基础DOM元素获取
 const uploadArea = document.getElementById('uploadArea') as HTMLDivElement
 const fileInput = document.getElementById('fileInput') as HTMLInputElement
+const continueSessionBtn = document.getElementById('continueSessionBtn') as HTMLButtonElement
+const modeSelector = document.getElementById('modeSelector') as HTMLDivElement
 const gameArea = document.getElementById('gameArea') as HTMLDivElement
-const gameCanvas = document.getElementById('gameCanvas') as HTMLCanvasElement
+const targetBar = document.getElementById('targetBar') as HTMLDivElement
+const targetList = document.getElementById('targetList') as HTMLDivElement
+const addTargetBtn = document.getElementById('addTargetBtn') as HTMLButtonElement
+const targetFileInput = document.getElementById('targetFileInput') as HTMLInputElement
 const clickCountElement = document.getElementById('clickCount') as HTMLSpanElement
 const statusText = document.getElementById('statusText') as HTMLSpanElement
 const volumeBtn = document.getElementById('volumeBtn') as HTMLButtonElement
 const settingsBtn = document.getElementById('settingsBtn') as HTMLButtonElement
+const historyBtn = document.getElementById('historyBtn') as HTMLButtonElement
+const journalBtn = document.getElementById('journalBtn') as HTMLButtonElement
 const settingsModal = document.getElementById('settingsModal') as HTMLDivElement
 const closeSettings = document.getElementById('closeSettings') as HTMLButtonElement
 const volumeSlider = document.getElementById('volumeSlider') as HTMLInputElement
 const volumeValue = document.getElementById('volumeValue') as HTMLSpanElement
 const effectsToggle = document.getElementById('effectsToggle') as HTMLInputElement
 const loadingOverlay = document.getElementById('loadingOverlay') as HTMLDivElement
+const resumeOverlay = document.getElementById('resumeOverlay') as HTMLDivElement
 
 // 新功能DOM元素
 const gameActions = document.getElementById('gameActions') as HTMLDivElement
 const shareBtn = document.getElementById('shareBtn') as HTMLButtonElement
 const transformBtn = document.getElementById('transformBtn') as HTMLButtonElement
 const resetGameBtn = document.getElementById('resetGameBtn') as HTMLButtonElement
+const editRegionsBtn = document.getElementById('editRegionsBtn') as HTMLButtonElement
+const hitRegionModal = document.getElementById('hitRegionModal') as HTMLDivElement
+const hitRegionEditorContainer = document.getElementById('hitRegionEditor') as HTMLDivElement
+const imageEditModal = document.getElementById('imageEditModal') as HTMLDivElement
+const imageEditorContainer = document.getElementById('imageEditor') as HTMLDivElement
 const transformNotification = document.getElementById('transformNotification') as HTMLDivElement
 const modifySection = document.getElementById('modifySection') as HTMLDivElement
 const modifyBtn = document.getElementById('modifyBtn') as HTMLButtonElement
@@ -35,23 +65,106 @@ const floatingName = document.getElementById('floatingName') as HTMLDivElement
 // 分享弹窗元素
 const shareModal = document.getElementById('shareModal') as HTMLDivElement
 const closeShareModal = document.getElementById('closeShareModal') as HTMLButtonElement
+const shareScore = document.getElementById('shareScore') as HTMLSpanElement
 const shareClickCount = document.getElementById('shareClickCount') as HTMLSpanElement
 const shareGameTime = document.getElementById('shareGameTime') as HTMLSpanElement
 const shareTransformStatus = document.getElementById('shareTransformStatus') as HTMLSpanElement
 const shareToWechat = document.getElementById('shareToWechat') as HTMLButtonElement
 const shareToWeibo = document.getElementById('shareToWeibo') as HTMLButtonElement
 const copyShareLink = document.getElementById('copyShareLink') as HTMLButtonElement
+const shareAchievementCount = document.getElementById('shareAchievementCount') as HTMLSpanElement
+const shareAchievementBadges = document.getElementById('shareAchievementBadges') as HTMLDivElement
+const achievementToasts = document.getElementById('achievementToasts') as HTMLDivElement
 
-// 游戏状态
-let clickCount = 0
-let gameState = 'initial'
+// 历史战绩弹窗元素
+const historyModal = document.getElementById('historyModal') as HTMLDivElement
+const historyModeFilter = document.getElementById('historyModeFilter') as HTMLSelectElement
+const historyTransformFilter = document.getElementById('historyTransformFilter') as HTMLSelectElement
+const historySort = document.getElementById('historySort') as HTMLSelectElement
+const historyBests = document.getElementById('historyBests') as HTMLDivElement
+const historyList = document.getElementById('historyList') as HTMLDivElement
+const exportHistoryBtn = document.getElementById('exportHistoryBtn') as HTMLButtonElement
+const importHistoryBtn = document.getElementById('importHistoryBtn') as HTMLButtonElement
+const importHistoryInput = document.getElementById('importHistoryInput') as HTMLInputElement
+const closeHistoryModal = document.getElementById('closeHistoryModal') as HTMLButtonElement
+
+// 心情打卡和心情日记元素
+const moodCheckInToggle = document.getElementById('moodCheckInToggle') as HTMLInputElement
+const moodModal = document.getElementById('moodModal') as HTMLDivElement
+const moodTitle = document.getElementById('moodTitle') as HTMLHeadingElement
+const moodScaleElement = document.getElementById('moodScale') as HTMLDivElement
+const moodTagsElement = document.getElementById('moodTags') as HTMLDivElement
+const moodNote = document.getElementById('moodNote') as HTMLTextAreaElement
+const submitMoodBtn = document.getElementById('submitMoodBtn') as HTMLButtonElement
+const skipMoodBtn = document.getElementById('skipMoodBtn') as HTMLButtonElement
+const journalModal = document.getElementById('journalModal') as HTMLDivElement
+const journalSummary = document.getElementById('journalSummary') as HTMLDivElement
+const journalAxis = document.getElementById('journalAxis') as HTMLSelectElement
+const journalChart = document.getElementById('journalChart') as HTMLDivElement
+const closeJournalModal = document.getElementById('closeJournalModal') as HTMLButtonElement
+
+// 计时模式结果弹窗元素
+const resultsModal = document.getElementById('resultsModal') as HTMLDivElement
+const newRecordBadge = document.getElementById('newRecordBadge') as HTMLDivElement
+const resultScore = document.getElementById('resultScore') as HTMLSpanElement
+const resultAverageCPS = document.getElementById('resultAverageCPS') as HTMLSpanElement
+const resultPeakCPS = document.getElementById('resultPeakCPS') as HTMLSpanElement
+const resultPersonalBest = document.getElementById('resultPersonalBest') as HTMLSpanElement
+const playAgainBtn = document.getElementById('playAgainBtn') as HTMLButtonElement
+const resultsShareBtn = document.getElementById('resultsShareBtn') as HTMLButtonElement
+const closeResultsModal = document.getElementById('closeResultsModal') as HTMLButtonElement
+
+// 游戏应用（引擎及各子系统的组合根）
+let app: GameApp
 let gameStartTime = 0
-let isTransformed = false
-let currentImage: HTMLImageElement | null = null
+
+// 命中区域：按图片内容保存，记录每个目标对应的图片键
+const hitRegionStore = new HitRegionStore()
+const targetImageKeys = new Map<string, string>()
+let hitRegionEditor: HitRegionEditor
+let pendingRegionEdit: ((regions: HitRegion[] | null) => void) | null = null
+
+// 开始游戏前的图片调整（裁剪、旋转、缩放）
+let imageEditor: ImageEditor
+let pendingImageEdit: ((edit: ImageEdit | null) => void) | null = null
+
+// 进行中的心情打卡
+let pendingMood: { score: number | null; tags: Set<string>; onDone: (rating: MoodRating | null) => void } | null = null
 
 // 初始化游戏核心组件
 function initializeGameCore() {
   try {
+    app = new GameApp({
+      container: gameArea,
+      config: defaultGameConfig,
+      getUISettings: collectUISettings,
+      onStatsChange: updateClickCount,
+      onTransformStart: (transformType) => {
+        console.log(`触发${transformType}变形`)
+        showLoading()
+      },
+      onTransformComplete: (result) => {
+        hideLoading()
+        if (result.success) {
+          triggerTransformation()
+        }
+      },
+      onTimeUp: showResults,
+      onAutoPause: () => {
+        resumeOverlay.style.display = 'flex'
+      },
+      onStatusChange: (transition) => {
+        if (transition.to !== 'paused') {
+          resumeOverlay.style.display = 'none'
+        }
+      },
+      onAchievementUnlocked: showAchievementToast,
+      onSessionRecorded: handleSessionRecorded,
+      onError: (error) => {
+        hideLoading()
+        console.error('游戏错误:', error)
+      }
+    })
     console.log('游戏核心组件初始化完成')
     console.log('配置:', defaultGameConfig)
   } catch (error) {
@@ -59,54 +172,9 @@ function initializeGameCore() {
   }
 }
 
-// 设置Canvas点击事件
-function setupCanvasClickEvents() {
-  gameCanvas.addEventListener('click', handleCanvasClick)
-  gameCanvas.addEventListener('touchstart', handleCanvasTouch, { passive: false })
-}
-
-// 处理Canvas点击
-function handleCanvasClick(e: MouseEvent) {
-  const rect = gameCanvas.getBoundingClientRect()
-  const x = e.clientX - rect.left
-  const y = e.clientY - rect.top
-  
-  // 增加点击计数
-  clickCount++
-  updateClickCount(clickCount)
-  
-  // 检查是否达到变身条件（10次点击）
-  if (clickCount === 10 && !isTransformed) {
-    triggerTransformation()
-  }
-  
-  // 添加点击特效
-  addClickEffect(x, y)
-  
-  console.log(`点击位置: (${x}, ${y}), 总点击数: ${clickCount}`)
-}
-
-// 处理Canvas触摸
-function handleCanvasTouch(e: TouchEvent) {
-  e.preventDefault()
-  const rect = gameCanvas.getBoundingClientRect()
-  const touch = e.touches[0]
-  const x = touch.clientX - rect.left
-  const y = touch.clientY - rect.top
-  
-  // 增加点击计数
-  clickCount++
-  updateClickCount(clickCount)
-  
-  // 检查是否达到变身条件（10次点击）
-  if (clickCount === 10 && !isTransformed) {
-    triggerTransformation()
-  }
-  
-  // 添加点击特效
-  addClickEffect(x, y)
-  
-  console.log(`触摸位置: (${x}, ${y}), 总点击数: ${clickCount}`)
+// 是否已变身（离开起始阶段）
+function isTransformed(stats: GameStats = app.getStats()): boolean {
+  return stats.phaseIndex > 0
 }
 
 // 基础事件监听器设置
@@ -117,6 +185,12 @@ function initializeEventListeners() {
   uploadArea.addEventListener('dragleave', handleDragLeave)
   uploadArea.addEventListener('drop', handleDrop)
   fileInput.addEventListener('change', handleFileSelect)
+  continueSessionBtn.addEventListener('click', resumeLastSession)
+  addTargetBtn.addEventListener('click', () => targetFileInput.click())
+  targetFileInput.addEventListener('change', handleTargetFileSelect)
+  modeSelector.querySelectorAll<HTMLButtonElement>('.mode-btn').forEach(button => {
+    button.addEventListener('click', () => selectMode(button.dataset.mode as GameMode))
+  })
   
   // 新功能按钮事件
   shareBtn.addEventListener('click', () => {
@@ -131,6 +205,12 @@ function initializeEventListeners() {
     console.log('点击重置游戏按钮')
     resetGame()
   })
+  editRegionsBtn.addEventListener('click', editActiveTargetRegions)
+  resumeOverlay.addEventListener('click', (event) => {
+    // 继续的点击不算作对图片的点击
+    event.stopPropagation()
+    app.resume()
+  })
   modifyBtn.addEventListener('click', () => {
     console.log('点击修改按钮')
     fileInput.click()
@@ -155,6 +235,7 @@ function initializeEventListeners() {
   closeSettings.addEventListener('click', () => settingsModal.style.display = 'none')
   volumeBtn.addEventListener('click', toggleMute)
   volumeSlider.addEventListener('input', updateVolume)
+  effectsToggle.addEventListener('change', () => app.setEffectsEnabled(effectsToggle.checked))
   
   // 模态框外部点击关闭
   settingsModal.addEventListener('click', (e) => {
@@ -169,8 +250,57 @@ function initializeEventListeners() {
     }
   })
   
+  // 计时模式结果弹窗事件
+  playAgainBtn.addEventListener('click', playAgain)
+  resultsShareBtn.addEventListener('click', () => {
+    hideResults()
+    showShareModal()
+  })
+  closeResultsModal.addEventListener('click', hideResults)
+  resultsModal.addEventListener('click', (e) => {
+    if (e.target === resultsModal) {
+      hideResults()
+    }
+  })
+  
+  // 历史战绩弹窗事件
+  historyBtn.addEventListener('click', showHistory)
+  closeHistoryModal.addEventListener('click', () => historyModal.style.display = 'none')
+  historyModal.addEventListener('click', (e) => {
+    if (e.target === historyModal) {
+      historyModal.style.display = 'none'
+    }
+  })
+  ;[historyModeFilter, historyTransformFilter, historySort].forEach(select => {
+    select.addEventListener('change', renderHistory)
+  })
+  exportHistoryBtn.addEventListener('click', exportHistory)
+  importHistoryBtn.addEventListener('click', () => importHistoryInput.click())
+  importHistoryInput.addEventListener('change', importHistory)
+  
+  // 心情打卡和心情日记事件
+  submitMoodBtn.addEventListener('click', submitMood)
+  skipMoodBtn.addEventListener('click', () => finishMoodCheckIn(null))
+  journalBtn.addEventListener('click', showJournal)
+  journalAxis.addEventListener('change', renderJournal)
+  closeJournalModal.addEventListener('click', () => journalModal.style.display = 'none')
+  journalModal.addEventListener('click', (e) => {
+    if (e.target === journalModal) {
+      journalModal.style.display = 'none'
+    }
+  })
+  
   // 窗口大小变化事件
   window.addEventListener('resize', handleWindowResize)
+
+  // 页面进入往返缓存（persisted）时返回后还要继续使用，只保存会话；真正卸载时按顺序释放所有子系统（释放前会保存会话）
+  window.addEventListener('pagehide', (e) => {
+    if (e.persisted) {
+      void app.saveSession()
+    } else {
+      app.destroy()
+    }
+  })
 }
 
 // 处理窗口大小变化
@@ -213,8 +343,8 @@ async function handleFile(file: File) {
   try {
     console.log('处理文件:', file.name)
     
-    // 检查文件类型
-    if (!file.type.startsWith('image/')) {
+    // 检查文件类型（HEIC 等格式的 type 可能为空，由 ImageManager 按内容识别）
+    if (file.type && !file.type.startsWith('image/')) {
       showUploadError('请选择图片文件')
       return
     }
@@ -226,86 +356,227 @@ async function handleFile(file: File) {
     }
     
     showUploadProgress()
+    app.beginUpload()
     
-    // 创建图片对象
-    const img = new Image()
-    img.onload = () => {
-      hideUploadProgress()
-      
-      // 保存当前图片引用
-      currentImage = img
-      
-      // 隐藏上传区域，显示游戏区域
-      uploadArea.style.display = 'none'
-      gameArea.style.display = 'flex'
-      
-      // 设置游戏开始时间
-      gameStartTime = Date.now()
-      
-      // 更新状态文本
-      statusText.textContent = '开始点击图片发泄情绪吧！'
-      
-      // 设置Canvas尺寸（圆形区域）
-      const size = Math.min(gameArea.clientWidth, gameArea.clientHeight)
-      gameCanvas.width = size
-      gameCanvas.height = size
-      
-      // 绘制图片到Canvas（圆形裁剪）
-      const ctx = gameCanvas.getContext('2d')!
-      ctx.save()
-      
-      // 创建圆形裁剪路径
-      ctx.beginPath()
-      ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2)
-      ctx.clip()
-      
-      // 计算图片缩放和位置
-      const scale = Math.max(size / img.width, size / img.height)
-      const scaledWidth = img.width * scale
-      const scaledHeight = img.height * scale
-      const x = (size - scaledWidth) / 2
-      const y = (size - scaledHeight) / 2
-      
-      ctx.drawImage(img, x, y, scaledWidth, scaledHeight)
-      ctx.restore()
-      
-      // 设置Canvas点击事件
-      setupCanvasClickEvents()
-      
-      // 显示名字输入框和操作按钮
-      nameInputSection.style.display = 'block'
-      gameActions.style.display = 'block'
-      modifySection.style.display = 'block'
-      
-      console.log('图片加载完成')
-    }
-    
-    img.onerror = () => {
-      hideUploadProgress()
-      showUploadError('图片加载失败')
-    }
+    // 去掉照片中的位置等元数据并按拍摄方向摆正
+    const imageManager = app.getImageManager()
+    const uploaded = await imageManager.uploadImage(file)
+    hideUploadProgress()
+    console.log('图片加载完成')
     
-    img.src = URL.createObjectURL(file)
+    // 先调整图片（裁剪、旋转），再画命中区域、记录心情，最后交给游戏引擎开始游戏
+    editImage(uploaded, async (edit) => {
+      let img = uploaded
+      if (edit && !isIdentityEdit(edit)) {
+        try {
+          img = await imageManager.editImage(uploaded, edit)
+        } catch (error) {
+          console.error('图片调整失败，使用原图:', error)
+        }
+      }
+      
+      // 命中区域按图片的内容键保存（调整后的图片带有调整标识），同一张图片的不同裁剪分别记录
+      const regionKey = imageManager.getContentKey(img)
+      const storedRegions = regionKey ? hitRegionStore.get(regionKey) : []
+      editHitRegions(img, storedRegions, (edited) => {
+        const regions = edited ?? storedRegions
+        if (edited && regionKey) {
+          hitRegionStore.set(regionKey, edited)
+        }
+        
+        checkInMood('before', (rating) => {
+          app.start(img)
+          app.setHitRegions(regions)
+          if (regionKey) {
+            rememberImageKey(regionKey)
+          }
+          app.setMoodBefore(rating)
+          showGameArea()
+          
+          // 更新状态文本
+          statusText.textContent = '开始点击图片发泄情绪吧！'
+        })
+      })
+    })
     
   } catch (error) {
     console.error('文件处理失败:', error)
+    app.cancelUpload()
     hideUploadProgress()
-    showUploadError('文件处理失败')
+    showUploadError(getUploadErrorMessage(error, '文件处理失败'))
+  }
+}
+
+// ImageManager 抛出的错误对象带有具体原因（格式不支持、浏览器无法解码 HEIC 等）
+function getUploadErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error || typeof error !== 'object' || error === null) {
+    return fallback
+  }
+  const { message } = error as { message?: unknown }
+  return typeof message === 'string' ? message : fallback
+}
+
+// 添加目标（可一次选择多张图片）
+function handleTargetFileSelect() {
+  const files = Array.from(targetFileInput.files || [])
+  targetFileInput.value = ''
+
+  files.forEach(async file => {
+    if ((file.type && !file.type.startsWith('image/')) || file.size > defaultGameConfig.maxImageSize) {
+      statusText.textContent = `无法添加 ${file.name}：请选择小于5MB的图片`
+      return
+    }
+
+    let img: HTMLImageElement
+    try {
+      img = await app.getImageManager().uploadImage(file)
+    } catch (error) {
+      statusText.textContent = `无法添加 ${file.name}：${getUploadErrorMessage(error, '图片加载失败')}`
+      return
+    }
+
+    try {
+      const target = app.addTarget(img)
+      const imageKey = app.getImageManager().getContentKey(img)
+      if (imageKey) {
+        app.setHitRegions(hitRegionStore.get(imageKey), target.id)
+        targetImageKeys.set(target.id, imageKey)
+      }
+    } catch (error) {
+      statusText.textContent = '目标数量已达上限'
+    }
+  })
+}
+
+// 渲染目标栏：点击切换当前目标，× 移除目标（至少保留一个）
+function renderTargetBar(stats: GameStats) {
+  // GameApp 构造期间也会通知统计信息
+  if (!app) return
+
+  const targets = app.getTargets()
+  targetList.innerHTML = ''
+
+  targets.forEach((target, index) => {
+    const item = document.createElement('div')
+    item.className = `target-item${target.id === stats.activeTargetId ? ' active' : ''}`
+    item.title = `目标 ${index + 1}`
+
+    const thumbnail = document.createElement('img')
+    thumbnail.src = target.image.src
+    thumbnail.alt = `目标 ${index + 1}`
+
+    const count = document.createElement('span')
+    count.className = 'target-count'
+    count.textContent = target.clickCount.toString()
+
+    item.append(thumbnail, count)
+    item.addEventListener('click', () => app.setActiveTarget(target.id))
+
+    if (targets.length > 1) {
+      const removeBtn = document.createElement('button')
+      removeBtn.className = 'target-remove'
+      removeBtn.textContent = '×'
+      removeBtn.title = '移除目标'
+      removeBtn.addEventListener('click', (e) => {
+        e.stopPropagation()
+        app.removeTarget(target.id)
+      })
+      item.appendChild(removeBtn)
+    }
+
+    targetList.appendChild(item)
+  })
+}
+
+// 隐藏上传区域，显示游戏区域
+function showGameArea() {
+  uploadArea.style.display = 'none'
+  continueSessionBtn.style.display = 'none'
+  modeSelector.style.display = 'none'
+  gameArea.style.display = 'flex'
+  
+  // 设置游戏开始时间
+  gameStartTime = app.getClock().now()
+  
+  // 显示名字输入框和操作按钮
+  nameInputSection.style.display = 'block'
+  gameActions.style.display = 'block'
+  modifySection.style.display = 'block'
+  targetBar.style.display = 'flex'
+}
+
+// 收集随会话保存的界面设置
+function collectUISettings(): Record<string, unknown> {
+  return {
+    volume: parseInt(volumeSlider.value),
+    muted: isMuted,
+    effectsEnabled: effectsToggle.checked,
+    moodCheckIn: moodCheckInToggle.checked,
+    playerName: nameInput.value.trim()
   }
 }
 
-// 触发图片变形
-function triggerImageTransform(phase: 'phase1' | 'phase2') {
-  showLoading()
+// 应用已保存的界面设置
+function applyUISettings(settings: Record<string, unknown>) {
+  if (typeof settings.volume === 'number') {
+    volumeSlider.value = settings.volume.toString()
+    updateVolume()
+  }
+  
+  if (typeof settings.muted === 'boolean' && settings.muted !== isMuted) {
+    toggleMute()
+  }
   
-  // 这里将在后续任务中实现API调用
-  console.log(`触发${phase}阶段图片变形`)
+  if (typeof settings.effectsEnabled === 'boolean') {
+    effectsToggle.checked = settings.effectsEnabled
+    app.setEffectsEnabled(settings.effectsEnabled)
+  }
   
-  // 临时模拟变形完成
-  setTimeout(() => {
-    hideLoading()
-    console.log(`${phase}阶段变形完成`)
-  }, 2000)
+  if (typeof settings.moodCheckIn === 'boolean') {
+    moodCheckInToggle.checked = settings.moodCheckIn
+  }
+  
+  if (typeof settings.playerName === 'string') {
+    nameInput.value = settings.playerName
+    handleNameInput()
+  }
+}
+
+// 有保存的会话时显示"继续上次游戏"按钮
+async function checkSavedSession() {
+  const hasSession = await app.hasSavedSession()
+  continueSessionBtn.style.display = hasSession ? 'block' : 'none'
+}
+
+// 继续上次保存的会话
+async function resumeLastSession() {
+  continueSessionBtn.disabled = true
+  
+  try {
+    const snapshot = await app.resumeLastSession()
+    
+    if (!snapshot) {
+      continueSessionBtn.style.display = 'none'
+      showUploadError('上次的游戏记录已失效')
+      return
+    }
+    
+    showGameArea()
+    applyUISettings(snapshot.settings.ui)
+    updateClickCount(app.getStats())
+    // 保存时已暂停或尚未开始的会话恢复后等玩家点击继续
+    const status = app.getStatus()
+    if (status === 'paused' || status === 'ready') {
+      resumeOverlay.style.display = 'flex'
+    }
+    
+    console.log('已继续上次游戏 - 点击数:', snapshot.state.clickCount)
+  } catch (error) {
+    console.error('继续上次游戏失败:', error)
+    showUploadError('继续上次游戏失败')
+  } finally {
+    continueSessionBtn.disabled = false
+  }
 }
 
 // 重置游戏
@@ -313,20 +584,20 @@ function resetGame() {
   console.log('重置游戏')
   
   // 重置游戏状态
-  clickCount = 0
-  gameState = 'initial'
+  app.reset()
   gameStartTime = 0
-  isTransformed = false
-  currentImage = null
   
   // 重置UI状态
   gameArea.style.display = 'none'
   uploadArea.style.display = 'flex'
+  modeSelector.style.display = 'flex'
   resetUploadArea()
+  hideResults()
   
   // 隐藏操作按钮和修改按钮
   gameActions.style.display = 'none'
   modifySection.style.display = 'none'
+  targetBar.style.display = 'none'
   
   // 隐藏名字输入框和漂浮名字
   nameInputSection.style.display = 'none'
@@ -338,34 +609,430 @@ function resetGame() {
   // 重置状态文本
   statusText.textContent = '等待上传照片'
   
-  // 重置计数器显示
-  updateClickCount(0)
-  
   // 清空文件输入和名字输入
   fileInput.value = ''
   nameInput.value = ''
   
-  // 清空Canvas
-  const ctx = gameCanvas.getContext('2d')
-  if (ctx) {
-    ctx.clearRect(0, 0, gameCanvas.width, gameCanvas.height)
-  }
-  
   console.log('游戏重置完成')
 }
 
+// 选择游戏模式
+function selectMode(mode: GameMode) {
+  app.setMode(mode)
+  modeSelector.querySelectorAll<HTMLButtonElement>('.mode-btn').forEach(button => {
+    button.classList.toggle('active', button.dataset.mode === mode)
+  })
+  console.log('选择模式:', mode)
+}
+
+// 显示计时模式结果
+function showResults(result: TimedResult) {
+  resultScore.textContent = result.score.toString()
+  resultAverageCPS.textContent = `${result.averageCPS.toFixed(1)} 次/秒`
+  resultPeakCPS.textContent = `${result.peakCPS.toFixed(1)} 次/秒`
+  resultPersonalBest.textContent = result.personalBest.score.toString()
+  newRecordBadge.style.display = result.isNewBest ? 'block' : 'none'
+  resultsModal.style.display = 'flex'
+  
+  console.log('冲刺结束 - 得分:', result.score, '新纪录:', result.isNewBest)
+}
+
+function hideResults() {
+  resultsModal.style.display = 'none'
+}
+
+// 一局结束：刷新个人最佳时提示新纪录
+function handleSessionRecorded(result: SessionRecordResult) {
+  const fieldNames: Record<PersonalBestField, string> = {
+    score: '得分',
+    clicks: '点击数',
+    maxCombo: '最高连击'
+  }
+
+  if (result.newRecords.length > 0) {
+    const fields = result.newRecords.map(field => fieldNames[field]).join('、')
+    showToast(`🏆 新纪录！${formatModeKey(result.record.mode)}${fields}刷新个人最佳`)
+  }
+
+  checkInMood('after', (rating) => {
+    if (rating) {
+      app.setMoodAfter(result.record.id, rating)
+    }
+  })
+
+  if (historyModal.style.display === 'flex') {
+    renderHistory()
+  }
+}
+
+// 模式键的显示名称
+function formatModeKey(mode: string): string {
+  if (mode.startsWith('timed:')) {
+    return `计时${Number(mode.slice(6)) / 1000}秒`
+  }
+  return mode === 'boss' ? 'Boss 挑战' : '经典模式'
+}
+
+function formatDuration(duration: number): string {
+  const seconds = Math.floor(duration / 1000)
+  return `${Math.floor(seconds / 60)}分${seconds % 60}秒`
+}
+
+// 显示历史战绩
+function showHistory() {
+  renderHistory()
+  historyModal.style.display = 'flex'
+}
+
+// 按筛选和排序条件渲染历史战绩及各模式个人最佳
+function renderHistory() {
+  const history = app.getHistory()
+  if (!history) return
+
+  const query: SessionHistoryQuery = {
+    sortBy: historySort.value as SessionHistoryQuery['sortBy'],
+    mode: historyModeFilter.value || undefined,
+    transformed: historyTransformFilter.value ? historyTransformFilter.value === 'true' : undefined
+  }
+  const records = history.query(query)
+
+  const personalBests = app.getPersonalBestStore()
+  historyBests.innerHTML = ''
+  personalBests?.getModes().forEach(mode => {
+    const bests = personalBests.get(mode)!
+    const item = document.createElement('span')
+    item.className = 'history-best'
+    item.textContent = `${formatModeKey(mode)}：最高 ${bests.score} 分 / ${bests.clicks} 次 / ${bests.maxCombo} 连击`
+    historyBests.appendChild(item)
+  })
+
+  historyList.innerHTML = ''
+  if (records.length === 0) {
+    historyList.innerHTML = '<div class="history-empty">还没有战绩，快去发泄一下吧！</div>'
+    return
+  }
+
+  const rows = [['时间', '模式', '得分', '点击/连击', '时长']].concat(records.map(record => [
+    new Date(record.playedAt).toLocaleString(),
+    `${formatModeKey(record.mode)}${record.transformed ? ' 🐾' : ''}`,
+    record.score.toString(),
+    `${record.clicks} / ${record.maxCombo}`,
+    formatDuration(record.duration)
+  ]))
+
+  rows.forEach((cells, index) => {
+    const row = document.createElement('div')
+    row.className = index === 0 ? 'history-row header' : 'history-row'
+    cells.forEach(text => {
+      const cell = document.createElement('span')
+      cell.textContent = text
+      row.appendChild(cell)
+    })
+    historyList.appendChild(row)
+  })
+}
+
+// 导出历史战绩为 JSON 文件
+function exportHistory() {
+  const history = app.getHistory()
+  if (!history) return
+
+  const blob = new Blob([history.exportJSON()], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `emotion-game-history-${new Date().toISOString().slice(0, 10)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// 从 JSON 文件导入历史战绩
+async function importHistory() {
+  const file = importHistoryInput.files?.[0]
+  const history = app.getHistory()
+  importHistoryInput.value = ''
+  if (!file || !history) return
+
+  try {
+    const added = history.importJSON(await file.text())
+    showToast(`已导入 ${added} 条战绩`)
+    renderHistory()
+  } catch (error) {
+    console.error('导入历史战绩失败:', error)
+    alert('导入失败：文件格式不正确')
+  }
+}
+
+// 心情打卡：关闭打卡时直接以 null 继续
+function checkInMood(checkIn: MoodCheckIn, onDone: (rating: MoodRating | null) => void) {
+  if (!moodCheckInToggle.checked) {
+    onDone(null)
+    return
+  }
+
+  // 上一次打卡还没完成时按跳过处理
+  finishMoodCheckIn(null)
+  pendingMood = { score: null, tags: new Set(), onDone }
+
+  moodTitle.textContent = checkIn === 'before' ? '开始之前，现在心情怎么样？' : '发泄完了，现在心情怎么样？'
+  moodNote.value = ''
+  submitMoodBtn.disabled = true
+
+  moodScaleElement.innerHTML = ''
+  moodScale.forEach(level => {
+    const option = document.createElement('button')
+    option.className = 'mood-option'
+    option.innerHTML = `${level.emoji}<span>${level.label}</span>`
+    option.addEventListener('click', () => {
+      if (!pendingMood) return
+      pendingMood.score = level.value
+      submitMoodBtn.disabled = false
+      moodScaleElement.querySelectorAll('.mood-option').forEach(item => {
+        item.classList.toggle('selected', item === option)
+      })
+    })
+    moodScaleElement.appendChild(option)
+  })
+
+  moodTagsElement.innerHTML = ''
+  emotionTags.forEach(tag => {
+    const chip = document.createElement('button')
+    chip.className = 'mood-tag'
+    chip.textContent = tag
+    chip.addEventListener('click', () => {
+      if (!pendingMood) return
+      if (!pendingMood.tags.delete(tag)) {
+        pendingMood.tags.add(tag)
+      }
+      chip.classList.toggle('selected', pendingMood.tags.has(tag))
+    })
+    moodTagsElement.appendChild(chip)
+  })
+
+  moodModal.style.display = 'flex'
+}
+
+function submitMood() {
+  if (!pendingMood || pendingMood.score === null) return
+
+  finishMoodCheckIn({
+    score: pendingMood.score,
+    tags: Array.from(pendingMood.tags),
+    note: moodNote.value.trim()
+  })
+}
+
+function finishMoodCheckIn(rating: MoodRating | null) {
+  if (!pendingMood) return
+
+  const { onDone } = pendingMood
+  pendingMood = null
+  moodModal.style.display = 'none'
+  onDone(rating)
+}
+
+// 打开图片编辑器，完成时返回调整，跳过时返回 null
+function editImage(image: HTMLImageElement, onDone: (edit: ImageEdit | null) => void) {
+  // 上一次调整还没完成时按跳过处理
+  finishImageEdit(null)
+  pendingImageEdit = onDone
+  imageEditor.open(image)
+  imageEditModal.style.display = 'flex'
+}
+
+function finishImageEdit(edit: ImageEdit | null) {
+  if (!pendingImageEdit) return
+
+  const onDone = pendingImageEdit
+  pendingImageEdit = null
+  imageEditModal.style.display = 'none'
+  onDone(edit)
+}
+
+// 打开命中区域编辑器，完成时返回画好的区域，跳过时返回 null
+function editHitRegions(image: HTMLImageElement, regions: HitRegion[], onDone: (regions: HitRegion[] | null) => void) {
+  // 上一次编辑还没完成时按跳过处理
+  finishRegionEdit(null)
+  pendingRegionEdit = onDone
+  hitRegionEditor.open(image, regions)
+  hitRegionModal.style.display = 'flex'
+}
+
+function finishRegionEdit(regions: HitRegion[] | null) {
+  if (!pendingRegionEdit) return
+
+  const onDone = pendingRegionEdit
+  pendingRegionEdit = null
+  hitRegionModal.style.display = 'none'
+  onDone(regions)
+}
+
+// 游戏中编辑当前目标的命中区域，编辑期间暂停游戏
+function editActiveTargetRegions() {
+  const targetId = app.getStats().activeTargetId
+  const target = app.getTargets().find(item => item.id === targetId)
+  if (!target) return
+
+  const wasPlaying = app.getStatus() === 'playing'
+  if (wasPlaying) {
+    app.pause()
+  }
+
+  editHitRegions(target.image, app.getHitRegions(target.id), (regions) => {
+    if (regions) {
+      app.setHitRegions(regions, target.id)
+      const imageKey = targetImageKeys.get(target.id)
+      if (imageKey) {
+        hitRegionStore.set(imageKey, regions)
+      }
+    }
+    if (wasPlaying) {
+      app.resume()
+    }
+  })
+}
+
+// 记录当前目标对应的图片键，游戏中编辑区域时按它保存
+function rememberImageKey(imageKey: string) {
+  const { activeTargetId } = app.getStats()
+  if (activeTargetId) {
+    targetImageKeys.set(activeTargetId, imageKey)
+  }
+}
+
+// 显示心情日记
+function showJournal() {
+  renderJournal()
+  journalModal.style.display = 'flex'
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`
+}
+
+// 渲染心情日记：心情变化与时间、点击数或时长的关系
+function renderJournal() {
+  const history = app.getHistory()
+  const entries = history ? history.getMoodJournal() : []
+  const summary = summarizeMoodJournal(entries)
+
+  journalSummary.innerHTML = ''
+  journalChart.innerHTML = ''
+  if (entries.length === 0) {
+    journalChart.innerHTML = '<div class="history-empty">游戏前后都记录心情后，这里会显示变化</div>'
+    return
+  }
+
+  const summaryItems = [
+    `共 ${summary.entries} 局，平均心情 ${formatDelta(summary.averageDelta)}`,
+    `${Math.round(summary.improvedRate * 100)}% 的局心情变好`
+  ].concat(Object.entries(summary.byMode).map(([mode, item]) =>
+    `${formatModeKey(mode)}：${formatDelta(item.averageDelta)}（${item.entries} 局）`
+  ))
+  summaryItems.forEach(text => {
+    const item = document.createElement('span')
+    item.className = 'history-best'
+    item.textContent = text
+    journalSummary.appendChild(item)
+  })
+
+  journalChart.appendChild(createJournalChart(entries, journalAxis.value as 'playedAt' | 'clicks' | 'duration'))
+}
+
+// 绘制散点图：纵轴为心情变化，横轴按时间顺序、点击数或时长
+function createJournalChart(entries: MoodJournalEntry[], axis: 'playedAt' | 'clicks' | 'duration'): SVGSVGElement {
+  const svgNS = 'http://www.w3.org/2000/svg'
+  const width = 500
+  const height = 220
+  const padding = 30
+  const maxDelta = MOOD_MAX - MOOD_MIN
+
+  const svg = document.createElementNS(svgNS, 'svg')
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`)
+
+  const createElement = (tag: string, attributes: Record<string, string | number>) => {
+    const element = document.createElementNS(svgNS, tag)
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value.toString()))
+    svg.appendChild(element)
+    return element
+  }
+
+  const toY = (delta: number) => height / 2 - (delta / maxDelta) * (height / 2 - padding)
+  const maxValue = axis === 'playedAt' ? 0 : Math.max(...entries.map(entry => entry[axis]), 1)
+  const toX = (entry: MoodJournalEntry, index: number) => {
+    const ratio = axis === 'playedAt'
+      ? (entries.length > 1 ? index / (entries.length - 1) : 0.5)
+      : entry[axis] / maxValue
+    return padding + ratio * (width - padding * 2)
+  }
+
+  createElement('line', { class: 'journal-axis', x1: padding, y1: toY(0), x2: width - padding, y2: toY(0) })
+  ;[maxDelta, 0, -maxDelta].forEach(delta => {
+    createElement('text', { class: 'journal-label', x: 2, y: toY(delta) + 3 }).textContent = formatDelta(delta)
+  })
+
+  entries.forEach((entry, index) => {
+    const point = createElement('circle', {
+      class: entry.mode.startsWith('timed') ? 'journal-point timed' : 'journal-point',
+      cx: toX(entry, index),
+      cy: toY(entry.delta),
+      r: 5
+    })
+    const title = document.createElementNS(svgNS, 'title')
+    title.textContent = [
+      new Date(entry.playedAt).toLocaleString(),
+      formatModeKey(entry.mode),
+      `心情 ${entry.before.score} → ${entry.after.score}`,
+      `${entry.clicks} 次点击，${formatDuration(entry.duration)}`,
+      entry.after.tags.join('、'),
+      entry.after.note
+    ].filter(Boolean).join('\n')
+    point.appendChild(title)
+  })
+
+  return svg
+}
+
+// 用同一张图片再来一局
+function playAgain() {
+  hideResults()
+  transformNotification.style.display = 'none'
+  checkInMood('before', (rating) => {
+    app.restart()
+    app.setMoodBefore(rating)
+    gameStartTime = app.getClock().now()
+  })
+}
+
 // 更新点击计数
-function updateClickCount(count: number) {
+function updateClickCount(stats: GameStats) {
+  const count = stats.clickCount
+  const threshold = stats.nextPhaseThreshold
   clickCountElement.textContent = count.toString()
+  renderTargetBar(stats)
   
-  // 更新状态文本
-  if (count === 0) {
+  // 更新状态文本（以引擎状态机为准）
+  if (stats.status === 'uploading') {
+    statusText.textContent = '正在读取照片...'
+  } else if (!stats.hasImage) {
+    statusText.textContent = '等待上传照片'
+  } else if (stats.status === 'completed') {
+    statusText.textContent = stats.mode === 'timed'
+      ? `时间到！本局点击 ${count} 次`
+      : stats.boss
+        ? `K.O.！${stats.boss.hits} 次命中击倒目标`
+        : `已完成全部变身！本局点击 ${count} 次`
+  } else if (stats.status === 'paused') {
+    statusText.textContent = '已暂停'
+  } else if (stats.boss) {
+    statusText.textContent = stats.boss.health > 0
+      ? `Boss 血量 ${stats.boss.health} / ${stats.boss.maxHealth}`
+      : 'K.O.！'
+  } else if (count === 0) {
     statusText.textContent = '开始点击图片发泄情绪吧！'
-  } else if (count < 10) {
-    statusText.textContent = `再点击 ${10 - count} 次可以变身！`
-  } else if (count === 10 && !isTransformed) {
-    statusText.textContent = '可以变身了！点击变身按钮！'
-  } else if (isTransformed) {
+  } else if (!isTransformed(stats) && threshold !== null) {
+    statusText.textContent = `再点击 ${threshold - count} 次可以变身！`
+  } else if (isTransformed(stats)) {
     statusText.textContent = '已变身为可爱宠物！继续点击吧！'
   } else {
     statusText.textContent = `已点击 ${count} 次！`
@@ -377,6 +1044,7 @@ let isMuted = false
 
 function toggleMute() {
   isMuted = !isMuted
+  app.setMuted(isMuted)
   volumeBtn.textContent = isMuted ? '🔇' : '🔊'
   console.log('音量状态:', isMuted ? '静音' : '开启')
 }
@@ -384,6 +1052,7 @@ function toggleMute() {
 function updateVolume() {
   const volume = parseInt(volumeSlider.value)
   volumeValue.textContent = volume.toString()
+  app.setVolume(volume / 100)
   console.log('音量设置为:', volume)
 }
 
@@ -436,7 +1105,7 @@ function showUploadError(message: string) {
   uploadArea.classList.add('error')
   
   // 3秒后恢复原始状态
-  setTimeout(() => {
+  app.getClock().setTimeout(() => {
     resetUploadArea()
   }, 3000)
 }
@@ -450,15 +1119,13 @@ function resetUploadArea() {
     uploadContent.innerHTML = `
       <div class="upload-icon">📷</div>
       <p>点击或拖拽上传照片</p>
-      <p class="upload-hint">支持 JPG、PNG、WEBP 格式，最大 5MB</p>
+      <p class="upload-hint">${UPLOAD_HINT}</p>
     `
   }
 }
 
-// 触发变身效果
+// 显示变身效果
 function triggerTransformation() {
-  isTransformed = true
-  
   // 显示变身通知
   transformNotification.style.display = 'block'
   
@@ -470,7 +1137,7 @@ function triggerTransformation() {
   modifySection.style.display = 'block'
   
   // 3秒后隐藏通知
-  setTimeout(() => {
+  app.getClock().setTimeout(() => {
     transformNotification.style.display = 'none'
   }, 3000)
   
@@ -479,50 +1146,25 @@ function triggerTransformation() {
 
 // 手动变身（通过按钮触发）
 function manualTransform() {
-  if (!isTransformed && clickCount >= 10) {
-    triggerTransformation()
-  } else if (!isTransformed) {
-    const remaining = 10 - clickCount
-    alert(`还需要点击 ${remaining} 次才能变身！\n当前点击数: ${clickCount}/10`)
+  const stats = app.getStats()
+  const threshold = stats.nextPhaseThreshold
+  
+  if (!isTransformed(stats) && threshold !== null) {
+    const remaining = threshold - stats.clickCount
+    alert(`还需要点击 ${remaining} 次才能变身！\n当前点击数: ${stats.clickCount}/${threshold}`)
   } else {
     alert('已经变身为可爱宠物了！')
   }
   
-  console.log('手动变身尝试 - 点击数:', clickCount, '变身状态:', isTransformed)
-}
-
-// 添加点击特效
-function addClickEffect(x: number, y: number) {
-  const ctx = gameCanvas.getContext('2d')
-  if (!ctx) return
-  
-  // 创建简单的点击特效
-  const effect = document.createElement('div')
-  effect.style.position = 'absolute'
-  effect.style.left = `${x}px`
-  effect.style.top = `${y}px`
-  effect.style.width = '20px'
-  effect.style.height = '20px'
-  effect.style.background = 'rgba(102, 126, 234, 0.8)'
-  effect.style.borderRadius = '50%'
-  effect.style.pointerEvents = 'none'
-  effect.style.animation = 'clickEffect 0.5s ease-out forwards'
-  effect.style.zIndex = '10'
-  
-  gameArea.appendChild(effect)
-  
-  // 0.5秒后移除特效
-  setTimeout(() => {
-    if (effect.parentNode) {
-      effect.parentNode.removeChild(effect)
-    }
-  }, 500)
+  console.log('手动变身尝试 - 点击数:', stats.clickCount, '变身状态:', isTransformed(stats))
 }
 
 // 显示分享弹窗
 function showShareModal() {
+  const stats = app.getStats()
+  const transformed = isTransformed(stats)
   // 计算游戏时长
-  const gameTime = gameStartTime > 0 ? Date.now() - gameStartTime : 0
+  const gameTime = gameStartTime > 0 ? app.getClock().now() - gameStartTime : 0
   const minutes = Math.floor(gameTime / 60000)
   const seconds = Math.floor((gameTime % 60000) / 1000)
   
@@ -530,14 +1172,57 @@ function showShareModal() {
   const playerName = nameInput.value.trim() || '匿名玩家'
   
   // 更新分享数据
-  shareClickCount.textContent = clickCount.toString()
+  shareScore.textContent = stats.criticalHits > 0
+    ? `${stats.score.toLocaleString()}（暴击 ${stats.criticalHits} 次）`
+    : stats.score.toLocaleString()
+  shareClickCount.textContent = stats.clickCount.toString()
   shareGameTime.textContent = `${minutes}分${seconds}秒`
-  shareTransformStatus.textContent = isTransformed ? '已变身为可爱宠物' : '未变身'
+  shareTransformStatus.textContent = transformed ? '已变身为可爱宠物' : '未变身'
+  renderShareAchievements()
   
   // 显示弹窗
   shareModal.style.display = 'flex'
   
-  console.log('显示分享弹窗 - 玩家:', playerName, '点击数:', clickCount, '变身状态:', isTransformed)
+  console.log('显示分享弹窗 - 玩家:', playerName, '得分:', stats.score, '点击数:', stats.clickCount, '变身状态:', transformed)
+}
+
+// 在分享弹窗中显示成就徽章，本局解锁的高亮
+function renderShareAchievements() {
+  const achievements = app.getAchievements()
+  const sessionIds = new Set(app.getSessionAchievements().map(unlock => unlock.achievement.id))
+  const unlockedCount = achievements.filter(achievement => achievement.unlocked).length
+
+  shareAchievementCount.textContent = `${unlockedCount}/${achievements.length}`
+  shareAchievementBadges.innerHTML = ''
+  achievements.forEach(achievement => {
+    const badge = document.createElement('span')
+    badge.className = 'achievement-badge'
+    badge.classList.toggle('unlocked', achievement.unlocked)
+    badge.classList.toggle('new', sessionIds.has(achievement.id))
+    badge.textContent = `${achievement.icon} ${achievement.name}`
+    badge.title = achievement.description
+    shareAchievementBadges.appendChild(badge)
+  })
+}
+
+// 显示提示，3秒后消失
+function showToast(text: string) {
+  const toast = document.createElement('div')
+  toast.className = 'achievement-toast'
+  toast.textContent = text
+  achievementToasts.appendChild(toast)
+
+  app.getClock().setTimeout(() => toast.remove(), 3000)
+}
+
+// 成就解锁提示
+function showAchievementToast(unlock: AchievementUnlock) {
+  showToast(`${unlock.achievement.icon} 解锁成就「${unlock.achievement.name}」`)
+
+  // 分享弹窗打开时同步更新徽章
+  if (shareModal.style.display === 'flex') {
+    renderShareAchievements()
+  }
 }
 
 // 隐藏分享弹窗
@@ -547,15 +1232,19 @@ function hideShareModal() {
 
 // 微信分享处理
 function shareToWechatHandler() {
+  app.recordShare()
+  const stats = app.getStats()
+  const transformed = isTransformed(stats)
   const playerName = nameInput.value.trim() || '匿名玩家'
-  const gameTime = gameStartTime > 0 ? Date.now() - gameStartTime : 0
+  const gameTime = gameStartTime > 0 ? app.getClock().now() - gameStartTime : 0
   const minutes = Math.floor(gameTime / 60000)
   const seconds = Math.floor((gameTime % 60000) / 1000)
   
   const shareText = `${playerName}在情绪发泄小游戏中的战绩：\n` +
-    `🎯 点击次数: ${clickCount}次\n` +
+    `🏆 总得分: ${stats.score}分\n` +
+    `🎯 点击次数: ${stats.clickCount}次\n` +
     `⏱️ 游戏时长: ${minutes}分${seconds}秒\n` +
-    `🐾 变身状态: ${isTransformed ? '已变身为可爱宠物' : '未变身'}\n` +
+    `🐾 变身状态: ${transformed ? '已变身为可爱宠物' : '未变身'}\n` +
     `快来挑战我的记录吧！`
   
   // 检查是否在微信环境
@@ -573,12 +1262,15 @@ function shareToWechatHandler() {
 
 // 微博分享处理
 function shareToWeiboHandler() {
+  app.recordShare()
+  const stats = app.getStats()
+  const transformed = isTransformed(stats)
   const playerName = nameInput.value.trim() || '匿名玩家'
-  const gameTime = gameStartTime > 0 ? Date.now() - gameStartTime : 0
+  const gameTime = gameStartTime > 0 ? app.getClock().now() - gameStartTime : 0
   const minutes = Math.floor(gameTime / 60000)
   const seconds = Math.floor((gameTime % 60000) / 1000)
   
-  const shareText = `${playerName}在#情绪发泄小游戏#中的战绩：点击${clickCount}次，游戏${minutes}分${seconds}秒，${isTransformed ? '成功变身为可爱宠物' : '未变身'}！快来挑战我的记录吧！`
+  const shareText = `${playerName}在#情绪发泄小游戏#中的战绩：得分${stats.score}，点击${stats.clickCount}次，游戏${minutes}分${seconds}秒，${transformed ? '成功变身为可爱宠物' : '未变身'}！快来挑战我的记录吧！`
   const shareUrl = window.location.href
   const weiboUrl = `https://service.weibo.com/share/share.php?url=${encodeURIComponent(shareUrl)}&title=${encodeURIComponent(shareText)}`
   
@@ -589,15 +1281,19 @@ function shareToWeiboHandler() {
 
 // 复制分享链接
 function copyShareLinkHandler() {
+  app.recordShare()
+  const stats = app.getStats()
+  const transformed = isTransformed(stats)
   const playerName = nameInput.value.trim() || '匿名玩家'
-  const gameTime = gameStartTime > 0 ? Date.now() - gameStartTime : 0
+  const gameTime = gameStartTime > 0 ? app.getClock().now() - gameStartTime : 0
   const minutes = Math.floor(gameTime / 60000)
   const seconds = Math.floor((gameTime % 60000) / 1000)
   
   const shareText = `${playerName}在情绪发泄小游戏中的战绩：\n` +
-    `🎯 点击次数: ${clickCount}次\n` +
+    `🏆 总得分: ${stats.score}分\n` +
+    `🎯 点击次数: ${stats.clickCount}次\n` +
     `⏱️ 游戏时长: ${minutes}分${seconds}秒\n` +
-    `🐾 变身状态: ${isTransformed ? '已变身为可爱宠物' : '未变身'}\n` +
+    `🐾 变身状态: ${transformed ? '已变身为可爱宠物' : '未变身'}\n` +
     `快来挑战我的记录吧！\n` +
     `游戏链接: ${window.location.href}`
   
@@ -662,12 +1358,26 @@ function initializeApp() {
   // 初始化游戏核心组件
   initializeGameCore()
   
+  // 初始化命中区域编辑器
+  hitRegionEditor = new HitRegionEditor({
+    container: hitRegionEditorContainer,
+    onSave: (regions) => finishRegionEdit(regions),
+    onCancel: () => finishRegionEdit(null)
+  })
+  imageEditor = new ImageEditor({
+    container: imageEditorContainer,
+    onConfirm: (edit) => finishImageEdit(edit),
+    onCancel: () => finishImageEdit(null)
+  })
+  
   // 初始化事件监听器
   initializeEventListeners()
   
   // 设置初始状态
-  updateClickCount(0)
+  uploadArea.querySelector('.upload-hint')!.textContent = UPLOAD_HINT
+  updateClickCount(app.getStats())
   hideLoading()
+  void checkSavedSession()
   
   console.log('应用初始化完成!')
 }
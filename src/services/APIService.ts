@@ -12,12 +12,16 @@ import type {
   APIRequestResult
 } from '@/types/api.types';
 import { getAPIConfig, type APIConfig } from '@/config/api.config';
+import type { TransformType } from '@/config/phases.config';
+import { hashText } from '@/utils/ContentHash';
+import { blobToDataUrl, dataUrlToBlob, type ImageCache } from './ImageCache';
 
 export interface APIServiceOptions {
   apiConfig?: APIConfig;
   enableRetry?: boolean;
   enableCache?: boolean;
   maxCacheSize?: number;
+  imageCache?: ImageCache | null; // 持久缓存，变形结果按图片内容哈希保存，刷新后仍可复用
 }
 
 export interface TransformOptions {
@@ -54,6 +58,7 @@ export class APIService {
       enableRetry: true,
       enableCache: true,
       maxCacheSize: 50,
+      imageCache: null,
       ...options
     };
 
@@ -78,7 +83,7 @@ export class APIService {
    */
   async transformImage(
     imageBase64: string, 
-    transformType: 'light' | 'heavy',
+    transformType: TransformType,
     options: TransformOptions = {}
   ): Promise<string> {
     if (!this.config.jimengAI.apiKey) {
@@ -93,9 +98,11 @@ export class APIService {
     const requestId = `transform_${++this.requestIdCounter}`;
     
     try {
+      const requestKey = await this.generateRequestKey(imageBase64, transformType, options);
+
       // 检查缓存
       if (this.options.enableCache) {
-        const cachedResult = this.getCachedResult(imageBase64, transformType, options);
+        const cachedResult = await this.getCachedResult(requestKey);
         if (cachedResult) {
           console.log('Using cached transformation result');
           return cachedResult;
@@ -103,7 +110,6 @@ export class APIService {
       }
 
       // 检查是否有相同的请求正在进行
-      const requestKey = this.generateRequestKey(imageBase64, transformType, options);
       if (this.activeRequests.has(requestKey)) {
         console.log('Waiting for existing request to complete');
         return await this.activeRequests.get(requestKey)!;
@@ -139,16 +145,25 @@ export class APIService {
    */
   private async performTransformation(
     imageBase64: string,
-    transformType: 'light' | 'heavy',
+    transformType: TransformType,
     options: TransformOptions,
     requestId: string
   ): Promise<string> {
     const jimengConfig = this.config.jimengAI;
+    const prompt = options.customPrompt || jimengConfig.transformPrompts[transformType];
+
+    if (!prompt) {
+      throw this.createAPIError(
+        'INVALID_REQUEST',
+        `No prompt configured for transform preset: ${transformType}`,
+        { transformType, requestId }
+      );
+    }
     
     // 构建请求参数
     const request: JimengImageTransformRequest = {
       model: jimengConfig.defaultModel,
-      prompt: options.customPrompt || jimengConfig.transformPrompts[transformType],
+      prompt,
       image: this.cleanBase64(imageBase64),
       strength: options.strength || jimengConfig.defaultParams.strength[transformType],
       steps: options.steps || jimengConfig.defaultParams.steps,
@@ -304,13 +319,13 @@ export class APIService {
   /**
    * 生成请求键
    */
-  private generateRequestKey(
+  private async generateRequestKey(
     imageBase64: string,
     transformType: string,
     options: TransformOptions
-  ): string {
-    // 使用图片的哈希和参数生成唯一键
-    const imageHash = this.simpleHash(imageBase64);
+  ): Promise<string> {
+    // 使用图片内容的哈希和参数生成唯一键，同一张图片（不论DataURL前缀）得到相同的键
+    const imageHash = await hashText(this.cleanBase64(imageBase64));
     const optionsStr = JSON.stringify({
       transformType,
       ...options
@@ -332,33 +347,42 @@ export class APIService {
   }
 
   /**
-   * 获取缓存结果
+   * 获取缓存结果，内存中没有时查找持久缓存
    */
-  private getCachedResult(
-    imageBase64: string,
-    transformType: string,
-    options: TransformOptions
-  ): string | null {
-    const key = this.generateRequestKey(imageBase64, transformType, options);
+  private async getCachedResult(key: string): Promise<string | null> {
     const entry = this.requestCache.get(key);
-    
-    if (!entry) {
-      return null;
-    }
 
     // 检查是否过期
-    if (Date.now() > entry.expiresAt) {
+    if (entry && Date.now() > entry.expiresAt) {
       this.requestCache.delete(key);
+    } else if (entry) {
+      return entry.result;
+    }
+
+    const imageCache = this.options.imageCache;
+    if (!imageCache) {
       return null;
     }
 
-    return entry.result;
+    try {
+      const blob = await imageCache.get(this.getPersistentKey(key));
+      if (!blob) {
+        return null;
+      }
+
+      const result = await blobToDataUrl(blob);
+      this.cacheResult(key, result, false);
+      return result;
+    } catch (error) {
+      console.warn('Failed to read cached transformation result:', error);
+      return null;
+    }
   }
 
   /**
-   * 缓存结果
+   * 缓存结果，persist 为 true 时同时写入持久缓存
    */
-  private cacheResult(key: string, result: string): void {
+  private cacheResult(key: string, result: string, persist: boolean = true): void {
     // 检查缓存大小限制
     if (this.requestCache.size >= this.options.maxCacheSize) {
       // 删除最老的条目
@@ -376,6 +400,22 @@ export class APIService {
     };
 
     this.requestCache.set(key, entry);
+
+    const imageCache = this.options.imageCache;
+    if (persist && imageCache) {
+      Promise.resolve()
+        .then(() => imageCache.put(this.getPersistentKey(key), dataUrlToBlob(result)))
+        .catch(error => {
+          console.warn('Failed to persist transformation result:', error);
+        });
+    }
+  }
+
+  /**
+   * 变形结果在持久缓存中的键
+   */
+  private getPersistentKey(requestKey: string): string {
+    return `transform:${requestKey}`;
   }
 
   /**
@@ -423,7 +463,7 @@ export class APIService {
    * 批量变形图片
    */
   async batchTransformImages(
-    images: Array<{ data: string; type: 'light' | 'heavy'; options?: TransformOptions }>,
+    images: Array<{ data: string; type: TransformType; options?: TransformOptions }>,
     onProgress?: (completed: number, total: number) => void
   ): Promise<string[]> {
     const results: string[] = [];
@@ -483,7 +523,7 @@ export class APIService {
   }
 
   /**
-   * 清除缓存
+   * 清除内存中的缓存（持久缓存由 ImageCache 管理）
    */
   clearCache(): void {
     this.requestCache.clear();
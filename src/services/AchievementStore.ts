@@ -0,0 +1,61 @@
+/**
+ * 成就进度存储
+ * 保存已解锁的成就和累计计数，使用 localStorage，不可用时只在内存中保留
+ */
+
+const STORAGE_KEY = 'achievements';
+
+export interface AchievementProgress {
+  unlocked: Record<string, number>; // 成就 id -> 解锁时间
+  counters: Record<string, number>; // 累计计数（点击、变形、分享、最高连击）
+}
+
+/**
+ * 成就进度存储类
+ */
+export class AchievementStore {
+  private storage: Storage | null;
+
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+  }
+
+  /**
+   * 读取成就进度
+   */
+  load(): AchievementProgress {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      return {
+        unlocked: parsed?.unlocked && typeof parsed.unlocked === 'object' ? parsed.unlocked : {},
+        counters: parsed?.counters && typeof parsed.counters === 'object' ? parsed.counters : {}
+      };
+    } catch (error) {
+      console.warn('Failed to read achievements:', error);
+      return { unlocked: {}, counters: {} };
+    }
+  }
+
+  /**
+   * 保存成就进度
+   */
+  save(progress: AchievementProgress): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(progress));
+    } catch (error) {
+      console.warn('Failed to save achievements:', error);
+    }
+  }
+
+  /**
+   * 清除全部进度
+   */
+  clear(): void {
+    try {
+      this.storage?.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to clear achievements:', error);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * 命中区域存储
+ * 按图片的内容键（见 ImageManager.getContentKey）保存玩家画的命中区域，再次上传同一张图片时恢复，使用 localStorage，不可用时只在内存中保留
+ */
+
+import { cloneHitRegion, isValidHitRegion, type HitRegion } from '@/core/HitRegions';
+
+const STORAGE_KEY = 'hit_regions';
+
+interface StoredRegions {
+  regions: HitRegion[];
+  savedAt: number;
+}
+
+export interface HitRegionStoreOptions {
+  storage?: Storage | null;
+  maxImages?: number; // 最多保存的图片数，超出时丢弃最久未保存的
+}
+
+/**
+ * 命中区域存储类
+ */
+export class HitRegionStore {
+  private storage: Storage | null;
+  private maxImages: number;
+  private entries: Record<string, StoredRegions>;
+
+  constructor(options: HitRegionStoreOptions = {}) {
+    this.storage = options.storage !== undefined
+      ? options.storage
+      : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.maxImages = options.maxImages ?? 50;
+    this.entries = this.read();
+  }
+
+  /**
+   * 获取图片的命中区域，没有保存时返回空列表
+   */
+  get(imageKey: string): HitRegion[] {
+    // 返回副本，避免调用方修改存储中的数据
+    const entry = this.entries[imageKey];
+    return entry ? entry.regions.map(region => cloneHitRegion(region)) : [];
+  }
+
+  /**
+   * 保存图片的命中区域，空列表会删除记录
+   */
+  set(imageKey: string, regions: HitRegion[]): void {
+    if (regions.length === 0) {
+      this.remove(imageKey);
+      return;
+    }
+
+    this.entries[imageKey] = { regions: regions.map(region => cloneHitRegion(region)), savedAt: Date.now() };
+
+    const keys = Object.keys(this.entries);
+    if (keys.length > this.maxImages) {
+      keys
+        .sort((a, b) => this.entries[a].savedAt - this.entries[b].savedAt)
+        .slice(0, keys.length - this.maxImages)
+        .forEach(key => delete this.entries[key]);
+    }
+
+    this.write();
+  }
+
+  /**
+   * 删除图片的命中区域
+   */
+  remove(imageKey: string): void {
+    if (!this.entries[imageKey]) return;
+
+    delete this.entries[imageKey];
+    this.write();
+  }
+
+  private read(): Record<string, StoredRegions> {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      if (!parsed || typeof parsed !== 'object') {
+        return {};
+      }
+
+      // 丢弃无法识别的区域
+      const entries: Record<string, StoredRegions> = {};
+      Object.entries<any>(parsed).forEach(([key, entry]) => {
+        if (entry && Array.isArray(entry.regions)) {
+          entries[key] = { regions: entry.regions.filter(isValidHitRegion), savedAt: Number(entry.savedAt) || 0 };
+        }
+      });
+      return entries;
+    } catch (error) {
+      console.warn('Failed to read hit regions:', error);
+      return {};
+    }
+  }
+
+  private write(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('Failed to save hit regions:', error);
+    }
+  }
+}
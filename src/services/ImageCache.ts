@@ -0,0 +1,327 @@
+/**
+ * 图片缓存
+ * 按内容哈希把图片数据（上传的处理结果、变形结果等）保存到IndexedDB，刷新页面后仍然可用
+ * 总大小超出容量时按最近使用时间淘汰；不支持IndexedDB的环境只在内存中缓存
+ */
+
+export interface ImageCacheOptions {
+  databaseName?: string;
+  maxBytes?: number; // 容量（字节）
+  indexedDB?: IDBFactory | null; // null 表示只在内存中缓存
+  now?: () => number;
+}
+
+export interface ImageCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  persistent: boolean;
+}
+
+/**
+ * 条目信息，和图片数据分开保存，淘汰时不必读出图片
+ */
+interface ImageCacheRecord {
+  key: string;
+  size: number;
+  lastUsed: number;
+}
+
+const RECORD_STORE = 'records';
+const BLOB_STORE = 'blobs';
+
+/**
+ * DataURL 转为 Blob（缓存以 Blob 保存图片）
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Invalid data URL');
+  }
+
+  const [, mimeType, base64, data] = match;
+  if (!base64) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Blob 转为 DataURL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 图片缓存类
+ */
+export class ImageCache {
+  private options: Required<Omit<ImageCacheOptions, 'indexedDB'>>;
+  private factory: IDBFactory | null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private recordsPromise: Promise<Map<string, ImageCacheRecord>> | null = null;
+  private memory: Map<string, Blob> = new Map();
+
+  constructor(options: ImageCacheOptions = {}) {
+    this.options = {
+      databaseName: 'emotion-release-game-images',
+      maxBytes: 50 * 1024 * 1024, // 50MB
+      now: () => Date.now(),
+      ...options
+    };
+
+    this.factory = options.indexedDB !== undefined
+      ? options.indexedDB
+      : (typeof indexedDB !== 'undefined' ? indexedDB : null);
+  }
+
+  /**
+   * 是否保存到IndexedDB
+   */
+  isPersistent(): boolean {
+    return this.factory !== null;
+  }
+
+  /**
+   * 读取图片，同时记为最近使用
+   */
+  async get(key: string): Promise<Blob | null> {
+    const records = await this.loadRecords();
+    const record = records.get(key);
+    if (!record) return null;
+
+    const blob = await this.readBlob(key);
+    if (!blob) {
+      // 数据已丢失（如被浏览器清理），去掉条目
+      await this.delete(key);
+      return null;
+    }
+
+    record.lastUsed = this.options.now();
+    await this.writeEntry(record, null);
+    return blob;
+  }
+
+  /**
+   * 是否有该条目
+   */
+  async has(key: string): Promise<boolean> {
+    return (await this.loadRecords()).has(key);
+  }
+
+  /**
+   * 保存图片，超出容量时淘汰最久未使用的条目；单张超过容量的图片不保存
+   */
+  async put(key: string, blob: Blob): Promise<void> {
+    if (blob.size > this.options.maxBytes) return;
+
+    const records = await this.loadRecords();
+    const record: ImageCacheRecord = { key, size: blob.size, lastUsed: this.options.now() };
+    records.set(key, record);
+    await this.writeEntry(record, blob);
+    await this.evict(key);
+  }
+
+  /**
+   * 删除条目
+   */
+  async delete(key: string): Promise<void> {
+    const records = await this.loadRecords();
+    if (!records.delete(key)) return;
+
+    await this.removeEntries([key]);
+  }
+
+  /**
+   * 清空缓存
+   */
+  async clear(): Promise<void> {
+    const records = await this.loadRecords();
+    const keys = Array.from(records.keys());
+    records.clear();
+    await this.removeEntries(keys);
+  }
+
+  /**
+   * 获取缓存统计
+   */
+  async getStats(): Promise<ImageCacheStats> {
+    const records = await this.loadRecords();
+    return {
+      entries: records.size,
+      bytes: this.getTotalBytes(records),
+      maxBytes: this.options.maxBytes,
+      persistent: this.isPersistent()
+    };
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  destroy(): void {
+    if (this.dbPromise) {
+      this.dbPromise.then(db => db.close()).catch(() => {});
+      this.dbPromise = null;
+    }
+    this.recordsPromise = null;
+    this.memory.clear();
+  }
+
+  /**
+   * 按最近使用时间从旧到新淘汰，直到总大小不超过容量（keep 为刚保存的条目，不淘汰）
+   */
+  private async evict(keep: string): Promise<void> {
+    const records = await this.loadRecords();
+    let bytes = this.getTotalBytes(records);
+    if (bytes <= this.options.maxBytes) return;
+
+    const evicted: string[] = [];
+    const candidates = Array.from(records.values())
+      .filter(record => record.key !== keep)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const record of candidates) {
+      if (bytes <= this.options.maxBytes) break;
+      records.delete(record.key);
+      evicted.push(record.key);
+      bytes -= record.size;
+    }
+
+    await this.removeEntries(evicted);
+  }
+
+  private getTotalBytes(records: Map<string, ImageCacheRecord>): number {
+    let bytes = 0;
+    records.forEach(record => {
+      bytes += record.size;
+    });
+    return bytes;
+  }
+
+  /**
+   * 条目索引，首次使用时从数据库读出
+   */
+  private loadRecords(): Promise<Map<string, ImageCacheRecord>> {
+    if (!this.recordsPromise) {
+      this.recordsPromise = this.factory
+        ? this.runTransaction<ImageCacheRecord[]>('readonly', records => records.getAll())
+          .then(list => new Map(list.map(record => [record.key, record])))
+        : Promise.resolve(new Map());
+
+      // 读取失败时下次重试
+      this.recordsPromise.catch(() => {
+        this.recordsPromise = null;
+      });
+    }
+    return this.recordsPromise;
+  }
+
+  private async readBlob(key: string): Promise<Blob | null> {
+    if (!this.factory) {
+      return this.memory.get(key) || null;
+    }
+
+    const blob = await this.runTransaction<Blob | undefined>('readonly', (_, blobs) => blobs.get(key));
+    return blob || null;
+  }
+
+  /**
+   * 保存条目信息，blob 为 null 时只更新信息
+   */
+  private async writeEntry(record: ImageCacheRecord, blob: Blob | null): Promise<void> {
+    if (!this.factory) {
+      if (blob) {
+        this.memory.set(record.key, blob);
+      }
+      return;
+    }
+
+    await this.runTransaction('readwrite', (records, blobs) => {
+      records.put(record);
+      if (blob) {
+        blobs.put(blob, record.key);
+      }
+    });
+  }
+
+  private async removeEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    if (!this.factory) {
+      keys.forEach(key => this.memory.delete(key));
+      return;
+    }
+
+    await this.runTransaction('readwrite', (records, blobs) => {
+      keys.forEach(key => {
+        records.delete(key);
+        blobs.delete(key);
+      });
+    });
+  }
+
+  /**
+   * 打开数据库
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = this.factory!.open(this.options.databaseName, 1);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORD_STORE)) {
+          db.createObjectStore(RECORD_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * 在同时包含条目信息和图片数据的事务中执行操作，返回操作中请求的结果
+   */
+  private async runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (records: IDBObjectStore, blobs: IDBObjectStore) => IDBRequest | void
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction([RECORD_STORE, BLOB_STORE], mode);
+      const request = operation(
+        transaction.objectStore(RECORD_STORE),
+        transaction.objectStore(BLOB_STORE)
+      );
+
+      transaction.oncomplete = () => resolve(request ? request.result as T : undefined as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
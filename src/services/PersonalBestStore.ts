@@ -0,0 +1,112 @@
+/**
+ * 个人最佳记录存储
+ * 按模式保存最高分、单局最多点击和最高连击，使用 localStorage，不可用时只在内存中保留
+ * 计时结算的新纪录和历史战绩的新纪录提示都以这里的记录为准
+ */
+
+const STORAGE_KEY = 'personal_bests';
+
+export type PersonalBestField = 'score' | 'clicks' | 'maxCombo';
+
+export interface PersonalBestRecord {
+  score: number;
+  clicksPerSecond: number; // 最高分那一局的平均点击速度
+  achievedAt: number; // 最高分那一局的时间
+  clicks: number; // 单局最多点击
+  maxCombo: number; // 单局最高连击
+}
+
+export interface PersonalBestSubmission {
+  best: PersonalBestRecord;
+  previous: PersonalBestRecord | null;
+  isNewBest: boolean; // 得分是否为该模式最高（第一局也算）
+  newRecords: PersonalBestField[]; // 刷新的个人最佳项（该模式第一局不算）
+}
+
+const RECORD_FIELDS: PersonalBestField[] = ['score', 'clicks', 'maxCombo'];
+
+/**
+ * 个人最佳记录存储类
+ */
+export class PersonalBestStore {
+  private storage: Storage | null;
+  private records: Record<string, PersonalBestRecord>;
+
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+    this.records = this.read();
+  }
+
+  /**
+   * 获取某个模式的最佳记录
+   */
+  get(modeKey: string): PersonalBestRecord | null {
+    return this.records[modeKey] ? { ...this.records[modeKey] } : null;
+  }
+
+  /**
+   * 获取有记录的模式键
+   */
+  getModes(): string[] {
+    return Object.keys(this.records);
+  }
+
+  /**
+   * 提交一局成绩，各项超过原记录时分别更新
+   */
+  submit(modeKey: string, record: PersonalBestRecord): PersonalBestSubmission {
+    const previous = this.get(modeKey);
+    const newRecords = previous ? RECORD_FIELDS.filter(field => record[field] > previous[field]) : [];
+    const isNewBest = !previous || newRecords.includes('score');
+
+    // 最高分那一局的成绩整体替换，点击和连击各取最大值
+    const best: PersonalBestRecord = isNewBest ? { ...record } : { ...previous! };
+    if (previous) {
+      best.clicks = Math.max(previous.clicks, record.clicks);
+      best.maxCombo = Math.max(previous.maxCombo, record.maxCombo);
+    }
+
+    if (!previous || newRecords.length > 0) {
+      this.records[modeKey] = best;
+      this.write();
+    }
+
+    return { best: { ...best }, previous, isNewBest, newRecords };
+  }
+
+  /**
+   * 清除全部记录
+   */
+  clear(): void {
+    this.records = {};
+    this.write();
+  }
+
+  private read(): Record<string, PersonalBestRecord> {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      if (!parsed || typeof parsed !== 'object') {
+        return {};
+      }
+
+      // 早期的记录只有得分，缺少的项从 0 开始
+      const records: Record<string, PersonalBestRecord> = {};
+      Object.keys(parsed).forEach(modeKey => {
+        records[modeKey] = { clicks: 0, maxCombo: 0, ...parsed[modeKey] };
+      });
+      return records;
+    } catch (error) {
+      console.warn('Failed to read personal bests:', error);
+      return {};
+    }
+  }
+
+  private write(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.warn('Failed to save personal bests:', error);
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * 历史战绩存储
+ * 保存每局游戏的成绩和前后的心情打卡，提供排序筛选、心情日记和 JSON 导入导出（个人最佳见 PersonalBestStore）
+ * 使用 localStorage，不可用时只在内存中保留
+ */
+
+import { MOOD_MAX, MOOD_MIN } from '@/config/mood.config';
+
+const STORAGE_KEY = 'session_history';
+export const SESSION_HISTORY_EXPORT_VERSION = 1;
+
+export interface MoodRating {
+  score: number; // 1-5
+  tags: string[];
+  note: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  playedAt: number;
+  mode: string; // 模式键，如 classic、timed:60000
+  clicks: number;
+  score: number;
+  maxCombo: number;
+  duration: number; // 游戏时长（毫秒）
+  transformed: boolean;
+  moodBefore?: MoodRating; // 开始前的心情打卡（可选）
+  moodAfter?: MoodRating; // 结束后的心情打卡（可选）
+}
+
+export type MoodCheckIn = 'before' | 'after';
+
+export interface MoodJournalEntry {
+  id: string;
+  playedAt: number;
+  mode: string;
+  clicks: number;
+  duration: number;
+  before: MoodRating;
+  after: MoodRating;
+  delta: number; // 心情变化，正数表示变好
+}
+
+export interface MoodJournalSummary {
+  entries: number;
+  averageDelta: number;
+  improvedRate: number; // 心情变好的局数占比 (0-1)
+  byMode: Record<string, { entries: number; averageDelta: number }>;
+}
+
+export interface SessionHistoryQuery {
+  mode?: string; // 模式键，或 'timed' 匹配所有计时模式
+  transformed?: boolean;
+  sortBy?: 'playedAt' | 'score' | 'clicks' | 'maxCombo' | 'duration';
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface SessionHistoryStoreOptions {
+  storage?: Storage | null;
+  maxRecords?: number; // 超出时丢弃最早的记录
+}
+
+/**
+ * 历史战绩存储类
+ */
+export class SessionHistoryStore {
+  private storage: Storage | null;
+  private maxRecords: number;
+  private records: SessionRecord[];
+  private idCounter = 0;
+
+  constructor(options: SessionHistoryStoreOptions = {}) {
+    this.storage = options.storage !== undefined
+      ? options.storage
+      : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.maxRecords = options.maxRecords ?? 200;
+    this.records = this.read();
+  }
+
+  /**
+   * 添加一局成绩，返回保存的记录
+   */
+  add(entry: Omit<SessionRecord, 'id'>): SessionRecord {
+    const record: SessionRecord = { ...entry, id: `${entry.playedAt.toString(36)}-${this.idCounter++}` };
+
+    this.records.push(record);
+    this.trim();
+    this.write();
+
+    return { ...record };
+  }
+
+  /**
+   * 获取出现过的模式键
+   */
+  getModes(): string[] {
+    return Array.from(new Set(this.records.map(record => record.mode)));
+  }
+
+  /**
+   * 按条件筛选并排序历史记录，默认按时间从新到旧
+   */
+  query(query: SessionHistoryQuery = {}): SessionRecord[] {
+    const { mode, transformed, sortBy = 'playedAt', order = 'desc', limit } = query;
+    const direction = order === 'asc' ? 1 : -1;
+
+    const results = this.records
+      .filter(record => {
+        if (mode === 'timed') return record.mode.startsWith('timed');
+        return mode === undefined || record.mode === mode;
+      })
+      .filter(record => transformed === undefined || record.transformed === transformed)
+      .sort((a, b) => (a[sortBy] - b[sortBy]) * direction || (a.playedAt - b.playedAt) * direction)
+      .map(record => ({ ...record }));
+
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * 为某一局补充心情打卡，找不到记录时返回 false
+   */
+  setMood(id: string, checkIn: MoodCheckIn, rating: MoodRating): boolean {
+    const record = this.records.find(item => item.id === id);
+    if (!record) {
+      return false;
+    }
+
+    if (!isMoodRating(rating)) {
+      throw new Error(`Invalid mood rating: score must be between ${MOOD_MIN} and ${MOOD_MAX}`);
+    }
+
+    record[checkIn === 'before' ? 'moodBefore' : 'moodAfter'] = { ...rating, tags: [...rating.tags] };
+    this.write();
+    return true;
+  }
+
+  /**
+   * 获取前后都打过卡的局，按时间从旧到新排列
+   */
+  getMoodJournal(query: Omit<SessionHistoryQuery, 'sortBy' | 'order'> = {}): MoodJournalEntry[] {
+    return this.query({ ...query, sortBy: 'playedAt', order: 'asc' })
+      .filter(record => record.moodBefore && record.moodAfter)
+      .map(record => ({
+        id: record.id,
+        playedAt: record.playedAt,
+        mode: record.mode,
+        clicks: record.clicks,
+        duration: record.duration,
+        before: record.moodBefore!,
+        after: record.moodAfter!,
+        delta: record.moodAfter!.score - record.moodBefore!.score
+      }));
+  }
+
+  /**
+   * 导出全部记录为 JSON
+   */
+  exportJSON(): string {
+    return JSON.stringify({
+      version: SESSION_HISTORY_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      records: this.records
+    }, null, 2);
+  }
+
+  /**
+   * 导入 JSON 记录，按 id 去重合并，返回新增的记录数
+   * 数据格式不正确时抛出错误，不修改现有记录
+   */
+  importJSON(json: string): number {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Invalid history file: not JSON');
+    }
+
+    if (!data || data.version !== SESSION_HISTORY_EXPORT_VERSION || !Array.isArray(data.records)) {
+      throw new Error('Invalid history file: unsupported format');
+    }
+
+    const imported = data.records.filter(isSessionRecord) as SessionRecord[];
+    if (imported.length !== data.records.length) {
+      throw new Error('Invalid history file: malformed records');
+    }
+
+    const existingIds = new Set(this.records.map(record => record.id));
+    const added = imported.filter(record => !existingIds.has(record.id));
+
+    this.records.push(...added.map(record => ({ ...record })));
+    this.records.sort((a, b) => a.playedAt - b.playedAt);
+    this.trim();
+    this.write();
+
+    return added.length;
+  }
+
+  /**
+   * 清除全部记录
+   */
+  clear(): void {
+    this.records = [];
+    this.write();
+  }
+
+  private trim(): void {
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  private read(): SessionRecord[] {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter(isSessionRecord) : [];
+    } catch (error) {
+      console.warn('Failed to read session history:', error);
+      return [];
+    }
+  }
+
+  private write(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.warn('Failed to save session history:', error);
+    }
+  }
+}
+
+/**
+ * 检查数据是否为完整的历史记录
+ */
+function isSessionRecord(value: any): value is SessionRecord {
+  return !!value &&
+    typeof value.id === 'string' &&
+    typeof value.mode === 'string' &&
+    typeof value.transformed === 'boolean' &&
+    ['playedAt', 'clicks', 'score', 'maxCombo', 'duration'].every(key => Number.isFinite(value[key])) &&
+    (value.moodBefore === undefined || isMoodRating(value.moodBefore)) &&
+    (value.moodAfter === undefined || isMoodRating(value.moodAfter));
+}
+
+/**
+ * 检查数据是否为有效的心情打卡
+ */
+function isMoodRating(value: any): value is MoodRating {
+  return !!value &&
+    Number.isInteger(value.score) &&
+    value.score >= MOOD_MIN &&
+    value.score <= MOOD_MAX &&
+    Array.isArray(value.tags) &&
+    value.tags.every((tag: unknown) => typeof tag === 'string') &&
+    typeof value.note === 'string';
+}
+
+/**
+ * 汇总心情日记：平均变化、变好的比例和按模式的平均变化
+ */
+export function summarizeMoodJournal(entries: MoodJournalEntry[]): MoodJournalSummary {
+  const average = (items: MoodJournalEntry[]) =>
+    items.length > 0 ? items.reduce((sum, entry) => sum + entry.delta, 0) / items.length : 0;
+
+  const byMode: MoodJournalSummary['byMode'] = {};
+  Array.from(new Set(entries.map(entry => entry.mode))).forEach(mode => {
+    const modeEntries = entries.filter(entry => entry.mode === mode);
+    byMode[mode] = { entries: modeEntries.length, averageDelta: average(modeEntries) };
+  });
+
+  return {
+    entries: entries.length,
+    averageDelta: average(entries),
+    improvedRate: entries.length > 0 ? entries.filter(entry => entry.delta > 0).length / entries.length : 0,
+    byMode
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * 会话存储
+ * 将游戏会话快照保存到IndexedDB，支持快照格式版本迁移
+ */
+
+import type { GameState } from '@/types';
+import type { TransformType } from '@/config/phases.config';
+import { createEmptyScoreStats, type ScoreStats } from '@/core/ScoreSystem';
+import type { HitRegion } from '@/core/HitRegions';
+
+export const SESSION_SNAPSHOT_VERSION = 4;
+
+export interface SerializedTransformRecord {
+  success: boolean;
+  transformType: TransformType;
+  processingTime: number;
+  errorMessage?: string;
+}
+
+/**
+ * 保存时的游戏状态；已结束的一局不保存，变形中按进行中保存
+ */
+export type SessionStatus = 'ready' | 'playing' | 'paused';
+
+export interface SessionSettings {
+  danmaku: {
+    defaultSpeed?: number;
+    maxMessages?: number;
+    defaultFontSize?: number;
+  };
+  ui: Record<string, unknown>;
+}
+
+export interface SessionSnapshot {
+  version: number;
+  savedAt: number;
+  state: {
+    clickCount: number;
+    currentPhase: GameState['currentPhase'];
+    status: SessionStatus;
+  };
+  images: {
+    uploaded: Blob | null;
+    transformed: Blob[];
+  };
+  transformHistory: SerializedTransformRecord[];
+  settings: SessionSettings;
+  score: ScoreStats;
+  hitRegions: HitRegion[]; // 上传图片上的命中区域
+}
+
+/**
+ * 快照迁移函数：把版本 N 的快照升级到版本 N + 1
+ */
+export type SnapshotMigration = (snapshot: any) => any;
+
+/**
+ * 各版本的迁移表，键为迁移前的版本号
+ * 修改 SessionSnapshot 结构时递增 SESSION_SNAPSHOT_VERSION 并在此登记迁移
+ */
+export const snapshotMigrations: Record<number, SnapshotMigration> = {
+  // 版本 2 增加计分统计，旧会话从 0 分开始
+  1: snapshot => ({ ...snapshot, score: createEmptyScoreStats() }),
+  // 版本 3 增加命中区域
+  2: snapshot => ({ ...snapshot, hitRegions: [] }),
+  // 版本 4 增加保存时的游戏状态，旧会话按进行中恢复
+  3: snapshot => ({ ...snapshot, state: { ...snapshot.state, status: 'playing' } })
+};
+
+/**
+ * 快照读写接口，GameEngine 只依赖该接口
+ */
+export interface SnapshotStore {
+  save(snapshot: SessionSnapshot): Promise<void>;
+  load(): Promise<SessionSnapshot | null>;
+  clear(): Promise<void>;
+}
+
+export interface SessionStoreOptions {
+  databaseName?: string;
+  storeName?: string;
+  sessionKey?: string;
+  indexedDB?: IDBFactory;
+  migrations?: Record<number, SnapshotMigration>;
+}
+
+/**
+ * 将任意旧版本快照迁移到当前版本
+ * 无法识别或版本高于当前版本的快照返回 null
+ */
+export function migrateSnapshot(
+  raw: any,
+  migrations: Record<number, SnapshotMigration> = snapshotMigrations,
+  targetVersion: number = SESSION_SNAPSHOT_VERSION
+): SessionSnapshot | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.version !== 'number') {
+    return null;
+  }
+
+  if (raw.version > targetVersion) {
+    console.warn(`Session snapshot version ${raw.version} is newer than supported ${targetVersion}`);
+    return null;
+  }
+
+  let snapshot = raw;
+  while (snapshot.version < targetVersion) {
+    const migrate = migrations[snapshot.version];
+    if (!migrate) {
+      console.warn(`No migration registered for session snapshot version ${snapshot.version}`);
+      return null;
+    }
+
+    const fromVersion = snapshot.version;
+    snapshot = { ...migrate(snapshot), version: fromVersion + 1 };
+  }
+
+  return snapshot as SessionSnapshot;
+}
+
+/**
+ * IndexedDB 会话存储类
+ */
+export class SessionStore implements SnapshotStore {
+  private options: Required<Omit<SessionStoreOptions, 'indexedDB'>>;
+  private factory: IDBFactory | null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.options = {
+      databaseName: 'emotion-release-game',
+      storeName: 'sessions',
+      sessionKey: 'last',
+      migrations: snapshotMigrations,
+      ...options
+    };
+
+    this.factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : null);
+  }
+
+  /**
+   * 检查当前环境是否支持IndexedDB
+   */
+  isSupported(): boolean {
+    return this.factory !== null;
+  }
+
+  /**
+   * 保存快照
+   */
+  async save(snapshot: SessionSnapshot): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.runTransaction('readwrite', store =>
+      store.put(snapshot, this.options.sessionKey)
+    );
+  }
+
+  /**
+   * 读取快照（自动迁移到当前版本）
+   */
+  async load(): Promise<SessionSnapshot | null> {
+    if (!this.isSupported()) return null;
+
+    const raw = await this.runTransaction<any>('readonly', store =>
+      store.get(this.options.sessionKey)
+    );
+
+    if (!raw) return null;
+
+    const snapshot = migrateSnapshot(raw, this.options.migrations);
+    if (!snapshot) {
+      // 无法使用的快照直接丢弃，避免每次启动都提示
+      await this.clear();
+      return null;
+    }
+
+    if (snapshot.version !== raw.version) {
+      await this.save(snapshot);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * 检查是否有可继续的会话
+   */
+  async hasSession(): Promise<boolean> {
+    try {
+      return (await this.load()) !== null;
+    } catch (error) {
+      console.warn('Failed to read saved session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 清除快照
+   */
+  async clear(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.runTransaction('readwrite', store =>
+      store.delete(this.options.sessionKey)
+    );
+  }
+
+  /**
+   * 打开数据库
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = this.factory!.open(this.options.databaseName, 1);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.options.storeName)) {
+          db.createObjectStore(this.options.storeName);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * 执行单个请求的事务
+   */
+  private async runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.options.storeName, mode);
+      const request = operation(transaction.objectStore(this.options.storeName));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  destroy(): void {
+    if (this.dbPromise) {
+      this.dbPromise.then(db => db.close()).catch(() => {});
+      this.dbPromise = null;
+    }
+  }
+}
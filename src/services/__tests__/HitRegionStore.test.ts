@@ -0,0 +1,84 @@
+/**
+ * HitRegionStore 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HitRegionStore } from '../HitRegionStore';
+import type { HitRegion } from '@/core/HitRegions';
+
+const createStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+    clear: () => data.clear(),
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    get length() {
+      return data.size;
+    }
+  };
+};
+
+const createRegion = (name: string): HitRegion => ({
+  id: `region-${name}`,
+  name,
+  shape: { type: 'rect', x: 0, y: 0, width: 0.5, height: 0.5 },
+  multiplier: 2
+});
+
+describe('HitRegionStore', () => {
+  it('应该按图片保存区域，重新创建后仍然可以读取', () => {
+    const storage = createStorage();
+    new HitRegionStore({ storage }).set('image-a', [createRegion('脸')]);
+
+    const store = new HitRegionStore({ storage });
+    expect(store.get('image-a').map(region => region.name)).toEqual(['脸']);
+    expect(store.get('image-b')).toEqual([]);
+  });
+
+  it('返回的区域应该是副本', () => {
+    const store = new HitRegionStore({ storage: createStorage() });
+    store.set('image-a', [createRegion('脸')]);
+
+    store.get('image-a')[0].name = '改名';
+    expect(store.get('image-a')[0].name).toBe('脸');
+  });
+
+  it('保存空列表时应该删除记录', () => {
+    const storage = createStorage();
+    const store = new HitRegionStore({ storage });
+    store.set('image-a', [createRegion('脸')]);
+    store.set('image-a', []);
+
+    expect(new HitRegionStore({ storage }).get('image-a')).toEqual([]);
+  });
+
+  it('超过上限时应该丢弃最早保存的图片', () => {
+    const now = vi.spyOn(Date, 'now');
+    const store = new HitRegionStore({ storage: createStorage(), maxImages: 2 });
+
+    now.mockReturnValue(1);
+    store.set('image-a', [createRegion('a')]);
+    now.mockReturnValue(2);
+    store.set('image-b', [createRegion('b')]);
+    now.mockReturnValue(3);
+    store.set('image-c', [createRegion('c')]);
+
+    expect(store.get('image-a')).toEqual([]);
+    expect(store.get('image-c')).toHaveLength(1);
+    now.mockRestore();
+  });
+
+  it('应该丢弃无效的区域和损坏的数据', () => {
+    const storage = createStorage();
+    storage.setItem('hit_regions', JSON.stringify({
+      'image-a': { regions: [createRegion('脸'), { id: 'bad' }], savedAt: 1 }
+    }));
+    expect(new HitRegionStore({ storage }).get('image-a')).toHaveLength(1);
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    storage.setItem('hit_regions', '{broken');
+    expect(new HitRegionStore({ storage }).get('image-a')).toEqual([]);
+  });
+});
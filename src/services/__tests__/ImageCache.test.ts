@@ -0,0 +1,74 @@
+/**
+ * ImageCache 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ImageCache, blobToDataUrl, dataUrlToBlob } from '../ImageCache';
+
+const blobOfSize = (size: number) => new Blob(['x'.repeat(size)]);
+
+// 内存模式下的缓存，时间由测试控制
+const createCache = (maxBytes: number) => {
+  let time = 0;
+  return new ImageCache({ indexedDB: null, maxBytes, now: () => ++time });
+};
+
+describe('ImageCache', () => {
+  it('不支持 IndexedDB 时在内存中读写', async () => {
+    const cache = createCache(100);
+    const blob = blobOfSize(10);
+
+    expect(cache.isPersistent()).toBe(false);
+    await expect(cache.get('a')).resolves.toBeNull();
+
+    await cache.put('a', blob);
+    await expect(cache.get('a')).resolves.toBe(blob);
+    await expect(cache.has('a')).resolves.toBe(true);
+
+    await cache.delete('a');
+    await expect(cache.has('a')).resolves.toBe(false);
+  });
+
+  it('超出容量时淘汰最久未使用的条目', async () => {
+    const cache = createCache(30);
+    await cache.put('a', blobOfSize(10));
+    await cache.put('b', blobOfSize(10));
+    await cache.put('c', blobOfSize(10));
+
+    // 读取 a 后 b 成为最久未使用
+    await cache.get('a');
+    await cache.put('d', blobOfSize(10));
+
+    expect(await cache.has('a')).toBe(true);
+    expect(await cache.has('b')).toBe(false);
+    expect(await cache.getStats()).toEqual({ entries: 3, bytes: 30, maxBytes: 30, persistent: false });
+
+    // 较大的新条目会淘汰多个旧条目
+    await cache.put('e', blobOfSize(25));
+    expect(await cache.has('e')).toBe(true);
+    expect((await cache.getStats()).entries).toBe(1);
+  });
+
+  it('超过容量的单张图片不保存，重复保存时更新大小', async () => {
+    const cache = createCache(30);
+
+    await cache.put('big', blobOfSize(31));
+    expect(await cache.has('big')).toBe(false);
+
+    await cache.put('a', blobOfSize(10));
+    await cache.put('a', blobOfSize(20));
+    expect((await cache.getStats()).bytes).toBe(20);
+
+    await cache.clear();
+    expect((await cache.getStats()).entries).toBe(0);
+  });
+
+  it('应该在 DataURL 和 Blob 之间转换', async () => {
+    const blob = dataUrlToBlob('data:image/png;base64,YWJj');
+
+    expect(blob.type).toBe('image/png');
+    expect(blob.size).toBe(3);
+    expect(await blobToDataUrl(blob)).toBe('data:image/png;base64,YWJj');
+    expect(() => dataUrlToBlob('not a data url')).toThrow('Invalid data URL');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * PersonalBestStore 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PersonalBestStore } from '../PersonalBestStore';
+
+const createStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+    clear: () => data.clear(),
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    get length() {
+      return data.size;
+    }
+  };
+};
+
+describe('PersonalBestStore', () => {
+  it('第一局成绩应该成为个人最佳', () => {
+    const store = new PersonalBestStore(createStorage());
+    const result = store.submit('timed:60000', { score: 120, clicksPerSecond: 2, achievedAt: 1, clicks: 0, maxCombo: 0 });
+
+    expect(result.isNewBest).toBe(true);
+    expect(result.previous).toBeNull();
+    expect(store.get('timed:60000')!.score).toBe(120);
+  });
+
+  it('只有更高的成绩才会覆盖记录', () => {
+    const store = new PersonalBestStore(createStorage());
+    store.submit('timed:60000', { score: 120, clicksPerSecond: 2, achievedAt: 1, clicks: 0, maxCombo: 0 });
+
+    const lower = store.submit('timed:60000', { score: 100, clicksPerSecond: 1.7, achievedAt: 2, clicks: 0, maxCombo: 0 });
+    expect(lower.isNewBest).toBe(false);
+    expect(lower.best.score).toBe(120);
+
+    const higher = store.submit('timed:60000', { score: 150, clicksPerSecond: 2.5, achievedAt: 3, clicks: 0, maxCombo: 0 });
+    expect(higher.isNewBest).toBe(true);
+    expect(higher.previous!.score).toBe(120);
+  });
+
+  it('点击数和连击应该各自保留最高值，并标出刷新的项', () => {
+    const store = new PersonalBestStore(createStorage());
+    const first = store.submit('classic', { score: 100, clicksPerSecond: 2, achievedAt: 1, clicks: 10, maxCombo: 5 });
+    expect(first.newRecords).toEqual([]);
+
+    const second = store.submit('classic', { score: 80, clicksPerSecond: 3, achievedAt: 2, clicks: 12, maxCombo: 4 });
+    expect(second.isNewBest).toBe(false);
+    expect(second.newRecords).toEqual(['clicks']);
+    expect(second.best).toEqual({ score: 100, clicksPerSecond: 2, achievedAt: 1, clicks: 12, maxCombo: 5 });
+
+    const third = store.submit('classic', { score: 150, clicksPerSecond: 1, achievedAt: 3, clicks: 9, maxCombo: 7 });
+    expect(third.isNewBest).toBe(true);
+    expect(third.newRecords).toEqual(['score', 'maxCombo']);
+    expect(store.get('classic')).toEqual({ score: 150, clicksPerSecond: 1, achievedAt: 3, clicks: 12, maxCombo: 7 });
+    expect(store.getModes()).toEqual(['classic']);
+  });
+
+  it('早期只有得分的记录应该补全其他项', () => {
+    const storage = createStorage();
+    storage.setItem('personal_bests', JSON.stringify({ 'timed:60000': { score: 80, clicksPerSecond: 1.3, achievedAt: 1 } }));
+
+    expect(new PersonalBestStore(storage).get('timed:60000')).toEqual({
+      score: 80, clicksPerSecond: 1.3, achievedAt: 1, clicks: 0, maxCombo: 0
+    });
+  });
+
+  it('不同模式的记录应该分开保存', () => {
+    const store = new PersonalBestStore(createStorage());
+    store.submit('timed:60000', { score: 120, clicksPerSecond: 2, achievedAt: 1, clicks: 0, maxCombo: 0 });
+
+    expect(store.get('timed:30000')).toBeNull();
+  });
+
+  it('记录应该在新实例中保留', () => {
+    const storage = createStorage();
+    new PersonalBestStore(storage).submit('timed:60000', { score: 80, clicksPerSecond: 1.3, achievedAt: 1, clicks: 0, maxCombo: 0 });
+
+    expect(new PersonalBestStore(storage).get('timed:60000')!.score).toBe(80);
+  });
+
+  it('存储数据损坏时应该从空记录开始', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createStorage();
+    storage.setItem('personal_bests', '{not json');
+
+    expect(new PersonalBestStore(storage).get('timed:60000')).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * SessionHistoryStore 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SessionHistoryStore, summarizeMoodJournal, type SessionRecord } from '../SessionHistoryStore';
+
+const createStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+    clear: () => data.clear(),
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    get length() {
+      return data.size;
+    }
+  };
+};
+
+const createEntry = (overrides: Partial<Omit<SessionRecord, 'id'>> = {}): Omit<SessionRecord, 'id'> => ({
+  playedAt: 1000,
+  mode: 'classic',
+  clicks: 10,
+  score: 100,
+  maxCombo: 5,
+  duration: 5000,
+  transformed: false,
+  ...overrides
+});
+
+describe('SessionHistoryStore', () => {
+  it('添加的记录应该带有 id 并保存', () => {
+    const storage = createStorage();
+    const store = new SessionHistoryStore({ storage });
+
+    const first = store.add(createEntry());
+    const second = store.add(createEntry({ playedAt: 2000, mode: 'timed:60000' }));
+    expect(first.id).not.toBe(second.id);
+    expect(first).toMatchObject(createEntry());
+
+    expect(new SessionHistoryStore({ storage }).query({ order: 'asc' })).toEqual([first, second]);
+    expect(store.getModes()).toEqual(['classic', 'timed:60000']);
+  });
+
+  it('应该按条件筛选和排序', () => {
+    const store = new SessionHistoryStore({ storage: createStorage() });
+    store.add(createEntry({ playedAt: 1000, score: 300 }));
+    store.add(createEntry({ playedAt: 2000, score: 100, mode: 'timed:30000', transformed: true }));
+    store.add(createEntry({ playedAt: 3000, score: 200, mode: 'timed:60000' }));
+
+    expect(store.query().map(record => record.playedAt)).toEqual([3000, 2000, 1000]);
+    expect(store.query({ sortBy: 'score', order: 'asc' }).map(record => record.score)).toEqual([100, 200, 300]);
+    expect(store.query({ mode: 'timed' })).toHaveLength(2);
+    expect(store.query({ mode: 'classic' })).toHaveLength(1);
+    expect(store.query({ transformed: true }).map(record => record.playedAt)).toEqual([2000]);
+    expect(store.query({ sortBy: 'score', limit: 1 })[0].score).toBe(300);
+  });
+
+  it('记录应该持久化，超过上限时丢弃最早的记录', () => {
+    const storage = createStorage();
+    const store = new SessionHistoryStore({ storage, maxRecords: 2 });
+    store.add(createEntry({ playedAt: 1000 }));
+    store.add(createEntry({ playedAt: 2000 }));
+    store.add(createEntry({ playedAt: 3000 }));
+
+    const reloaded = new SessionHistoryStore({ storage });
+    expect(reloaded.query({ order: 'asc' }).map(record => record.playedAt)).toEqual([2000, 3000]);
+  });
+
+  it('导出后导入应该按 id 去重合并', () => {
+    const source = new SessionHistoryStore({ storage: createStorage() });
+    source.add(createEntry({ playedAt: 1000 }));
+    source.add(createEntry({ playedAt: 2000 }));
+    const json = source.exportJSON();
+
+    const target = new SessionHistoryStore({ storage: createStorage() });
+    target.add(createEntry({ playedAt: 500 }));
+
+    expect(target.importJSON(json)).toBe(2);
+    expect(target.importJSON(json)).toBe(0);
+    expect(target.query({ order: 'asc' }).map(record => record.playedAt)).toEqual([500, 1000, 2000]);
+  });
+
+  it('导入格式不正确的文件时应该报错且不修改记录', () => {
+    const store = new SessionHistoryStore({ storage: createStorage() });
+    store.add(createEntry());
+
+    expect(() => store.importJSON('not json')).toThrow('Invalid history file');
+    expect(() => store.importJSON(JSON.stringify({ version: 99, records: [] }))).toThrow('Invalid history file');
+    expect(() => store.importJSON(JSON.stringify({ version: 1, records: [{ id: 'x' }] }))).toThrow('Invalid history file');
+    expect(store.query()).toHaveLength(1);
+  });
+
+  it('心情日记只包含前后都打过卡的局，并计算心情变化', () => {
+    const store = new SessionHistoryStore({ storage: createStorage() });
+    const calm = { score: 4, tags: ['平静'], note: '' };
+
+    const first = store.add(createEntry({ playedAt: 1000, moodBefore: { score: 1, tags: ['愤怒'], note: '加班' } }));
+    const second = store.add(createEntry({ playedAt: 2000, mode: 'timed:60000', moodBefore: calm }));
+    store.add(createEntry({ playedAt: 3000, moodBefore: calm }));
+
+    expect(store.setMood(first.id, 'after', calm)).toBe(true);
+    expect(store.setMood(second.id, 'after', { score: 3, tags: [], note: '' })).toBe(true);
+    expect(store.setMood('missing', 'after', calm)).toBe(false);
+    expect(() => store.setMood(first.id, 'after', { score: 9, tags: [], note: '' })).toThrow('Invalid mood rating');
+
+    const journal = store.getMoodJournal();
+    expect(journal.map(entry => entry.delta)).toEqual([3, -1]);
+    expect(store.getMoodJournal({ mode: 'classic' })).toHaveLength(1);
+
+    const summary = summarizeMoodJournal(journal);
+    expect(summary.entries).toBe(2);
+    expect(summary.averageDelta).toBe(1);
+    expect(summary.improvedRate).toBe(0.5);
+    expect(summary.byMode['timed:60000']).toEqual({ entries: 1, averageDelta: -1 });
+  });
+
+  it('心情打卡应该随记录持久化和导出', () => {
+    const storage = createStorage();
+    const store = new SessionHistoryStore({ storage });
+    const record = store.add(createEntry({ moodBefore: { score: 2, tags: ['烦躁'], note: '' } }));
+    store.setMood(record.id, 'after', { score: 5, tags: ['轻松'], note: '舒服多了' });
+
+    const reloaded = new SessionHistoryStore({ storage });
+    expect(reloaded.query()[0].moodAfter).toEqual({ score: 5, tags: ['轻松'], note: '舒服多了' });
+
+    const target = new SessionHistoryStore({ storage: createStorage() });
+    target.importJSON(store.exportJSON());
+    expect(target.getMoodJournal()[0].delta).toBe(3);
+  });
+
+  it('存储不可用时应该只在内存中保留', () => {
+    const store = new SessionHistoryStore({ storage: null });
+    store.add(createEntry());
+
+    expect(store.query()).toHaveLength(1);
+    store.clear();
+    expect(store.query()).toHaveLength(0);
+  });
+});
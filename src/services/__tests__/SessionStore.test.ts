@@ -0,0 +1,88 @@
+/**
+ * SessionStore 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SessionStore,
+  migrateSnapshot,
+  SESSION_SNAPSHOT_VERSION,
+  type SnapshotMigration
+} from '../SessionStore';
+
+const createRawSnapshot = (version: number) => ({
+  version,
+  savedAt: 1000,
+  state: { clickCount: 12, currentPhase: 'initial', status: 'paused' },
+  images: { uploaded: null, transformed: [] },
+  transformHistory: [],
+  settings: { danmaku: {}, ui: {} }
+});
+
+describe('migrateSnapshot', () => {
+  it('当前版本的快照应该原样返回', () => {
+    const raw = createRawSnapshot(SESSION_SNAPSHOT_VERSION);
+    expect(migrateSnapshot(raw)).toEqual(raw);
+  });
+
+  it('应该依次执行迁移直到目标版本', () => {
+    const migrations: Record<number, SnapshotMigration> = {
+      1: snapshot => ({ ...snapshot, state: { ...snapshot.state, clickCount: snapshot.state.clickCount * 2 } }),
+      2: snapshot => ({ ...snapshot, savedAt: snapshot.savedAt + 1 })
+    };
+
+    const snapshot = migrateSnapshot(createRawSnapshot(1), migrations, 3);
+
+    expect(snapshot!.version).toBe(3);
+    expect(snapshot!.state.clickCount).toBe(24);
+    expect(snapshot!.savedAt).toBe(1001);
+  });
+
+  it('版本 1 的快照应该补上空的计分统计', () => {
+    const snapshot = migrateSnapshot(createRawSnapshot(1));
+
+    expect(snapshot!.version).toBe(SESSION_SNAPSHOT_VERSION);
+    expect(snapshot!.score).toEqual({ score: 0, hits: 0, criticalHits: 0, bestHit: 0, maxMultiplier: 1 });
+    expect(snapshot!.state.clickCount).toBe(12);
+  });
+
+  it('版本 2 的快照应该补上空的命中区域', () => {
+    const snapshot = migrateSnapshot(createRawSnapshot(2));
+
+    expect(snapshot!.version).toBe(SESSION_SNAPSHOT_VERSION);
+    expect(snapshot!.hitRegions).toEqual([]);
+  });
+
+  it('版本 3 的快照应该按进行中恢复', () => {
+    const snapshot = migrateSnapshot({ ...createRawSnapshot(3), state: { clickCount: 12, currentPhase: 'initial' } });
+
+    expect(snapshot!.version).toBe(SESSION_SNAPSHOT_VERSION);
+    expect(snapshot!.state).toEqual({ clickCount: 12, currentPhase: 'initial', status: 'playing' });
+  });
+
+  it('缺少迁移步骤时应该返回 null', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(migrateSnapshot(createRawSnapshot(1), {}, 2)).toBeNull();
+  });
+
+  it('版本高于当前版本时应该返回 null', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(migrateSnapshot(createRawSnapshot(SESSION_SNAPSHOT_VERSION + 1))).toBeNull();
+  });
+
+  it('无法识别的数据应该返回 null', () => {
+    expect(migrateSnapshot(null)).toBeNull();
+    expect(migrateSnapshot({ state: {} })).toBeNull();
+  });
+});
+
+describe('SessionStore', () => {
+  it('不支持 IndexedDB 时应该静默跳过读写', async () => {
+    const store = new SessionStore();
+
+    expect(store.isSupported()).toBe(false);
+    await expect(store.save(createRawSnapshot(1) as any)).resolves.toBeUndefined();
+    await expect(store.load()).resolves.toBeNull();
+    await expect(store.hasSession()).resolves.toBe(false);
+  });
+});
@@ -2,7 +2,7 @@
 export interface GameState {
   isPlaying: boolean
   clickCount: number
-  currentPhase: 'initial' | 'phase1' | 'phase2' | 'completed'
+  currentPhase: string // 阶段 id，由阶段配置定义
   uploadedImage: HTMLImageElement | null
   transformedImages: HTMLImageElement[]
 }
@@ -86,7 +86,8 @@ export enum ErrorType {
   CANVAS_ERROR = 'CANVAS_ERROR',
   RESOURCE_ERROR = 'RESOURCE_ERROR',
   PERFORMANCE_ERROR = 'PERFORMANCE_ERROR',
-  INTERACTION_ERROR = 'INTERACTION_ERROR'
+  INTERACTION_ERROR = 'INTERACTION_ERROR',
+  PLUGIN_ERROR = 'PLUGIN_ERROR'
 }
 
 export interface GameError {
@@ -0,0 +1,57 @@
+/**
+ * 内容哈希
+ * 按数据内容生成缓存键：使用 SubtleCrypto 的 SHA-256；
+ * 非安全上下文（如通过局域网 http 地址访问）没有 SubtleCrypto，退回 64 位 FNV-1a，键带有 fnv- 前缀以免混用
+ */
+
+/**
+ * 当前环境能否计算 SHA-256
+ */
+export function isSha256Supported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle?.digest === 'function';
+}
+
+/**
+ * 计算数据的哈希（十六进制）
+ */
+export async function hashBuffer(data: BufferSource): Promise<string> {
+  if (!isSha256Supported()) {
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data);
+    return `fnv-${fnv1a64(bytes)}`;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * 计算文本（UTF-8）的哈希
+ */
+export function hashText(text: string): Promise<string> {
+  return hashBuffer(new TextEncoder().encode(text));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 64 位 FNV-1a，用两个 32 位整数分别保存高低位
+ */
+function fnv1a64(bytes: Uint8Array): string {
+  // 偏移基数 0xcbf29ce484222325，质数 0x100000001b3
+  let high = 0xcbf29ce4;
+  let low = 0x84222325;
+
+  for (let i = 0; i < bytes.length; i++) {
+    low = (low ^ bytes[i]) >>> 0;
+    // (high, low) * 0x100000001b3 = (high, low) * 0x1b3 + (low << 40)，低位乘积不超过 2^41，不会丢失精度
+    const product = low * 0x1b3;
+    high = (Math.imul(high, 0x1b3) + Math.floor(product / 0x100000000) + (low << 8)) >>> 0;
+    low = product >>> 0;
+  }
+
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
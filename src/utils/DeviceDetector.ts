@@ -0,0 +1,72 @@
+/**
+ * 设备检测工具
+ * 识别设备类型和浏览器能力
+ */
+
+export interface DeviceInfo {
+  isMobile: boolean;
+  isTablet: boolean;
+  supportsTouch: boolean;
+  supportsVibration: boolean;
+  pixelRatio: number;
+  screenWidth: number;
+  screenHeight: number;
+}
+
+/**
+ * 设备检测器类
+ */
+export class DeviceDetector {
+  private static cachedInfo: DeviceInfo | null = null;
+
+  /**
+   * 获取设备信息
+   */
+  static getDeviceInfo(): DeviceInfo {
+    if (this.cachedInfo) {
+      return this.cachedInfo;
+    }
+
+    const userAgent = navigator.userAgent.toLowerCase();
+    const isTablet = /ipad|tablet|(android(?!.*mobile))/.test(userAgent);
+    const isMobile = !isTablet && /mobi|iphone|ipod|android/.test(userAgent);
+
+    this.cachedInfo = {
+      isMobile,
+      isTablet,
+      supportsTouch: 'ontouchstart' in window || navigator.maxTouchPoints > 0,
+      supportsVibration: 'vibrate' in navigator,
+      pixelRatio: window.devicePixelRatio || 1,
+      screenWidth: window.screen?.width || window.innerWidth,
+      screenHeight: window.screen?.height || window.innerHeight
+    };
+
+    return this.cachedInfo;
+  }
+
+  /**
+   * 检查是否支持Web Audio API
+   */
+  static supportsWebAudio(): boolean {
+    return typeof window !== 'undefined' &&
+      !!(window.AudioContext || (window as any).webkitAudioContext);
+  }
+
+  /**
+   * 触发振动
+   */
+  static vibrate(pattern: number | number[]): boolean {
+    if (!this.getDeviceInfo().supportsVibration) {
+      return false;
+    }
+
+    return navigator.vibrate(pattern);
+  }
+
+  /**
+   * 清除缓存的设备信息（窗口或屏幕变化后使用）
+   */
+  static refresh(): void {
+    this.cachedInfo = null;
+  }
+}
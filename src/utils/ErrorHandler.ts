@@ -362,7 +362,8 @@ export class ErrorHandler {
       [ErrorType.CANVAS_ERROR]: '画布渲染异常，正在切换到安全模式',
       [ErrorType.RESOURCE_ERROR]: '资源加载失败，正在使用备用资源',
       [ErrorType.PERFORMANCE_ERROR]: '性能异常，正在优化游戏设置',
-      [ErrorType.INTERACTION_ERROR]: '交互异常，请刷新页面重试'
+      [ErrorType.INTERACTION_ERROR]: '交互异常，请刷新页面重试',
+      [ErrorType.PLUGIN_ERROR]: '扩展插件运行异常，已跳过该插件的功能'
     };
 
     return messages[error.type] || '发生了未知错误，请刷新页面重试';
@@ -0,0 +1,211 @@
+/**
+ * 类型化事件发射器
+ * 通过事件表约束事件名和事件数据，支持一次性监听、通配监听和优先级
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * 通配监听器，接收所有事件
+ */
+export type WildcardListener<Events extends object> = <K extends keyof Events>(
+  event: K,
+  payload: Events[K]
+) => void;
+
+export interface ListenerOptions {
+  priority?: number; // 数值越大越先执行，相同优先级按注册顺序
+  once?: boolean;
+}
+
+/**
+ * 取消订阅函数
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * emit 的参数：无数据的事件不需要传参
+ */
+export type EventArgs<T> = [T] extends [void] ? [] : [payload: T];
+
+interface ListenerEntry {
+  listener: Function;
+  priority: number;
+  once: boolean;
+}
+
+const WILDCARD = '*';
+
+/**
+ * 事件发射器类
+ * Events 为事件表：事件名 -> 事件数据类型（无数据的事件使用 void）
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<PropertyKey, ListenerEntry[]>();
+  private isDestroyed = false;
+  private name: string;
+
+  constructor(name: string = 'EventEmitter') {
+    this.name = name;
+  }
+
+  /**
+   * 监听事件，返回取消订阅函数
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+    options: ListenerOptions = {}
+  ): Unsubscribe {
+    return this.addListener(event, listener, options);
+  }
+
+  /**
+   * 监听一次事件，触发后自动取消
+   */
+  once<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+    options: Omit<ListenerOptions, 'once'> = {}
+  ): Unsubscribe {
+    return this.addListener(event, listener, { ...options, once: true });
+  }
+
+  /**
+   * 监听所有事件
+   */
+  onAny(listener: WildcardListener<Events>, options: ListenerOptions = {}): Unsubscribe {
+    return this.addListener(WILDCARD, listener, options);
+  }
+
+  /**
+   * 取消监听
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.removeListener(event, listener);
+  }
+
+  /**
+   * 取消通配监听
+   */
+  offAny(listener: WildcardListener<Events>): void {
+    this.removeListener(WILDCARD, listener);
+  }
+
+  /**
+   * 发射事件：先按优先级调用该事件的监听器，再调用通配监听器
+   */
+  emit<K extends keyof Events>(event: K, ...args: EventArgs<Events[K]>): void {
+    if (this.isDestroyed) return;
+
+    const payload = args[0] as Events[K];
+
+    this.dispatch(event, entry => (entry.listener as EventListener<Events[K]>)(payload));
+    this.dispatch(WILDCARD, entry => (entry.listener as WildcardListener<Events>)(event, payload));
+  }
+
+  /**
+   * 获取监听器数量（不传事件名时返回全部数量）
+   */
+  listenerCount(event?: keyof Events | typeof WILDCARD): number {
+    if (event !== undefined) {
+      return this.listeners.get(event)?.length ?? 0;
+    }
+
+    let count = 0;
+    this.listeners.forEach(entries => {
+      count += entries.length;
+    });
+    return count;
+  }
+
+  /**
+   * 移除监听器（不传事件名时移除全部）
+   */
+  removeAllListeners(event?: keyof Events | typeof WILDCARD): void {
+    if (event !== undefined) {
+      this.listeners.delete(event);
+    } else {
+      this.listeners.clear();
+    }
+  }
+
+  /**
+   * 销毁发射器：移除所有监听器，之后的订阅和发射都会被忽略
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+    this.listeners.clear();
+  }
+
+  /**
+   * 添加监听器，按优先级插入
+   */
+  private addListener(event: PropertyKey, listener: Function, options: ListenerOptions): Unsubscribe {
+    if (this.isDestroyed) {
+      return () => {};
+    }
+
+    const entry: ListenerEntry = {
+      listener,
+      priority: options.priority ?? 0,
+      once: options.once ?? false
+    };
+
+    const entries = this.listeners.get(event) || [];
+    const index = entries.findIndex(existing => existing.priority < entry.priority);
+    if (index === -1) {
+      entries.push(entry);
+    } else {
+      entries.splice(index, 0, entry);
+    }
+    this.listeners.set(event, entries);
+
+    return () => this.removeEntry(event, entry);
+  }
+
+  /**
+   * 按监听函数移除（同一函数注册多次时移除最早的一个）
+   */
+  private removeListener(event: PropertyKey, listener: Function): void {
+    const entry = this.listeners.get(event)?.find(existing => existing.listener === listener);
+    if (entry) {
+      this.removeEntry(event, entry);
+    }
+  }
+
+  private removeEntry(event: PropertyKey, entry: ListenerEntry): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+
+    const index = entries.indexOf(entry);
+    if (index > -1) {
+      entries.splice(index, 1);
+    }
+
+    if (entries.length === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * 依次调用监听器，单个监听器出错不影响其他监听器
+   */
+  private dispatch(event: PropertyKey, invoke: (entry: ListenerEntry) => void): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+
+    // 复制一份，监听器内增删订阅不影响本次发射
+    [...entries].forEach(entry => {
+      if (entry.once) {
+        this.removeEntry(event, entry);
+      }
+
+      try {
+        invoke(entry);
+      } catch (error) {
+        console.error(`${this.name}: error in listener for ${String(event)}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * JPEG/EXIF 解析
+ * 读取 EXIF 中的方向标记，并去掉 EXIF、XMP 等可能包含位置和设备信息的元数据段。
+ * 只处理字节，不依赖 Canvas，去掉元数据后的图片由调用方按方向绘制
+ */
+
+/**
+ * EXIF 方向（1 为正常，2-8 为各种旋转和翻转）
+ */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface JpegMetadata {
+  orientation: ExifOrientation;
+  hasExif: boolean;
+  hasXmp: boolean;
+  hasComment: boolean;
+}
+
+/**
+ * 按方向绘制到 Canvas 时使用的尺寸和变换矩阵（ctx.transform 的参数）
+ */
+export interface OrientationTransform {
+  width: number;
+  height: number;
+  matrix: [number, number, number, number, number, number];
+}
+
+interface JpegSegment {
+  marker: number;
+  start: number; // 段起始位置（含 0xFF 标记字节）
+  end: number; // 段结束位置（不含）
+}
+
+const MARKER_SOI = 0xd8;
+const MARKER_EOI = 0xd9;
+const MARKER_SOS = 0xda;
+const MARKER_APP0 = 0xe0;
+const MARKER_APP1 = 0xe1;
+const MARKER_APP2 = 0xe2;
+const MARKER_APP14 = 0xee;
+const MARKER_COM = 0xfe;
+const TAG_ORIENTATION = 0x0112;
+const TYPE_SHORT = 3;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADERS = ['http://ns.adobe.com/xap/1.0/\0', 'http://ns.adobe.com/xmp/extension/\0'];
+
+/**
+ * 是否为 JPEG 数据（以 SOI 标记开头）
+ */
+export function isJpeg(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer);
+  return bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === MARKER_SOI && bytes[2] === 0xff;
+}
+
+/**
+ * 读取 JPEG 的元数据概况，不是 JPEG 时返回 null；EXIF 损坏时方向按 1 处理
+ */
+export function parseJpegMetadata(buffer: ArrayBuffer): JpegMetadata | null {
+  if (!isJpeg(buffer)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const metadata: JpegMetadata = { orientation: 1, hasExif: false, hasXmp: false, hasComment: false };
+
+  for (const segment of readSegments(bytes)) {
+    if (segment.marker === MARKER_COM) {
+      metadata.hasComment = true;
+    } else if (segment.marker === MARKER_APP1) {
+      if (hasHeader(bytes, segment, EXIF_HEADER)) {
+        // 只采用第一个 EXIF 段的方向
+        if (!metadata.hasExif) {
+          metadata.orientation = readOrientation(bytes, segment.start + 4 + EXIF_HEADER.length, segment.end);
+        }
+        metadata.hasExif = true;
+      } else if (XMP_HEADERS.some(header => hasHeader(bytes, segment, header))) {
+        metadata.hasXmp = true;
+      }
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * 读取 JPEG 的 EXIF 方向，不是 JPEG 或没有方向标记时返回 1
+ */
+export function readExifOrientation(buffer: ArrayBuffer): ExifOrientation {
+  return parseJpegMetadata(buffer)?.orientation ?? 1;
+}
+
+/**
+ * 去掉 JPEG 中的元数据段，图像数据原样保留（不重新压缩）。
+ * 保留 JFIF（APP0）、ICC 色彩配置（APP2）和 Adobe 颜色变换（APP14），
+ * 其余 APPn 段（EXIF、XMP、IPTC、MPF 等）、注释段和 EOI 之后的附加数据都会被去掉。
+ * 读到图像扫描数据之前段就损坏时抛出错误，不会返回截断的图片
+ */
+export function stripJpegMetadata(buffer: ArrayBuffer): ArrayBuffer {
+  if (!isJpeg(buffer)) {
+    throw new Error('Not a JPEG image');
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const segments = readSegments(bytes);
+  if (!segments.some(segment => segment.marker === MARKER_SOS)) {
+    throw new Error('Corrupt JPEG: segments end before the image scan');
+  }
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let length = 2;
+
+  for (const segment of segments) {
+    if (!shouldKeepSegment(bytes, segment)) continue;
+
+    const chunk = bytes.subarray(segment.start, segment.end);
+    kept.push(chunk);
+    length += chunk.length;
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  kept.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output.buffer;
+}
+
+/**
+ * 计算按 EXIF 方向摆正图片时 Canvas 的尺寸和变换（width、height 为原始图像尺寸）
+ */
+export function getOrientationTransform(
+  orientation: ExifOrientation,
+  width: number,
+  height: number
+): OrientationTransform {
+  switch (orientation) {
+    case 2: return { width, height, matrix: [-1, 0, 0, 1, width, 0] };
+    case 3: return { width, height, matrix: [-1, 0, 0, -1, width, height] };
+    case 4: return { width, height, matrix: [1, 0, 0, -1, 0, height] };
+    case 5: return { width: height, height: width, matrix: [0, 1, 1, 0, 0, 0] };
+    case 6: return { width: height, height: width, matrix: [0, 1, -1, 0, height, 0] };
+    case 7: return { width: height, height: width, matrix: [0, -1, -1, 0, height, width] };
+    case 8: return { width: height, height: width, matrix: [0, -1, 1, 0, 0, width] };
+    default: return { width, height, matrix: [1, 0, 0, 1, 0, 0] };
+  }
+}
+
+/**
+ * 依次读取 SOI 之后的所有段；图像扫描数据（SOS 之后的熵编码数据）归入 SOS 段，
+ * 读到 EOI 或数据损坏时停止
+ */
+function readSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+
+    const marker = bytes[offset + 1];
+    // 标记前可以有任意个 0xFF 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    if (marker === MARKER_EOI) {
+      segments.push({ marker, start: offset, end: offset + 2 });
+      break;
+    }
+
+    // 没有长度字段的独立标记
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      segments.push({ marker, start: offset, end: offset + 2 });
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 3 >= bytes.length) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+
+    segments.push({
+      marker,
+      start: offset,
+      end: marker === MARKER_SOS ? skipEntropyData(bytes, end) : end
+    });
+    offset = segments[segments.length - 1].end;
+  }
+
+  return segments;
+}
+
+/**
+ * 跳过扫描数据，返回下一个标记的位置（0xFF00 是转义的数据字节，RSTn 属于扫描数据）
+ */
+function skipEntropyData(bytes: Uint8Array, offset: number): number {
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] === 0xff) {
+      const next = bytes[offset + 1];
+      if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) {
+        return offset;
+      }
+    }
+    offset++;
+  }
+  return bytes.length;
+}
+
+function shouldKeepSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+  const { marker } = segment;
+
+  if (marker === MARKER_COM) return false;
+  if (marker === MARKER_APP0) return hasHeader(bytes, segment, 'JFIF\0');
+  if (marker === MARKER_APP2) return hasHeader(bytes, segment, 'ICC_PROFILE\0');
+  if (marker === MARKER_APP14) return hasHeader(bytes, segment, 'Adobe');
+  return marker < MARKER_APP0 || marker > 0xef;
+}
+
+/**
+ * 段数据（长度字段之后）是否以指定的标识开头
+ */
+function hasHeader(bytes: Uint8Array, segment: JpegSegment, header: string): boolean {
+  const start = segment.start + 4;
+  if (start + header.length > segment.end) return false;
+
+  for (let i = 0; i < header.length; i++) {
+    if (bytes[start + i] !== header.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * 从 TIFF 结构的第一个 IFD 中读取方向标记
+ */
+function readOrientation(bytes: Uint8Array, tiffStart: number, end: number): ExifOrientation {
+  if (tiffStart + 8 > end) return 1;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 0x002a) return 1;
+
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > end) return 1;
+
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > end) break;
+
+    if (view.getUint16(entry, littleEndian) === TAG_ORIENTATION) {
+      if (view.getUint16(entry + 2, littleEndian) !== TYPE_SHORT) return 1;
+
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value as ExifOrientation : 1;
+    }
+  }
+
+  return 1;
+}
@@ -0,0 +1,198 @@
+/**
+ * 游戏时钟
+ * 所有子系统共用的时间和定时器：暂停时时间停止、定时器挂起，恢复后按剩余时间继续；
+ * 时间缩放（慢动作）同时作用于时间和定时器。
+ * 真实时间来自 GamePlatform，测试中可使用确定性模式，时间只在 advance 时前进
+ */
+
+import { browserPlatform, type GamePlatform } from './Platform';
+import { VirtualClock } from './VirtualClock';
+
+export interface GameClockOptions {
+  platform?: Pick<GamePlatform, 'now' | 'setTimeout' | 'clearTimeout'>; // 真实时间和定时器的来源
+  deterministic?: boolean; // 使用内部的虚拟时钟（忽略 platform），时间只在 advance 时前进
+}
+
+interface ScheduledTimer {
+  id: number;
+  due: number; // 到期的游戏时间
+  interval: number | null; // 重复定时器的间隔，单次定时器为 null
+  callback: () => void;
+  handle: number | null; // 平台定时器 id，挂起时为 null
+}
+
+/**
+ * 游戏时钟类
+ */
+export class GameClock {
+  private platform: Pick<GamePlatform, 'now' | 'setTimeout' | 'clearTimeout'>;
+  private virtual: VirtualClock | null = null;
+  private anchorTime = 0; // 最近一次暂停、恢复或改变缩放时的游戏时间
+  private anchorRealTime: number; // 与 anchorTime 对应的真实时间
+  private paused = false;
+  private timeScale = 1;
+  private timers = new Map<number, ScheduledTimer>();
+  private nextId = 1;
+
+  constructor(options: GameClockOptions = {}) {
+    if (options.deterministic) {
+      this.virtual = new VirtualClock();
+      this.platform = this.virtual;
+    } else {
+      this.platform = options.platform ?? browserPlatform;
+    }
+
+    this.anchorRealTime = this.platform.now();
+  }
+
+  /**
+   * 游戏时间（毫秒），从创建时钟开始计，暂停期间不前进，按时间缩放前进
+   */
+  now(): number {
+    if (this.paused) {
+      return this.anchorTime;
+    }
+    return this.anchorTime + (this.platform.now() - this.anchorRealTime) * this.timeScale;
+  }
+
+  /**
+   * 按游戏时间延迟执行，返回定时器 id
+   */
+  setTimeout(callback: () => void, delay: number): number {
+    return this.schedule(callback, delay, null);
+  }
+
+  /**
+   * 按游戏时间重复执行，返回定时器 id
+   */
+  setInterval(callback: () => void, interval: number): number {
+    return this.schedule(callback, interval, Math.max(interval, 1));
+  }
+
+  clearTimeout(id: number): void {
+    const timer = this.timers.get(id);
+    if (!timer) return;
+
+    this.disarm(timer);
+    this.timers.delete(id);
+  }
+
+  clearInterval(id: number): void {
+    this.clearTimeout(id);
+  }
+
+  /**
+   * 暂停：时间停止，所有定时器挂起
+   */
+  pause(): void {
+    if (this.paused) return;
+
+    this.anchorTime = this.now();
+    this.paused = true;
+    this.timers.forEach(timer => this.disarm(timer));
+  }
+
+  /**
+   * 恢复：时间继续，定时器按剩余时间重新计时
+   */
+  resume(): void {
+    if (!this.paused) return;
+
+    this.anchorRealTime = this.platform.now();
+    this.paused = false;
+    this.timers.forEach(timer => this.arm(timer));
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * 设置时间缩放（1 为正常速度，小于 1 为慢动作，0 相当于暂停），定时器按新速度重新计时
+   */
+  setTimeScale(scale: number): void {
+    if (!(scale >= 0)) {
+      throw new Error(`Invalid time scale: ${scale}`);
+    }
+
+    this.anchorTime = this.now();
+    this.anchorRealTime = this.platform.now();
+    this.timeScale = scale;
+    this.timers.forEach(timer => {
+      this.disarm(timer);
+      this.arm(timer);
+    });
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * 推进真实时间（仅确定性模式），期间到期的定时器依次触发
+   */
+  advance(ms: number): void {
+    if (!this.virtual) {
+      throw new Error('GameClock.advance requires deterministic mode');
+    }
+    this.virtual.advance(ms);
+  }
+
+  /**
+   * 未触发的定时器数量（含挂起的定时器）
+   */
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * 取消所有定时器
+   */
+  destroy(): void {
+    this.timers.forEach(timer => this.disarm(timer));
+    this.timers.clear();
+  }
+
+  private schedule(callback: () => void, delay: number, interval: number | null): number {
+    const timer: ScheduledTimer = {
+      id: this.nextId++,
+      due: this.now() + Math.max(delay, 0),
+      interval,
+      callback,
+      handle: null
+    };
+
+    this.timers.set(timer.id, timer);
+    this.arm(timer);
+    return timer.id;
+  }
+
+  /**
+   * 按剩余的游戏时间换算为真实时间，向平台注册定时器
+   */
+  private arm(timer: ScheduledTimer): void {
+    if (this.paused || this.timeScale === 0) return;
+
+    const delay = Math.max(0, (timer.due - this.now()) / this.timeScale);
+    timer.handle = this.platform.setTimeout(() => this.fire(timer), delay);
+  }
+
+  private disarm(timer: ScheduledTimer): void {
+    if (timer.handle !== null) {
+      this.platform.clearTimeout(timer.handle);
+      timer.handle = null;
+    }
+  }
+
+  private fire(timer: ScheduledTimer): void {
+    timer.handle = null;
+    if (timer.interval !== null) {
+      timer.due += timer.interval;
+      this.arm(timer);
+    } else {
+      this.timers.delete(timer.id);
+    }
+
+    timer.callback();
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * GIF 解码
+ * 解析 GIF87a/GIF89a 的所有帧（LZW 解压、隔行扫描、透明色和处置方式），
+ * 由 GifCompositor 按处置方式把帧依次合成为完整画面的 RGBA 像素。
+ * 只处理字节，画到 Canvas 由调用方完成
+ */
+
+/**
+ * 帧的处置方式：下一帧绘制前如何处理当前帧的区域
+ */
+export type GifDisposal = 'none' | 'background' | 'previous';
+
+export interface GifFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number; // 显示时长（毫秒）
+  disposal: GifDisposal;
+  transparentIndex: number | null;
+  palette: Uint8Array; // RGB 三元组
+  indices: Uint8Array; // 按行排列的调色板索引（已去隔行）
+}
+
+export interface GifImage {
+  width: number;
+  height: number;
+  frames: GifFrame[];
+  loopCount: number | null; // 0 表示无限循环，null 表示没有循环设置（只播放一次）
+}
+
+// 浏览器把过短的帧间隔按 100ms 播放，这里保持一致
+const MIN_FRAME_DELAY = 20;
+const DEFAULT_FRAME_DELAY = 100;
+const MAX_LZW_CODES = 4096;
+
+/**
+ * 解码 GIF 数据，数据损坏或没有任何帧时抛出错误
+ */
+export function decodeGif(buffer: ArrayBuffer): GifImage {
+  const reader = new ByteReader(new Uint8Array(buffer));
+  const signature = reader.readAscii(6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Invalid GIF data');
+  }
+
+  const width = reader.readUint16();
+  const height = reader.readUint16();
+  const screenFlags = reader.readByte();
+  reader.skip(2); // 背景色索引和像素宽高比
+  const globalPalette = screenFlags & 0x80 ? reader.readBytes(3 * (2 << (screenFlags & 0x07))) : null;
+
+  const frames: GifFrame[] = [];
+  let loopCount: number | null = null;
+  let control = { delay: DEFAULT_FRAME_DELAY, disposal: 'none' as GifDisposal, transparentIndex: null as number | null };
+
+  while (!reader.isAtEnd()) {
+    const blockType = reader.readByte();
+
+    if (blockType === 0x3b) {
+      break;
+    }
+
+    if (blockType === 0x21) {
+      const label = reader.readByte();
+      const data = reader.readSubBlocks();
+
+      if (label === 0xf9 && data.length >= 4) {
+        const flags = data[0];
+        const delay = (data[1] | (data[2] << 8)) * 10;
+        control = {
+          delay: delay < MIN_FRAME_DELAY ? DEFAULT_FRAME_DELAY : delay,
+          disposal: toDisposal((flags >> 2) & 0x07),
+          transparentIndex: flags & 0x01 ? data[3] : null
+        };
+      } else if (label === 0xff) {
+        loopCount = readApplicationLoop(data) ?? loopCount;
+      }
+      continue;
+    }
+
+    if (blockType !== 0x2c) {
+      throw new Error('Invalid GIF data');
+    }
+
+    const x = reader.readUint16();
+    const y = reader.readUint16();
+    const frameWidth = reader.readUint16();
+    const frameHeight = reader.readUint16();
+    const flags = reader.readByte();
+    const localPalette = flags & 0x80 ? reader.readBytes(3 * (2 << (flags & 0x07))) : null;
+    const minCodeSize = reader.readByte();
+    const data = reader.readSubBlocks();
+
+    const palette = localPalette ?? globalPalette;
+    if (!palette || minCodeSize < 2 || minCodeSize > 8) {
+      throw new Error('Invalid GIF data');
+    }
+
+    const pixelCount = frameWidth * frameHeight;
+    if (pixelCount > 0) {
+      const indices = decodeLzw(minCodeSize, data, pixelCount);
+      frames.push({
+        x,
+        y,
+        width: frameWidth,
+        height: frameHeight,
+        ...control,
+        palette,
+        indices: flags & 0x40 ? deinterlace(indices, frameWidth, frameHeight) : indices
+      });
+    }
+
+    // 图形控制扩展只作用于紧随其后的一帧
+    control = { delay: DEFAULT_FRAME_DELAY, disposal: 'none', transparentIndex: null };
+  }
+
+  if (frames.length === 0 || width === 0 || height === 0) {
+    throw new Error('Invalid GIF data');
+  }
+
+  return { width, height, frames, loopCount };
+}
+
+/**
+ * 帧合成器：按处置方式依次合成各帧，得到每一帧显示时的完整画面
+ */
+export class GifCompositor {
+  private gif: GifImage;
+  private pixels: Uint8ClampedArray;
+  private saved: Uint8ClampedArray | null = null; // 处置方式为 previous 的帧绘制前的画面
+  private frameIndex = -1; // 当前画面对应的帧
+  private duration: number;
+
+  constructor(gif: GifImage) {
+    this.gif = gif;
+    this.pixels = new Uint8ClampedArray(gif.width * gif.height * 4);
+    this.duration = gif.frames.reduce((total, frame) => total + frame.delay, 0);
+  }
+
+  get frameCount(): number {
+    return this.gif.frames.length;
+  }
+
+  get width(): number {
+    return this.gif.width;
+  }
+
+  get height(): number {
+    return this.gif.height;
+  }
+
+  /**
+   * 一轮播放的总时长（毫秒）
+   */
+  getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * 播放到 time（毫秒）时显示的帧；不循环的动图停在最后一帧
+   */
+  getFrameIndexAt(time: number): number {
+    const { frames, loopCount } = this.gif;
+    if (frames.length === 1) return 0;
+
+    const loops = loopCount === null ? 1 : loopCount;
+    if (loops > 0 && time >= this.duration * loops) {
+      return frames.length - 1;
+    }
+
+    let remaining = Math.max(0, time) % this.duration;
+    for (let i = 0; i < frames.length; i++) {
+      remaining -= frames[i].delay;
+      if (remaining < 0) return i;
+    }
+    return frames.length - 1;
+  }
+
+  /**
+   * 合成到指定帧，返回完整画面的 RGBA 像素（内部缓冲区，合成下一帧前有效）
+   */
+  renderFrame(index: number): Uint8ClampedArray {
+    if (index < 0 || index >= this.gif.frames.length) {
+      throw new Error(`Invalid GIF frame index: ${index}`);
+    }
+
+    // 只能向后合成，回到之前的帧时从头开始
+    if (index < this.frameIndex) {
+      this.pixels.fill(0);
+      this.saved = null;
+      this.frameIndex = -1;
+    }
+
+    while (this.frameIndex < index) {
+      if (this.frameIndex >= 0) {
+        this.dispose(this.gif.frames[this.frameIndex]);
+      }
+      this.frameIndex++;
+      this.draw(this.gif.frames[this.frameIndex]);
+    }
+
+    return this.pixels;
+  }
+
+  private dispose(frame: GifFrame): void {
+    if (frame.disposal === 'background') {
+      this.forEachPixel(frame, (_, target) => this.pixels.fill(0, target, target + 4));
+    } else if (frame.disposal === 'previous' && this.saved) {
+      this.pixels.set(this.saved);
+    }
+  }
+
+  private draw(frame: GifFrame): void {
+    this.saved = frame.disposal === 'previous' ? this.pixels.slice() : null;
+
+    this.forEachPixel(frame, (source, target) => {
+      const index = frame.indices[source];
+      if (index === frame.transparentIndex) return;
+
+      this.pixels[target] = frame.palette[index * 3];
+      this.pixels[target + 1] = frame.palette[index * 3 + 1];
+      this.pixels[target + 2] = frame.palette[index * 3 + 2];
+      this.pixels[target + 3] = 255;
+    });
+  }
+
+  /**
+   * 遍历帧区域内（裁剪到画面范围）的像素，给出帧内索引和画面中的 RGBA 偏移
+   */
+  private forEachPixel(frame: GifFrame, callback: (source: number, target: number) => void): void {
+    const { width, height } = this.gif;
+    const right = Math.min(frame.x + frame.width, width);
+    const bottom = Math.min(frame.y + frame.height, height);
+
+    for (let y = frame.y; y < bottom; y++) {
+      for (let x = frame.x; x < right; x++) {
+        callback((y - frame.y) * frame.width + (x - frame.x), (y * width + x) * 4);
+      }
+    }
+  }
+}
+
+/**
+ * LZW 解压，数据不足时其余像素为 0
+ */
+function decodeLzw(minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const stack = new Uint8Array(MAX_LZW_CODES + 1);
+
+  for (let code = 0; code < clearCode; code++) {
+    suffix[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let available = clearCode + 2;
+  let oldCode = -1;
+  let first = 0;
+  let datum = 0;
+  let bits = 0;
+  let outPos = 0;
+
+  for (let i = 0; i < data.length && outPos < pixelCount; i++) {
+    datum |= data[i] << bits;
+    bits += 8;
+
+    while (bits >= codeSize && outPos < pixelCount) {
+      let code = datum & codeMask;
+      datum >>= codeSize;
+      bits -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        codeMask = (1 << codeSize) - 1;
+        available = clearCode + 2;
+        oldCode = -1;
+        continue;
+      }
+
+      if (code === endCode) {
+        return output;
+      }
+
+      if (oldCode === -1) {
+        if (code > clearCode) {
+          throw new Error('Invalid GIF data');
+        }
+        output[outPos++] = suffix[code];
+        oldCode = code;
+        first = code;
+        continue;
+      }
+
+      if (code > available) {
+        throw new Error('Invalid GIF data');
+      }
+
+      const inCode = code;
+      let top = 0;
+      // 编码还不在字典中（KwKwK 的情况）：前一个串加上它的首字符
+      if (code === available) {
+        stack[top++] = first;
+        code = oldCode;
+      }
+      while (code >= clearCode) {
+        stack[top++] = suffix[code];
+        code = prefix[code];
+      }
+      first = suffix[code];
+      stack[top++] = first;
+
+      if (available < MAX_LZW_CODES) {
+        prefix[available] = oldCode;
+        suffix[available] = first;
+        available++;
+        if ((available & codeMask) === 0 && available < MAX_LZW_CODES) {
+          codeSize++;
+          codeMask = (1 << codeSize) - 1;
+        }
+      }
+      oldCode = inCode;
+
+      while (top > 0 && outPos < pixelCount) {
+        output[outPos++] = stack[--top];
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 隔行扫描的行顺序：每 8 行的第 0 行、每 8 行的第 4 行、每 4 行的第 2 行、每 2 行的第 1 行
+ */
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const output = new Uint8Array(indices.length);
+  const passes = [[0, 8], [4, 8], [2, 4], [1, 2]];
+  let sourceRow = 0;
+
+  passes.forEach(([start, step]) => {
+    for (let row = start; row < height; row += step) {
+      output.set(indices.subarray(sourceRow * width, (sourceRow + 1) * width), row * width);
+      sourceRow++;
+    }
+  });
+
+  return output;
+}
+
+function toDisposal(method: number): GifDisposal {
+  if (method === 2) return 'background';
+  if (method === 3) return 'previous';
+  return 'none';
+}
+
+/**
+ * NETSCAPE2.0 应用扩展中的循环次数
+ */
+function readApplicationLoop(data: Uint8Array): number | null {
+  const identifier = String.fromCharCode(...data.subarray(0, 11));
+  if ((identifier !== 'NETSCAPE2.0' && identifier !== 'ANIMEXTS1.0') || data.length < 14 || data[11] !== 1) {
+    return null;
+  }
+  return data[12] | (data[13] << 8);
+}
+
+/**
+ * 按字节顺序读取（GIF 中的整数为小端序），越界时抛出错误
+ */
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  isAtEnd(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  readByte(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  readUint16(): number {
+    this.ensure(2);
+    const value = this.bytes[this.offset] | (this.bytes[this.offset + 1] << 8);
+    this.offset += 2;
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  readAscii(length: number): string {
+    return String.fromCharCode(...this.readBytes(length));
+  }
+
+  skip(length: number): void {
+    this.ensure(length);
+    this.offset += length;
+  }
+
+  /**
+   * 读取以长度为 0 的块结尾的数据子块序列，拼接为一段数据
+   */
+  readSubBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+
+    for (let size = this.readByte(); size > 0; size = this.readByte()) {
+      const chunk = this.readBytes(size);
+      chunks.push(chunk);
+      total += size;
+    }
+
+    const data = new Uint8Array(total);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return data;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Invalid GIF data');
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * 图片格式识别
+ * 按文件开头的特征字节判断格式，不依赖 file.type（HEIC 等格式在部分浏览器中 type 为空或不准确）
+ */
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'avif' | 'heic';
+
+const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  heic: 'image/heic'
+};
+
+/**
+ * 识别格式需要的文件开头字节数
+ */
+export const IMAGE_HEADER_SIZE = 64;
+
+// ISO BMFF（ftyp 盒）中的品牌
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+/**
+ * 识别图片格式，无法识别时返回 null
+ */
+export function sniffImageFormat(buffer: ArrayBuffer): ImageFormat | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, IMAGE_HEADER_SIZE));
+
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (readAscii(bytes, 0, 6) === 'GIF87a' || readAscii(bytes, 0, 6) === 'GIF89a') return 'gif';
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+
+  return sniffIsoFormat(bytes);
+}
+
+/**
+ * 格式对应的 MIME 类型
+ */
+export function getImageMimeType(format: ImageFormat): string {
+  return FORMAT_MIME_TYPES[format];
+}
+
+/**
+ * AVIF 和 HEIC 都基于 ISO BMFF，由 ftyp 盒的主品牌和兼容品牌区分；
+ * 同时声明两类品牌时（如 mif1 + avif）以 AVIF 为准
+ */
+function sniffIsoFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length < 16 || readAscii(bytes, 4, 4) !== 'ftyp') return null;
+
+  const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const end = Math.min(boxSize, bytes.length);
+  const brands = [readAscii(bytes, 8, 4)];
+  // 主品牌之后是 4 字节的次版本号，然后是兼容品牌列表
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4));
+  }
+
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+  if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+  return null;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  if (offset + length > bytes.length) return '';
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -0,0 +1,200 @@
+/**
+ * 图片处理流水线
+ * 解码、按 EXIF 方向摆正、高质量缩小、编码并计算哈希
+ * Worker 中使用 OffscreenCanvas，主线程中使用 HTMLCanvasElement，两边执行同一套流程
+ */
+
+import { hashBuffer } from './ContentHash';
+import { getOrientationTransform, type ExifOrientation } from './ExifParser';
+
+export type ImageOutputFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ImagePipelineOptions {
+  maxWidth?: number; // 输出的最大尺寸，只缩小不放大
+  maxHeight?: number;
+  orientation?: ExifOrientation; // 源图片需要按此方向摆正（源图片本身不能带有方向信息）
+  format?: ImageOutputFormat;
+  quality?: number; // JPEG/WebP 的编码质量 (0-1)
+  base64?: boolean; // 同时输出 Base64（提交给变形接口）
+}
+
+export type ImagePipelineSource = Blob | ArrayBuffer | ImageBitmap;
+
+export interface ImagePipelineResult {
+  buffer: ArrayBuffer; // 编码后的图片数据
+  mimeType: string; // 实际的编码格式（浏览器不支持 WebP 编码时为 PNG）
+  width: number;
+  height: number;
+  hash: string; // 编码结果的内容哈希（见 ContentHash）
+  base64?: string;
+}
+
+// 主线程发给 Worker 的请求，以及 Worker 的回复
+export interface ImageWorkerRequest {
+  id: number;
+  source: Blob | ImageBitmap;
+  options: ImagePipelineOptions;
+}
+
+export type ImageWorkerResponse =
+  | { id: number; result: ImagePipelineResult }
+  | { id: number; error: string };
+
+type PipelineContext = Pick<
+  CanvasRenderingContext2D,
+  'drawImage' | 'scale' | 'transform' | 'imageSmoothingEnabled' | 'imageSmoothingQuality'
+>;
+
+interface CanvasLike {
+  width: number;
+  height: number;
+  getContext(contextId: '2d'): PipelineContext | null;
+}
+
+// 可以再画到下一个 Canvas 上，用于逐级缩小
+export type PipelineCanvas = CanvasLike & CanvasImageSource;
+
+/**
+ * 创建和编码 Canvas 的方式
+ */
+export interface CanvasBackend<C extends PipelineCanvas = PipelineCanvas> {
+  createCanvas(width: number, height: number): C;
+  encode(canvas: C, mimeType: string, quality: number): Promise<Blob>;
+}
+
+export const offscreenCanvasBackend: CanvasBackend<OffscreenCanvas> = {
+  createCanvas: (width, height) => new OffscreenCanvas(width, height),
+  encode: (canvas, mimeType, quality) => canvas.convertToBlob({ type: mimeType, quality })
+};
+
+export const documentCanvasBackend: CanvasBackend<HTMLCanvasElement> = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  encode: (canvas, mimeType, quality) => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode image'));
+      }
+    }, mimeType, quality);
+  })
+};
+
+const MIME_TYPES: Record<ImageOutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+/**
+ * 按比例缩小到最大尺寸以内（不放大），至少 1 像素
+ */
+export function fitImageSize(
+  width: number,
+  height: number,
+  maxWidth: number = width,
+  maxHeight: number = height
+): { width: number; height: number } {
+  const ratio = Math.min(maxWidth / width, maxHeight / height, 1);
+  return {
+    width: Math.max(1, Math.floor(width * ratio)),
+    height: Math.max(1, Math.floor(height * ratio))
+  };
+}
+
+/**
+ * 逐级缩小的各步尺寸：每步最多缩小一半，避免一次缩小过多产生锯齿，最后一步为目标尺寸
+ */
+export function getDownscaleSteps(
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): Array<{ width: number; height: number }> {
+  const steps: Array<{ width: number; height: number }> = [];
+  let currentWidth = width;
+  let currentHeight = height;
+
+  while (currentWidth / 2 > targetWidth && currentHeight / 2 > targetHeight) {
+    currentWidth = Math.floor(currentWidth / 2);
+    currentHeight = Math.floor(currentHeight / 2);
+    steps.push({ width: currentWidth, height: currentHeight });
+  }
+  steps.push({ width: targetWidth, height: targetHeight });
+
+  return steps;
+}
+
+/**
+ * 二进制数据转 Base64（分段转换，避免参数过多）
+ */
+export function bufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * 执行处理流水线；传入的 ImageBitmap 处理后会被关闭
+ */
+export async function runImagePipeline<C extends PipelineCanvas>(
+  source: ImagePipelineSource,
+  options: ImagePipelineOptions,
+  backend: CanvasBackend<C>
+): Promise<ImagePipelineResult> {
+  const bitmap = source instanceof Blob || source instanceof ArrayBuffer
+    ? await createImageBitmap(source instanceof Blob ? source : new Blob([source]))
+    : source;
+
+  try {
+    const { width, height, matrix } = getOrientationTransform(options.orientation ?? 1, bitmap.width, bitmap.height);
+    const target = fitImageSize(width, height, options.maxWidth, options.maxHeight);
+
+    let canvas: C | null = null;
+    for (const step of getDownscaleSteps(width, height, target.width, target.height)) {
+      const next = backend.createCanvas(step.width, step.height);
+      const ctx = next.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get 2D context for image processing');
+      }
+
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+
+      if (canvas) {
+        ctx.drawImage(canvas, 0, 0, step.width, step.height);
+      } else {
+        // 第一步同时摆正
+        ctx.scale(step.width / width, step.height / height);
+        ctx.transform(...matrix);
+        ctx.drawImage(bitmap, 0, 0);
+      }
+      canvas = next;
+    }
+
+    const blob = await backend.encode(canvas!, MIME_TYPES[options.format ?? 'jpeg'], options.quality ?? 0.92);
+    const buffer = await blob.arrayBuffer();
+
+    return {
+      buffer,
+      mimeType: blob.type,
+      width: target.width,
+      height: target.height,
+      hash: await hashBuffer(buffer),
+      base64: options.base64 ? bufferToBase64(buffer) : undefined
+    };
+  } finally {
+    bitmap.close();
+  }
+}
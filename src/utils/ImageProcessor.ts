@@ -0,0 +1,142 @@
+/**
+ * 图片处理器
+ * 在 Worker 中执行图片处理流水线（见 ImagePipeline），解码、缩小和编码大图时不阻塞主线程；
+ * 浏览器不支持 OffscreenCanvas 或 Worker 无法启动时在主线程中执行同样的流程
+ */
+
+import {
+  documentCanvasBackend,
+  runImagePipeline,
+  type ImagePipelineOptions,
+  type ImagePipelineResult,
+  type ImagePipelineSource,
+  type ImageWorkerRequest,
+  type ImageWorkerResponse
+} from './ImagePipeline';
+
+export interface ImageProcessorOptions {
+  createWorker?: (() => Worker) | null; // 为 null 时始终在主线程处理
+}
+
+interface PendingRequest {
+  resolve: (result: ImagePipelineResult) => void;
+  reject: (error: Error) => void;
+}
+
+function createImageWorker(): Worker {
+  return new Worker(new URL('../workers/ImageWorker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * 图片处理器类
+ */
+export class ImageProcessor {
+  private createWorker: (() => Worker) | null;
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 0;
+  private pending: Map<number, PendingRequest> = new Map();
+
+  constructor(options: ImageProcessorOptions = {}) {
+    this.createWorker = options.createWorker === undefined ? createImageWorker : options.createWorker;
+  }
+
+  /**
+   * 当前环境能否执行流水线（需要 createImageBitmap 解码）
+   */
+  static isSupported(): boolean {
+    return typeof createImageBitmap === 'function';
+  }
+
+  /**
+   * 是否在 Worker 中处理
+   */
+  isUsingWorker(): boolean {
+    return this.getWorker() !== null;
+  }
+
+  /**
+   * 处理图片；ImageBitmap 会转移给 Worker 并在处理后关闭，调用后不能再使用
+   */
+  process(source: ImagePipelineSource, options: ImagePipelineOptions = {}): Promise<ImagePipelineResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return runImagePipeline(source, options, documentCanvasBackend);
+    }
+
+    // ArrayBuffer 包装为 Blob 再发送：不复制数据，调用方的缓冲区也不会被转移
+    const request: ImageWorkerRequest = {
+      id: ++this.nextRequestId,
+      source: source instanceof ArrayBuffer ? new Blob([source]) : source,
+      options
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      worker.postMessage(request, request.source instanceof Blob ? [] : [request.source]);
+    });
+  }
+
+  /**
+   * 结束 Worker，未完成的请求以错误结束
+   */
+  destroy(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectPending(new Error('Image processor destroyed'));
+  }
+
+  /**
+   * 按需创建 Worker；不支持或启动失败后返回 null
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) {
+      return this.worker;
+    }
+
+    if (!this.createWorker || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      const worker = this.createWorker();
+      worker.addEventListener('message', (event: MessageEvent<ImageWorkerResponse>) => this.handleMessage(event.data));
+      worker.addEventListener('error', (event) => this.handleWorkerError(event));
+      this.worker = worker;
+    } catch (error) {
+      console.warn('Failed to start image worker, processing on main thread:', error);
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+
+  private handleMessage(response: ImageWorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  /**
+   * Worker 脚本加载或执行失败：之后改为在主线程处理
+   */
+  private handleWorkerError(event: ErrorEvent): void {
+    console.warn('Image worker failed, processing on main thread:', event.message);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    this.rejectPending(new Error(event.message || 'Image worker failed'));
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 运行平台抽象
+ * 引擎通过这里获取时间、调度帧和定时器、监听页面可见性
+ * 浏览器中使用 browserPlatform，Node 模拟和测试中替换为 VirtualClock 等实现
+ */
+
+export type FrameCallback = (time: number) => void;
+
+/**
+ * 页面离开前台的方式（不含 visibilitychange，由 isHidden 和 onVisibilityChange 处理）
+ */
+export type FocusLossReason = 'pagehide' | 'blur';
+
+/**
+ * 平台接口
+ */
+export interface GamePlatform {
+  now(): number; // 单调时钟（毫秒）
+  requestFrame(callback: FrameCallback): number;
+  cancelFrame(id: number): void;
+  setTimeout(callback: () => void, delay: number): number;
+  clearTimeout(id: number): void;
+  isHidden(): boolean; // 页面是否在后台
+  onVisibilityChange(listener: () => void): () => void; // 返回取消监听函数
+  onFocusLoss(listener: (reason: FocusLossReason) => void): () => void; // 页面被隐藏或窗口失去焦点，返回取消监听函数
+}
+
+/**
+ * 浏览器平台，只在调用时访问 window 和 document
+ */
+export const browserPlatform: GamePlatform = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (id) => window.clearTimeout(id),
+  isHidden: () => document.visibilityState === 'hidden',
+  onVisibilityChange: (listener) => {
+    document.addEventListener('visibilitychange', listener);
+    return () => document.removeEventListener('visibilitychange', listener);
+  },
+  onFocusLoss: (listener) => {
+    const onPageHide = () => listener('pagehide');
+    const onBlur = () => listener('blur');
+    window.addEventListener('pagehide', onPageHide);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('pagehide', onPageHide);
+      window.removeEventListener('blur', onBlur);
+    };
+  }
+};
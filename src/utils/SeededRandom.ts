@@ -0,0 +1,64 @@
+/**
+ * 可设置种子的随机数生成器
+ * 相同种子产生相同的随机序列，用于回放和问题复现
+ */
+
+/**
+ * 随机数来源，返回 [0, 1) 区间的数
+ */
+export type RandomSource = () => number;
+
+/**
+ * 随机数生成器类（mulberry32 算法）
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * 生成新的随机种子
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * 返回下一个 [0, 1) 区间的随机数
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * 获取当前种子
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * 设置种子并从头开始生成序列
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * 获取绑定到该生成器的随机数来源，可注入到各子系统
+   */
+  asSource(): RandomSource {
+    return () => this.next();
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * 虚拟时钟
+ * 实现 GamePlatform，时间只在调用 advance 时前进，帧和定时器按虚拟时间依次触发
+ * 用于 Node 中的无界面模拟和需要精确控制时间的测试
+ */
+
+import type { FocusLossReason, FrameCallback, GamePlatform } from './Platform';
+
+export interface VirtualClockOptions {
+  frameInterval?: number; // 帧间隔（毫秒），默认 60fps
+  startTime?: number;
+}
+
+interface PendingTimer {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+/**
+ * 虚拟时钟类
+ */
+export class VirtualClock implements GamePlatform {
+  private time: number;
+  private frameInterval: number;
+  private nextFrameTime: number;
+  private nextId = 1;
+  private frames = new Map<number, FrameCallback>();
+  private timers: PendingTimer[] = [];
+  private hidden = false;
+  private visibilityListeners = new Set<() => void>();
+  private focusLossListeners = new Set<(reason: FocusLossReason) => void>();
+
+  constructor(options: VirtualClockOptions = {}) {
+    this.time = options.startTime ?? 0;
+    this.frameInterval = options.frameInterval ?? 1000 / 60;
+    this.nextFrameTime = this.time + this.frameInterval;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: FrameCallback): number {
+    const id = this.nextId++;
+    this.frames.set(id, callback);
+    return id;
+  }
+
+  cancelFrame(id: number): void {
+    this.frames.delete(id);
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    const timer = { id, time: this.time + Math.max(delay, 0), callback };
+
+    // 按触发时间排序，同一时间按注册顺序
+    const index = this.timers.findIndex(existing => existing.time > timer.time);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  isHidden(): boolean {
+    return this.hidden;
+  }
+
+  onVisibilityChange(listener: () => void): () => void {
+    this.visibilityListeners.add(listener);
+    return () => this.visibilityListeners.delete(listener);
+  }
+
+  onFocusLoss(listener: (reason: FocusLossReason) => void): () => void {
+    this.focusLossListeners.add(listener);
+    return () => this.focusLossListeners.delete(listener);
+  }
+
+  /**
+   * 模拟页面被隐藏或窗口失去焦点
+   */
+  loseFocus(reason: FocusLossReason = 'blur'): void {
+    this.focusLossListeners.forEach(listener => listener(reason));
+  }
+
+  /**
+   * 切换页面可见性并通知监听器
+   */
+  setHidden(hidden: boolean): void {
+    if (this.hidden === hidden) return;
+
+    this.hidden = hidden;
+    this.visibilityListeners.forEach(listener => listener());
+  }
+
+  /**
+   * 推进时间，期间到期的定时器和帧按时间顺序触发
+   */
+  advance(ms: number): void {
+    const target = this.time + ms;
+
+    while (this.nextFrameTime <= target) {
+      this.runTimers(this.nextFrameTime);
+      this.time = this.nextFrameTime;
+      this.nextFrameTime += this.frameInterval;
+      this.runFrames();
+    }
+
+    this.runTimers(target);
+    this.time = target;
+  }
+
+  /**
+   * 推进若干帧
+   */
+  advanceFrames(count: number): void {
+    this.advance(this.nextFrameTime - this.time + (count - 1) * this.frameInterval);
+  }
+
+  /**
+   * 获取帧间隔
+   */
+  getFrameInterval(): number {
+    return this.frameInterval;
+  }
+
+  /**
+   * 是否还有未触发的定时器
+   */
+  hasPendingTimers(): boolean {
+    return this.timers.length > 0;
+  }
+
+  /**
+   * 触发到 time 为止到期的定时器（回调中新注册的到期定时器也会触发）
+   */
+  private runTimers(time: number): void {
+    while (this.timers.length > 0 && this.timers[0].time <= time) {
+      const timer = this.timers.shift()!;
+      this.time = timer.time;
+      timer.callback();
+    }
+  }
+
+  /**
+   * 触发本帧之前请求的帧回调，回调中请求的帧在下一帧触发
+   */
+  private runFrames(): void {
+    const frames = Array.from(this.frames.values());
+    this.frames.clear();
+    frames.forEach(callback => callback(this.time));
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * ContentHash 单元测试
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { hashBuffer, hashText, isSha256Supported } from '../ContentHash';
+
+describe('ContentHash', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('应该计算 SHA-256', async () => {
+    expect(isSha256Supported()).toBe(true);
+    expect(await hashText('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await hashBuffer(new TextEncoder().encode('abc'))).toBe(await hashText('abc'));
+  });
+
+  it('没有 SubtleCrypto 时退回 FNV-1a', async () => {
+    vi.stubGlobal('crypto', {});
+
+    expect(isSha256Supported()).toBe(false);
+    expect(await hashText('')).toBe('fnv-cbf29ce484222325');
+    expect(await hashText('a')).toBe('fnv-af63dc4c8601ec8c');
+    expect(await hashText('foobar')).toBe('fnv-85944171f73967e8');
+  });
+});
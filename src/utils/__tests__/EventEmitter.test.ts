@@ -0,0 +1,126 @@
+/**
+ * EventEmitter 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from '../EventEmitter';
+
+type TestEvents = {
+  count: number;
+  message: { text: string };
+  ping: void;
+};
+
+describe('EventEmitter', () => {
+  it('应该把事件数据传给监听器', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('message', listener);
+    emitter.emit('message', { text: 'hi' });
+    emitter.emit('ping');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ text: 'hi' });
+  });
+
+  it('应该按优先级从高到低调用，相同优先级按注册顺序', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+
+    emitter.on('ping', () => calls.push('a'));
+    emitter.on('ping', () => calls.push('high'), { priority: 10 });
+    emitter.on('ping', () => calls.push('b'));
+    emitter.on('ping', () => calls.push('low'), { priority: -1 });
+    emitter.emit('ping');
+
+    expect(calls).toEqual(['high', 'a', 'b', 'low']);
+  });
+
+  it('once 监听器只应该触发一次', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.once('count', listener);
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
+  it('通配监听器应该收到所有事件', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.onAny(listener);
+    emitter.emit('count', 3);
+    emitter.emit('ping');
+
+    expect(listener).toHaveBeenNthCalledWith(1, 'count', 3);
+    expect(listener).toHaveBeenNthCalledWith(2, 'ping', undefined);
+
+    emitter.offAny(listener);
+    emitter.emit('count', 4);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('单个监听器出错不应该影响其他监听器', () => {
+    const emitter = new EventEmitter<TestEvents>('Test');
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+
+    emitter.on('ping', () => {
+      throw new Error('boom');
+    });
+    emitter.on('ping', listener);
+    emitter.emit('ping');
+
+    expect(listener).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith('Test: error in listener for ping:', expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  it('取消订阅函数和 off 都应该移除监听器', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribe = emitter.on('count', first);
+    emitter.on('count', second);
+
+    unsubscribe();
+    emitter.off('count', second);
+    emitter.emit('count', 1);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount()).toBe(0);
+  });
+
+  it('发射过程中取消订阅不应该影响本次发射', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const second = vi.fn();
+
+    emitter.on('ping', () => emitter.off('ping', second));
+    emitter.on('ping', second);
+    emitter.emit('ping');
+    emitter.emit('ping');
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('销毁后应该忽略新的订阅和发射', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('ping', listener);
+    emitter.destroy();
+    emitter.on('ping', listener);
+    emitter.emit('ping');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount()).toBe(0);
+  });
+});
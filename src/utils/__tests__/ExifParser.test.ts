@@ -0,0 +1,97 @@
+/**
+ * ExifParser 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOrientationTransform,
+  isJpeg,
+  parseJpegMetadata,
+  readExifOrientation,
+  stripJpegMetadata
+} from '../ExifParser';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// 带长度字段的段
+const segment = (marker: number, payload: number[]) => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+// 只含方向标记的 EXIF 段
+const exifSegment = (orientation: number, littleEndian = false) => {
+  const u16 = (value: number) => littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+  const u32 = (value: number) => littleEndian
+    ? [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]
+    : [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+  const tiff = [
+    ...ascii(littleEndian ? 'II' : 'MM'), ...u16(0x2a), ...u32(8),
+    ...u16(1), // 一个条目
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0)
+  ];
+  return segment(0xe1, [...ascii('Exif\0\0'), ...tiff]);
+};
+
+const jfif = segment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const icc = segment(0xe2, [...ascii('ICC_PROFILE\0'), 1, 1, 9, 9]);
+const xmp = segment(0xe1, [...ascii('http://ns.adobe.com/xap/1.0/\0'), ...ascii('<x:xmpmeta/>')]);
+const comment = segment(0xfe, ascii('serial 123'));
+const quantTable = segment(0xdb, [0, 1, 2, 3]);
+// 扫描数据中包含转义的 0xFF00 和复位标记
+const scan = [...segment(0xda, [1, 1, 0, 0, 63, 0]), 0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+const eoi = [0xff, 0xd9];
+
+const jpeg = (...parts: number[][]) => new Uint8Array([0xff, 0xd8, ...parts.flat()]).buffer;
+
+describe('ExifParser', () => {
+  it('应该识别 JPEG 并读取方向（两种字节序）', () => {
+    expect(isJpeg(jpeg(jfif, eoi))).toBe(true);
+    expect(isJpeg(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(false);
+
+    expect(readExifOrientation(jpeg(jfif, exifSegment(6), quantTable, scan, eoi))).toBe(6);
+    expect(readExifOrientation(jpeg(exifSegment(8, true), scan, eoi))).toBe(8);
+    expect(readExifOrientation(jpeg(jfif, scan, eoi))).toBe(1);
+  });
+
+  it('方向标记无效或 EXIF 损坏时按 1 处理', () => {
+    expect(readExifOrientation(jpeg(exifSegment(9), eoi))).toBe(1);
+    expect(readExifOrientation(jpeg(segment(0xe1, ascii('Exif\0\0MM')), eoi))).toBe(1);
+    expect(readExifOrientation(new Uint8Array([1, 2, 3]).buffer)).toBe(1);
+  });
+
+  it('应该报告元数据段', () => {
+    const metadata = parseJpegMetadata(jpeg(jfif, exifSegment(3), xmp, comment, scan, eoi));
+
+    expect(metadata).toEqual({ orientation: 3, hasExif: true, hasXmp: true, hasComment: true });
+    expect(parseJpegMetadata(new Uint8Array([0x47, 0x49, 0x46]).buffer)).toBeNull();
+  });
+
+  it('去掉元数据后图像数据保持不变', () => {
+    const original = jpeg(jfif, exifSegment(6), xmp, icc, comment, quantTable, scan, eoi, [0xde, 0xad]);
+    const stripped = stripJpegMetadata(original);
+
+    expect(Array.from(new Uint8Array(stripped))).toEqual([0xff, 0xd8, ...jfif, ...icc, ...quantTable, ...scan, ...eoi]);
+    expect(parseJpegMetadata(stripped)).toEqual({ orientation: 1, hasExif: false, hasXmp: false, hasComment: false });
+  });
+
+  it('图像扫描数据之前的段损坏时不能去掉元数据', () => {
+    // APP1 的长度超出文件末尾
+    const corruptLength = [0xff, 0xe1, 0xff, 0xf0, ...ascii('Exif\0\0')];
+    expect(() => stripJpegMetadata(jpeg(jfif, corruptLength, quantTable, scan, eoi))).toThrow('Corrupt JPEG');
+    // 段之间出现不是标记的字节
+    expect(() => stripJpegMetadata(jpeg(jfif, [0x00], xmp, scan, eoi))).toThrow('Corrupt JPEG');
+  });
+
+  it('不是 JPEG 时不能去掉元数据', () => {
+    expect(() => stripJpegMetadata(new Uint8Array([0x89, 0x50]).buffer)).toThrow('Not a JPEG image');
+  });
+
+  it('旋转 90 度的方向应该交换宽高', () => {
+    expect(getOrientationTransform(1, 40, 30)).toEqual({ width: 40, height: 30, matrix: [1, 0, 0, 1, 0, 0] });
+    expect(getOrientationTransform(6, 40, 30)).toEqual({ width: 30, height: 40, matrix: [0, 1, -1, 0, 30, 0] });
+    expect(getOrientationTransform(3, 40, 30).matrix).toEqual([-1, 0, 0, -1, 40, 30]);
+  });
+});
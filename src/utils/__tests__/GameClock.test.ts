@@ -0,0 +1,89 @@
+/**
+ * GameClock 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GameClock } from '../GameClock';
+import { VirtualClock } from '../VirtualClock';
+
+describe('GameClock', () => {
+  it('确定性模式下时间只在 advance 时前进', () => {
+    const clock = new GameClock({ deterministic: true });
+    const callback = vi.fn();
+    clock.setTimeout(callback, 100);
+
+    expect(clock.now()).toBe(0);
+    clock.advance(99);
+    expect(callback).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(100);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  it('暂停时时间停止、定时器挂起，恢复后按剩余时间触发', () => {
+    const clock = new GameClock({ deterministic: true });
+    const callback = vi.fn();
+    clock.setTimeout(callback, 100);
+
+    clock.advance(60);
+    clock.pause();
+    clock.advance(1000);
+    expect(clock.now()).toBe(60);
+    expect(callback).not.toHaveBeenCalled();
+
+    clock.resume();
+    clock.advance(39);
+    expect(callback).not.toHaveBeenCalled();
+    clock.advance(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(100);
+  });
+
+  it('时间缩放应该同时作用于时间和定时器', () => {
+    const clock = new GameClock({ deterministic: true });
+    const callback = vi.fn();
+    clock.setTimeout(callback, 100);
+
+    clock.advance(50);
+    clock.setTimeScale(0.25);
+    clock.advance(100);
+    expect(clock.now()).toBe(75);
+    expect(callback).not.toHaveBeenCalled();
+
+    clock.advance(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    expect(() => clock.setTimeScale(-1)).toThrow('Invalid time scale');
+  });
+
+  it('重复定时器应该按间隔触发直到取消', () => {
+    const clock = new GameClock({ deterministic: true });
+    const callback = vi.fn();
+    const id = clock.setInterval(callback, 100);
+
+    clock.advance(350);
+    expect(callback).toHaveBeenCalledTimes(3);
+
+    clock.clearInterval(id);
+    clock.advance(500);
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it('应该使用传入的平台时钟，非确定性模式下不能 advance', () => {
+    const platform = new VirtualClock({ startTime: 500 });
+    const clock = new GameClock({ platform });
+    const callback = vi.fn();
+    clock.setTimeout(callback, 100);
+
+    platform.advance(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(100);
+    expect(() => clock.advance(10)).toThrow('deterministic mode');
+
+    clock.setTimeout(callback, 100);
+    clock.destroy();
+    expect(platform.hasPendingTimers()).toBe(false);
+  });
+});
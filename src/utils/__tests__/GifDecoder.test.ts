@@ -0,0 +1,149 @@
+/**
+ * GifDecoder 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GifCompositor, decodeGif } from '../GifDecoder';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const u16 = (value: number) => [value & 0xff, value >> 8];
+
+// 4 色调色板：黑、红、绿、蓝
+const PALETTE = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255];
+
+/**
+ * LZW 编码（最小码长 2）：每两个像素插入一次清除码，码长保持 3 位
+ */
+const encodeLzw = (indices: number[]) => {
+  const codes: number[] = [];
+  for (let i = 0; i < indices.length; i += 2) {
+    codes.push(4, ...indices.slice(i, i + 2));
+  }
+  codes.push(5);
+
+  const data: number[] = [];
+  let datum = 0;
+  let bits = 0;
+  codes.forEach(code => {
+    datum |= code << bits;
+    bits += 3;
+    while (bits >= 8) {
+      data.push(datum & 0xff);
+      datum >>= 8;
+      bits -= 8;
+    }
+  });
+  if (bits > 0) data.push(datum);
+  return [2, data.length, ...data, 0];
+};
+
+interface FrameSpec {
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  indices: number[];
+  delay?: number; // 1/100 秒
+  disposal?: number;
+  transparentIndex?: number;
+  interlaced?: boolean;
+}
+
+const frame = (spec: FrameSpec) => {
+  const transparent = spec.transparentIndex !== undefined;
+  return [
+    0x21, 0xf9, 4, ((spec.disposal ?? 0) << 2) | (transparent ? 1 : 0), ...u16(spec.delay ?? 10), spec.transparentIndex ?? 0, 0,
+    0x2c, ...u16(spec.x ?? 0), ...u16(spec.y ?? 0), ...u16(spec.width), ...u16(spec.height), spec.interlaced ? 0x40 : 0,
+    ...encodeLzw(spec.indices)
+  ];
+};
+
+const gif = (width: number, height: number, frames: number[][], loop: number | null = 0) => new Uint8Array([
+  ...ascii('GIF89a'), ...u16(width), ...u16(height), 0x81, 0, 0, ...PALETTE,
+  ...(loop === null ? [] : [0x21, 0xff, 11, ...ascii('NETSCAPE2.0'), 3, 1, ...u16(loop), 0]),
+  ...frames.flat(),
+  0x3b
+]).buffer;
+
+// 画面中某个像素的 RGBA
+const pixelAt = (pixels: Uint8ClampedArray, width: number, x: number, y: number) =>
+  Array.from(pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe('GifDecoder', () => {
+  it('应该解码帧的尺寸、延时、循环次数和像素索引', () => {
+    const image = decodeGif(gif(2, 2, [
+      frame({ width: 2, height: 2, indices: [1, 2, 3, 0], delay: 5 }),
+      frame({ x: 1, y: 1, width: 1, height: 1, indices: [3], delay: 0, disposal: 2 })
+    ]));
+
+    expect(image.width).toBe(2);
+    expect(image.loopCount).toBe(0);
+    expect(image.frames).toHaveLength(2);
+    expect(Array.from(image.frames[0].indices)).toEqual([1, 2, 3, 0]);
+    expect(image.frames[0].delay).toBe(50);
+    // 过短的延时按 100ms 处理
+    expect(image.frames[1].delay).toBe(100);
+    expect(image.frames[1].disposal).toBe('background');
+  });
+
+  it('应该还原隔行扫描的行顺序', () => {
+    // 隔行存储顺序为第 0、2、1、3 行
+    const image = decodeGif(gif(1, 4, [frame({ width: 1, height: 4, indices: [0, 2, 1, 3], interlaced: true })]));
+
+    expect(Array.from(image.frames[0].indices)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('数据损坏时抛出错误', () => {
+    expect(() => decodeGif(new Uint8Array(ascii('GIF89a')).buffer)).toThrow('Invalid GIF data');
+    expect(() => decodeGif(new Uint8Array(ascii('PNG')).buffer)).toThrow('Invalid GIF data');
+    expect(() => decodeGif(gif(2, 2, []))).toThrow('Invalid GIF data');
+  });
+});
+
+describe('GifCompositor', () => {
+  it('应该按透明色和处置方式合成画面', () => {
+    const compositor = new GifCompositor(decodeGif(gif(2, 1, [
+      frame({ width: 2, height: 1, indices: [1, 1] }),
+      // 透明像素保留上一帧，处置方式为 previous
+      frame({ width: 2, height: 1, indices: [0, 2], transparentIndex: 0, disposal: 3 }),
+      frame({ x: 1, width: 1, height: 1, indices: [0], transparentIndex: 0 })
+    ])));
+
+    expect(pixelAt(compositor.renderFrame(0), 2, 1, 0)).toEqual([255, 0, 0, 255]);
+
+    const second = compositor.renderFrame(1);
+    expect(pixelAt(second, 2, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(second, 2, 1, 0)).toEqual([0, 255, 0, 255]);
+
+    // 第二帧恢复为绘制前的画面
+    expect(pixelAt(compositor.renderFrame(2), 2, 1, 0)).toEqual([255, 0, 0, 255]);
+
+    // 回到之前的帧时从头合成
+    expect(pixelAt(compositor.renderFrame(1), 2, 1, 0)).toEqual([0, 255, 0, 255]);
+  });
+
+  it('背景处置应该清空帧区域', () => {
+    const compositor = new GifCompositor(decodeGif(gif(1, 1, [
+      frame({ width: 1, height: 1, indices: [3], disposal: 2 }),
+      frame({ width: 1, height: 1, indices: [0], transparentIndex: 0 })
+    ])));
+
+    expect(pixelAt(compositor.renderFrame(1), 1, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('应该按播放时间选择帧，不循环时停在最后一帧', () => {
+    const frames = [
+      frame({ width: 1, height: 1, indices: [1], delay: 10 }),
+      frame({ width: 1, height: 1, indices: [2], delay: 20 })
+    ];
+    const looping = new GifCompositor(decodeGif(gif(1, 1, frames)));
+    expect(looping.getDuration()).toBe(300);
+    expect(looping.getFrameIndexAt(50)).toBe(0);
+    expect(looping.getFrameIndexAt(150)).toBe(1);
+    expect(looping.getFrameIndexAt(350)).toBe(0);
+
+    const once = new GifCompositor(decodeGif(gif(1, 1, frames, null)));
+    expect(once.getFrameIndexAt(350)).toBe(1);
+    expect(() => once.renderFrame(2)).toThrow('Invalid GIF frame index');
+  });
+});
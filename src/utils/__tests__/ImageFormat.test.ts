@@ -0,0 +1,44 @@
+/**
+ * ImageFormat 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getImageMimeType, sniffImageFormat } from '../ImageFormat';
+
+const bytes = (...parts: Array<number[] | string>) => new Uint8Array(
+  parts.flatMap(part => typeof part === 'string' ? Array.from(part, char => char.charCodeAt(0)) : part)
+).buffer;
+
+// ISO BMFF 的 ftyp 盒：主品牌、次版本号和兼容品牌
+const ftyp = (major: string, ...compatible: string[]) => {
+  const size = 16 + compatible.length * 4;
+  return bytes([0, 0, 0, size], 'ftyp', major, [0, 0, 0, 0], ...compatible, [0, 0, 0, 8], 'meta');
+};
+
+describe('ImageFormat', () => {
+  it('应该按特征字节识别常见格式', () => {
+    expect(sniffImageFormat(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('jpeg');
+    expect(sniffImageFormat(bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a]))).toBe('png');
+    expect(sniffImageFormat(bytes('GIF89a', [1, 0, 1, 0]))).toBe('gif');
+    expect(sniffImageFormat(bytes('GIF87a'))).toBe('gif');
+    expect(sniffImageFormat(bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('webp');
+  });
+
+  it('应该按 ftyp 品牌区分 AVIF 和 HEIC', () => {
+    expect(sniffImageFormat(ftyp('avif', 'mif1', 'miaf'))).toBe('avif');
+    expect(sniffImageFormat(ftyp('mif1', 'avif'))).toBe('avif');
+    expect(sniffImageFormat(ftyp('heic', 'mif1', 'heic'))).toBe('heic');
+    expect(sniffImageFormat(ftyp('mif1', 'heic'))).toBe('heic');
+    expect(sniffImageFormat(ftyp('isom', 'mp41'))).toBeNull();
+  });
+
+  it('无法识别时返回 null', () => {
+    expect(sniffImageFormat(bytes('<svg'))).toBeNull();
+    expect(sniffImageFormat(new ArrayBuffer(0))).toBeNull();
+  });
+
+  it('应该给出格式对应的 MIME 类型', () => {
+    expect(getImageMimeType('heic')).toBe('image/heic');
+    expect(getImageMimeType('jpeg')).toBe('image/jpeg');
+  });
+});
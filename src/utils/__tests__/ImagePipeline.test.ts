@@ -0,0 +1,80 @@
+/**
+ * ImagePipeline 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  bufferToBase64,
+  fitImageSize,
+  getDownscaleSteps,
+  runImagePipeline,
+  type CanvasBackend
+} from '../ImagePipeline';
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+
+// 记录创建的画布和绘制调用
+const createBackend = () => {
+  const canvases: Array<{ width: number; height: number; ctx: Record<string, any> }> = [];
+  const backend = {
+    createCanvas: (width: number, height: number) => {
+      const ctx = { drawImage: vi.fn(), scale: vi.fn(), transform: vi.fn() };
+      const canvas = { width, height, ctx, getContext: () => ctx };
+      canvases.push(canvas);
+      return canvas;
+    },
+    // jsdom 的 Blob 没有 arrayBuffer
+    encode: vi.fn(async () => ({ type: 'image/jpeg', arrayBuffer: async () => bytes('abc') }))
+  };
+  return { canvases, backend: backend as unknown as CanvasBackend };
+};
+
+describe('ImagePipeline', () => {
+  it('应该按比例缩小到最大尺寸以内且不放大', () => {
+    expect(fitImageSize(4000, 3000, 1024, 1024)).toEqual({ width: 1024, height: 768 });
+    expect(fitImageSize(800, 600, 1024, 1024)).toEqual({ width: 800, height: 600 });
+    expect(fitImageSize(5000, 1, 100, 100)).toEqual({ width: 100, height: 1 });
+  });
+
+  it('大幅缩小时应该逐级减半', () => {
+    expect(getDownscaleSteps(4000, 3000, 1000, 750)).toEqual([
+      { width: 2000, height: 1500 },
+      { width: 1000, height: 750 }
+    ]);
+    expect(getDownscaleSteps(4000, 3000, 900, 675)).toEqual([
+      { width: 2000, height: 1500 },
+      { width: 1000, height: 750 },
+      { width: 900, height: 675 }
+    ]);
+    expect(getDownscaleSteps(800, 600, 800, 600)).toEqual([{ width: 800, height: 600 }]);
+  });
+
+  it('应该转换为 Base64', () => {
+    expect(bufferToBase64(bytes('Man'))).toBe('TWFu');
+    expect(bufferToBase64(new ArrayBuffer(0))).toBe('');
+  });
+
+  it('应该先摆正再逐级缩小并编码', async () => {
+    const { canvases, backend } = createBackend();
+    const bitmap = { width: 4000, height: 1000, close: vi.fn() };
+
+    const result = await runImagePipeline(bitmap as unknown as ImageBitmap, {
+      orientation: 6,
+      maxWidth: 200,
+      format: 'jpeg',
+      quality: 0.8,
+      base64: true
+    }, backend);
+
+    // 旋转 90 度后为 1000x4000
+    expect(canvases.map(({ width, height }) => [width, height])).toEqual([[500, 2000], [250, 1000], [200, 800]]);
+    expect(canvases[0].ctx.transform).toHaveBeenCalledWith(0, 1, -1, 0, 1000, 0);
+    expect(canvases[0].ctx.drawImage).toHaveBeenCalledWith(bitmap, 0, 0);
+    expect(canvases[1].ctx.drawImage).toHaveBeenCalledWith(canvases[0], 0, 0, 250, 1000);
+    expect(backend.encode).toHaveBeenCalledWith(canvases[2], 'image/jpeg', 0.8);
+
+    expect(result).toMatchObject({ width: 200, height: 800, mimeType: 'image/jpeg', base64: 'YWJj' });
+    expect(result.hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(bitmap.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * ImageProcessor 单元测试
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ImageProcessor } from '../ImageProcessor';
+import type { ImagePipelineResult, ImageWorkerRequest, ImageWorkerResponse } from '../ImagePipeline';
+
+class FakeWorker extends EventTarget {
+  messages: Array<{ request: ImageWorkerRequest; transfer: Transferable[] }> = [];
+  terminated = false;
+
+  postMessage(request: ImageWorkerRequest, transfer: Transferable[]): void {
+    this.messages.push({ request, transfer });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(response: ImageWorkerResponse): void {
+    this.dispatchEvent(new MessageEvent('message', { data: response }));
+  }
+
+  crash(message: string): void {
+    this.dispatchEvent(new ErrorEvent('error', { message }));
+  }
+}
+
+const result: ImagePipelineResult = {
+  buffer: new ArrayBuffer(4),
+  mimeType: 'image/jpeg',
+  width: 10,
+  height: 10,
+  hash: 'abc'
+};
+
+// 模拟支持 OffscreenCanvas 的环境
+const createProcessor = () => {
+  vi.stubGlobal('Worker', FakeWorker);
+  vi.stubGlobal('OffscreenCanvas', class {});
+  const worker = new FakeWorker();
+  const createWorker = vi.fn(() => worker as unknown as Worker);
+  return { worker, createWorker, processor: new ImageProcessor({ createWorker }) };
+};
+
+describe('ImageProcessor', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('不支持 OffscreenCanvas 时不启动 Worker', () => {
+    const createWorker = vi.fn();
+    const processor = new ImageProcessor({ createWorker });
+
+    expect(processor.isUsingWorker()).toBe(false);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  it('应该在 Worker 中处理并按请求 ID 返回结果', async () => {
+    const { worker, createWorker, processor } = createProcessor();
+    const buffer = new ArrayBuffer(8);
+
+    const first = processor.process(buffer, { maxWidth: 100 });
+    const second = processor.process(new Blob(['x']));
+    expect(createWorker).toHaveBeenCalledTimes(1);
+
+    // ArrayBuffer 包装为 Blob 发送，调用方的缓冲区保持可用
+    const [{ request, transfer }] = worker.messages;
+    expect(request.source).toBeInstanceOf(Blob);
+    expect(request.options).toEqual({ maxWidth: 100 });
+    expect(transfer).toEqual([]);
+    expect(buffer.byteLength).toBe(8);
+
+    worker.reply({ id: worker.messages[1].request.id, error: 'decode failed' });
+    worker.reply({ id: request.id, result });
+
+    await expect(first).resolves.toBe(result);
+    await expect(second).rejects.toThrow('decode failed');
+  });
+
+  it('Worker 出错时未完成的请求失败，之后不再使用 Worker', async () => {
+    const { worker, processor } = createProcessor();
+
+    const pending = processor.process(new Blob(['x']));
+    worker.crash('script error');
+
+    await expect(pending).rejects.toThrow('script error');
+    expect(worker.terminated).toBe(true);
+    expect(processor.isUsingWorker()).toBe(false);
+  });
+
+  it('销毁时结束 Worker 和未完成的请求', async () => {
+    const { worker, processor } = createProcessor();
+
+    const pending = processor.process(new Blob(['x']));
+    processor.destroy();
+
+    await expect(pending).rejects.toThrow('Image processor destroyed');
+    expect(worker.terminated).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * SeededRandom 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../SeededRandom';
+
+const take = (random: SeededRandom, count: number) =>
+  Array.from({ length: count }, () => random.next());
+
+describe('SeededRandom', () => {
+  it('相同种子应该产生相同序列', () => {
+    expect(take(new SeededRandom(42), 20)).toEqual(take(new SeededRandom(42), 20));
+  });
+
+  it('不同种子应该产生不同序列', () => {
+    expect(take(new SeededRandom(1), 5)).not.toEqual(take(new SeededRandom(2), 5));
+  });
+
+  it('生成的数应该在 [0, 1) 区间内', () => {
+    const values = take(new SeededRandom(7), 1000);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('重新设置种子应该从头开始生成', () => {
+    const random = new SeededRandom(99);
+    const first = take(random, 10);
+
+    random.setSeed(99);
+
+    expect(take(random, 10)).toEqual(first);
+    expect(random.getSeed()).toBe(99);
+  });
+
+  it('asSource 应该共享生成器状态', () => {
+    const random = new SeededRandom(5);
+    const source = random.asSource();
+    const expected = take(new SeededRandom(5), 2);
+
+    expect([source(), random.next()]).toEqual(expected);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * VirtualClock 单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { VirtualClock } from '../VirtualClock';
+
+describe('VirtualClock', () => {
+  it('时间只在 advance 时前进', () => {
+    const clock = new VirtualClock({ startTime: 100 });
+    expect(clock.now()).toBe(100);
+
+    clock.advance(250);
+    expect(clock.now()).toBe(350);
+  });
+
+  it('定时器应该按触发时间顺序执行', () => {
+    const clock = new VirtualClock();
+    const order: string[] = [];
+
+    clock.setTimeout(() => order.push(`b@${clock.now()}`), 200);
+    clock.setTimeout(() => order.push(`a@${clock.now()}`), 100);
+    clock.setTimeout(() => order.push(`c@${clock.now()}`), 200);
+
+    clock.advance(150);
+    expect(order).toEqual(['a@100']);
+
+    clock.advance(100);
+    expect(order).toEqual(['a@100', 'b@200', 'c@200']);
+    expect(clock.hasPendingTimers()).toBe(false);
+  });
+
+  it('清除的定时器不应该执行', () => {
+    const clock = new VirtualClock();
+    const callback = vi.fn();
+
+    const id = clock.setTimeout(callback, 50);
+    clock.clearTimeout(id);
+    clock.advance(100);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('每帧只触发一次帧回调，回调中请求的帧在下一帧触发', () => {
+    const clock = new VirtualClock({ frameInterval: 10 });
+    const times: number[] = [];
+    const loop = (time: number) => {
+      times.push(time);
+      clock.requestFrame(loop);
+    };
+
+    clock.requestFrame(loop);
+    clock.advance(35);
+    expect(times).toEqual([10, 20, 30]);
+
+    clock.advanceFrames(2);
+    expect(times).toEqual([10, 20, 30, 40, 50]);
+    expect(clock.now()).toBe(50);
+  });
+
+  it('取消的帧不应该触发', () => {
+    const clock = new VirtualClock({ frameInterval: 10 });
+    const callback = vi.fn();
+
+    clock.cancelFrame(clock.requestFrame(callback));
+    clock.advance(20);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('切换可见性时应该通知监听器', () => {
+    const clock = new VirtualClock();
+    const listener = vi.fn();
+    const unsubscribe = clock.onVisibilityChange(listener);
+
+    clock.setHidden(true);
+    clock.setHidden(true);
+    expect(clock.isHidden()).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    clock.setHidden(false);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('模拟失去焦点时应该带上原因通知监听器', () => {
+    const clock = new VirtualClock();
+    const listener = vi.fn();
+    const unsubscribe = clock.onFocusLoss(listener);
+
+    clock.loseFocus('pagehide');
+    expect(listener).toHaveBeenCalledWith('pagehide');
+
+    unsubscribe();
+    clock.loseFocus();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * 图片处理 Worker
+ * 在后台线程中用 OffscreenCanvas 执行图片处理流水线，编码结果的缓冲区以 transferable 方式传回主线程
+ */
+
+import {
+  offscreenCanvasBackend,
+  runImagePipeline,
+  type ImageWorkerRequest,
+  type ImageWorkerResponse
+} from '@/utils/ImagePipeline';
+
+self.addEventListener('message', async (event: MessageEvent<ImageWorkerRequest>) => {
+  const { id, source, options } = event.data;
+
+  try {
+    const result = await runImagePipeline(source, options, offscreenCanvasBackend);
+    const response: ImageWorkerResponse = { id, result };
+    self.postMessage(response, { transfer: [result.buffer] });
+  } catch (error) {
+    const response: ImageWorkerResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+});